@@ -1,10 +1,34 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { QuizItem, QuizLevel, GeneratorConfig } from './types';
-import { generateQuizBatch } from './geminiService';
-import { parseCSV, toCSV, downloadCSV, isDuplicate, shuffleArray } from './utils';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { QuizItem, QuizLevel, Language, LocalizedText, GeneratorConfig, GenerationResult, CSVParseResult, QuarantinedItem, AnswerRecord, ReviewState, SessionType, SessionRecord, ItemReport, ReportReason, StoredData, BackupArchive, Snapshot, MessageRef, ExamSession, ProviderId, ProviderPreferences, QuizFilter, GeneratorOptions, QuestionStyle, SiteScope, ValidationIssue, GenerationJob, HeritageRegion, HeritageSite, Profile, QuizSet, WorksheetOptions } from './types';
+import { generateQuizBatch, regenerateQuizItem, DEFAULT_GENERATOR_OPTIONS, SCOPE_LABELS, QUESTION_STYLES } from './quizGenerator';
+import { factCheckBatch } from './factCheck';
+import { ApiError, RateLimitedError, OverloadedError, InvalidKeyError, CancelledError, MalformedResponseError, SafetyBlockedError, classifyError, describeError } from './apiErrors';
+import { rateLimiter, AcquireOptions } from './rateLimiter';
+import { PROVIDERS, DEFAULT_PROVIDER_PREFERENCES, getProvider, resolveProviderSettings, resolveFactCheckSettings } from './providers';
+import { downloadFile, shuffleArray, generateId, filterQuizItems, EMPTY_FILTER } from './utils';
+import { correctIdxDistribution, maxShare, rebalanceCorrectIdx } from './balance';
+import { isDuplicate, partitionDuplicates, partitionIncoming, findDuplicateClusters } from './duplicates';
+import { validateQuizItem, validateQuizItems } from './validation';
+import { QUIZ_FORMATS, QuizFormatId, detectFormat } from './formats';
+import { HERITAGE_SITES, REGION_LABELS, getSite, countryNames, siteName } from './heritageSites';
+import { matchSites, linkMissingSites } from './siteMatcher';
+import { COVERAGE_THEMES, REGIONS, REGION_WEIGHTS, JAPAN_SHARE_TARGETS, computeCoverage, planNextFocus } from './coverage';
+import { itemRepository, quarantineRepository, answerRepository, reviewRepository, jobRepository, sessionRepository, snapshotRepository, profileRepository, replaceAllData } from './storage';
+import { createBackup, createProfileBackup, parseBackup, BackupError, diffBackup, mergeStoredData, createSnapshot, countRecords, upgradeStoredData, StoreDiff, STORE_LABELS, MAX_SNAPSHOTS } from './backup';
+import { createJob, appendLog, consecutiveFailures, consecutiveEmptyBatches, summarizeLog, restoreJobs, isJobActive, JOB_STATUS_LABELS, MAX_CONSECUTIVE_FAILURES, MAX_EMPTY_BATCHES } from './jobs';
+import { scheduleReview, selectReviewItems, countDue } from './srs';
+import { EXAM_CONFIGS, createExamSession, gradeExam, formatRemaining } from './exam';
+import { computeStats, accuracy, Tally } from './stats';
+import { REPORT_REASONS, playableItems, reportedItems, withoutReport } from './reports';
+import { createTranslator, levelLabel, localized, localizedMessage, translateMessage, LANGUAGE_LABELS, LOCALES, MessageKey } from './i18n';
+import { createQuizSet, encodeQuizSet, decodeQuizSet, quizSetUrl, readQuizSetFragment, decodeQuizSetFragment, playableSetItems, QUIZ_SET_EXTENSION, MAX_SHARE_URL_LENGTH } from './quizSets';
+import { buildWorksheets, renderWorksheetHtml, randomSeed, DEFAULT_WORKSHEET_OPTIONS, MAX_WORKSHEET_COPIES } from './worksheet';
+import { DEFAULT_PROFILE_ID, ACTIVE_PROFILE_KEY, ProfilePreferenceKey, profileKey, createProfile, createDefaultProfile, clearProfilePreferences } from './profiles';
 
 // --- Constants ---
 const DEFAULT_SESSION_COUNT = 10;
+const BROWSER_PAGE_SIZE = 20;
+const STATS_TREND_SESSIONS = 20;
 const MAX_QUESTIONS_PER_LEVEL = 2000;
 
 // Target goals per level as requested
@@ -15,8 +39,82 @@ const LEVEL_TARGETS: Record<string, number> = {
   [QuizLevel.LEVEL_1]: 1000,
 };
 
-// Helper for delay
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const SESSION_TYPE_BADGES: Record<SessionType, { label: LocalizedText, className: string }> = {
+  new: { label: { ja: '新しい問題', en: 'New Challenge' }, className: 'bg-blue-100 text-blue-700' },
+  review: { label: { ja: '復習モード', en: 'Review Mode' }, className: 'bg-emerald-100 text-emerald-700' },
+  spaced: { label: { ja: '間隔反復', en: 'Spaced Review' }, className: 'bg-purple-100 text-purple-700' },
+  exam: { label: { ja: '模擬試験', en: 'Mock Exam' }, className: 'bg-amber-100 text-amber-700' },
+  shared: { label: { ja: '共有クイズ', en: 'Shared Quiz' }, className: 'bg-pink-100 text-pink-700' },
+};
+
+const QUARANTINE_SOURCE_LABELS: Record<string, LocalizedText> = {
+  generator: { ja: 'AI生成', en: 'AI generated' },
+  csv: { ja: 'CSV', en: 'CSV' },
+  import: { ja: 'インポート', en: 'Import' },
+  storage: { ja: '保存データ', en: 'Saved data' },
+  factcheck: { ja: 'ファクトチェック', en: 'Fact check' },
+};
+
+// Load saved questions, passing them through the validator so that data saved
+// by older versions is repaired or moved to the review list
+const loadStoredData = async (): Promise<StoredData> => {
+  const [savedProfiles, raw, savedQuarantine, reviews, savedJobs, answers, sessions] = await Promise.all([
+    profileRepository.getAll(),
+    itemRepository.getAll(),
+    quarantineRepository.getAll(),
+    reviewRepository.getAll(),
+    jobRepository.getAll(),
+    answerRepository.getAll(),
+    sessionRepository.getAll(),
+  ]);
+  // The default profile always exists; it owns the history recorded before profiles were added
+  const profiles = [...savedProfiles];
+  if (!profiles.some(p => p.id === DEFAULT_PROFILE_ID)) {
+    const profile = createDefaultProfile();
+    await profileRepository.putMany([profile]);
+    profiles.unshift(profile);
+  }
+  profiles.sort((a, b) => a.createdAt - b.createdAt);
+
+  // Jobs interrupted by a reload come back paused
+  const jobs = restoreJobs(savedJobs);
+  await jobRepository.putMany(jobs.filter(job => !savedJobs.includes(job)));
+
+  const { valid, repaired, quarantined } = validateQuizItems(raw, 'storage');
+
+  // Questions saved before site_ids existed are linked to the heritage catalog once
+  const items = linkMissingSites(valid);
+  const changed = items.filter((item, i) => item !== valid[i] || repaired.includes(item));
+
+  // Write repairs back and move broken items out of the question store
+  await itemRepository.putMany(changed);
+  if (quarantined.length > 0) {
+    await quarantineRepository.putMany(quarantined);
+    await itemRepository.deleteMany(quarantined.map(q => q.item.id));
+  }
+  return { profiles, items, quarantine: [...savedQuarantine, ...quarantined], answers, reviews, jobs, sessions };
+};
+
+// Stable across pruning and dismissing other clusters; changes when the cluster itself does
+const clusterId = (cluster: QuizItem[]) => cluster.map(i => i.id).join('-');
+
+// Preferences saved on this device for one profile
+const readPreferences = (profileId: string) => {
+  const read = (key: ProfilePreferenceKey) => localStorage.getItem(profileKey(key, profileId));
+  let providerPrefs = DEFAULT_PROVIDER_PREFERENCES;
+  try {
+    const saved = read('wh_provider_settings');
+    if (saved) providerPrefs = { ...DEFAULT_PROVIDER_PREFERENCES, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to load provider settings", e);
+  }
+  return {
+    uiLanguage: (read('wh_ui_language') === 'en' ? 'en' : 'ja') as Language,
+    apiKey: read('gemini_user_api_key') || '',
+    providerPrefs,
+    includeReported: read('wh_include_reported') === 'true',
+  };
+};
 
 // --- Components ---
 
@@ -39,36 +137,132 @@ const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & { variant
   );
 };
 
+// Charts are plain SVG so the stats view works offline and without a chart library
+
+const DailyBarChart: React.FC<{ days: { day: string, answered: number, correct: number }[], label: string, describe: (day: string, answered: number, correct: number) => string }> = ({ days, label, describe }) => {
+  const max = Math.max(1, ...days.map(d => d.answered));
+  const width = 100 / days.length;
+  return (
+    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-32" role="img" aria-label={label}>
+      {days.map((d, i) => {
+        const total = (d.answered / max) * 38;
+        const correct = (d.correct / max) * 38;
+        return (
+          <g key={d.day}>
+            <title>{describe(d.day, d.answered, d.correct)}</title>
+            <rect x={i * width + width * 0.15} y={40 - total} width={width * 0.7} height={total} className="fill-slate-200" />
+            <rect x={i * width + width * 0.15} y={40 - correct} width={width * 0.7} height={correct} className="fill-emerald-400" />
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const TrendChart: React.FC<{ series: { label: string, color: string, points: number[] }[], label: string }> = ({ series, label }) => {
+  const length = Math.max(2, ...series.map(s => s.points.length));
+  const x = (i: number) => (i / (length - 1)) * 100;
+  const y = (v: number) => 38 - v * 36;
+  return (
+    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-40" role="img" aria-label={label}>
+      {[0, 0.5, 1].map(v => (
+        <line key={v} x1={0} x2={100} y1={y(v)} y2={y(v)} className="stroke-slate-200" strokeWidth={0.3} vectorEffect="non-scaling-stroke" />
+      ))}
+      {series.filter(s => s.points.length > 0).map(s => (
+        <polyline
+          key={s.label}
+          // A single session is drawn as a short flat line
+          points={(s.points.length === 1 ? [s.points[0], s.points[0]] : s.points).map((v, i) => `${x(i)},${y(v)}`).join(' ')}
+          fill="none"
+          stroke={s.color}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        >
+          <title>{s.label}</title>
+        </polyline>
+      ))}
+    </svg>
+  );
+};
+
+// Chromium's install prompt event (not in the DOM typings)
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+// A generated batch after the fact check; `factCheckError` is set when the check itself failed
+type CheckedBatch = GenerationResult & { factCheckError?: ApiError };
+
 // --- Main App ---
 
 export default function App() {
-  // Database: All accumulated questions
-  const [dbItems, setDbItems] = useState<QuizItem[]>(() => {
-    try {
-      const saved = localStorage.getItem('wh_quiz_data');
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) {
-      console.error("Failed to load data from localStorage", e);
-      return [];
-    }
-  });
+  // Database: All accumulated questions (persisted in IndexedDB via storage.ts)
+  const [dbItems, setDbItems] = useState<QuizItem[]>([]);
+  const [isDbLoading, setIsDbLoading] = useState(true);
+  const [storageError, setStorageError] = useState<MessageKey | null>(null);
+
+  // Learner profiles: the question bank is shared, history and preferences are per profile
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState(() => localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_ID);
+  const [newProfileName, setNewProfileName] = useState('');
+
+  // Interface language; the language of generated questions is chosen separately (genOptions.language)
+  const [uiLanguage, setUiLanguage] = useState<Language>(() => readPreferences(activeProfileId).uiLanguage);
+  const t = useMemo(() => createTranslator(uiLanguage), [uiLanguage]);
+
+  // Items that failed validation, awaiting review in the manage view
+  const [quarantine, setQuarantine] = useState<QuarantinedItem[]>([]);
+
+  // Last persisted snapshots, used to write only the items that changed
+  const persistedItemsRef = useRef<QuizItem[] | null>(null);
+  const persistedQuarantineRef = useRef<QuarantinedItem[] | null>(null);
 
   // API Key Management
-  const [apiKey, setApiKey] = useState(() => {
-    return localStorage.getItem('gemini_user_api_key') || '';
-  });
+  const [apiKey, setApiKey] = useState(() => readPreferences(activeProfileId).apiKey);
   const [tempKeyInput, setTempKeyInput] = useState('');
 
+  // Generation backend (provider, model, self-hosted server)
+  const [providerPrefs, setProviderPrefs] = useState<ProviderPreferences>(() => readPreferences(activeProfileId).providerPrefs);
+  const [tempPrefs, setTempPrefs] = useState<ProviderPreferences>(providerPrefs);
+  const activeProvider = getProvider(providerPrefs.providerId);
+  const needsApiKey = activeProvider.requiresApiKey && !apiKey;
+
   // Session: Current questions being played
   const [sessionItems, setSessionItems] = useState<QuizItem[]>([]);
-  const [sessionType, setSessionType] = useState<'new' | 'review'>('new');
+  const [sessionType, setSessionType] = useState<SessionType>('new');
+  // Display order of the options per question (indexes into option1..4), reshuffled every session
+  // so the position of the correct answer cannot be memorized
+  const optionOrders = useMemo(() => sessionItems.map(() => shuffleArray([0, 1, 2, 3])), [sessionItems]);
+
+  // Spaced repetition schedule, answer history and finished sessions of every profile
+  const [reviews, setReviews] = useState<ReviewState[]>([]);
+  const [answers, setAnswers] = useState<AnswerRecord[]>([]);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  // The active profile's share: review state per QuizItem.id, and the history shown in the stats view
+  const profileReviews = useMemo(
+    () => Object.fromEntries(reviews.filter(r => r.profileId === activeProfileId).map(r => [r.itemId, r])) as Record<string, ReviewState>,
+    [reviews, activeProfileId]
+  );
+  const profileAnswers = useMemo(() => answers.filter(a => a.profileId === activeProfileId), [answers, activeProfileId]);
+  const profileSessions = useMemo(() => sessions.filter(s => s.profileId === activeProfileId), [sessions, activeProfileId]);
+  // The session being played; answers are tagged with its id
+  const activeSessionRef = useRef<{ id: string, answers: AnswerRecord[] } | null>(null);
   
-  const [view, setView] = useState<'home' | 'play' | 'manage' | 'settings'>('home');
+  const [view, setView] = useState<'home' | 'play' | 'manage' | 'settings' | 'jobs' | 'stats'>('home');
   
+  // Connectivity: generation needs the network; play and review only use the local DB
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [installPrompt, setInstallPrompt] = useState<BeforeInstallPromptEvent | null>(null);
+
   // Generation States
   const [isGenerating, setIsGenerating] = useState(false);
   const [loadingLevel, setLoadingLevel] = useState<QuizLevel | null>(null);
   const [genCount, setGenCount] = useState(10);
+  const [genTopic, setGenTopic] = useState('');
+  const [genOptions, setGenOptions] = useState<GeneratorOptions>(() => ({ ...DEFAULT_GENERATOR_OPTIONS, language: uiLanguage }));
+  // Questions in the selected question language: home counts, play modes and job targets use these
+  const languageItems = useMemo(() => dbItems.filter(i => i.language === genOptions.language), [dbItems, genOptions.language]);
   
   // Auto Generation States
   const stopAutoRef = useRef(false);
@@ -80,46 +274,281 @@ export default function App() {
     isStopping: boolean 
   } | null>(null);
 
+  // Generation Job Queue (persisted, resumable after reload)
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const jobsRef = useRef<GenerationJob[]>([]);
+  const queueRunningRef = useRef(false);
+  const dbItemsRef = useRef<QuizItem[]>([]);
+  // Set while offline, so jobs queued in the meantime start when the connection returns
+  const wentOfflineRef = useRef(!navigator.onLine);
+  const [jobForm, setJobForm] = useState<{ level: QuizLevel, target: number, topic: string }>({
+    level: QuizLevel.LEVEL_3, target: LEVEL_TARGETS[QuizLevel.LEVEL_3], topic: '',
+  });
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+
   // Play State
   const [currentQIndex, setCurrentQIndex] = useState(0);
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [score, setScore] = useState(0);
   const [isConfirmingExit, setIsConfirmingExit] = useState(false);
+  const [reportDraft, setReportDraft] = useState<{ reason: ReportReason, note: string } | null>(null);
+  const questionShownAtRef = useRef(Date.now());
+
+  // Mock Exam State
+  const [exam, setExam] = useState<ExamSession | null>(null);
+  const [clock, setClock] = useState(Date.now());
+
+  // Question Browser State
+  const [browserFilter, setBrowserFilter] = useState<QuizFilter>(EMPTY_FILTER);
+  const [browserPage, setBrowserPage] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkLevel, setBulkLevel] = useState<QuizLevel>(QuizLevel.LEVEL_3);
+  const [editDraft, setEditDraft] = useState<{ item: QuizItem, origin: 'db' | 'quarantine' | 'report', issues: ValidationIssue[] } | null>(null);
+
+  // Reported questions (triage list in the manage view)
+  const [includeReported, setIncludeReported] = useState(() => readPreferences(activeProfileId).includeReported);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+
+  // Duplicate Review State (null until a scan has run)
+  const [duplicateClusters, setDuplicateClusters] = useState<QuizItem[][] | null>(null);
+  const [isScanningDuplicates, setIsScanningDuplicates] = useState(false);
+  const [clusterKeep, setClusterKeep] = useState<Record<string, string>>({}); // Cluster id -> question to keep
+
+  // CSV Import: parsed file awaiting confirmation
+  // Backup restore awaiting confirmation, and automatic snapshots for undo
+  const [backupPreview, setBackupPreview] = useState<{ fileName: string, archive: BackupArchive, diff: Record<keyof StoredData, StoreDiff> } | null>(null);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [undoSnapshot, setUndoSnapshot] = useState<Snapshot | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Quiz set being shared, and a received one that can be added to the DB
+  const [sharePanel, setSharePanel] = useState<{ set: QuizSet, url: string | null } | null>(null);
+  const [incomingSet, setIncomingSet] = useState<{ items: QuizItem[], skipped: number } | null>(null);
+  // Opening your own link again must not offer copies of questions you already have
+  const incomingNewItems = useMemo(() => incomingSet ? partitionIncoming(incomingSet.items, dbItems).unique : [], [incomingSet, dbItems]);
+
+  const [importPreview, setImportPreview] = useState<{ fileName: string, format: QuizFormatId, result: CSVParseResult, duplicateCount: number } | null>(null);
+
+  // Export: format plus the level subset and filters to include
+  const [exportFormat, setExportFormat] = useState<QuizFormatId>('csv');
+  const [exportLevels, setExportLevels] = useState<QuizLevel[]>(Object.values(QuizLevel));
+  const [exportFilter, setExportFilter] = useState<QuizFilter>(EMPTY_FILTER);
+
+  // Printable worksheets, drawn from the export selection
+  const [worksheetOptions, setWorksheetOptions] = useState<WorksheetOptions>(() => ({ ...DEFAULT_WORKSHEET_OPTIONS, seed: randomSeed() }));
+
+  // Put loaded data into state; the persisted refs keep the sync effects from writing it straight back
+  const applyStoredData = (data: StoredData) => {
+    jobsRef.current = data.jobs;
+    setJobs(data.jobs);
+    persistedItemsRef.current = data.items;
+    persistedQuarantineRef.current = data.quarantine;
+    setDbItems(data.items);
+    setQuarantine(data.quarantine);
+    setReviews(data.reviews);
+    setAnswers(data.answers);
+    setSessions(data.sessions);
+    setProfiles(data.profiles);
+    // A restore can drop the profile in use
+    if (!data.profiles.some(p => p.id === activeProfileId)) applyProfile(DEFAULT_PROFILE_ID);
+  };
+
+  // Make a profile active and load its preferences
+  const applyProfile = (profileId: string) => {
+    const prefs = readPreferences(profileId);
+    setActiveProfileId(profileId);
+    localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+    setUiLanguage(prefs.uiLanguage);
+    setApiKey(prefs.apiKey);
+    setProviderPrefs(prefs.providerPrefs);
+    setIncludeReported(prefs.includeReported);
+  };
 
-  // Auto-save DB to localStorage (Backup for manual changes)
+  // Load DB (runs the one-time localStorage migration on first launch)
   useEffect(() => {
-    try {
-      localStorage.setItem('wh_quiz_data', JSON.stringify(dbItems));
-    } catch (e) {
-      console.error("Failed to save data to localStorage.", e);
+    let cancelled = false;
+    Promise.all([loadStoredData(), snapshotRepository.getAll()])
+      .then(([data, snapshots]) => {
+        if (cancelled) return;
+        applyStoredData(data);
+        setSnapshots(snapshots.sort((a, b) => a.createdAt - b.createdAt));
+      })
+      .catch(e => {
+        console.error("Failed to load data from IndexedDB", e);
+        if (!cancelled) setStorageError('storage.loadFailed');
+      })
+      .finally(() => {
+        if (!cancelled) setIsDbLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = uiLanguage;
+    localStorage.setItem(profileKey('wh_ui_language', activeProfileId), uiLanguage);
+  }, [uiLanguage, activeProfileId]);
+
+  // Open a quiz set passed in the URL once the DB is loaded, since the import offer checks it for duplicates
+  useEffect(() => {
+    if (isDbLoading) return;
+    const openFromHash = () => {
+      const payload = readQuizSetFragment(window.location.hash);
+      if (!payload) return;
+      // Drop the fragment so a reload does not start the set again
+      history.replaceState(null, '', window.location.pathname + window.location.search);
+      decodeQuizSetFragment(payload).then(handleOpenQuizSet).catch(handleQuizSetError);
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, [isDbLoading]);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    const handleInstallPrompt = (e: Event) => {
+      e.preventDefault();
+      setInstallPrompt(e as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => setInstallPrompt(null);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    window.addEventListener('beforeinstallprompt', handleInstallPrompt);
+    window.addEventListener('appinstalled', handleInstalled);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+      window.removeEventListener('beforeinstallprompt', handleInstallPrompt);
+      window.removeEventListener('appinstalled', handleInstalled);
+    };
+  }, []);
+
+  // Back online: run whatever was queued while offline
+  useEffect(() => {
+    if (!isOnline) {
+      wentOfflineRef.current = true;
+      return;
     }
+    if (wentOfflineRef.current && jobsRef.current.some(j => j.status === 'queued')) {
+      runJobQueue();
+    }
+    wentOfflineRef.current = false;
+  }, [isOnline]);
+
+  // Latest DB for the job runner, which outlives individual renders
+  useEffect(() => {
+    dbItemsRef.current = dbItems;
+  }, [dbItems]);
+
+  // Persist changed items incrementally
+  useEffect(() => {
+    const prev = persistedItemsRef.current;
+    if (prev === null || prev === dbItems) return;
+    persistedItemsRef.current = dbItems;
+    itemRepository.sync(prev, dbItems).catch(e => {
+      console.error("Failed to save data to IndexedDB.", e);
+      setStorageError('storage.itemsFailed');
+    });
   }, [dbItems]);
 
-  // Init temp key input when entering settings
+  useEffect(() => {
+    const prev = persistedQuarantineRef.current;
+    if (prev === null || prev === quarantine) return;
+    persistedQuarantineRef.current = quarantine;
+    quarantineRepository.sync(prev, quarantine).catch(e => {
+      console.error("Failed to save quarantine to IndexedDB.", e);
+      setStorageError('storage.quarantineFailed');
+    });
+  }, [quarantine]);
+
+  // Start the answer timer (and close any open report form) whenever a new question is shown
+  useEffect(() => {
+    if (view === 'play') {
+      questionShownAtRef.current = Date.now();
+    }
+    setReportDraft(null);
+  }, [view, currentQIndex, sessionItems]);
+
+  // Open a session record when play starts and save it when the player leaves,
+  // whether the session was finished or abandoned part-way
+  useEffect(() => {
+    if (view !== 'play') return;
+    const session = { id: generateId(), answers: [] as AnswerRecord[] };
+    const startedAt = Date.now();
+    activeSessionRef.current = session;
+    return () => {
+      activeSessionRef.current = null;
+      const answered = session.answers.length;
+      if (answered === 0) return;
+      const levels = new Set(sessionItems.map(i => i.level));
+      const record: SessionRecord = {
+        id: session.id,
+        profileId: activeProfileId,
+        type: sessionType,
+        level: levels.size === 1 ? [...levels][0] as QuizLevel : null,
+        startedAt,
+        finishedAt: Date.now(),
+        total: sessionItems.length,
+        answered,
+        correct: session.answers.filter(a => a.correct).length,
+      };
+      setSessions(prev => [...prev, record]);
+      sessionRepository.putMany([record]).catch(e => {
+        console.error("Failed to save session result.", e);
+        setStorageError('storage.sessionFailed');
+      });
+    };
+  }, [view, sessionItems]);
+
+  // Exam countdown
+  const isExamRunning = view === 'play' && sessionType === 'exam' && !!exam && exam.finishedAt === null;
+  useEffect(() => {
+    if (!isExamRunning) return;
+    const timer = setInterval(() => setClock(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isExamRunning]);
+
+  useEffect(() => {
+    if (isExamRunning && exam && clock >= exam.deadline) {
+      handleSubmitExam();
+    }
+  }, [clock, isExamRunning]);
+
+  // Init temp inputs when entering settings
   useEffect(() => {
     if (view === 'settings') {
       setTempKeyInput(apiKey);
+      setTempPrefs(providerPrefs);
     }
-  }, [view, apiKey]);
+  }, [view, apiKey, providerPrefs]);
 
   // --- Logic ---
 
-  const handleSaveApiKey = () => {
+  const handleSaveSettings = () => {
     const cleanedKey = tempKeyInput.trim();
-    if (!cleanedKey) {
-      alert("APIキーを入力してください。");
+    const provider = getProvider(tempPrefs.providerId);
+    if (provider.id === 'gemini' && !cleanedKey) {
+      alert(t('settings.apiKeyRequired'));
       return;
     }
-    setApiKey(cleanedKey);
-    localStorage.setItem('gemini_user_api_key', cleanedKey);
-    alert("APIキーを保存しました！");
+    if (provider.id === 'openai' && !tempPrefs.baseUrl.trim()) {
+      alert(t('settings.serverUrlRequired'));
+      return;
+    }
+    if (cleanedKey) {
+      setApiKey(cleanedKey);
+      localStorage.setItem(profileKey('gemini_user_api_key', activeProfileId), cleanedKey);
+    }
+    const prefs = { ...tempPrefs, baseUrl: tempPrefs.baseUrl.trim(), serverApiKey: tempPrefs.serverApiKey.trim(), factCheckModel: tempPrefs.factCheckModel.trim() };
+    setProviderPrefs(prefs);
+    localStorage.setItem(profileKey('wh_provider_settings', activeProfileId), JSON.stringify(prefs));
+    alert(t('settings.saved'));
     setView('home');
   };
 
   const checkApiKey = () => {
-    if (!apiKey) {
-      if (window.confirm("問題を作成するにはGemini APIキーが必要です。\n設定画面でキーを入力しますか？")) {
+    if (needsApiKey) {
+      if (window.confirm(t('settings.apiKeyPrompt'))) {
         setView('settings');
       }
       return false;
@@ -129,20 +558,36 @@ export default function App() {
 
   const handleError = (e: any) => {
     console.error(e);
-    let msg = e.message || "Unknown error";
-    
-    // Make error messages user friendly
-    if (msg.includes('503') || msg.includes('overloaded') || msg.includes('UNAVAILABLE')) {
-      msg = "アクセスが集中しており、AIモデルが応答しませんでした。\n時間を置いてから再試行してください。";
-    } else if (msg.includes('429') || msg.includes('quota')) {
-      msg = "APIの利用制限（レートリミット）に達しました。\n数分待ってから再度お試しください。";
-    } else if (msg.includes('JSON')) {
-      msg = "AIデータの解析に失敗しました。もう一度試してみてください。";
-    } else if (msg.includes('API Key')) {
-      msg = "APIキーが無効か、設定されていません。";
-    }
+    alert(t('error.occurred', { message: describeError(e, uiLanguage) }));
+  };
+
+  // One generation batch, followed by the fact-check pass when enabled.
+  // Questions the verifier doubts come back with the quarantined items.
+  const generateCheckedBatch = async (config: GeneratorConfig, options: AcquireOptions = {}): Promise<CheckedBatch> =>
+    withFactCheck(await generateQuizBatch(config, resolveProviderSettings(providerPrefs, apiKey), options), options);
 
-    alert("エラーが発生しました:\n" + msg);
+  // Only an unreadable or blocked verifier answer quarantines the batch (reported as `factCheckError`).
+  // Cancellation, key, quota and connection failures are thrown so the job can stop, pause or retry.
+  const withFactCheck = async (result: GenerationResult, options: AcquireOptions = {}): Promise<CheckedBatch> => {
+    if (!providerPrefs.factCheck || result.items.length === 0) return result;
+
+    try {
+      const { passed, flagged } = await factCheckBatch(result.items, resolveFactCheckSettings(providerPrefs, apiKey), options);
+      return { items: passed, quarantined: [...result.quarantined, ...flagged] };
+    } catch (e) {
+      // Keep the generated questions, but unverified ones still need a human look
+      const error = classifyError(e);
+      if (!(error instanceof MalformedResponseError || error instanceof SafetyBlockedError)) throw error;
+      console.error("Fact check failed", error);
+      const now = Date.now();
+      const unverified: QuarantinedItem[] = result.items.map(item => ({
+        item,
+        issues: [{ field: 'factcheck', message: localizedMessage('factCheck.failed', { kind: error.kind }) }],
+        source: 'factcheck',
+        quarantinedAt: now,
+      }));
+      return { items: [], quarantined: [...result.quarantined, ...unverified], factCheckError: error };
+    }
   };
 
   // Mode A: Single Batch Generation
@@ -154,12 +599,20 @@ export default function App() {
     setIsConfirmingExit(false);
 
     try {
-      const config: GeneratorConfig = { level, count: genCount };
-      const newItems = await generateQuizBatch(config, apiKey);
+      const focusTopic = genTopic.trim() || planNextFocus(dbItems, level, genOptions.scope, genOptions.language).focusTopic;
+      const config: GeneratorConfig = { level, count: genCount, focusTopic, ...genOptions };
+      const { items: newItems, quarantined } = await generateCheckedBatch(config);
+      if (quarantined.length > 0) {
+        setQuarantine(prev => [...prev, ...quarantined]);
+      }
+      if (newItems.length === 0) {
+        alert(t('generate.allQuarantined', { count: quarantined.length }));
+        return;
+      }
       
       // Update DB
       setDbItems(prevDb => {
-        const uniqueNewItems = newItems.filter(newItem => !isDuplicate(newItem.question, prevDb));
+        const uniqueNewItems = partitionDuplicates(newItems, prevDb).unique;
         const levelItems = prevDb.filter(i => i.level === level);
         const otherItems = prevDb.filter(i => i.level !== level);
         let mergedLevelItems = [...levelItems, ...uniqueNewItems];
@@ -188,143 +641,175 @@ export default function App() {
     }
   };
 
-  // Mode B: Auto-Fill Generation (Loop)
-  const handleAutoGenerate = async (level: QuizLevel) => {
-    if (isGenerating || !checkApiKey()) return;
-    
-    const target = LEVEL_TARGETS[level] || 300;
-    
-    // Use a local copy of DB to track progress accurately within the loop without waiting for re-renders
-    let localDb = [...dbItems];
-    let currentCount = localDb.filter(i => i.level === level).length;
+  // Mode B: Auto-Fill Generation (persisted job queue)
+  const updateJob = (id: string, update: (job: GenerationJob) => GenerationJob): GenerationJob | null => {
+    const current = jobsRef.current.find(j => j.id === id);
+    if (!current) return null;
+    const next = update(current);
+    jobsRef.current = jobsRef.current.map(j => j.id === id ? next : j);
+    setJobs(jobsRef.current);
+    jobRepository.putMany([next]).catch(e => {
+      console.error("Failed to save generation job.", e);
+      setStorageError('storage.jobFailed');
+    });
+    return next;
+  };
 
-    if (currentCount >= target) {
-      alert(`すでに目標の${target}問に達しています！`);
-      return;
-    }
+  const addJob = (job: GenerationJob) => {
+    jobsRef.current = [...jobsRef.current, job];
+    setJobs(jobsRef.current);
+    jobRepository.putMany([job]).catch(e => {
+      console.error("Failed to save generation job.", e);
+      setStorageError('storage.jobFailed');
+    });
+  };
 
-    if (!window.confirm(`${level}の目標は${target}問です。\n現在${currentCount}問あります。\n\nAIが目標に達するまで連続で生成を開始しますか？\n（途中で「停止」ボタンを押せます）`)) {
-      return;
-    }
+  const removeJobs = (ids: string[]) => {
+    jobsRef.current = jobsRef.current.filter(j => !ids.includes(j.id));
+    setJobs(jobsRef.current);
+    jobRepository.deleteMany(ids).catch(e => console.error("Failed to delete generation job.", e));
+  };
+
+  // Fill one level up to the job's target, logging every batch.
+  // Returns the error when the job cannot continue (invalid key, daily quota), which also halts the queue.
+  const runJob = async (jobId: string): Promise<ApiError | null> => {
+    let job = updateJob(jobId, j => ({ ...j, status: 'running', updatedAt: Date.now() }));
+    if (!job) return null;
+    const { level, target, topic } = job;
+    // Jobs saved before an option existed get its default
+    const options = { ...DEFAULT_GENERATOR_OPTIONS, ...job.options };
+    const settings = resolveProviderSettings(providerPrefs, apiKey);
+    const countLevel = () => dbItemsRef.current.filter(i => i.level === level && i.language === options.language).length;
+    let currentCount = countLevel();
+
+    const setStatus = (status: string) => setAutoProgress(prev => ({
+      level, current: currentCount, target, status, isStopping: prev?.isStopping || false,
+    }));
 
-    setIsGenerating(true);
     setLoadingLevel(level);
-    stopAutoRef.current = false;
-    
-    // Initial status
-    setAutoProgress({ level, current: currentCount, target, status: '準備中...', isStopping: false });
+    setAutoProgress({ level, current: currentCount, target, status: t('jobs.progress.preparing'), isStopping: false });
+
+    // Loop until target reached or stopped. Pacing between batches is left to the rate limiter.
+    while (currentCount < target && !stopAutoRef.current) {
+      // Lost the connection: hand the job back to the queue, which resumes once online
+      if (!navigator.onLine) {
+        updateJob(jobId, j => ({ ...j, status: 'queued', updatedAt: Date.now() }));
+        return null;
+      }
+      // Cap batch size at 10 for better responsiveness and saving frequency
+      const batchSize = Math.min(10, target - currentCount);
+      // Without a user topic, each batch targets the biggest coverage gap in the library so far
+      const plan = topic ? null : planNextFocus(dbItemsRef.current, level, options.scope, options.language);
+      const focus = topic || plan!.label;
+      setStatus(t('jobs.progress.writing', { count: batchSize, focus }));
 
-    try {
-      // Loop until target reached or stopped
-      while (currentCount < target && !stopAutoRef.current) {
-        
-        // 1. Calculate strictly needed count
-        const remaining = target - currentCount;
-        // Cap batch size at 10 for better responsiveness and saving frequency
-        const batchSize = Math.min(10, remaining);
-        
-        if (batchSize <= 0) break;
-
-        // Update Status
-        setAutoProgress(prev => ({ 
-          level, current: currentCount, target, status: `AIが執筆中 (${batchSize}問)...`, isStopping: prev?.isStopping || false 
+      try {
+        const { items: newItems, quarantined, factCheckError } = await generateCheckedBatch(
+          { level, count: batchSize, focusTopic: topic || plan!.focusTopic, ...options },
+          {
+            shouldCancel: () => stopAutoRef.current,
+            onWait: ms => setStatus(ms > 0 ? t('jobs.progress.waiting', { seconds: Math.ceil(ms / 1000) }) : t('jobs.progress.writing', { count: batchSize, focus })),
+          }
+        );
+        if (quarantined.length > 0) {
+          setQuarantine(prev => [...prev, ...quarantined]);
+        }
+
+        setStatus(t('jobs.progress.saving'));
+
+        // Filter near-duplicates against the latest DB (including earlier batches)
+        const { unique, duplicates } = partitionDuplicates(newItems, dbItemsRef.current);
+        if (unique.length > 0) {
+          dbItemsRef.current = [...dbItemsRef.current, ...unique];
+          setDbItems(prev => [...prev, ...unique]);
+        }
+        currentCount = countLevel();
+
+        job = updateJob(jobId, j => appendLog(j, {
+          at: Date.now(), requested: batchSize, added: unique.length, duplicates: duplicates.length, quarantined: quarantined.length, focus,
+          error: factCheckError && `[${factCheckError.kind}] ${factCheckError.message}`,
         }));
-        
-        try {
-          // Generate
-          const newItems = await generateQuizBatch({ level, count: batchSize }, apiKey);
-          
-          if (stopAutoRef.current) break;
-
-          // Update Status
-          setAutoProgress(prev => ({ 
-            level, current: currentCount, target, status: '保存中...', isStopping: prev?.isStopping || false 
+        if (factCheckError && job && consecutiveFailures(job) >= MAX_CONSECUTIVE_FAILURES) {
+          updateJob(jobId, j => ({ ...j, status: 'failed', updatedAt: Date.now() }));
+          return null;
+        }
+        // Without progress the loop would request batches forever
+        if (job && consecutiveEmptyBatches(job) >= MAX_EMPTY_BATCHES) {
+          updateJob(jobId, j => ({
+            ...appendLog(j, { at: Date.now(), requested: 0, added: 0, duplicates: 0, quarantined: 0, note: localizedMessage('jobs.log.noProgress', { count: MAX_EMPTY_BATCHES }) }),
+            status: 'paused',
           }));
+          return null;
+        }
+        setStatus(t('jobs.progress.batchDone'));
 
-          // Filter duplicates against the LOCAL database copy
-          const uniqueItems = newItems.filter(newItem => !isDuplicate(newItem.question, localDb));
-          
-          if (uniqueItems.length > 0) {
-            // Append to local DB copy
-            localDb = [...localDb, ...uniqueItems];
-            
-            // Recalculate count based on filtered items
-            const levelItems = localDb.filter(i => i.level === level);
-            
-            // Limit per level if needed
-            if (levelItems.length > MAX_QUESTIONS_PER_LEVEL) {
-               // simplified limit logic
-            }
-            
-            currentCount = levelItems.length;
-
-            // CRITICAL: Update React State AND LocalStorage IMMEDIATELY
-            setDbItems(localDb);
-            try {
-              localStorage.setItem('wh_quiz_data', JSON.stringify(localDb));
-            } catch (e) {
-              console.error("Auto-save failed during loop", e);
-            }
-          } else {
-             console.log("Duplicate batch detected, retrying...");
-             // If all were duplicates, we haven't advanced.
-          }
-          
-          // Update Status
-          setAutoProgress(prev => ({ 
-            level, current: currentCount, target, status: '完了！次のバッチへ...', isStopping: prev?.isStopping || false 
-          }));
+      } catch (err) {
+        const error = classifyError(err);
+        if (error instanceof CancelledError) break;
+        // Failures caused by going offline are not the job's fault; the loop re-queues it
+        if (!navigator.onLine) continue;
+        console.error("Auto-gen batch failed", error);
+
+        job = updateJob(jobId, j => appendLog(j, {
+          at: Date.now(), requested: batchSize, added: 0, duplicates: 0, quarantined: 0, focus, error: `[${error.kind}] ${error.message}`,
+        }));
 
-        } catch (err: any) {
-           console.error("Auto-gen batch failed", err);
-           const msg = err.message || "";
-           
-           if (stopAutoRef.current) break;
-
-           if (msg.includes('429') || msg.includes('quota') || msg.includes('retry')) {
-              // Rate Limit Hit - Long Pause
-              const waitSec = 60;
-              for (let i = waitSec; i > 0; i--) {
-                if (stopAutoRef.current) break;
-                setAutoProgress(prev => ({ 
-                  level, current: currentCount, target, status: `制限到達。あと${i}秒待機...`, isStopping: prev?.isStopping || false 
-                }));
-                await sleep(1000);
-              }
-           } else if (msg.includes('503') || msg.includes('overloaded')) {
-             setAutoProgress(prev => ({ 
-               level, current: currentCount, target, status: '混雑中... 10秒待機します', isStopping: prev?.isStopping || false 
-             }));
-             await sleep(10000);
-           } else {
-             // Other error (safety etc)
-             await sleep(5000);
-           }
+        // Retrying cannot help until the user fixes the key or the quota resets
+        if (error instanceof InvalidKeyError || (error instanceof RateLimitedError && error.scope === 'daily')) {
+          updateJob(jobId, j => ({ ...j, status: 'paused', updatedAt: Date.now() }));
+          return error;
         }
-
-        // Rest between batches if not finished
-        if (currentCount < target && !stopAutoRef.current) {
-          // Increase safety buffer to 15 seconds to strictly avoid 15 RPM limits.
-          const safetyWait = 15;
-          for(let i=safetyWait; i>0; i--) {
-             if (stopAutoRef.current) break;
-             setAutoProgress(prev => ({ 
-               level, current: currentCount, target, status: `制限回避のため休憩中 (${i}秒)...`, isStopping: prev?.isStopping || false 
-             }));
-             await sleep(1000);
-          }
+        if (job && consecutiveFailures(job) >= MAX_CONSECUTIVE_FAILURES) {
+          updateJob(jobId, j => ({ ...j, status: 'failed', updatedAt: Date.now() }));
+          return null;
+        }
+        if (error instanceof OverloadedError) {
+          // The generator already retried; give the model a little longer before the next batch
+          rateLimiter.backOff(settings, 10000);
         }
       }
-      
-      if (currentCount >= target) {
-         alert(`🎉 目標の${target}問に到達しました！\n現在の問題数: ${currentCount}問`);
-      } else {
-         alert(`自動生成を停止しました。\n現在の問題数: ${currentCount}問`);
+    }
+
+    updateJob(jobId, j => ({ ...j, status: currentCount >= target ? 'done' : 'paused', updatedAt: Date.now() }));
+    return null;
+  };
+
+  // Run queued jobs one after another until the queue is empty or stopped
+  const runJobQueue = async () => {
+    if (queueRunningRef.current || !navigator.onLine || !checkApiKey()) return;
+    queueRunningRef.current = true;
+    stopAutoRef.current = false;
+    setIsGenerating(true);
+
+    try {
+      const processed: string[] = [];
+      let fatal: ApiError | null = null;
+      while (!stopAutoRef.current && !fatal && navigator.onLine) {
+        const next = jobsRef.current.find(j => j.status === 'queued');
+        if (!next) break;
+        processed.push(next.id);
+        fatal = await runJob(next.id);
       }
 
+      const failed = jobsRef.current.filter(j => processed.includes(j.id) && j.status === 'failed').length;
+      const stalled = jobsRef.current.filter(j => processed.includes(j.id) && j.status === 'paused').length;
+      if (fatal) {
+        alert(t('jobs.alert.halted', { message: describeError(fatal, uiLanguage) }));
+      } else if (stopAutoRef.current) {
+        alert(t('jobs.alert.stopped'));
+      } else if (!navigator.onLine) {
+        alert(t('jobs.alert.offline'));
+      } else if (failed > 0) {
+        alert(t('jobs.alert.someFailed', { count: failed }));
+      } else if (stalled > 0) {
+        alert(t('jobs.alert.stalled', { count: stalled }));
+      } else {
+        alert(t('jobs.alert.allDone'));
+      }
     } catch (e: any) {
       handleError(e);
     } finally {
+      queueRunningRef.current = false;
       setIsGenerating(false);
       setLoadingLevel(null);
       setAutoProgress(null);
@@ -332,17 +817,75 @@ export default function App() {
     }
   };
 
+  // Counts and targets are per question language; jobs saved before languages existed are Japanese
+  const isSameTarget = (job: GenerationJob, level: QuizLevel) =>
+    job.level === level && (job.options?.language ?? 'ja') === genOptions.language;
+
+  const handleEnqueueJob = (level: QuizLevel, target: number, topic: string) => {
+    const currentCount = languageItems.filter(i => i.level === level).length;
+    if (currentCount >= target) {
+      alert(t('jobs.alert.targetReached', { target }));
+      return false;
+    }
+    addJob(createJob(level, target, topic, genOptions));
+    if (!navigator.onLine) {
+      alert(t('jobs.alert.deferredOffline'));
+    } else if (!queueRunningRef.current) {
+      runJobQueue();
+    }
+    return true;
+  };
+
+  // Offline stand-in for the single batch button: queue a job for genCount more questions
+  const handleQueueWhenOnline = (level: QuizLevel) => {
+    const pendingTarget = Math.max(0, ...jobs.filter(j => isSameTarget(j, level) && isJobActive(j)).map(j => j.target));
+    const base = Math.max(languageItems.filter(i => i.level === level).length, pendingTarget);
+    const target = Math.min(MAX_QUESTIONS_PER_LEVEL, base + genCount);
+    if (target <= base) {
+      alert(t('jobs.alert.levelFull', { level: levelLabel(level, uiLanguage), max: MAX_QUESTIONS_PER_LEVEL }));
+      return;
+    }
+    addJob(createJob(level, target, genTopic, genOptions));
+    alert(t('jobs.alert.queuedOffline', { level: levelLabel(level, uiLanguage), count: target - base }));
+  };
+
+  // Home card shortcut: queue the level up to its default target
+  const handleAutoGenerate = (level: QuizLevel) => {
+    if (!checkApiKey()) return;
+    const target = LEVEL_TARGETS[level] || 300;
+    const currentCount = languageItems.filter(i => i.level === level).length;
+
+    if (jobs.some(j => isSameTarget(j, level) && isJobActive(j))) {
+      alert(t('jobs.alert.alreadyQueued', { level: levelLabel(level, uiLanguage) }));
+      setView('jobs');
+      return;
+    }
+    if (currentCount >= target) {
+      alert(t('jobs.alert.targetReached', { target }));
+      return;
+    }
+    if (!window.confirm(t('jobs.confirm.auto', { level: levelLabel(level, uiLanguage), target, current: currentCount }))) {
+      return;
+    }
+    handleEnqueueJob(level, target, '');
+  };
+
+  const handleResumeJobs = (ids: string[]) => {
+    ids.forEach(id => updateJob(id, j => ({ ...j, status: 'queued', updatedAt: Date.now() })));
+    runJobQueue();
+  };
+
   const handleStopAuto = () => {
     stopAutoRef.current = true;
     // Force update UI to show stopping status
-    setAutoProgress(prev => prev ? ({ ...prev, status: '停止処理中...', isStopping: true }) : null);
+    setAutoProgress(prev => prev ? ({ ...prev, status: t('jobs.progress.stopping'), isStopping: true }) : null);
   };
 
   // Mode C: Review
   const handleReviewLevel = (level: QuizLevel) => {
-    const levelItems = dbItems.filter(i => i.level === level);
+    const levelItems = playableItems(languageItems, includeReported).filter(i => i.level === level);
     if (levelItems.length === 0) {
-      alert("まだ保存された問題がありません。");
+      alert(t('play.alert.noItems'));
       return;
     }
     const shuffled = shuffleArray(levelItems);
@@ -356,14 +899,132 @@ export default function App() {
     setView('play');
   };
 
+  // Mode D: Spaced Repetition (due questions first, then unseen ones)
+  const handleSpacedReview = (level: QuizLevel) => {
+    const levelItems = playableItems(languageItems, includeReported).filter(i => i.level === level);
+    const selected = selectReviewItems(levelItems, profileReviews, DEFAULT_SESSION_COUNT);
+    if (selected.length === 0) {
+      alert(t('play.alert.nothingDue'));
+      return;
+    }
+    setSessionItems(selected);
+    setSessionType('spaced');
+    setScore(0);
+    setCurrentQIndex(0);
+    setSelectedOption(null);
+    setShowResult(false);
+    setView('play');
+  };
+
+  // Mode E: Mock Exam (timed, explanations hidden until submission)
+  const handleStartExam = (level: QuizLevel) => {
+    const config = EXAM_CONFIGS[level];
+    const levelItems = playableItems(languageItems, includeReported).filter(i => i.level === level);
+    if (levelItems.length === 0) {
+      alert(t('play.alert.noItems'));
+      return;
+    }
+    const count = Math.min(config.questionCount, levelItems.length);
+    const message = count < config.questionCount
+      ? t('exam.confirm.short', { level: levelLabel(level, uiLanguage), full: config.questionCount, saved: levelItems.length, count, minutes: config.timeLimitMinutes })
+      : t('exam.confirm.start', { level: levelLabel(level, uiLanguage), count, minutes: config.timeLimitMinutes, pass: Math.round(config.passRatio * 100) });
+    if (!window.confirm(message)) return;
+
+    const now = Date.now();
+    setSessionItems(shuffleArray(levelItems).slice(0, count));
+    setSessionType('exam');
+    setExam(createExamSession(config, count, now));
+    setClock(now);
+    setScore(0);
+    setCurrentQIndex(0);
+    setSelectedOption(null);
+    setShowResult(false);
+    setIsConfirmingExit(false);
+    setView('play');
+  };
+
+  // Add time spent on the current question before moving away from it
+  const withTimeSpent = (current: ExamSession): ExamSession => {
+    const now = Date.now();
+    const timeSpentMs = [...current.timeSpentMs];
+    timeSpentMs[currentQIndex] += now - questionShownAtRef.current;
+    questionShownAtRef.current = now;
+    return { ...current, timeSpentMs };
+  };
+
+  const handleExamSelect = (idx: number) => {
+    setExam(prev => {
+      if (!prev || prev.finishedAt !== null) return prev;
+      const answers = [...prev.answers];
+      answers[currentQIndex] = idx;
+      return { ...prev, answers };
+    });
+  };
+
+  const handleExamToggleFlag = () => {
+    setExam(prev => {
+      if (!prev) return prev;
+      const flagged = [...prev.flagged];
+      flagged[currentQIndex] = !flagged[currentQIndex];
+      return { ...prev, flagged };
+    });
+  };
+
+  const handleExamGoTo = (index: number) => {
+    if (!exam || index < 0 || index >= sessionItems.length) return;
+    setExam(withTimeSpent(exam));
+    setCurrentQIndex(index);
+  };
+
+  const handleSubmitExam = () => {
+    if (!exam || exam.finishedAt !== null) return;
+    const finished = { ...withTimeSpent(exam), finishedAt: Date.now() };
+    setExam(finished);
+    setScore(gradeExam(sessionItems, finished).correctCount);
+    setCurrentQIndex(0);
+    recordAnswers(sessionItems
+      .map((item, i) => ({ item, chosenIdx: finished.answers[i], timeMs: finished.timeSpentMs[i] }))
+      .filter((a): a is { item: QuizItem, chosenIdx: number, timeMs: number } => a.chosenIdx !== null));
+  };
+
   // --- Quiz Interaction Helpers ---
+  // Questions of a shared set that was not imported only count towards the session score:
+  // history and review schedules are kept for questions in the local bank.
+  const recordAnswers = (entries: { item: QuizItem, chosenIdx: number, timeMs: number }[]) => {
+    const now = Date.now();
+    const records: AnswerRecord[] = [];
+    const states: Record<string, ReviewState> = {};
+
+    const session = activeSessionRef.current;
+    const localIds = new Set(dbItemsRef.current.map(i => i.id));
+
+    for (const { item, chosenIdx, timeMs } of entries) {
+      const correct = chosenIdx === item.correct_idx;
+      const record: AnswerRecord = { id: generateId(), itemId: item.id, answeredAt: now, chosenIdx, correct, timeMs, sessionId: session?.id, profileId: activeProfileId };
+      session?.answers.push(record);
+      if (!localIds.has(item.id)) continue;
+      records.push(record);
+      states[item.id] = scheduleReview(states[item.id] ?? profileReviews[item.id], activeProfileId, item.id, correct, timeMs, now);
+    }
+    if (records.length === 0) return;
+    setReviews(prev => [...prev.filter(r => r.profileId !== activeProfileId || !states[r.itemId]), ...Object.values(states)]);
+    setAnswers(prev => [...prev, ...records]);
+
+    Promise.all([answerRepository.putMany(records), reviewRepository.putMany(Object.values(states))]).catch(e => {
+      console.error("Failed to save answer history.", e);
+      setStorageError('storage.answersFailed');
+    });
+  };
+
   const handleAnswer = (idx: number) => {
     if (showResult) return;
+    const item = sessionItems[currentQIndex];
     setSelectedOption(idx);
     setShowResult(true);
-    if (idx === sessionItems[currentQIndex].correct_idx) {
+    if (idx === item.correct_idx) {
       setScore(s => s + 1);
     }
+    recordAnswers([{ item, chosenIdx: idx, timeMs: Date.now() - questionShownAtRef.current }]);
   };
 
   const nextQuestion = () => {
@@ -373,107 +1034,625 @@ export default function App() {
       setShowResult(false);
       setIsConfirmingExit(false);
     } else {
-      alert(`お疲れ様でした！\n今回のスコア: ${score} / ${sessionItems.length}`);
+      alert(t('play.alert.finished', { score, total: sessionItems.length }));
       setView('home');
     }
   };
 
-  // --- CSV Helpers ---
-  const handleImportCSV = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (evt) => {
-        const text = evt.target?.result as string;
-        const parsed = parseCSV(text);
-        // eslint-disable-next-line no-restricted-globals
-        if (confirm(`${parsed.length}問を読み込みます。既存リストに追加しますか？\n(キャンセルで上書き)`)) {
-           const unique = parsed.filter(n => !isDuplicate(n.question, dbItems));
-           setDbItems(prev => [...prev, ...unique]);
-        } else {
-           setDbItems(parsed);
-        }
-      };
-      reader.readAsText(file);
-    }
+  // Flag the current question; the session goes on and the question waits in the triage list
+  const handleSubmitReport = () => {
+    const item = sessionItems[currentQIndex];
+    if (!item || !reportDraft) return;
+    const report: ItemReport = { reason: reportDraft.reason, note: reportDraft.note.trim(), reportedAt: Date.now() };
+    setDbItems(prev => prev.map(i => i.id === item.id ? { ...i, report } : i));
+    setReportDraft(null);
   };
 
-  const handleExportCSV = () => {
-    const csv = toCSV(dbItems);
-    downloadCSV(csv, `world_heritage_quiz_${new Date().toISOString().slice(0, 10)}.csv`);
+  const handleToggleIncludeReported = (include: boolean) => {
+    setIncludeReported(include);
+    localStorage.setItem(profileKey('wh_include_reported', activeProfileId), String(include));
   };
 
-  const handleShare = async () => {
-    const shareData = {
-      title: 'AI World Heritage Quiz',
-      text: 'Check out this AI-powered World Heritage quiz!',
-      url: window.location.href,
-    };
+  const handleDismissReport = (id: string) => {
+    setDbItems(prev => prev.map(i => i.id === id ? withoutReport(i) : i));
+  };
 
-    if (navigator.share) {
-      try {
-        await navigator.share(shareData);
-      } catch (err) {
-        console.error('Error sharing:', err);
-      }
-    } else {
-      try {
-        await navigator.clipboard.writeText(window.location.href);
-        alert('URLをコピーしました！');
-      } catch (err) {
-        console.error('Failed to copy:', err);
-        alert('URLのコピーに失敗しました');
+  // Replace a reported question with a corrected one from the provider (fact-checked like new batches)
+  const handleRegenerateReported = async (item: QuizItem) => {
+    if (!item.report || regeneratingId || !checkApiKey()) return;
+    setRegeneratingId(item.id);
+    try {
+      const result = await withFactCheck(await regenerateQuizItem(item, item.report, resolveProviderSettings(providerPrefs, apiKey)));
+      const replacement = result.items[0];
+      if (!replacement) {
+        setQuarantine(prev => [...prev, ...result.quarantined]);
+        alert(t('reports.alert.regeneratedQuarantined'));
+        return;
       }
+      const options = [replacement.option1, replacement.option2, replacement.option3, replacement.option4];
+      if (!window.confirm(t('reports.confirm.replace', { question: replacement.question, answer: options[replacement.correct_idx] }))) return;
+      takeSnapshot({ key: 'snapshot.regenerate' });
+      setDbItems(prev => prev.map(i => i.id === item.id ? replacement : i));
+      if (editDraft?.item.id === item.id) setEditDraft(null);
+    } catch (e) {
+      handleError(e);
+    } finally {
+      setRegeneratingId(null);
     }
   };
 
-  // --- Renderers ---
-
-  const renderHome = () => (
-    <div className="flex flex-col items-center min-h-[60vh] space-y-8 animate-fade-in px-4 pb-12">
-      <div className="text-center space-y-4 pt-4 md:pt-8">
-        <h1 className="text-3xl md:text-5xl font-extrabold text-slate-800 tracking-tight drop-shadow-sm">
-          <span className="text-blue-600">AI</span> 世界遺産検定
-        </h1>
-        <p className="text-slate-500 text-sm md:text-base max-w-lg mx-auto leading-relaxed">
-          AIで問題集を作成し、CSVで出力・管理できます。<br/>
-          目標の問題数まで自動生成する機能を追加しました。
-        </p>
-      </div>
+  // --- Question Browser Helpers ---
+  const updateBrowserFilter = (patch: Partial<QuizFilter>) => {
+    setBrowserFilter(prev => ({ ...prev, ...patch }));
+    setBrowserPage(0);
+  };
 
-      {/* Manual Gen Settings */}
-      <div className="bg-white px-6 py-3 rounded-full shadow-sm border border-slate-200 flex items-center gap-3">
-        <span className="text-sm font-bold text-slate-600">手動生成数:</span>
-        <div className="flex gap-2">
-          {[10, 20, 30].map(count => (
-            <button
-              key={count}
-              onClick={() => setGenCount(count)}
-              className={`px-3 py-1 rounded-full text-sm font-bold transition-all ${
-                genCount === count ? 'bg-blue-600 text-white shadow-md' : 'bg-slate-100 text-slate-500'
-              }`}
-            >
-              {count}
-            </button>
-          ))}
-        </div>
-      </div>
+  const toggleSelected = (ids: string[], selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => selected ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full max-w-4xl">
-        {Object.values(QuizLevel).map((level) => {
-          const savedCount = dbItems.filter(i => i.level === level).length;
-          const target = LEVEL_TARGETS[level] || 300;
-          const isThisLoading = isGenerating && loadingLevel === level;
-          const isThisAuto = isThisLoading && autoProgress?.level === level;
-          const isOtherLoading = isGenerating && loadingLevel !== level;
+  const handleStartEdit = (item: QuizItem, origin: 'db' | 'quarantine' | 'report') => {
+    setEditDraft({ item: { ...item }, origin, issues: [] });
+  };
 
-          // Progress calculation
-          const progressPercent = autoProgress 
-             ? Math.min(100, (autoProgress.current / autoProgress.target) * 100)
-             : Math.min(100, (savedCount / target) * 100);
+  const updateDraft = (patch: Partial<QuizItem>) => {
+    setEditDraft(prev => prev ? { ...prev, item: { ...prev.item, ...patch } } : prev);
+  };
 
-          return (
-            <div 
+  const handleSaveEdit = () => {
+    if (!editDraft) return;
+    const { item: validated, issues } = validateQuizItem(editDraft.item);
+    if (issues.length > 0) {
+      setEditDraft({ ...editDraft, issues });
+      return;
+    }
+    // Edited text may now be about a different site
+    const linked = { ...validated, site_ids: matchSites(validated) };
+    // Saving from the triage list resolves the report
+    const item = editDraft.origin === 'report' ? withoutReport(linked) : linked;
+
+    if (editDraft.origin !== 'quarantine') {
+      setDbItems(prev => prev.map(i => i.id === item.id ? item : i));
+    } else if (!releaseFromQuarantine(item)) {
+      return;
+    }
+    setEditDraft(null);
+  };
+
+  // A fixed (or approved) quarantined item joins the question bank
+  const releaseFromQuarantine = (item: QuizItem): boolean => {
+    const others = dbItems.filter(i => i.id !== item.id);
+    if (isDuplicate(item, others) && !window.confirm(t('manage.confirm.similarExists'))) {
+      return false;
+    }
+    setQuarantine(prev => prev.filter(q => q.item.id !== item.id));
+    setDbItems(prev => [...prev.filter(i => i.id !== item.id), item]);
+    return true;
+  };
+
+  // Accept a fact-check flag as a false alarm
+  const handleApproveQuarantined = (entry: QuarantinedItem) => {
+    const { item, issues } = validateQuizItem(entry.item);
+    if (issues.length > 0) {
+      setEditDraft({ item, origin: 'quarantine', issues });
+      return;
+    }
+    releaseFromQuarantine(item);
+  };
+
+  const handleDeleteItem = (id: string) => {
+    if (!window.confirm(t('manage.confirm.deleteItem'))) return;
+    takeSnapshot({ key: 'snapshot.deleteItem' });
+    setDbItems(prev => prev.filter(i => i.id !== id));
+    toggleSelected([id], false);
+    if (editDraft?.item.id === id) setEditDraft(null);
+  };
+
+  const handleBulkDelete = () => {
+    if (!window.confirm(t('browser.confirm.bulkDelete', { count: selectedIds.size }))) return;
+    takeSnapshot({ key: 'snapshot.bulkDelete', params: { count: selectedIds.size } });
+    setDbItems(prev => prev.filter(i => !selectedIds.has(i.id)));
+    setSelectedIds(new Set());
+    setEditDraft(null);
+  };
+
+  const handleBulkSetLevel = () => {
+    if (!window.confirm(t('browser.confirm.bulkLevel', { count: selectedIds.size, level: levelLabel(bulkLevel, uiLanguage) }))) return;
+    setDbItems(prev => prev.map(i => selectedIds.has(i.id) ? { ...i, level: bulkLevel } : i));
+  };
+
+  // Re-run the site matcher over every question, e.g. after the catalog gained aliases
+  const handleRelinkSites = () => {
+    if (!window.confirm(t('manage.confirm.relink'))) return;
+    const next = dbItems.map(item => {
+      const siteIds = matchSites(item);
+      return item.site_ids && item.site_ids.join() === siteIds.join() ? item : { ...item, site_ids: siteIds };
+    });
+    setDbItems(next);
+    alert(t('manage.alert.relinked', { count: next.filter((item, i) => item !== dbItems[i]).length }));
+  };
+
+  // Swap options so every level has its answers spread evenly over the four positions
+  const handleRebalanceAnswers = () => {
+    const { items, changed } = rebalanceCorrectIdx(dbItems);
+    if (changed === 0) {
+      alert(t('balance.alert.alreadyEven'));
+      return;
+    }
+    if (!window.confirm(t('balance.confirm.rebalance', { count: changed }))) return;
+    takeSnapshot({ key: 'snapshot.rebalance' });
+    setDbItems(items);
+  };
+
+  // --- Duplicate Review Helpers ---
+  const handleScanDuplicates = () => {
+    setIsScanningDuplicates(true);
+    // Let the spinner render before the (synchronous) pairwise scan
+    setTimeout(() => {
+      setDuplicateClusters(findDuplicateClusters(dbItems));
+      setClusterKeep({});
+      setIsScanningDuplicates(false);
+    }, 50);
+  };
+
+  // Drop removed items from the open review and discard clusters that are resolved
+  const pruneClusters = (removedIds: Set<string>) => {
+    setDuplicateClusters(prev => prev
+      ? prev.map(c => c.filter(i => !removedIds.has(i.id))).filter(c => c.length > 1)
+      : prev);
+  };
+
+  // Keep one question, fill its empty fields from the others, and delete the rest
+  const handleMergeCluster = (cluster: QuizItem[], keepId: string) => {
+    const keep = cluster.find(i => i.id === keepId);
+    if (!keep) return;
+    const others = cluster.filter(i => i.id !== keepId);
+    if (!window.confirm(t('duplicates.confirm.merge', { count: others.length }))) return;
+    takeSnapshot({ key: 'snapshot.mergeDuplicates' });
+
+    const merged: QuizItem = { ...keep };
+    for (const other of others) {
+      if (!merged.explanation && other.explanation) merged.explanation = other.explanation;
+      if (!merged.advanced_explanation && other.advanced_explanation) merged.advanced_explanation = other.advanced_explanation;
+      if (!merged.wiki_link && other.wiki_link) merged.wiki_link = other.wiki_link;
+    }
+    const removedIds = new Set(others.map(i => i.id));
+    setDbItems(prev => prev.filter(i => !removedIds.has(i.id)).map(i => i.id === keepId ? merged : i));
+    pruneClusters(new Set([...removedIds, keepId]));
+  };
+
+  const handleDeleteFromCluster = (id: string) => {
+    if (!window.confirm(t('manage.confirm.deleteItem'))) return;
+    takeSnapshot({ key: 'snapshot.deleteItem' });
+    setDbItems(prev => prev.filter(i => i.id !== id));
+    pruneClusters(new Set([id]));
+  };
+
+  const handleDismissCluster = (clusterIdx: number) => {
+    setDuplicateClusters(prev => prev ? prev.filter((_, i) => i !== clusterIdx) : prev);
+  };
+
+  // --- Backup & Snapshot Helpers ---
+  const currentStoredData = (): StoredData => ({
+    profiles,
+    items: dbItems,
+    quarantine,
+    answers,
+    reviews,
+    jobs,
+    sessions,
+  });
+
+  // Save the current state before a destructive operation so it can be undone
+  const takeSnapshot = (reason: MessageRef) => {
+    const snapshot = createSnapshot(currentStoredData(), reason);
+    const next = [...snapshots, snapshot];
+    const dropped = next.slice(0, Math.max(0, next.length - MAX_SNAPSHOTS));
+    setSnapshots(next.slice(dropped.length));
+    setUndoSnapshot(snapshot);
+    snapshotRepository.putMany([snapshot])
+      .then(() => snapshotRepository.deleteMany(dropped.map(s => s.id)))
+      .catch(e => {
+        console.error("Failed to save snapshot.", e);
+        setStorageError('storage.snapshotFailed');
+      });
+  };
+
+  // Write a complete data set and reload it through the usual validation
+  const restoreStoredData = async (data: StoredData) => {
+    setIsRestoring(true);
+    try {
+      await replaceAllData(data);
+      applyStoredData(await loadStoredData());
+      setDuplicateClusters(null);
+      setSelectedIds(new Set());
+      setEditDraft(null);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshot: Snapshot) => {
+    if (isGenerating) {
+      alert(t('backup.alert.busy'));
+      return;
+    }
+    if (!window.confirm(t('snapshot.confirm.restore', { reason: translateMessage(snapshot.reason, t), at: new Date(snapshot.createdAt).toLocaleString(LOCALES[uiLanguage]) }))) return;
+    takeSnapshot({ key: 'snapshot.restore' });
+    try {
+      // Snapshots taken by older versions lack the newer stores and fields
+      await restoreStoredData(upgradeStoredData(snapshot.data));
+      setUndoSnapshot(null);
+    } catch (e) {
+      console.error("Failed to restore snapshot.", e);
+      alert(t('backup.alert.failed'));
+    }
+  };
+
+  const handleExportBackup = () => {
+    const archive = createBackup(currentStoredData(), providerPrefs);
+    downloadFile(JSON.stringify(archive), `world_heritage_backup_${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+  };
+
+  // --- Profiles ---
+  const profileName = (profile: Profile) => profile.name || t('profiles.defaultName');
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+
+  const handleSwitchProfile = (profileId: string) => {
+    if (profileId === activeProfileId) return;
+    if (isGenerating) {
+      alert(t('profiles.alert.busy'));
+      return;
+    }
+    applyProfile(profileId);
+  };
+
+  const handleCreateProfile = () => {
+    if (!newProfileName.trim()) return;
+    const profile = createProfile(newProfileName);
+    setProfiles(prev => [...prev, profile]);
+    setNewProfileName('');
+    profileRepository.putMany([profile]).catch(e => {
+      console.error("Failed to save profile.", e);
+      setStorageError('storage.profileFailed');
+    });
+    // A new profile starts in the current display language
+    localStorage.setItem(profileKey('wh_ui_language', profile.id), uiLanguage);
+    handleSwitchProfile(profile.id);
+  };
+
+  // Removes the profile with its history and preferences; the shared questions stay
+  const handleDeleteProfile = (profile: Profile) => {
+    if (profile.id === DEFAULT_PROFILE_ID || profile.id === activeProfileId) return;
+    const name = profileName(profile);
+    if (!window.confirm(t('profiles.confirm.delete', { name }))) return;
+    takeSnapshot({ key: 'snapshot.profileDelete', params: { name } });
+    const owned = <T extends { profileId: string }>(records: T[]) => records.filter(r => r.profileId === profile.id);
+    const kept = <T extends { profileId: string }>(records: T[]) => records.filter(r => r.profileId !== profile.id);
+    setProfiles(prev => prev.filter(p => p.id !== profile.id));
+    setAnswers(kept);
+    setReviews(kept);
+    setSessions(kept);
+    Promise.all([
+      profileRepository.deleteMany([profile.id]),
+      answerRepository.deleteMany(owned(answers).map(a => a.id)),
+      reviewRepository.deleteMany(owned(reviews).map(r => [r.profileId, r.itemId] as [string, string])),
+      sessionRepository.deleteMany(owned(sessions).map(s => s.id)),
+    ]).catch(e => {
+      console.error("Failed to delete profile.", e);
+      setStorageError('storage.profileFailed');
+    });
+    clearProfilePreferences(profile.id);
+  };
+
+  const handleExportProfile = (profile: Profile) => {
+    const prefs = readPreferences(profile.id);
+    const archive = createProfileBackup(currentStoredData(), profile.id, prefs.providerPrefs, prefs.uiLanguage);
+    const fileName = profileName(profile).replace(/[\\/:*?"<>|\s]+/g, '_');
+    downloadFile(JSON.stringify(archive), `world_heritage_profile_${fileName}_${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+  };
+
+  const handleBackupFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (evt) => {
+        try {
+          const archive = parseBackup(evt.target?.result as string);
+          setBackupPreview({ fileName: file.name, archive, diff: diffBackup(currentStoredData(), archive.data) });
+        } catch (err: any) {
+          alert(err instanceof BackupError ? err.text[uiLanguage] : err.message);
+        }
+      };
+      reader.readAsText(file);
+    }
+    e.target.value = '';
+  };
+
+  const handleConfirmRestore = async (mode: 'merge' | 'replace') => {
+    if (!backupPreview) return;
+    if (isGenerating) {
+      alert(t('backup.alert.busy'));
+      return;
+    }
+    const { archive } = backupPreview;
+    // A profile export holds no questions, so it can only be merged
+    if (mode === 'replace' && archive.profileId) return;
+    if (mode === 'replace' && !window.confirm(t('backup.confirm.replace'))) return;
+
+    takeSnapshot({ key: mode === 'replace' ? 'snapshot.backupReplace' : 'snapshot.backupMerge' });
+    try {
+      await restoreStoredData(mode === 'merge' ? mergeStoredData(currentStoredData(), archive.data) : archive.data);
+    } catch (e) {
+      console.error("Failed to restore backup.", e);
+      alert(t('backup.alert.failed'));
+      return;
+    }
+    // Settings are only taken over when replacing; a merge keeps the current ones
+    if (mode === 'replace' && archive.settings?.provider) {
+      // Backups leave out the server token, so the one on this device is kept
+      const prefs = { ...DEFAULT_PROVIDER_PREFERENCES, serverApiKey: providerPrefs.serverApiKey, ...archive.settings.provider };
+      setProviderPrefs(prefs);
+      localStorage.setItem(profileKey('wh_provider_settings', activeProfileId), JSON.stringify(prefs));
+    }
+    // An imported profile brings its own settings, unless it already has some on this device
+    if (archive.profileId && archive.settings) {
+      const saveIfMissing = (key: ProfilePreferenceKey, value: string) => {
+        if (localStorage.getItem(profileKey(key, archive.profileId!)) === null) localStorage.setItem(profileKey(key, archive.profileId!), value);
+      };
+      if (archive.settings.provider) saveIfMissing('wh_provider_settings', JSON.stringify({ ...DEFAULT_PROVIDER_PREFERENCES, ...archive.settings.provider }));
+      if (archive.settings.uiLanguage) saveIfMissing('wh_ui_language', archive.settings.uiLanguage);
+      if (archive.profileId === activeProfileId) applyProfile(activeProfileId);
+    }
+    setBackupPreview(null);
+    alert(t('backup.alert.restored'));
+  };
+
+  // --- Import / Export Helpers ---
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file?.name.toLowerCase().endsWith(`.${QUIZ_SET_EXTENSION}`)) {
+      decodeQuizSet(file).then(handleOpenQuizSet).catch(handleQuizSetError);
+    } else if (file) {
+      const reader = new FileReader();
+      reader.onload = (evt) => {
+        const text = evt.target?.result as string;
+        // Nothing is committed until the user reviews the report and confirms
+        const format = detectFormat(file.name, text);
+        const result = QUIZ_FORMATS[format].parse(text);
+        const duplicateCount = partitionIncoming(result.items, dbItems).duplicates.length;
+        setImportPreview({ fileName: file.name, format, result, duplicateCount });
+      };
+      reader.readAsText(file);
+    }
+    // Allow re-selecting the same file after fixing it
+    e.target.value = '';
+  };
+
+  const handleConfirmImport = (mode: 'append' | 'overwrite') => {
+    if (!importPreview) return;
+    const { quarantined } = importPreview.result;
+    const parsed = linkMissingSites(importPreview.result.items);
+    if (mode === 'append') {
+      // JSON and Moodle files keep their ids; the preview counted duplicates the same way
+      setDbItems(prev => [...prev, ...partitionIncoming(parsed, prev).unique]);
+    } else {
+      // eslint-disable-next-line no-restricted-globals
+      if (!confirm(t('import.confirm.overwrite', { current: dbItems.length, count: parsed.length }))) return;
+      takeSnapshot({ key: 'snapshot.importOverwrite' });
+      // Near-duplicates within the file itself are still dropped
+      setDbItems(partitionDuplicates(parsed, []).unique);
+    }
+    if (quarantined.length > 0) {
+      setQuarantine(prev => [...prev, ...quarantined]);
+    }
+    setImportPreview(null);
+  };
+
+  const exportItems = () =>
+    filterQuizItems(dbItems, exportFilter).filter(item => exportLevels.includes(item.level as QuizLevel));
+
+  const handleExport = () => {
+    const items = exportItems();
+    if (items.length === 0) {
+      alert(t('export.alert.empty'));
+      return;
+    }
+    const format = QUIZ_FORMATS[exportFormat];
+    const levelSuffix = exportLevels.length < Object.values(QuizLevel).length ? `_${exportLevels.join('-')}` : '';
+    const languageSuffix = exportFilter.language !== 'all' ? `_${exportFilter.language}` : '';
+    downloadFile(format.serialize(items), `world_heritage_quiz_${new Date().toISOString().slice(0, 10)}${levelSuffix}${languageSuffix}.${format.extension}`, format.mimeType);
+  };
+
+  const worksheetHtml = (autoPrint: boolean) =>
+    renderWorksheetHtml(buildWorksheets(exportItems(), worksheetOptions), worksheetOptions, uiLanguage, { autoPrint });
+
+  // The sheets open in their own window so only they are printed
+  const handlePrintWorksheet = () => {
+    if (exportItems().length === 0) {
+      alert(t('export.alert.empty'));
+      return;
+    }
+    const win = window.open('', '_blank');
+    if (!win) {
+      alert(t('worksheet.popupBlocked'));
+      return;
+    }
+    win.document.open();
+    win.document.write(worksheetHtml(true));
+    win.document.close();
+  };
+
+  const handleSaveWorksheet = () => {
+    if (exportItems().length === 0) {
+      alert(t('export.alert.empty'));
+      return;
+    }
+    downloadFile(worksheetHtml(false), `world_heritage_worksheet_${new Date().toISOString().slice(0, 10)}_${worksheetOptions.seed}.html`, 'text/html;charset=utf-8;');
+  };
+
+  const handleInstall = async () => {
+    if (!installPrompt) return;
+    await installPrompt.prompt();
+    await installPrompt.userChoice;
+    setInstallPrompt(null);
+  };
+
+  // Native share sheet where available, otherwise copy the link
+  const shareLink = async (url: string, text: string) => {
+    const shareData = {
+      title: 'AI World Heritage Quiz',
+      text,
+      url,
+    };
+
+    if (navigator.share) {
+      try {
+        await navigator.share(shareData);
+      } catch (err) {
+        console.error('Error sharing:', err);
+      }
+    } else {
+      try {
+        await navigator.clipboard.writeText(url);
+        alert(t('share.copied'));
+      } catch (err) {
+        console.error('Failed to copy:', err);
+        alert(t('share.copyFailed'));
+      }
+    }
+  };
+
+  const handleShare = () => shareLink(window.location.href, 'Check out this AI-powered World Heritage quiz!');
+
+  // --- Quiz Sets ---
+  const handleShareItems = async (items: QuizItem[]) => {
+    if (items.length === 0) {
+      alert(t('quizSet.empty'));
+      return;
+    }
+    const set = createQuizSet(items);
+    const url = await quizSetUrl(set, window.location.href);
+    setSharePanel({ set, url: url.length <= MAX_SHARE_URL_LENGTH ? url : null });
+  };
+
+  const handleSaveQuizSetFile = async () => {
+    if (!sharePanel) return;
+    const file = await encodeQuizSet(sharePanel.set);
+    downloadFile(file, `world_heritage_quizset_${new Date().toISOString().slice(0, 10)}.${QUIZ_SET_EXTENSION}`, 'application/octet-stream');
+  };
+
+  // Play a received set straight away; adding it to the DB is offered separately
+  const handleOpenQuizSet = (set: QuizSet | null) => {
+    if (!set) {
+      alert(t('quizSet.invalid'));
+      return;
+    }
+    const { items, skipped } = playableSetItems(set);
+    if (items.length === 0) {
+      alert(t('quizSet.noPlayable'));
+      return;
+    }
+    setIncomingSet({ items, skipped });
+    setSessionItems(items);
+    setSessionType('shared');
+    setExam(null);
+    setScore(0);
+    setCurrentQIndex(0);
+    setSelectedOption(null);
+    setShowResult(false);
+    setIsConfirmingExit(false);
+    setView('play');
+  };
+
+  const handleQuizSetError = (e: unknown) => {
+    console.error("Failed to open quiz set.", e);
+    alert(t('quizSet.invalid'));
+  };
+
+  const handleImportQuizSet = () => {
+    if (!incomingSet) return;
+    const duplicates = incomingSet.items.length - incomingNewItems.length;
+    // The sender's ids are kept where free, so answers given before the import stay linked
+    const added = linkMissingSites(incomingNewItems);
+    setDbItems(prev => [...prev, ...added]);
+    setIncomingSet(null);
+    alert(t('quizSet.imported', { count: added.length, duplicates }));
+  };
+
+  // --- Renderers ---
+
+  const renderHome = () => (
+    <div className="flex flex-col items-center min-h-[60vh] space-y-8 animate-fade-in px-4 pb-12">
+      <div className="text-center space-y-4 pt-4 md:pt-8">
+        <h1 className="text-3xl md:text-5xl font-extrabold text-slate-800 tracking-tight drop-shadow-sm">
+          <span className="text-blue-600">AI</span> {t('app.title')}
+        </h1>
+        <p className="text-slate-500 text-sm md:text-base max-w-lg mx-auto leading-relaxed">
+          {t('home.lead1')}<br/>
+          {t('home.lead2')}
+        </p>
+      </div>
+
+      {/* Interrupted auto-generation (e.g. after a reload) */}
+      {!isGenerating && isOnline && jobs.some(j => j.status === 'paused') && (
+        <div className="w-full max-w-4xl bg-indigo-50 border border-indigo-200 rounded-2xl px-5 py-4 flex flex-wrap items-center justify-between gap-3">
+          <span className="text-sm font-bold text-indigo-700">{t('home.pausedJobs', { count: jobs.filter(j => j.status === 'paused').length })}</span>
+          <div className="flex gap-2">
+            <Button onClick={() => setView('jobs')} variant="ghost" className="py-2 text-sm">{t('common.details')}</Button>
+            <Button onClick={() => handleResumeJobs(jobs.filter(j => j.status === 'paused').map(j => j.id))} className="py-2 text-sm">{t('common.resume')}</Button>
+          </div>
+        </div>
+      )}
+
+      {/* Manual Gen Settings */}
+      <div className="w-full max-w-4xl bg-white px-6 py-4 rounded-2xl shadow-sm border border-slate-200 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm font-bold text-slate-600">{t('home.manualCount')}</span>
+          <div className="flex gap-2">
+            {[10, 20, 30].map(count => (
+              <button
+                key={count}
+                onClick={() => setGenCount(count)}
+                className={`px-3 py-1 rounded-full text-sm font-bold transition-all ${
+                  genCount === count ? 'bg-blue-600 text-white shadow-md' : 'bg-slate-100 text-slate-500'
+                }`}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+          <input
+            value={genTopic}
+            onChange={(e) => setGenTopic(e.target.value)}
+            placeholder={t('home.topicPlaceholder')}
+            className="flex-1 min-w-[200px] p-2 rounded-lg border-2 border-slate-200 text-sm focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+        {renderGeneratorOptions()}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full max-w-4xl">
+        {Object.values(QuizLevel).map((level) => {
+          const levelItems = languageItems.filter(i => i.level === level);
+          const savedCount = levelItems.length;
+          const dueCount = countDue(levelItems, profileReviews);
+          const target = LEVEL_TARGETS[level] || 300;
+          const isThisLoading = isGenerating && loadingLevel === level;
+          const isThisAuto = isThisLoading && autoProgress?.level === level;
+          const isOtherLoading = isGenerating && loadingLevel !== level;
+
+          // Progress calculation
+          const progressPercent = autoProgress 
+             ? Math.min(100, (autoProgress.current / autoProgress.target) * 100)
+             : Math.min(100, (savedCount / target) * 100);
+
+          return (
+            <div 
               key={level}
               className={`
                 relative bg-white p-6 rounded-2xl shadow-sm border border-slate-200 transition-all duration-300
@@ -491,7 +1670,7 @@ export default function App() {
                         
                         <div>
                           <p className={`text-lg font-bold mb-1 ${autoProgress?.isStopping ? 'text-red-500 animate-pulse' : 'text-slate-800'}`}>
-                             {autoProgress?.isStopping ? '停止処理中...' : '自動生成中'}
+                             {autoProgress?.isStopping ? t('jobs.progress.stopping') : t('home.autoRunning')}
                           </p>
                           <p className="text-sm font-medium text-slate-500 h-6 overflow-hidden text-ellipsis whitespace-nowrap">
                              {autoProgress?.status}
@@ -520,123 +1699,1433 @@ export default function App() {
                           className="w-full py-2 text-sm shadow-red-100"
                           disabled={autoProgress?.isStopping}
                         >
-                          {autoProgress?.isStopping ? '完了待ち...' : '停止する'}
+                          {autoProgress?.isStopping ? t('home.waitingForBatch') : t('common.stop')}
                         </Button>
                      </div>
                    ) : (
                      <>
                        <svg className="animate-spin h-8 w-8 text-blue-600 mb-3" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                       <span className="text-sm font-bold text-blue-600 animate-pulse">{genCount}問を作成しています...</span>
-                       <span className="text-xs text-slate-400 mt-2">（約5〜10秒かかります）</span>
+                       <span className="text-sm font-bold text-blue-600 animate-pulse">{t('home.generating', { count: genCount })}</span>
+                       <span className="text-xs text-slate-400 mt-2">{t('home.generatingHint')}</span>
                      </>
                    )}
                  </div>
               )}
 
-              <div className="flex justify-between items-start mb-4 border-b border-slate-100 pb-3">
-                <div>
-                  <h3 className="text-2xl font-black text-slate-800 tracking-tight">{level}</h3>
-                  <div className="text-xs font-bold text-slate-400 mt-1">目標: {target}問</div>
-                </div>
-                <div className="text-right">
-                  <span className="block text-xs text-slate-400 font-bold uppercase tracking-wider">Saved</span>
-                  <span className={`text-xl font-bold ${savedCount >= target ? 'text-emerald-500' : 'text-slate-600'}`}>
-                    {savedCount}
-                  </span>
-                  <span className="text-xs text-slate-400">問</span>
-                </div>
-              </div>
+              <div className="flex justify-between items-start mb-4 border-b border-slate-100 pb-3">
+                <div>
+                  <h3 className="text-2xl font-black text-slate-800 tracking-tight">{levelLabel(level, uiLanguage)}</h3>
+                  <div className="text-xs font-bold text-slate-400 mt-1">{t('home.target', { count: target })}</div>
+                </div>
+                <div className="text-right">
+                  <span className="block text-xs text-slate-400 font-bold uppercase tracking-wider">{t('home.saved')}</span>
+                  <span className={`text-xl font-bold ${savedCount >= target ? 'text-emerald-500' : 'text-slate-600'}`}>
+                    {savedCount}
+                  </span>
+                  <span className="text-xs text-slate-400">{t('common.questionsUnit')}</span>
+                </div>
+              </div>
+
+              {/* Static Progress Bar */}
+              <div className="w-full bg-slate-100 h-2 rounded-full mb-4 overflow-hidden">
+                <div 
+                  className={`h-full rounded-full transition-all duration-500 ${savedCount >= target ? 'bg-emerald-500' : 'bg-blue-500'}`} 
+                  style={{ width: `${Math.min(100, (savedCount / target) * 100)}%` }} 
+                />
+              </div>
+
+              <div className="space-y-3">
+                <div className="grid grid-cols-3 gap-3">
+                  {isOnline ? (
+                    <Button 
+                      onClick={() => handleGenerateLevel(level)} 
+                      disabled={isGenerating}
+                      className="flex flex-col items-center justify-center py-3 text-sm"
+                    >
+                      <span>{t('home.generate', { count: genCount })}</span>
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => handleQueueWhenOnline(level)}
+                      variant="secondary"
+                      className="flex flex-col items-center justify-center py-3 text-sm"
+                    >
+                      <span>{t('home.queueCount', { count: genCount })}</span>
+                      <span className="text-[10px] font-bold text-slate-500">{t('home.queueWhenOnline')}</span>
+                    </Button>
+                  )}
+                  <Button 
+                    onClick={() => handleReviewLevel(level)} 
+                    disabled={isGenerating || savedCount === 0}
+                    variant="success"
+                    className="flex flex-col items-center justify-center py-3 text-sm"
+                  >
+                    <span>{t('home.review')}</span>
+                  </Button>
+                  <Button 
+                    onClick={() => handleSpacedReview(level)} 
+                    disabled={isGenerating || savedCount === 0}
+                    variant="outline"
+                    className="flex flex-col items-center justify-center py-3 text-sm"
+                  >
+                    <span>{t('home.spaced')}</span>
+                    {dueCount > 0 && <span className="text-[10px] font-bold text-red-500">{t('home.due', { count: dueCount })}</span>}
+                  </Button>
+                </div>
+
+                <button
+                  onClick={() => handleStartExam(level)}
+                  disabled={isGenerating || savedCount === 0}
+                  className="w-full bg-amber-50 hover:bg-amber-100 text-amber-700 border border-amber-200 font-bold py-3 rounded-xl text-sm transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span>{t('home.exam', { count: EXAM_CONFIGS[level].questionCount, minutes: EXAM_CONFIGS[level].timeLimitMinutes })}</span>
+                </button>
+
+                {savedCount < target && (
+                  <button
+                    onClick={() => handleAutoGenerate(level)}
+                    disabled={isGenerating}
+                    className="w-full bg-indigo-50 hover:bg-indigo-100 text-indigo-600 border border-indigo-200 font-bold py-3 rounded-xl text-sm transition-colors flex items-center justify-center gap-2"
+                  >
+                    <span>{t('home.autoGenerate', { target })}</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="pt-4 flex flex-wrap justify-center gap-2">
+        <button 
+          onClick={() => setView('manage')}
+          className="text-slate-400 hover:text-slate-600 text-sm font-medium flex items-center gap-2 px-6 py-3 rounded-full hover:bg-white transition-colors border border-transparent hover:border-slate-200"
+        >
+          <span>📂</span> {t('nav.manage')}
+        </button>
+        <button 
+          onClick={() => setView('jobs')}
+          className="text-slate-400 hover:text-slate-600 text-sm font-medium flex items-center gap-2 px-6 py-3 rounded-full hover:bg-white transition-colors border border-transparent hover:border-slate-200"
+        >
+          <span>🤖</span> {t('nav.jobs')}{jobs.filter(isJobActive).length > 0 && ` (${jobs.filter(isJobActive).length})`}
+        </button>
+        <button 
+          onClick={() => setView('stats')}
+          className="text-slate-400 hover:text-slate-600 text-sm font-medium flex items-center gap-2 px-6 py-3 rounded-full hover:bg-white transition-colors border border-transparent hover:border-slate-200"
+        >
+          <span>📊</span> {t('nav.stats')}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderStats = () => {
+    const stats = computeStats(profileAnswers, profileSessions, dbItems);
+    const trendColors: Record<QuizLevel, string> = {
+      [QuizLevel.LEVEL_3]: '#3b82f6',
+      [QuizLevel.LEVEL_2]: '#10b981',
+      [QuizLevel.LEVEL_PRE_1]: '#f59e0b',
+      [QuizLevel.LEVEL_1]: '#ef4444',
+    };
+    const percent = (tally: Tally) => tally.answered > 0 ? `${Math.round(accuracy(tally) * 100)}%` : '-';
+    const accuracyBar = (label: React.ReactNode, tally: Tally, key: string) => (
+      <div key={key} className="flex items-center gap-3 text-sm">
+        <span className="w-28 shrink-0 text-slate-600 truncate">{label}</span>
+        <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500" style={{ width: `${accuracy(tally) * 100}%` }} />
+        </div>
+        <span className="w-12 text-right font-mono font-bold text-slate-700">{percent(tally)}</span>
+        <span className="w-16 text-right font-mono text-xs text-slate-400">{t('common.questionCount', { count: tally.answered })}</span>
+      </div>
+    );
+    return (
+      <div className="max-w-3xl mx-auto bg-white p-6 md:p-8 rounded-2xl shadow-xl animate-fade-in-up">
+        <h2 className="text-xl md:text-2xl font-bold mb-6 flex items-center gap-2">
+          <span className="text-blue-600">📊</span> {t('nav.stats')}
+        </h2>
+        {profileAnswers.length === 0 ? (
+          <p className="text-slate-500 text-sm text-center py-10">{t('stats.empty')}</p>
+        ) : (
+          <div className="space-y-8">
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {[
+                { label: t('stats.answered'), value: `${stats.overall.answered}` },
+                { label: t('stats.accuracy'), value: percent(stats.overall) },
+                { label: t('stats.streak'), value: t('stats.days', { count: stats.currentStreak }) },
+                { label: t('stats.longestStreak'), value: t('stats.days', { count: stats.longestStreak }) },
+              ].map(card => (
+                <div key={card.label} className="bg-slate-50 rounded-xl border border-slate-100 p-4 text-center">
+                  <div className="text-xs font-bold text-slate-400">{card.label}</div>
+                  <div className="text-2xl font-black text-slate-800 font-mono">{card.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Accuracy by level */}
+            <section className="bg-slate-50 p-5 rounded-xl border border-slate-100 space-y-3">
+              <h3 className="text-base font-bold text-slate-800">{t('stats.byLevel')}</h3>
+              {Object.values(QuizLevel).map(lvl => accuracyBar(levelLabel(lvl, uiLanguage), stats.byLevel[lvl], lvl))}
+              <div className="pt-2">
+                <p className="text-xs font-bold text-slate-500 mb-1">{t('stats.trend', { count: STATS_TREND_SESSIONS })}</p>
+                <TrendChart label={t('stats.trendLabel')} series={Object.values(QuizLevel).map(lvl => ({
+                  label: levelLabel(lvl, uiLanguage),
+                  color: trendColors[lvl],
+                  points: stats.levelTrend[lvl].slice(-STATS_TREND_SESSIONS).map(p => p.accuracy),
+                }))} />
+                <div className="flex flex-wrap gap-3 text-xs text-slate-500 mt-1">
+                  {Object.values(QuizLevel).map(lvl => (
+                    <span key={lvl} className="flex items-center gap-1">
+                      <span className="inline-block w-3 h-1 rounded" style={{ backgroundColor: trendColors[lvl] }} />
+                      {t('stats.trendLegend', { level: levelLabel(lvl, uiLanguage), count: stats.levelTrend[lvl].length })}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </section>
+
+            {/* Japan vs overseas */}
+            <section className="bg-slate-50 p-5 rounded-xl border border-slate-100 space-y-3">
+              <h3 className="text-base font-bold text-slate-800">{t('stats.japanOverseas')}</h3>
+              {accuracyBar(t('stats.japan'), stats.japan, 'japan')}
+              {accuracyBar(t('stats.overseas'), stats.overseas, 'overseas')}
+            </section>
+
+            {/* Answers per day */}
+            <section className="bg-slate-50 p-5 rounded-xl border border-slate-100">
+              <h3 className="text-base font-bold text-slate-800 mb-1">{t('stats.daily')}</h3>
+              <p className="text-xs text-slate-400 mb-3">{t('stats.dailyLegend')}</p>
+              <DailyBarChart
+                days={stats.daily}
+                label={t('stats.dailyLabel')}
+                describe={(day, answered, correct) => t('stats.dailyTooltip', { day, answered, correct })}
+              />
+              <div className="flex justify-between text-xs text-slate-400 font-mono mt-1">
+                <span>{stats.daily[0].day}</span>
+                <span>{stats.daily[stats.daily.length - 1].day}</span>
+              </div>
+            </section>
+
+            {/* Weak spots */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <section className="bg-slate-50 p-5 rounded-xl border border-slate-100 space-y-2">
+                <h3 className="text-base font-bold text-slate-800 mb-1">{t('stats.weakThemes')}</h3>
+                {stats.weakestThemes.length === 0
+                  ? <p className="text-xs text-slate-400">{t('stats.weakThemesEmpty')}</p>
+                  : stats.weakestThemes.map(theme => accuracyBar(theme.label[uiLanguage], theme.tally, theme.id))}
+              </section>
+              <section className="bg-slate-50 p-5 rounded-xl border border-slate-100 space-y-2">
+                <h3 className="text-base font-bold text-slate-800 mb-1">{t('stats.weakSites')}</h3>
+                {stats.weakestSites.length === 0
+                  ? <p className="text-xs text-slate-400">{t('stats.weakSitesEmpty')}</p>
+                  : stats.weakestSites.map(s => accuracyBar(siteName(s.site, uiLanguage), s.tally, s.site.id))}
+              </section>
+            </div>
+
+            {/* Most missed */}
+            <section className="bg-slate-50 p-5 rounded-xl border border-slate-100">
+              <h3 className="text-base font-bold text-slate-800 mb-3">{t('stats.mostMissed')}</h3>
+              {stats.mostMissed.length === 0 ? (
+                <p className="text-xs text-slate-400">{t('stats.mostMissedEmpty')}</p>
+              ) : (
+                <ul className="space-y-2">
+                  {stats.mostMissed.map(({ item, missed, answered }) => (
+                    <li key={item.id} className="bg-white rounded-lg border border-slate-200 p-3 text-sm">
+                      <div className="flex justify-between gap-3">
+                        <span className="text-slate-700">{item.question}</span>
+                        <span className="shrink-0 font-mono text-xs font-bold text-red-600">{t('stats.missed', { missed, answered })}</span>
+                      </div>
+                      <div className="text-xs text-slate-500 mt-1">
+                        {levelLabel(item.level, uiLanguage)} ・ {t('common.answer', { answer: [item.option1, item.option2, item.option3, item.option4][item.correct_idx] })}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <p className="text-xs text-slate-400 text-center">{t('stats.sessions', { count: profileSessions.length })}</p>
+          </div>
+        )}
+        <div className="pt-6 text-center">
+          <Button onClick={() => setView('home')} variant="secondary" className="w-full md:w-auto min-w-[200px] mx-auto">{t('common.backHome')}</Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderJobs = () => {
+    const resumable = jobs.filter(j => j.status === 'paused' || j.status === 'queued');
+    const finished = jobs.filter(j => j.status === 'done' || j.status === 'failed');
+    const isRunning = isGenerating && !!autoProgress;
+    const usage = rateLimiter.usage(resolveProviderSettings(providerPrefs, apiKey));
+    const inputClass = "p-2 rounded-lg border-2 border-slate-200 text-sm bg-white focus:border-blue-500 focus:outline-none";
+
+    const submitJobForm = () => {
+      if (!checkApiKey()) return;
+      if (handleEnqueueJob(jobForm.level, jobForm.target, jobForm.topic)) {
+        setJobForm(prev => ({ ...prev, topic: '' }));
+      }
+    };
+
+    return (
+      <div className="max-w-3xl mx-auto bg-white p-6 md:p-8 rounded-2xl shadow-xl animate-fade-in-up">
+        <h2 className="text-xl md:text-2xl font-bold mb-6 flex items-center gap-2">
+          <span className="text-indigo-600">🤖</span> {t('nav.jobs')}
+        </h2>
+        <div className="space-y-8">
+          {/* New Job */}
+          <section className="bg-slate-50 p-5 rounded-xl border border-slate-100">
+            <h3 className="text-base font-bold text-slate-800 mb-3">{t('jobs.add')}</h3>
+            <div className="flex flex-wrap gap-2 items-end">
+              <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+                {t('common.level')}
+                <select
+                  value={jobForm.level}
+                  onChange={(e) => {
+                    const level = e.target.value as QuizLevel;
+                    setJobForm(prev => ({ ...prev, level, target: LEVEL_TARGETS[level] || 300 }));
+                  }}
+                  className={inputClass}
+                >
+                  {Object.values(QuizLevel).map(lvl => <option key={lvl} value={lvl}>{levelLabel(lvl, uiLanguage)}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col text-xs font-bold text-slate-500 gap-1">
+                {t('jobs.targetCount')}
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_QUESTIONS_PER_LEVEL}
+                  value={jobForm.target}
+                  onChange={(e) => setJobForm(prev => ({ ...prev, target: Math.min(MAX_QUESTIONS_PER_LEVEL, Math.max(1, Number(e.target.value) || 1)) }))}
+                  className={`${inputClass} w-28`}
+                />
+              </label>
+              <label className="flex flex-col text-xs font-bold text-slate-500 gap-1 flex-1 min-w-[160px]">
+                {t('jobs.topic')}
+                <input
+                  value={jobForm.topic}
+                  onChange={(e) => setJobForm(prev => ({ ...prev, topic: e.target.value }))}
+                  placeholder={t('jobs.topicPlaceholder')}
+                  className={inputClass}
+                />
+              </label>
+              <Button onClick={submitJobForm} className="py-2 text-sm">{t('jobs.enqueue')}</Button>
+            </div>
+            <div className="mt-3">{renderGeneratorOptions()}</div>
+            <p className="text-xs text-slate-400 mt-2">{t('jobs.current', { count: languageItems.filter(i => i.level === jobForm.level).length })}</p>
+          </section>
+
+          {/* Queue Controls */}
+          <div className="flex flex-wrap gap-3 justify-between items-center">
+            <span className="text-sm font-bold text-slate-600">
+              {isRunning && autoProgress
+                ? t('jobs.running', { level: levelLabel(autoProgress.level, uiLanguage), current: autoProgress.current, target: autoProgress.target, status: autoProgress.status })
+                : t('jobs.waiting', { count: resumable.length })}
+            </span>
+            <div className="flex gap-2">
+              {isRunning ? (
+                <Button onClick={handleStopAuto} variant="danger" disabled={autoProgress?.isStopping} className="py-2 text-sm">
+                  {autoProgress?.isStopping ? t('home.waitingForBatch') : t('common.stop')}
+                </Button>
+              ) : (
+                <Button onClick={() => handleResumeJobs(resumable.map(j => j.id))} disabled={resumable.length === 0 || isGenerating || !isOnline} className="py-2 text-sm">
+                  {isOnline ? t('jobs.run') : t('jobs.runWhenOnline')}
+                </Button>
+              )}
+              <Button onClick={() => removeJobs(finished.map(j => j.id))} disabled={finished.length === 0} variant="secondary" className="py-2 text-sm">
+                {t('jobs.clearFinished')}
+              </Button>
+            </div>
+          </div>
+
+          {Number.isFinite(usage.limits.rpd) && (
+            <p className="text-xs text-slate-400 -mt-5">
+              {t('jobs.usage', { provider: activeProvider.label[uiLanguage], day: usage.dayUsed, rpd: usage.limits.rpd, minute: usage.minuteUsed, rpm: usage.limits.rpm })}
+            </p>
+          )}
+
+          {/* Job List */}
+          <ul className="space-y-3">
+            {jobs.length === 0 && <li className="text-center text-slate-400 text-sm py-8">{t('jobs.empty')}</li>}
+            {jobs.map(job => {
+              const options = { ...DEFAULT_GENERATOR_OPTIONS, ...job.options };
+              const current = dbItems.filter(i => i.level === job.level && i.language === options.language).length;
+              const summary = summarizeLog(job);
+              const isExpanded = expandedJobId === job.id;
+              return (
+                <li key={job.id} className="bg-white p-4 rounded-xl border border-slate-200 text-sm">
+                  <div className="flex justify-between items-start gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="bg-slate-800 text-white px-2 py-0.5 rounded text-xs font-bold">{levelLabel(job.level, uiLanguage)}</span>
+                        <span className={`text-xs font-bold px-2 py-0.5 rounded ${
+                          job.status === 'done' ? 'bg-emerald-100 text-emerald-700'
+                          : job.status === 'failed' ? 'bg-red-100 text-red-700'
+                          : job.status === 'running' ? 'bg-blue-100 text-blue-700 animate-pulse'
+                          : 'bg-slate-100 text-slate-600'
+                        }`}>{JOB_STATUS_LABELS[job.status][uiLanguage]}</span>
+                        <span className="font-mono text-xs text-slate-500">{current} / {job.target}</span>
+                      </div>
+                      <p className="text-xs text-slate-500 truncate">{t('jobs.theme', { topic: job.topic || t('jobs.autoTopic') })} ・ {describeGeneratorOptions(options)}</p>
+                      <p className="text-xs text-slate-400 mt-1">
+                        {t('jobs.summary', { added: summary.added, duplicates: summary.duplicates, quarantined: summary.quarantined, errors: summary.errors })}
+                      </p>
+                    </div>
+                    <div className="flex flex-col gap-1 text-xs font-bold whitespace-nowrap items-end">
+                      {(job.status === 'paused' || job.status === 'failed') && !isGenerating && (
+                        <button onClick={() => handleResumeJobs([job.id])} className="text-blue-500 hover:text-blue-700">{t('jobs.resumeOne')}</button>
+                      )}
+                      {job.status !== 'running' && (
+                        <button onClick={() => removeJobs([job.id])} className="text-red-500 hover:text-red-700">{t('common.delete')}</button>
+                      )}
+                      <button onClick={() => setExpandedJobId(isExpanded ? null : job.id)} className="text-slate-400 hover:text-slate-600">
+                        {isExpanded ? t('jobs.closeLog') : t('jobs.log', { count: job.log.length })}
+                      </button>
+                    </div>
+                  </div>
+                  {isExpanded && (
+                    <div className="mt-3 max-h-64 overflow-y-auto border-t border-slate-100 pt-2">
+                      <table className="w-full text-xs">
+                        <thead className="text-slate-400">
+                          <tr><th className="text-left font-bold py-1">{t('jobs.log.time')}</th><th>{t('jobs.log.requested')}</th><th>{t('jobs.log.added')}</th><th>{t('jobs.log.duplicates')}</th><th>{t('jobs.log.quarantined')}</th><th className="text-left">{t('jobs.log.focus')}</th></tr>
+                        </thead>
+                        <tbody>
+                          {[...job.log].reverse().map((entry, i) => (
+                            <tr key={i} className={`border-t border-slate-50 ${entry.error || entry.note ? 'text-red-600' : 'text-slate-600'}`}>
+                              <td className="py-1 font-mono whitespace-nowrap">{new Date(entry.at).toLocaleString(LOCALES[uiLanguage])}</td>
+                              <td className="text-center">{entry.requested}</td>
+                              <td className="text-center">{entry.added}</td>
+                              <td className="text-center">{entry.duplicates}</td>
+                              <td className="text-center">{entry.quarantined}</td>
+                              <td className="truncate max-w-[12rem]" title={entry.error || entry.note?.[uiLanguage] || entry.focus}>{entry.error || entry.note?.[uiLanguage] || entry.focus || ''}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="pt-4 text-center">
+            <Button onClick={() => setView('home')} variant="secondary" className="w-full md:w-auto min-w-[200px] mx-auto">{t('common.backHome')}</Button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderProfiles = () => (
+    <div>
+      <label className="block text-sm font-bold text-slate-700 mb-1">{t('profiles.title')}</label>
+      <p className="text-xs text-slate-500 mb-3">{t('profiles.description')}</p>
+      <ul className="space-y-2 mb-3">
+        {profiles.map(profile => {
+          const isActive = profile.id === activeProfileId;
+          return (
+            <li key={profile.id} className={`rounded-xl border-2 px-3 py-2 flex justify-between items-center gap-3 text-sm ${isActive ? 'border-blue-500 bg-blue-50' : 'border-slate-200'}`}>
+              <span className="min-w-0">
+                <span className={`font-bold ${isActive ? 'text-blue-700' : 'text-slate-700'}`}>{profileName(profile)}</span>
+                <span className="text-xs text-slate-400 ml-2">{t('profiles.answers', { count: answers.filter(a => a.profileId === profile.id).length })}</span>
+              </span>
+              <span className="flex items-center gap-3 text-xs font-bold whitespace-nowrap">
+                {isActive
+                  ? <span className="text-blue-600">{t('profiles.active')}</span>
+                  : <button onClick={() => handleSwitchProfile(profile.id)} className="text-blue-600 hover:text-blue-800">{t('profiles.switch')}</button>}
+                <button onClick={() => handleExportProfile(profile)} className="text-slate-500 hover:text-slate-700">{t('profiles.export')}</button>
+                {!isActive && profile.id !== DEFAULT_PROFILE_ID && (
+                  <button onClick={() => handleDeleteProfile(profile)} className="text-red-500 hover:text-red-700">{t('profiles.delete')}</button>
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newProfileName}
+          onChange={(e) => setNewProfileName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleCreateProfile(); }}
+          placeholder={t('profiles.newPlaceholder')}
+          maxLength={40}
+          className="flex-1 min-w-0 p-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:outline-none text-sm"
+        />
+        <Button onClick={handleCreateProfile} disabled={!newProfileName.trim()} variant="outline" className="text-sm py-2">{t('profiles.create')}</Button>
+      </div>
+    </div>
+  );
+
+  const renderSettings = () => {
+    const tempProvider = getProvider(tempPrefs.providerId);
+    const setTempModel = (model: string) => setTempPrefs(prev => ({ ...prev, models: { ...prev.models, [prev.providerId]: model } }));
+
+    return (
+      <div className="max-w-xl mx-auto bg-white p-6 md:p-8 rounded-2xl shadow-xl animate-fade-in-up">
+         <h2 className="text-xl md:text-2xl font-bold mb-6 flex items-center gap-2">
+          <span className="text-slate-600">⚙️</span> {t('settings.title')}
+        </h2>
+        <div className="space-y-6">
+          {renderProfiles()}
+
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">{t('settings.uiLanguage')}</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(LANGUAGE_LABELS) as Language[]).map(language => (
+                <button
+                  key={language}
+                  onClick={() => setUiLanguage(language)}
+                  className={`p-3 rounded-xl border-2 text-sm font-bold transition-colors ${
+                    uiLanguage === language ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-500 hover:border-blue-300'
+                  }`}
+                >
+                  {LANGUAGE_LABELS[language]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-2">{t('settings.uiLanguageHint')}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">{t('settings.provider')}</label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              {(Object.keys(PROVIDERS) as ProviderId[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => setTempPrefs(prev => ({ ...prev, providerId: id }))}
+                  className={`p-3 rounded-xl border-2 text-sm font-bold transition-colors ${
+                    tempPrefs.providerId === id ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-500 hover:border-blue-300'
+                  }`}
+                >
+                  {PROVIDERS[id].label[uiLanguage]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">{t('settings.model')}</label>
+            <input
+              type="text"
+              list="provider-models"
+              value={tempPrefs.models[tempPrefs.providerId] ?? ''}
+              onChange={(e) => setTempModel(e.target.value)}
+              placeholder={tempProvider.defaultModel}
+              disabled={tempProvider.id === 'mock'}
+              className="w-full p-4 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:outline-none font-mono text-sm disabled:bg-slate-50"
+            />
+            <datalist id="provider-models">
+              {tempProvider.suggestedModels.map(m => <option key={m} value={m} />)}
+            </datalist>
+            <p className="text-xs text-slate-500 mt-2">{t('settings.modelDefault', { model: tempProvider.defaultModel })}</p>
+          </div>
+
+          {tempProvider.id === 'gemini' && (
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-2">{t('settings.geminiKey')}</label>
+              <input 
+                type="text" 
+                value={tempKeyInput}
+                onChange={(e) => setTempKeyInput(e.target.value)}
+                placeholder="AIzaSy..."
+                className="w-full p-4 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:outline-none font-mono text-sm"
+              />
+              <p className="text-xs text-slate-500 mt-2 leading-relaxed">
+                 {t('settings.apiKeyRequired')}<br/>
+                <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-blue-500 underline">{t('settings.getKey')}</a>
+              </p>
+            </div>
+          )}
+
+          {tempProvider.id === 'openai' && (
+            <>
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">{t('settings.serverUrl')}</label>
+                <input
+                  type="text"
+                  value={tempPrefs.baseUrl}
+                  onChange={(e) => setTempPrefs(prev => ({ ...prev, baseUrl: e.target.value }))}
+                  placeholder="http://localhost:11434/v1"
+                  className="w-full p-4 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:outline-none font-mono text-sm"
+                />
+                <p className="text-xs text-slate-500 mt-2">{t('settings.serverUrlHint')}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">{t('settings.serverKey')}</label>
+                <input
+                  type="text"
+                  value={tempPrefs.serverApiKey}
+                  onChange={(e) => setTempPrefs(prev => ({ ...prev, serverApiKey: e.target.value }))}
+                  className="w-full p-4 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:outline-none font-mono text-sm"
+                />
+              </div>
+            </>
+          )}
+
+          {tempProvider.id === 'mock' && (
+            <p className="text-xs text-slate-500 bg-slate-50 p-4 rounded-xl leading-relaxed">
+              {t('settings.mockHint')}
+            </p>
+          )}
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-bold text-slate-700">
+              <input
+                type="checkbox"
+                checked={tempPrefs.factCheck}
+                onChange={(e) => setTempPrefs(prev => ({ ...prev, factCheck: e.target.checked }))}
+                className="w-4 h-4"
+              />
+              {t('settings.factCheck')}
+            </label>
+            <p className="text-xs text-slate-500 mt-2 leading-relaxed">
+              {t('settings.factCheckHint')}
+            </p>
+            {tempPrefs.factCheck && tempProvider.id !== 'mock' && (
+              <input
+                type="text"
+                list="provider-models"
+                value={tempPrefs.factCheckModel}
+                onChange={(e) => setTempPrefs(prev => ({ ...prev, factCheckModel: e.target.value }))}
+                placeholder={t('settings.factCheckModel')}
+                className="w-full mt-3 p-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:outline-none font-mono text-sm"
+              />
+            )}
+          </div>
+
+          <div className="flex gap-4 pt-4">
+            <Button onClick={() => setView('home')} variant="secondary" className="flex-1">{t('common.cancel')}</Button>
+            <Button onClick={handleSaveSettings} className="flex-1">{t('common.save')}</Button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderExport = () => {
+    const count = exportItems().length;
+    const selectClass = "p-2 rounded-lg border-2 border-slate-200 text-sm bg-white focus:border-blue-500 focus:outline-none";
+    const toggleLevel = (level: QuizLevel) => setExportLevels(prev =>
+      prev.includes(level) ? prev.filter(l => l !== level) : Object.values(QuizLevel).filter(l => l === level || prev.includes(l))
+    );
+
+    return (
+      <section className="space-y-3">
+        <h3 className="text-base font-bold text-slate-800">{t('export.title')}</h3>
+        <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as QuizFormatId)} className={`${selectClass} w-full`}>
+          {Object.values(QUIZ_FORMATS).map(f => <option key={f.id} value={f.id}>{f.label[uiLanguage]}</option>)}
+        </select>
+        <div className="flex flex-wrap gap-2">
+          {Object.values(QuizLevel).map(lvl => (
+            <button
+              key={lvl}
+              onClick={() => toggleLevel(lvl)}
+              className={`px-3 py-1 rounded-full text-xs font-bold transition-all ${
+                exportLevels.includes(lvl) ? 'bg-emerald-600 text-white shadow-md' : 'bg-slate-100 text-slate-500'
+              }`}
+            >
+              {levelLabel(lvl, uiLanguage)}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select value={exportFilter.language} onChange={(e) => setExportFilter(prev => ({ ...prev, language: e.target.value as QuizFilter['language'] }))} className={selectClass}>
+            <option value="all">{t('filter.allLanguages')}</option>
+            {(Object.keys(LANGUAGE_LABELS) as Language[]).map(language => <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>)}
+          </select>
+          <select value={exportFilter.region} onChange={(e) => setExportFilter(prev => ({ ...prev, region: e.target.value as QuizFilter['region'] }))} className={selectClass}>
+            <option value="all">{t('filter.allRegions')}</option>
+            <option value="japan">{t('filter.japan')}</option>
+            <option value="overseas">{t('filter.overseas')}</option>
+          </select>
+          <select value={exportFilter.heritageRegion} onChange={(e) => setExportFilter(prev => ({ ...prev, heritageRegion: e.target.value as QuizFilter['heritageRegion'] }))} className={selectClass}>
+            <option value="all">{t('filter.allHeritageRegions')}</option>
+            {(Object.keys(REGION_LABELS) as HeritageRegion[]).map(r => <option key={r} value={r}>{REGION_LABELS[r][uiLanguage]}</option>)}
+          </select>
+          <input
+            type="search"
+            value={exportFilter.text}
+            onChange={(e) => setExportFilter(prev => ({ ...prev, text: e.target.value }))}
+            placeholder={t('filter.keyword')}
+            className={`${selectClass} flex-1 min-w-[120px]`}
+          />
+        </div>
+        <button 
+          onClick={handleExport} 
+          disabled={count === 0}
+          className="block w-full bg-white hover:bg-emerald-50 border-2 border-dashed border-slate-300 hover:border-emerald-400 rounded-xl p-4 text-center transition-colors touch-manipulation group disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <div className="text-3xl mb-2 opacity-50 group-hover:opacity-100">📤</div>
+          <span className="text-slate-600 font-bold text-sm">{t('export.download', { count })}</span>
+        </button>
+      </section>
+    );
+  };
+
+  const renderWorksheet = () => {
+    const count = exportItems().length;
+    const inputClass = "w-full p-2 rounded-lg border-2 border-slate-200 text-sm bg-white focus:border-blue-500 focus:outline-none";
+    const update = (patch: Partial<WorksheetOptions>) => setWorksheetOptions(prev => ({ ...prev, ...patch }));
+
+    return (
+      <section className="bg-slate-50 p-5 rounded-xl border border-slate-100">
+        <h3 className="text-lg font-bold text-slate-800 mb-1">{t('worksheet.title')}</h3>
+        <p className="text-xs text-slate-500 mb-4">{t('worksheet.description', { count })}</p>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-3">
+          <label className="text-xs font-bold text-slate-500">
+            {t('worksheet.questionCount')}
+            <input
+              type="number"
+              min={1}
+              max={Math.max(1, count)}
+              value={worksheetOptions.questionCount}
+              onChange={(e) => update({ questionCount: Math.max(1, parseInt(e.target.value) || 1) })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="text-xs font-bold text-slate-500">
+            {t('worksheet.copies')}
+            <input
+              type="number"
+              min={1}
+              max={MAX_WORKSHEET_COPIES}
+              value={worksheetOptions.copies}
+              onChange={(e) => update({ copies: Math.min(MAX_WORKSHEET_COPIES, Math.max(1, parseInt(e.target.value) || 1)) })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="text-xs font-bold text-slate-500 col-span-2 md:col-span-1">
+            {t('worksheet.seed')}
+            <div className="flex gap-2 mt-1">
+              <input
+                type="text"
+                value={worksheetOptions.seed}
+                onChange={(e) => update({ seed: e.target.value.trim() })}
+                className={`${inputClass} font-mono`}
+              />
+              <button onClick={() => update({ seed: randomSeed() })} className="text-xs font-bold text-blue-600 hover:text-blue-800 whitespace-nowrap" title={t('worksheet.newSeed')}>🎲</button>
+            </div>
+          </label>
+        </div>
+        <p className="text-xs text-slate-400 mb-3">{t('worksheet.copiesHint')}</p>
+        <div className="flex flex-wrap gap-4 mb-4 text-sm text-slate-600">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={worksheetOptions.answerKey} onChange={(e) => update({ answerKey: e.target.checked })} />
+            {t('worksheet.answerKey')}
+          </label>
+          <label className={`flex items-center gap-2 ${worksheetOptions.answerKey ? '' : 'opacity-50'}`}>
+            <input type="checkbox" checked={worksheetOptions.explanations} disabled={!worksheetOptions.answerKey} onChange={(e) => update({ explanations: e.target.checked })} />
+            {t('worksheet.explanations')}
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <Button onClick={handlePrintWorksheet} disabled={count === 0} className="text-sm py-2">{t('worksheet.print')}</Button>
+          <Button onClick={handleSaveWorksheet} disabled={count === 0} variant="outline" className="text-sm py-2">{t('worksheet.saveHtml')}</Button>
+        </div>
+      </section>
+    );
+  };
+
+  const renderBackup = () => (
+    <section className="bg-slate-50 p-5 rounded-xl border border-slate-100">
+      <h3 className="text-lg font-bold text-slate-800 mb-1">{t('backup.title')}</h3>
+      <p className="text-xs text-slate-500 mb-4">{t('backup.description')}</p>
+      <div className="flex flex-wrap gap-3">
+        <Button onClick={handleExportBackup} variant="outline" className="text-sm py-2">{t('backup.save')}</Button>
+        <label className={`px-4 py-2 rounded-xl font-bold text-sm cursor-pointer bg-white text-slate-600 border-2 border-slate-200 hover:border-blue-400 hover:text-blue-600 transition-all ${isRestoring ? 'opacity-50 pointer-events-none' : ''}`}>
+          <input type="file" accept=".json" onChange={handleBackupFile} className="hidden" />
+          {t('backup.restore')}
+        </label>
+      </div>
+
+      {backupPreview && (
+        <div className="mt-4 bg-white rounded-lg border border-blue-200 p-4 animate-fade-in">
+          <p className="text-xs text-slate-500 font-mono break-all mb-3">
+            {t('backup.fileInfo', { name: backupPreview.fileName, at: new Date(backupPreview.archive.createdAt).toLocaleString(LOCALES[uiLanguage]), count: countRecords(backupPreview.archive.data) })}
+          </p>
+          <table className="w-full text-xs mb-4">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-left py-1">{t('backup.diff.store')}</th>
+                <th>{t('backup.diff.added')}</th>
+                <th>{t('backup.diff.changed')}</th>
+                <th>{t('backup.diff.unchanged')}</th>
+                <th>{t('backup.diff.removed')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(STORE_LABELS) as (keyof StoredData)[]).map(store => {
+                const d = backupPreview.diff[store];
+                return (
+                  <tr key={store} className="border-t border-slate-100 text-center font-mono">
+                    <td className="text-left py-1 font-sans text-slate-600">{STORE_LABELS[store][uiLanguage]}</td>
+                    <td className={d.added > 0 ? 'text-emerald-600 font-bold' : 'text-slate-400'}>{d.added}</td>
+                    <td className={d.changed > 0 ? 'text-amber-600 font-bold' : 'text-slate-400'}>{d.changed}</td>
+                    <td className="text-slate-400">{d.unchanged}</td>
+                    <td className={d.removed > 0 ? 'text-red-600 font-bold' : 'text-slate-400'}>{d.removed}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {backupPreview.archive.profileId ? (
+            <p className="text-xs text-slate-500 mb-3">
+              {t('backup.profileHint', { name: backupPreview.archive.data.profiles[0] ? profileName(backupPreview.archive.data.profiles[0]) : backupPreview.archive.profileId })}
+            </p>
+          ) : (
+            <p className="text-xs text-slate-500 mb-3">{t('backup.modeHint')}</p>
+          )}
+          <div className="flex flex-wrap gap-3 justify-end">
+            <Button onClick={() => setBackupPreview(null)} variant="secondary" className="text-sm py-2">{t('common.cancel')}</Button>
+            {!backupPreview.archive.profileId && (
+              <Button onClick={() => handleConfirmRestore('replace')} variant="danger" disabled={isRestoring} className="text-sm py-2">{t('backup.replace')}</Button>
+            )}
+            <Button onClick={() => handleConfirmRestore('merge')} disabled={isRestoring} className="text-sm py-2">
+              {t(backupPreview.archive.profileId ? 'backup.importProfile' : 'backup.merge')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {snapshots.length > 0 && (
+        <div className="mt-5">
+          <h4 className="text-sm font-bold text-slate-700 mb-2">{t('snapshot.title', { count: MAX_SNAPSHOTS })}</h4>
+          <ul className="space-y-2">
+            {[...snapshots].reverse().map(snapshot => (
+              <li key={snapshot.id} className="bg-white rounded-lg border border-slate-200 px-3 py-2 flex justify-between items-center gap-3 text-xs">
+                <span className="text-slate-600">
+                  <span className="font-mono text-slate-400 mr-2">{new Date(snapshot.createdAt).toLocaleString(LOCALES[uiLanguage])}</span>
+                  {t('snapshot.entry', { reason: translateMessage(snapshot.reason, t), count: snapshot.data.items.length })}
+                </span>
+                <button onClick={() => handleRestoreSnapshot(snapshot)} disabled={isRestoring} className="font-bold text-blue-600 hover:text-blue-800 whitespace-nowrap disabled:opacity-50">{t('snapshot.restoreButton')}</button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+
+  const renderImportPreview = () => {
+    if (!importPreview) return null;
+    const { fileName, format, result, duplicateCount } = importPreview;
+
+    return (
+      <section className="bg-blue-50 p-5 rounded-xl border border-blue-100 animate-fade-in">
+        <h3 className="text-lg font-bold text-slate-800 mb-1">{t('import.title')}</h3>
+        <p className="text-xs text-slate-500 mb-4 font-mono break-all">{t('import.file', { name: fileName, format: QUIZ_FORMATS[format].label[uiLanguage] })}</p>
+        <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+          <div className="bg-white p-3 rounded-lg border border-slate-200">
+            <span className="text-xs text-slate-500 block">{t('import.readable')}</span>
+            <span className="text-xl font-bold text-emerald-600">{result.items.length}</span>
+          </div>
+          <div className="bg-white p-3 rounded-lg border border-slate-200">
+            <span className="text-xs text-slate-500 block">{t('import.errors')}</span>
+            <span className={`text-xl font-bold ${result.errors.length > 0 ? 'text-red-500' : 'text-slate-600'}`}>{result.errors.length}</span>
+          </div>
+          <div className="bg-white p-3 rounded-lg border border-slate-200">
+            <span className="text-xs text-slate-500 block">{t('import.duplicates')}</span>
+            <span className="text-xl font-bold text-slate-600">{duplicateCount}</span>
+          </div>
+        </div>
+
+        {result.errors.length > 0 && (
+          <ul className="bg-white border border-red-100 rounded-lg p-3 mb-4 max-h-48 overflow-y-auto text-xs text-red-700 space-y-1">
+            {result.errors.map((err, i) => (
+              <li key={i}><span className="font-mono font-bold">{t(QUIZ_FORMATS[format].errorUnit === 'line' ? 'import.errorLine' : 'import.errorQuestion', { n: err.line })}:</span> {err.message[uiLanguage]}</li>
+            ))}
+          </ul>
+        )}
+        {result.quarantined.length > 0 && (
+          <p className="text-xs text-slate-500 mb-4">{t('import.quarantined', { count: result.quarantined.length })}</p>
+        )}
+
+        <div className="flex flex-wrap gap-3 justify-end">
+          <Button onClick={() => setImportPreview(null)} variant="secondary" className="text-sm py-2">{t('common.cancel')}</Button>
+          <Button onClick={() => handleConfirmImport('overwrite')} variant="danger" disabled={result.items.length === 0} className="text-sm py-2">{t('import.overwrite')}</Button>
+          <Button onClick={() => handleConfirmImport('append')} disabled={result.items.length === 0} className="text-sm py-2">{t('import.append')}</Button>
+        </div>
+      </section>
+    );
+  };
 
-              {/* Static Progress Bar */}
-              <div className="w-full bg-slate-100 h-2 rounded-full mb-4 overflow-hidden">
-                <div 
-                  className={`h-full rounded-full transition-all duration-500 ${savedCount >= target ? 'bg-emerald-500' : 'bg-blue-500'}`} 
-                  style={{ width: `${Math.min(100, (savedCount / target) * 100)}%` }} 
+  const renderItemEditor = () => {
+    if (!editDraft) return null;
+    const { item, issues } = editDraft;
+    const inputClass = "w-full p-2 rounded-lg border-2 border-slate-200 focus:border-blue-500 focus:outline-none text-sm";
+    const optionKeys = ['option1', 'option2', 'option3', 'option4'] as const;
+    const updateNote = (idx: number, note: string) => {
+      const notes = [...(item.option_notes ?? ['', '', '', ''])];
+      notes[idx] = note;
+      updateDraft({ option_notes: notes });
+    };
+
+    return (
+      <div className="mt-3 p-4 bg-slate-50 rounded-xl border border-blue-200 space-y-3 text-sm animate-fade-in">
+        <div className="grid grid-cols-3 gap-3">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500">{t('common.level')}</span>
+            <select value={item.level} onChange={(e) => updateDraft({ level: e.target.value })} className={inputClass}>
+              {!Object.values(QuizLevel).includes(item.level as QuizLevel) && <option value={item.level}>{item.level || t('editor.unset')}</option>}
+              {Object.values(QuizLevel).map(lvl => <option key={lvl} value={lvl}>{levelLabel(lvl, uiLanguage)}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500">{t('editor.language')}</span>
+            <select value={item.language} onChange={(e) => updateDraft({ language: e.target.value as Language })} className={inputClass}>
+              {(Object.keys(LANGUAGE_LABELS) as Language[]).map(language => <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 pt-5">
+            <input type="checkbox" checked={item.is_japan} onChange={(e) => updateDraft({ is_japan: e.target.checked })} />
+            <span className="text-xs font-bold text-slate-600">{t('editor.isJapan')}</span>
+          </label>
+        </div>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500">{t('editor.question')}</span>
+          <textarea value={item.question} onChange={(e) => updateDraft({ question: e.target.value })} rows={2} className={inputClass} />
+        </label>
+        <div className="space-y-2">
+          <span className="text-xs font-bold text-slate-500">{t('editor.options')}</span>
+          {optionKeys.map((key, idx) => (
+            <div key={key} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="edit-correct-idx"
+                  checked={item.correct_idx === idx}
+                  onChange={() => updateDraft({ correct_idx: idx })}
+                  aria-label={t('editor.markCorrect', { n: idx + 1 })}
                 />
+                <input value={item[key]} onChange={(e) => updateDraft({ [key]: e.target.value })} className={inputClass} />
               </div>
+              {item.correct_idx !== idx && (
+                <input
+                  value={item.option_notes?.[idx] ?? ''}
+                  onChange={(e) => updateNote(idx, e.target.value)}
+                  placeholder={t('editor.notePlaceholder')}
+                  className={`${inputClass} ml-5 text-xs py-1`}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500">{t('editor.explanation')}</span>
+          <textarea value={item.explanation} onChange={(e) => updateDraft({ explanation: e.target.value })} rows={3} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500">{t('editor.trivia')}</span>
+          <textarea value={item.advanced_explanation} onChange={(e) => updateDraft({ advanced_explanation: e.target.value })} rows={2} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500">Wikipedia URL</span>
+          <input value={item.wiki_link} onChange={(e) => updateDraft({ wiki_link: e.target.value })} className={`${inputClass} font-mono`} />
+        </label>
+
+        {issues.length > 0 && (
+          <ul className="text-xs text-red-600 list-disc list-inside bg-red-50 p-3 rounded-lg">
+            {issues.map((issue, i) => <li key={i}>{localized(issue.message, uiLanguage)}</li>)}
+          </ul>
+        )}
 
-              <div className="space-y-3">
-                <div className="grid grid-cols-2 gap-3">
-                  <Button 
-                    onClick={() => handleGenerateLevel(level)} 
-                    disabled={isGenerating}
-                    className="flex flex-col items-center justify-center py-3 text-sm"
-                  >
-                    <span>⚡️ {genCount}問 作成</span>
-                  </Button>
-                  <Button 
-                    onClick={() => handleReviewLevel(level)} 
-                    disabled={isGenerating || savedCount === 0}
-                    variant="success"
-                    className="flex flex-col items-center justify-center py-3 text-sm"
-                  >
-                    <span>📚 過去問</span>
-                  </Button>
+        <div className="flex justify-end gap-2">
+          <Button onClick={() => setEditDraft(null)} variant="secondary" className="text-xs py-2 px-3">{t('common.cancel')}</Button>
+          <Button onClick={handleSaveEdit} className="text-xs py-2 px-3">
+            {editDraft.origin === 'quarantine' ? t('editor.fixAndAdd') : t('editor.save')}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderQuestionBrowser = () => {
+    const filtered = filterQuizItems(dbItems, browserFilter);
+    const pageCount = Math.max(1, Math.ceil(filtered.length / BROWSER_PAGE_SIZE));
+    const page = Math.min(browserPage, pageCount - 1);
+    const pageItems = filtered.slice(page * BROWSER_PAGE_SIZE, (page + 1) * BROWSER_PAGE_SIZE);
+    const allPageSelected = pageItems.length > 0 && pageItems.every(i => selectedIds.has(i.id));
+    const selectClass = "p-2 rounded-lg border-2 border-slate-200 text-sm bg-white focus:border-blue-500 focus:outline-none";
+    const siteCounts = new Map<string, number>();
+    dbItems.forEach(item => item.site_ids?.forEach(id => siteCounts.set(id, (siteCounts.get(id) ?? 0) + 1)));
+
+    return (
+      <section className="bg-slate-50 p-5 rounded-xl border border-slate-100">
+        <h3 className="text-lg font-bold text-slate-800 mb-4">{t('browser.title')}</h3>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-2 mb-4">
+          <select value={browserFilter.level} onChange={(e) => updateBrowserFilter({ level: e.target.value as QuizFilter['level'] })} className={selectClass}>
+            <option value="all">{t('filter.allLevels')}</option>
+            {Object.values(QuizLevel).map(lvl => <option key={lvl} value={lvl}>{levelLabel(lvl, uiLanguage)}</option>)}
+          </select>
+          <select value={browserFilter.language} onChange={(e) => updateBrowserFilter({ language: e.target.value as QuizFilter['language'] })} className={selectClass}>
+            <option value="all">{t('filter.allLanguages')}</option>
+            {(Object.keys(LANGUAGE_LABELS) as Language[]).map(language => <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>)}
+          </select>
+          <select value={browserFilter.region} onChange={(e) => updateBrowserFilter({ region: e.target.value as QuizFilter['region'] })} className={selectClass}>
+            <option value="all">{t('filter.allRegions')}</option>
+            <option value="japan">{t('filter.japan')}</option>
+            <option value="overseas">{t('filter.overseas')}</option>
+          </select>
+          <select value={browserFilter.heritageRegion} onChange={(e) => updateBrowserFilter({ heritageRegion: e.target.value as QuizFilter['heritageRegion'] })} className={selectClass}>
+            <option value="all">{t('filter.allHeritageRegions')}</option>
+            {(Object.keys(REGION_LABELS) as HeritageRegion[]).map(r => <option key={r} value={r}>{REGION_LABELS[r][uiLanguage]}</option>)}
+          </select>
+          <select value={browserFilter.siteId} onChange={(e) => updateBrowserFilter({ siteId: e.target.value })} className={`${selectClass} max-w-[14rem]`}>
+            <option value="all">{t('filter.allSites')}</option>
+            {(Object.keys(REGION_LABELS) as HeritageRegion[]).map(r => (
+              <optgroup key={r} label={REGION_LABELS[r][uiLanguage]}>
+                {HERITAGE_SITES.filter(site => site.region === r).map(site => (
+                  <option key={site.id} value={site.id}>{t('filter.siteOption', { name: siteName(site, uiLanguage), count: siteCounts.get(site.id) ?? 0 })}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <input
+            type="search"
+            value={browserFilter.text}
+            onChange={(e) => updateBrowserFilter({ text: e.target.value })}
+            placeholder={t('browser.searchPlaceholder')}
+            className={`${selectClass} flex-1 min-w-[160px]`}
+          />
+        </div>
+
+        {/* Bulk actions */}
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3 text-xs">
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 font-bold text-slate-500">
+              <input type="checkbox" checked={allPageSelected} onChange={(e) => toggleSelected(pageItems.map(i => i.id), e.target.checked)} />
+              {t('browser.selectPage', { count: filtered.length })}
+            </label>
+            {filtered.length > 0 && (
+              <button onClick={() => handleShareItems(filtered)} className="font-bold text-blue-600 hover:text-blue-800">{t('quizSet.shareFiltered')}</button>
+            )}
+          </div>
+          {selectedIds.size > 0 && (
+            <div className="flex flex-wrap items-center gap-2 bg-white border border-slate-200 rounded-lg px-3 py-2">
+              <span className="font-bold text-blue-600">{t('browser.selected', { count: selectedIds.size })}</span>
+              <select value={bulkLevel} onChange={(e) => setBulkLevel(e.target.value as QuizLevel)} className="p-1 rounded border border-slate-200">
+                {Object.values(QuizLevel).map(lvl => <option key={lvl} value={lvl}>{levelLabel(lvl, uiLanguage)}</option>)}
+              </select>
+              <button onClick={handleBulkSetLevel} className="font-bold text-blue-600 hover:text-blue-800">{t('browser.changeLevel')}</button>
+              <button onClick={() => handleShareItems(dbItems.filter(i => selectedIds.has(i.id)))} className="font-bold text-blue-600 hover:text-blue-800">{t('quizSet.shareSelected')}</button>
+              <button onClick={handleBulkDelete} className="font-bold text-red-500 hover:text-red-700">{t('common.delete')}</button>
+              <button onClick={() => setSelectedIds(new Set())} className="text-slate-400 hover:text-slate-600">{t('browser.clearSelection')}</button>
+            </div>
+          )}
+        </div>
+
+        {/* Rows */}
+        <ul className="space-y-2">
+          {pageItems.map(item => {
+            const options = [item.option1, item.option2, item.option3, item.option4];
+            const isEditing = editDraft?.origin === 'db' && editDraft.item.id === item.id;
+            return (
+              <li key={item.id} className={`bg-white p-3 rounded-lg border text-sm ${isEditing ? 'border-blue-300' : 'border-slate-200'}`}>
+                <div className="flex items-start gap-3">
+                  <input type="checkbox" className="mt-1" checked={selectedIds.has(item.id)} onChange={(e) => toggleSelected([item.id], e.target.checked)} />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 text-xs text-slate-400 mb-1">
+                      <span className="bg-slate-100 text-slate-600 px-2 py-0.5 rounded font-bold">{levelLabel(item.level, uiLanguage)}</span>
+                      <span className="font-mono uppercase" title={LANGUAGE_LABELS[item.language]}>{item.language}</span>
+                      {item.is_japan && <span>🇯🇵</span>}
+                      {item.report && <span className="text-rose-500 font-bold" title={REPORT_REASONS[item.report.reason].label[uiLanguage]}>{t('browser.reported')}</span>}
+                    </div>
+                    <p className="font-bold text-slate-700 break-words">{item.question}</p>
+                    <p className="text-xs text-emerald-700 mt-1">{t('common.answer', { answer: options[item.correct_idx] })}</p>
+                    {item.site_ids && item.site_ids.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {item.site_ids.map(id => {
+                          const site = getSite(id);
+                          if (!site) return null;
+                          return (
+                            <button
+                              key={id}
+                              onClick={() => updateBrowserFilter({ siteId: id })}
+                              title={describeSite(site)}
+                              className="text-[11px] bg-indigo-50 text-indigo-600 hover:bg-indigo-100 px-2 py-0.5 rounded-full"
+                            >
+                              {site.endangered && '⚠️ '}{siteName(site, uiLanguage)}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-col gap-1 text-xs font-bold whitespace-nowrap">
+                    <button onClick={() => isEditing ? setEditDraft(null) : handleStartEdit(item, 'db')} className="text-blue-500 hover:text-blue-700">
+                      {isEditing ? t('common.close') : t('common.edit')}
+                    </button>
+                    <button onClick={() => handleDeleteItem(item.id)} className="text-red-500 hover:text-red-700">{t('common.delete')}</button>
+                  </div>
+                </div>
+                {isEditing && renderItemEditor()}
+              </li>
+            );
+          })}
+          {pageItems.length === 0 && (
+            <li className="text-center text-slate-400 text-sm py-8">{t('browser.empty')}</li>
+          )}
+        </ul>
+
+        {/* Pagination */}
+        {pageCount > 1 && (
+          <div className="flex justify-center items-center gap-3 mt-4 text-sm">
+            <Button onClick={() => setBrowserPage(page - 1)} disabled={page === 0} variant="secondary" className="py-1 px-3 text-xs">{t('browser.prev')}</Button>
+            <span className="font-mono text-slate-500">{page + 1} / {pageCount}</span>
+            <Button onClick={() => setBrowserPage(page + 1)} disabled={page >= pageCount - 1} variant="secondary" className="py-1 px-3 text-xs">{t('browser.next')}</Button>
+          </div>
+        )}
+      </section>
+    );
+  };
+
+  const renderDuplicateReview = () => (
+    <section className="bg-slate-50 p-5 rounded-xl border border-slate-100">
+      <h3 className="text-lg font-bold text-slate-800 mb-1 flex justify-between items-center">
+        <span>{t('duplicates.title')}</span>
+        <Button onClick={handleScanDuplicates} disabled={isScanningDuplicates || dbItems.length < 2} variant="secondary" className="text-xs py-2 px-3">
+          {isScanningDuplicates ? t('duplicates.scanning') : duplicateClusters ? t('duplicates.rescan') : t('duplicates.scan')}
+        </Button>
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">{t('duplicates.description')}</p>
+
+      {duplicateClusters && duplicateClusters.length === 0 && (
+        <p className="text-center text-emerald-600 text-sm font-bold py-4">{t('duplicates.none')}</p>
+      )}
+
+      {duplicateClusters && duplicateClusters.length > 0 && (
+        <ul className="space-y-4 max-h-[32rem] overflow-y-auto">
+          {duplicateClusters.map((cluster, ci) => {
+            const id = clusterId(cluster);
+            const keepId = clusterKeep[id] ?? cluster[0].id;
+            return (
+              <li key={id} className="bg-white p-3 rounded-lg border border-slate-200 text-sm">
+                <div className="text-xs font-bold text-slate-400 mb-2">{t('duplicates.cluster', { n: ci + 1, count: cluster.length })}</div>
+                <ul className="space-y-2">
+                  {cluster.map(item => {
+                    const options = [item.option1, item.option2, item.option3, item.option4];
+                    return (
+                      <li key={item.id} className="flex items-start gap-2">
+                        <input
+                          type="radio"
+                          className="mt-1"
+                          name={`keep-${id}`}
+                          checked={keepId === item.id}
+                          onChange={() => setClusterKeep(prev => ({ ...prev, [id]: item.id }))}
+                          aria-label={t('duplicates.keep')}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-slate-700 break-words"><span className="text-xs text-slate-400 mr-1">{levelLabel(item.level, uiLanguage)}</span>{item.question}</p>
+                          <p className="text-xs text-emerald-700">{t('common.answer', { answer: options[item.correct_idx] })}</p>
+                        </div>
+                        <button onClick={() => handleDeleteFromCluster(item.id)} className="text-xs text-red-500 hover:text-red-700 font-bold whitespace-nowrap">{t('common.delete')}</button>
+                      </li>
+                    );
+                  })}
+                </ul>
+                <div className="flex justify-end gap-3 mt-3 text-xs font-bold">
+                  <button onClick={() => handleDismissCluster(ci)} className="text-slate-400 hover:text-slate-600">{t('duplicates.dismiss')}</button>
+                  <button onClick={() => handleMergeCluster(cluster, keepId)} className="text-blue-600 hover:text-blue-800">{t('duplicates.merge')}</button>
                 </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
 
-                {savedCount < target && (
-                  <button
-                    onClick={() => handleAutoGenerate(level)}
-                    disabled={isGenerating}
-                    className="w-full bg-indigo-50 hover:bg-indigo-100 text-indigo-600 border border-indigo-200 font-bold py-3 rounded-xl text-sm transition-colors flex items-center justify-center gap-2"
-                  >
-                    <span>🤖 目標({target}問)まで自動生成</span>
+  const renderQuarantine = () => (
+    <section className="bg-amber-50 p-5 rounded-xl border border-amber-100">
+      <h3 className="text-lg font-bold text-slate-800 mb-1 flex justify-between items-center">
+        <span>{t('quarantine.title', { count: quarantine.length })}</span>
+        {/* eslint-disable-next-line no-restricted-globals */}
+        <Button onClick={() => { if (confirm(t('quarantine.confirm.discardAll'))) { takeSnapshot({ key: 'snapshot.discardQuarantine' }); setQuarantine([]); } }} variant="ghost" className="text-xs py-1 px-2">
+          {t('quarantine.discardAll')}
+        </Button>
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">{t('quarantine.description')}</p>
+      <ul className="space-y-3 max-h-96 overflow-y-auto">
+        {quarantine.map(entry => (
+          <li key={entry.item.id} className="bg-white p-3 rounded-lg border border-slate-200 text-sm">
+            <div className="flex justify-between items-start gap-3">
+              <div className="min-w-0">
+                <div className="text-xs text-slate-400 mb-1">
+                  {QUARANTINE_SOURCE_LABELS[entry.source]?.[uiLanguage] || entry.source} ・ {entry.item.level ? levelLabel(entry.item.level, uiLanguage) : t('quarantine.noLevel')}
+                  {entry.factCheck && (
+                    <span className={`ml-2 font-bold ${entry.factCheck.confidence < 0.3 ? 'text-red-500' : 'text-amber-600'}`}>
+                      {t('quarantine.confidence', { percent: Math.round(entry.factCheck.confidence * 100) })}
+                    </span>
+                  )}
+                </div>
+                <p className="font-bold text-slate-700 break-words">{entry.item.question || t('quarantine.noQuestion')}</p>
+              </div>
+              <div className="flex flex-col gap-1 text-xs font-bold whitespace-nowrap">
+                {entry.source === 'factcheck' && (
+                  <button onClick={() => handleApproveQuarantined(entry)} className="text-emerald-600 hover:text-emerald-800">
+                    {t('quarantine.approve')}
                   </button>
                 )}
+                <button onClick={() => handleStartEdit(entry.item, 'quarantine')} className="text-blue-500 hover:text-blue-700">
+                  {t('common.edit')}
+                </button>
+                <button
+                  onClick={() => setQuarantine(prev => prev.filter(q => q.item.id !== entry.item.id))}
+                  className="text-red-500 hover:text-red-700"
+                >
+                  {t('quarantine.discard')}
+                </button>
               </div>
             </div>
-          );
-        })}
-      </div>
-
-      <div className="pt-4">
-        <button 
-          onClick={() => setView('manage')}
-          className="text-slate-400 hover:text-slate-600 text-sm font-medium flex items-center gap-2 px-6 py-3 rounded-full hover:bg-white transition-colors border border-transparent hover:border-slate-200"
-        >
-          <span>📂</span> データの管理・書き出し
-        </button>
-      </div>
-    </div>
+            <ul className="mt-2 text-xs text-red-600 list-disc list-inside">
+              {entry.issues.map((issue, j) => <li key={j}>{localized(issue.message, uiLanguage)}</li>)}
+            </ul>
+            {editDraft?.origin === 'quarantine' && editDraft.item.id === entry.item.id && renderItemEditor()}
+          </li>
+        ))}
+      </ul>
+    </section>
   );
 
-  const renderSettings = () => (
-    <div className="max-w-xl mx-auto bg-white p-6 md:p-8 rounded-2xl shadow-xl animate-fade-in-up">
-       <h2 className="text-xl md:text-2xl font-bold mb-6 flex items-center gap-2">
-        <span className="text-slate-600">⚙️</span> 設定
-      </h2>
-      <div className="space-y-6">
-        <div>
-          <label className="block text-sm font-bold text-slate-700 mb-2">Gemini API キー</label>
-          <input 
-            type="text" 
-            value={tempKeyInput}
-            onChange={(e) => setTempKeyInput(e.target.value)}
-            placeholder="AIzaSy..."
-            className="w-full p-4 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:outline-none font-mono text-sm"
-          />
-          <p className="text-xs text-slate-500 mt-2 leading-relaxed">
-             APIキーを入力してください。<br/>
-            <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-blue-500 underline">Google AI Studioで取得</a>
-          </p>
+  const renderReports = () => {
+    const reported = reportedItems(dbItems);
+    return (
+      <section className="bg-rose-50 p-5 rounded-xl border border-rose-100">
+        <h3 className="text-lg font-bold text-slate-800 mb-1">{t('reports.title', { count: reported.length })}</h3>
+        <p className="text-xs text-slate-500 mb-3">{t('reports.description')}</p>
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-600 mb-4">
+          <input type="checkbox" checked={includeReported} onChange={(e) => handleToggleIncludeReported(e.target.checked)} />
+          {t('reports.includeReported')}
+        </label>
+        <ul className="space-y-3 max-h-96 overflow-y-auto">
+          {reported.map(item => {
+            const report = item.report!;
+            const options = [item.option1, item.option2, item.option3, item.option4];
+            return (
+              <li key={item.id} className="bg-white p-3 rounded-lg border border-slate-200 text-sm">
+                <div className="flex justify-between items-start gap-3">
+                  <div className="min-w-0">
+                    <div className="text-xs text-slate-400 mb-1">
+                      <span className="font-bold text-rose-600">{REPORT_REASONS[report.reason].label[uiLanguage]}</span>
+                      {' '}・ {levelLabel(item.level, uiLanguage)} ・ {new Date(report.reportedAt).toLocaleDateString(LOCALES[uiLanguage])}
+                    </div>
+                    <p className="font-bold text-slate-700 break-words">{item.question}</p>
+                    <p className="text-xs text-emerald-700 mt-1">{t('common.answer', { answer: options[item.correct_idx] })}</p>
+                    {report.note && <p className="text-xs text-slate-600 bg-slate-50 rounded p-2 mt-2 break-words">💬 {report.note}</p>}
+                  </div>
+                  <div className="flex flex-col gap-1 text-xs font-bold whitespace-nowrap">
+                    <button onClick={() => handleStartEdit(item, 'report')} className="text-blue-500 hover:text-blue-700">
+                      {t('common.edit')}
+                    </button>
+                    <button
+                      onClick={() => handleRegenerateReported(item)}
+                      disabled={regeneratingId !== null || !isOnline}
+                      className="text-purple-600 hover:text-purple-800 disabled:opacity-40"
+                    >
+                      {regeneratingId === item.id ? t('reports.regenerating') : t('reports.regenerate')}
+                    </button>
+                    <button onClick={() => handleDismissReport(item.id)} className="text-emerald-600 hover:text-emerald-800">
+                      {t('reports.dismiss')}
+                    </button>
+                    <button onClick={() => handleDeleteItem(item.id)} className="text-red-500 hover:text-red-700">
+                      {t('common.delete')}
+                    </button>
+                  </div>
+                </div>
+                {editDraft?.origin === 'report' && editDraft.item.id === item.id && renderItemEditor()}
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    );
+  };
+
+  const describeSite = (site: HeritageSite) =>
+    t(site.endangered ? 'site.infoEndangered' : 'site.info', { countries: countryNames(site, uiLanguage), year: site.year });
+
+  const describeGeneratorOptions = (options: GeneratorOptions) => [
+    LANGUAGE_LABELS[options.language],
+    SCOPE_LABELS[options.scope][uiLanguage],
+    options.styles.length > 0 ? options.styles.map(st => QUESTION_STYLES[st].label[uiLanguage]).join('/') : t('options.anyStyle'),
+    t('options.temperatureValue', { value: options.temperature.toFixed(1) }),
+  ].join(' ・ ');
+
+  // Question language, scope, question styles and temperature; used for single batches and for new queue jobs.
+  // The language also selects which questions the home cards count and play.
+  const renderGeneratorOptions = () => {
+    const toggleStyle = (style: QuestionStyle) => setGenOptions(prev => ({
+      ...prev,
+      styles: prev.styles.includes(style) ? prev.styles.filter(st => st !== style) : [...prev.styles, style],
+    }));
+    const chipClass = (active: boolean) => `px-3 py-1 rounded-full text-xs font-bold transition-all ${
+      active ? 'bg-blue-600 text-white shadow-md' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+    }`;
+
+    return (
+      <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-sm">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold text-slate-500">{t('options.language')}</span>
+          {(Object.keys(LANGUAGE_LABELS) as Language[]).map(language => (
+            <button key={language} onClick={() => setGenOptions(prev => ({ ...prev, language }))} className={chipClass(genOptions.language === language)}>
+              {LANGUAGE_LABELS[language]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold text-slate-500">{t('options.scope')}</span>
+          {(Object.keys(SCOPE_LABELS) as SiteScope[]).map(scope => (
+            <button key={scope} onClick={() => setGenOptions(prev => ({ ...prev, scope }))} className={chipClass(genOptions.scope === scope)}>
+              {SCOPE_LABELS[scope][uiLanguage]}
+            </button>
+          ))}
         </div>
-        <div className="flex gap-4 pt-4">
-          <Button onClick={() => setView('home')} variant="secondary" className="flex-1">キャンセル</Button>
-          <Button onClick={handleSaveApiKey} className="flex-1">保存する</Button>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-bold text-slate-500">{t('options.styles')}</span>
+          {(Object.keys(QUESTION_STYLES) as QuestionStyle[]).map(style => (
+            <button key={style} onClick={() => toggleStyle(style)} className={chipClass(genOptions.styles.includes(style))} title={QUESTION_STYLES[style].prompt}>
+              {QUESTION_STYLES[style].label[uiLanguage]}
+            </button>
+          ))}
+          {genOptions.styles.length === 0 && <span className="text-xs text-slate-400">{t('options.stylesHint')}</span>}
         </div>
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+          {t('options.temperature')}
+          <input
+            type="range"
+            min={0}
+            max={1.5}
+            step={0.1}
+            value={genOptions.temperature}
+            onChange={(e) => setGenOptions(prev => ({ ...prev, temperature: Number(e.target.value) }))}
+            className="w-28 accent-blue-600"
+          />
+          <span className="font-mono w-8">{genOptions.temperature.toFixed(1)}</span>
+        </label>
       </div>
-    </div>
-  );
+    );
+  };
+
+  const renderAnswerBalance = () => {
+    const distribution = correctIdxDistribution(dbItems);
+    return (
+      <section className="bg-slate-50 p-5 rounded-xl border border-slate-100">
+        <h3 className="text-lg font-bold text-slate-800 mb-1 flex justify-between items-center">
+          <span>{t('balance.title')}</span>
+          <Button onClick={handleRebalanceAnswers} variant="ghost" className="text-xs py-1 px-2">{t('balance.rebalance')}</Button>
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">{t('balance.description')}</p>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-400">
+              <th className="text-left py-1">{t('common.level')}</th>
+              {[1, 2, 3, 4].map(n => <th key={n}>{t('balance.option', { n })}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {Object.values(QuizLevel).map(lvl => {
+              const counts = distribution[lvl];
+              const total = counts.reduce((a, b) => a + b, 0);
+              // Flag a level when one position holds clearly more than its quarter
+              const skewed = total >= 20 && maxShare(counts) > 0.35;
+              return (
+                <tr key={lvl} className="border-t border-slate-100 text-center font-mono">
+                  <td className={`text-left py-1 font-sans font-bold ${skewed ? 'text-red-600' : 'text-slate-600'}`}>{levelLabel(lvl, uiLanguage)}{skewed && ' ⚠️'}</td>
+                  {counts.map((count, i) => (
+                    <td key={i} className={total > 0 && count / total > 0.35 ? 'text-red-600 font-bold' : 'text-slate-600'}>
+                      {count}<span className="text-slate-400">{t('balance.share', { percent: total > 0 ? Math.round((count / total) * 100) : 0 })}</span>
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+    );
+  };
+
+  // Heatmap of how well each level covers themes, regions and the Japan share.
+  // Cells compare the count with an even spread; red means nothing or almost nothing yet.
+  const renderCoverage = () => {
+    const levels = Object.values(QuizLevel);
+    const stats = levels.map(lvl => computeCoverage(languageItems.filter(i => i.level === lvl)));
+    const heat = (ratio: number) =>
+      ratio >= 1 ? 'bg-emerald-200 text-emerald-900'
+      : ratio >= 0.6 ? 'bg-lime-100 text-lime-900'
+      : ratio >= 0.3 ? 'bg-amber-100 text-amber-900'
+      : ratio > 0 ? 'bg-orange-200 text-orange-900'
+      : 'bg-red-200 text-red-900';
+    const cell = (count: number, expected: number, key: string, label: string = String(count)) => (
+      <td key={key} className={`text-center font-mono py-1 ${expected > 0 ? heat(count / expected) : 'text-slate-300'}`} title={t('coverage.expected', { value: expected.toFixed(1) })}>
+        {label}
+      </td>
+    );
+
+    return (
+      <section className="bg-slate-50 p-5 rounded-xl border border-slate-100">
+        <h3 className="text-lg font-bold text-slate-800 mb-1">{t('coverage.title', { language: LANGUAGE_LABELS[genOptions.language] })}</h3>
+        <p className="text-xs text-slate-500 mb-4">{t('coverage.description')}</p>
+        <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+          <table className="w-full text-xs border-separate border-spacing-0.5">
+            <thead className="sticky top-0 bg-slate-50">
+              <tr>
+                <th className="text-left text-slate-500 py-1">{t('coverage.item')}</th>
+                {levels.map(lvl => <th key={lvl} className="text-slate-500 w-16">{levelLabel(lvl, uiLanguage)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td className="font-bold text-slate-700 py-1">{t('coverage.japanShare')}</td>
+                {levels.map((lvl, i) => {
+                  const share = stats[i].total > 0 ? stats[i].japan / stats[i].total : 0;
+                  const target = JAPAN_SHARE_TARGETS[lvl];
+                  // Both too few and too many Japanese questions count as a gap
+                  const balance = stats[i].total > 0 ? 1 - Math.abs(share - target) / target : 0;
+                  return cell(balance, 1, lvl, stats[i].total > 0 ? `${Math.round(share * 100)}%` : '-');
+                })}
+              </tr>
+              <tr>
+                <td className="font-bold text-slate-700 py-1">{t('coverage.sites')}</td>
+                {levels.map((lvl, i) => cell(stats[i].sites.size, Math.min(HERITAGE_SITES.length, stats[i].total / 3), lvl, `${stats[i].sites.size}/${HERITAGE_SITES.length}`))}
+              </tr>
+              {REGIONS.map(r => (
+                <tr key={r}>
+                  <td className="text-slate-600 py-1">{REGION_LABELS[r][uiLanguage]}{r === 'asia_pacific' && t('coverage.excludingJapan')}</td>
+                  {levels.map((lvl, i) => cell(stats[i].regions[r], (stats[i].total - stats[i].japan) * REGION_WEIGHTS[r], lvl))}
+                </tr>
+              ))}
+              {COVERAGE_THEMES.map(theme => (
+                <tr key={theme.id}>
+                  <td className="text-slate-600 py-1">{theme.label[uiLanguage]}</td>
+                  {levels.map((lvl, i) => cell(stats[i].themes[theme.id], stats[i].total / COVERAGE_THEMES.length, lvl))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    );
+  };
 
   const renderManage = () => (
     <div className="max-w-3xl mx-auto bg-white p-6 md:p-8 rounded-2xl shadow-xl animate-fade-in-up">
        <h2 className="text-xl md:text-2xl font-bold mb-6 flex items-center gap-2">
-        <span className="text-emerald-600">📂</span> データ管理
+        <span className="text-emerald-600">📂</span> {t('manage.title')}
       </h2>
       <div className="space-y-8">
         <section className="bg-slate-50 p-5 rounded-xl border border-slate-100">
           <h3 className="text-lg font-bold text-slate-800 mb-4 flex justify-between items-center">
-            <span>ライブラリ状況</span>
+            <span>{t('manage.library')}</span>
+            <Button onClick={handleRelinkSites} disabled={dbItems.length === 0} variant="ghost" className="text-xs py-1 px-2">
+              {t('manage.relink')}
+            </Button>
           </h3>
           <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
              {Object.values(QuizLevel).map(lvl => {
@@ -644,48 +3133,313 @@ export default function App() {
                const target = LEVEL_TARGETS[lvl] || 300;
                return (
                  <div key={lvl} className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
-                    <span className="text-xs text-slate-500 block mb-1">{lvl}</span>
+                    <span className="text-xs text-slate-500 block mb-1">{levelLabel(lvl, uiLanguage)}</span>
                     <span className="text-xl font-bold block mb-2">{count} / {target}</span>
                  </div>
                );
              })}
           </div>
+          <p className="text-xs text-slate-400 mt-3">
+            {t('manage.linked', {
+              linked: dbItems.filter(i => i.site_ids && i.site_ids.length > 0).length,
+              total: dbItems.length,
+              sites: new Set(dbItems.flatMap(i => i.site_ids ?? [])).size,
+              catalog: HERITAGE_SITES.length,
+            })}
+          </p>
           <div className="mt-4 flex justify-end">
              {/* eslint-disable-next-line no-restricted-globals */}
-             <Button onClick={() => { if(confirm('全てのデータを削除しますか？')) setDbItems([]) }} variant="danger" className="text-xs py-2 px-3">
-                全データ削除
+             <Button onClick={() => { if(confirm(t('manage.confirm.deleteAll'))) { takeSnapshot({ key: 'snapshot.deleteAll' }); setDbItems([]); } }} variant="danger" className="text-xs py-2 px-3">
+                {t('manage.deleteAll')}
              </Button>
           </div>
         </section>
+        {quarantine.length > 0 && renderQuarantine()}
+        {dbItems.some(i => i.report) && renderReports()}
+        {importPreview && renderImportPreview()}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <section>
-            <h3 className="text-base font-bold text-slate-800 mb-3">CSV インポート</h3>
+            <h3 className="text-base font-bold text-slate-800 mb-3">{t('import.heading')}</h3>
             <label className="block w-full cursor-pointer bg-white hover:bg-blue-50 border-2 border-dashed border-slate-300 hover:border-blue-400 rounded-xl p-6 text-center transition-colors touch-manipulation group">
-              <input type="file" accept=".csv" onChange={handleImportCSV} className="hidden" />
+              <input type="file" accept={`.csv,.json,.txt,.tsv,.gift,.xml,.${QUIZ_SET_EXTENSION}`} onChange={handleImportFile} className="hidden" />
               <div className="text-3xl mb-2 opacity-50 group-hover:opacity-100">📥</div>
-              <span className="text-slate-600 font-bold text-sm">ファイルを選択</span>
+              <span className="text-slate-600 font-bold text-sm">{t('import.chooseFile')}</span>
             </label>
+            <p className="text-xs text-slate-400 mt-2">{t('import.formats', { formats: [...Object.values(QUIZ_FORMATS).map(f => f.label[uiLanguage]), `.${QUIZ_SET_EXTENSION}`].join(' / ') })}</p>
           </section>
-          <section>
-            <h3 className="text-base font-bold text-slate-800 mb-3">CSV エクスポート</h3>
-            <button 
-              onClick={handleExportCSV} 
-              disabled={dbItems.length === 0}
-              className="block w-full bg-white hover:bg-emerald-50 border-2 border-dashed border-slate-300 hover:border-emerald-400 rounded-xl p-6 text-center transition-colors touch-manipulation group disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-               <div className="text-3xl mb-2 opacity-50 group-hover:opacity-100">📤</div>
-              <span className="text-slate-600 font-bold text-sm">ダウンロード</span>
-            </button>
-          </section>
+          {renderExport()}
         </div>
+        {renderWorksheet()}
+        {renderBackup()}
+        {dbItems.length > 0 && renderCoverage()}
+        {dbItems.length > 0 && renderAnswerBalance()}
+        {dbItems.length > 0 && renderQuestionBrowser()}
+        {dbItems.length > 0 && renderDuplicateReview()}
         <div className="pt-4 text-center">
-          <Button onClick={() => setView('home')} variant="secondary" className="w-full md:w-auto min-w-[200px]">ホームに戻る</Button>
+          <Button onClick={() => setView('home')} variant="secondary" className="w-full md:w-auto min-w-[200px]">{t('common.backHome')}</Button>
         </div>
       </div>
     </div>
   );
 
+  const renderExitControl = () => (
+    !isConfirmingExit ? (
+      <Button 
+        onClick={() => setIsConfirmingExit(true)} 
+        variant="outline" 
+        className="flex-1 md:flex-none py-3 text-sm border-slate-300 text-slate-500 hover:text-red-600 hover:border-red-300"
+      >
+        {t('play.quit')}
+      </Button>
+    ) : (
+      <div className="flex-1 md:flex-none flex items-center gap-2 animate-fade-in bg-red-50 p-2 rounded-lg border border-red-100">
+         <span className="text-xs text-red-600 font-bold whitespace-nowrap pl-1">{t('play.confirmQuit')}</span>
+         <Button onClick={() => setView('home')} variant="danger" className="py-2 px-3 text-xs">{t('common.yes')}</Button>
+         <Button onClick={() => setIsConfirmingExit(false)} variant="secondary" className="py-2 px-3 text-xs">{t('common.no')}</Button>
+      </div>
+    )
+  );
+
+  const renderExam = () => {
+    if (!exam) return null;
+    if (exam.finishedAt !== null) return renderExamResult();
+
+    const question = sessionItems[currentQIndex];
+    if (!question) return null;
+    const options = [question.option1, question.option2, question.option3, question.option4];
+    const remaining = exam.deadline - clock;
+    const answeredCount = exam.answers.filter(a => a !== null).length;
+
+    const confirmSubmit = () => {
+      const unanswered = sessionItems.length - answeredCount;
+      const flaggedCount = exam.flagged.filter(Boolean).length;
+      const notes = [
+        unanswered > 0 ? t('exam.unanswered', { count: unanswered }) : '',
+        flaggedCount > 0 ? t('exam.flaggedCount', { count: flaggedCount }) : '',
+      ].filter(Boolean).join('\n');
+      if (window.confirm(t('exam.confirm.submit') + (notes ? '\n\n' + notes : ''))) {
+        handleSubmitExam();
+      }
+    };
+
+    return (
+      <div className="max-w-3xl mx-auto w-full animate-fade-in">
+        {/* Progress Header */}
+        <div className="flex items-center justify-between mb-6">
+           <div className="flex items-center gap-2">
+             <span className="bg-slate-800 text-white px-3 py-1 rounded text-sm font-bold">{levelLabel(question.level, uiLanguage)}</span>
+             <span className={`text-xs px-2 py-1 rounded font-bold ${SESSION_TYPE_BADGES.exam.className}`}>
+               {SESSION_TYPE_BADGES.exam.label[uiLanguage]}
+             </span>
+           </div>
+           <div className="flex flex-col items-end">
+             <span className={`text-2xl font-black font-mono tracking-tighter ${remaining < 5 * 60 * 1000 ? 'text-red-600 animate-pulse' : 'text-slate-800'}`}>
+               ⏱ {formatRemaining(remaining)}
+             </span>
+             <span className="text-xs text-slate-400 font-bold">{t('exam.answered', { count: answeredCount, total: sessionItems.length })}</span>
+           </div>
+        </div>
+
+        {/* Question Card */}
+        <div className="bg-white p-6 md:p-10 rounded-3xl shadow-xl shadow-slate-200/50 mb-8 relative overflow-hidden border border-slate-100">
+          <div className="text-xs font-bold text-slate-400 mb-2">{t('exam.questionNumber', { n: currentQIndex + 1 })}</div>
+          {question.is_japan && (
+            <div className="absolute top-0 right-0 bg-red-50 text-red-600 px-4 py-1.5 rounded-bl-2xl text-xs font-bold tracking-wider">
+               {t('editor.isJapan')}
+            </div>
+          )}
+          <h2 className="text-xl md:text-2xl font-bold leading-relaxed text-slate-800">
+            {question.question}
+          </h2>
+        </div>
+
+        {/* Options (answers can be changed until submission) */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4 mb-6">
+          {optionOrders[currentQIndex].map((idx, pos) => {
+            const opt = options[idx];
+            const isSelected = exam.answers[currentQIndex] === idx;
+            return (
+              <button 
+                key={idx} 
+                onClick={() => handleExamSelect(idx)}
+                className={`relative p-4 text-left rounded-xl border-2 transition-all font-medium min-h-[64px] flex items-center touch-manipulation ${
+                  isSelected ? 'bg-blue-50 border-blue-500 text-blue-900 shadow-md' : 'bg-white border-slate-200 hover:border-blue-400 hover:bg-blue-50 active:scale-[0.98]'
+                }`}
+              >
+                <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center mr-3 text-sm font-bold ${isSelected ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500'}`}>
+                  {pos + 1}
+                </div>
+                <span className="text-sm md:text-base">{opt}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Navigation */}
+        <div className="flex justify-between items-center gap-3 mb-6">
+          <Button onClick={() => handleExamGoTo(currentQIndex - 1)} disabled={currentQIndex === 0} variant="secondary" className="py-2 text-sm">{t('exam.prev')}</Button>
+          <button
+            onClick={handleExamToggleFlag}
+            className={`px-4 py-2 rounded-xl text-sm font-bold border-2 transition-colors ${
+              exam.flagged[currentQIndex] ? 'bg-amber-100 border-amber-400 text-amber-700' : 'bg-white border-slate-200 text-slate-500 hover:border-amber-300'
+            }`}
+          >
+            🚩 {exam.flagged[currentQIndex] ? t('exam.unflag') : t('exam.flag')}
+          </button>
+          <Button onClick={() => handleExamGoTo(currentQIndex + 1)} disabled={currentQIndex === sessionItems.length - 1} variant="secondary" className="py-2 text-sm">{t('exam.next')}</Button>
+        </div>
+
+        {/* Question Palette */}
+        <div className="bg-white p-4 rounded-2xl border border-slate-200 mb-6">
+          <div className="grid grid-cols-10 gap-1.5">
+            {sessionItems.map((_, i) => (
+              <button
+                key={i}
+                onClick={() => handleExamGoTo(i)}
+                className={`h-8 rounded text-xs font-bold transition-colors
+                  ${exam.answers[i] !== null ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}
+                  ${exam.flagged[i] ? 'ring-2 ring-amber-400' : ''}
+                  ${i === currentQIndex ? 'outline outline-2 outline-slate-800' : ''}
+                `}
+              >
+                {i + 1}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-400 mt-3">{t('exam.paletteLegend')}</p>
+        </div>
+
+        {/* Footer Actions */}
+        <div className="flex justify-between gap-4 pt-4 pb-12 items-center">
+           {renderExitControl()}
+           <Button onClick={confirmSubmit} variant="success" className="flex-[2] md:flex-none w-full md:w-48 py-3 text-lg">
+             {t('exam.submit')}
+           </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderExamResult = () => {
+    if (!exam) return null;
+    const result = gradeExam(sessionItems, exam);
+    const usedMs = (exam.finishedAt ?? exam.deadline) - exam.startedAt;
+
+    return (
+      <div className="max-w-3xl mx-auto w-full animate-fade-in-up">
+        <div className={`p-8 rounded-3xl shadow-xl mb-8 text-center border-2 ${result.passed ? 'bg-emerald-50 border-emerald-300' : 'bg-red-50 border-red-200'}`}>
+          <div className="text-sm font-bold text-slate-500 mb-2">{t('exam.resultTitle', { level: levelLabel(exam.config.level, uiLanguage) })}</div>
+          <div className={`text-5xl font-black mb-4 ${result.passed ? 'text-emerald-600' : 'text-red-500'}`}>
+            {result.passed ? t('exam.passed') : t('exam.failed')}
+          </div>
+          <div className="text-3xl font-mono font-black text-slate-800">
+            {result.correctCount}<span className="text-lg text-slate-400 font-normal"> / {result.total}</span>
+            <span className="text-lg text-slate-500 ml-3">({Math.round(result.ratio * 100)}%)</span>
+          </div>
+          <div className="text-xs text-slate-500 mt-3 space-x-3">
+            <span>{t('exam.passMark', { percent: Math.round(exam.config.passRatio * 100) })}</span>
+            <span>{t('exam.answeredResult', { count: result.answeredCount, total: result.total })}</span>
+            <span>{t('exam.timeUsed', { time: formatRemaining(usedMs) })}</span>
+          </div>
+        </div>
+
+        <div className="space-y-3 mb-8">
+          {sessionItems.map((item, i) => {
+            const options = [item.option1, item.option2, item.option3, item.option4];
+            const chosen = exam.answers[i];
+            const correct = chosen === item.correct_idx;
+            return (
+              <details key={item.id} className="bg-white rounded-xl border border-slate-200 p-4 group">
+                <summary className="cursor-pointer flex items-start gap-3 list-none">
+                  <span className={`flex-shrink-0 text-lg ${correct ? 'text-emerald-500' : 'text-red-500'}`}>{correct ? '✅' : '❌'}</span>
+                  <span className="text-sm font-bold text-slate-700">
+                    <span className="text-slate-400 mr-2">Q{i + 1}</span>{item.question}
+                    {exam.flagged[i] && <span className="ml-2 text-amber-500">🚩</span>}
+                  </span>
+                </summary>
+                <div className="mt-3 pl-8 space-y-2 text-sm">
+                  <div className="text-slate-500">{t('exam.yourAnswer')} <span className={correct ? 'text-emerald-700 font-bold' : 'text-red-600 font-bold'}>{chosen !== null ? options[chosen] : t('exam.noAnswer')}</span></div>
+                  {!correct && <div className="text-slate-500">{t('exam.correctAnswer')} <span className="text-emerald-700 font-bold">{options[item.correct_idx]}</span></div>}
+                  {!correct && chosen !== null && item.option_notes?.[chosen] && (
+                    <p className="bg-red-50 p-3 rounded-lg text-red-700">{item.option_notes[chosen]}</p>
+                  )}
+                  <p className="text-slate-700 leading-relaxed">{item.explanation}</p>
+                  {item.advanced_explanation && (
+                    <p className="bg-slate-50 p-3 rounded-lg text-slate-600"><span className="text-xs font-bold text-blue-500 block mb-1">{t('editor.trivia')}</span>{item.advanced_explanation}</p>
+                  )}
+                  {item.wiki_link && (
+                    <a href={item.wiki_link} target="_blank" rel="noreferrer" className="text-blue-500 hover:text-blue-700 text-xs font-medium">Wikipedia ↗</a>
+                  )}
+                </div>
+              </details>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-col md:flex-row justify-center gap-3 pb-12">
+          <Button onClick={() => handleShareItems(sessionItems)} variant="outline" className="w-full md:w-auto min-w-[200px]">{t('quizSet.shareSession')}</Button>
+          <Button onClick={() => setView('home')} variant="secondary" className="w-full md:w-auto min-w-[200px]">{t('common.backHome')}</Button>
+        </div>
+      </div>
+    );
+  };
+
+  // "Report" link under the question card, expanding into reason chips and a note
+  const renderReportControl = () => {
+    const question = sessionItems[currentQIndex];
+    const local = dbItems.find(i => i.id === question.id);
+    // Reports are kept on the local copy; questions of a shared set that was not imported have none
+    if (!local) return null;
+    const reported = local.report;
+    if (reported) {
+      return (
+        <p className="-mt-6 mb-6 text-right text-xs font-bold text-rose-500">{t('report.done', { reason: REPORT_REASONS[reported.reason].label[uiLanguage] })}</p>
+      );
+    }
+    if (!reportDraft) {
+      return (
+        <div className="-mt-6 mb-6 text-right">
+          <button onClick={() => setReportDraft({ reason: 'wrong_answer', note: '' })} className="text-xs font-bold text-slate-400 hover:text-rose-500">
+            {t('report.open')}
+          </button>
+        </div>
+      );
+    }
+    return (
+      <div className="-mt-4 mb-8 bg-rose-50 border border-rose-100 rounded-xl p-4 space-y-3 animate-fade-in">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(REPORT_REASONS) as ReportReason[]).map(reason => (
+            <button
+              key={reason}
+              onClick={() => setReportDraft({ ...reportDraft, reason })}
+              className={`px-3 py-1 rounded-full text-xs font-bold transition-all ${
+                reportDraft.reason === reason ? 'bg-rose-500 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:border-rose-300'
+              }`}
+            >
+              {REPORT_REASONS[reason].label[uiLanguage]}
+            </button>
+          ))}
+        </div>
+        <textarea
+          value={reportDraft.note}
+          onChange={(e) => setReportDraft({ ...reportDraft, note: e.target.value })}
+          rows={2}
+          placeholder={t('report.notePlaceholder')}
+          className="w-full p-2 rounded-lg border-2 border-slate-200 focus:border-rose-400 focus:outline-none text-sm"
+        />
+        <div className="flex justify-between items-center gap-2">
+          <span className="text-xs text-slate-500">{!includeReported && t('report.hiddenUntilFixed')}</span>
+          <div className="flex gap-2">
+            <Button onClick={() => setReportDraft(null)} variant="secondary" className="text-xs py-2 px-3">{t('common.cancel')}</Button>
+            <Button onClick={handleSubmitReport} variant="danger" className="text-xs py-2 px-3">{t('report.submit')}</Button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   const renderPlay = () => {
+    if (sessionType === 'exam') return renderExam();
     const question = sessionItems[currentQIndex];
     if (!question) return null;
     const options = [question.option1, question.option2, question.option3, question.option4];
@@ -695,10 +3449,13 @@ export default function App() {
         {/* Progress Header */}
         <div className="flex items-center justify-between mb-6">
            <div className="flex items-center gap-2">
-             <span className="bg-slate-800 text-white px-3 py-1 rounded text-sm font-bold">{question.level}</span>
-             <span className={`text-xs px-2 py-1 rounded font-bold ${sessionType === 'new' ? 'bg-blue-100 text-blue-700' : 'bg-emerald-100 text-emerald-700'}`}>
-               {sessionType === 'new' ? 'New Challenge' : 'Review Mode'}
+             <span className="bg-slate-800 text-white px-3 py-1 rounded text-sm font-bold">{levelLabel(question.level, uiLanguage)}</span>
+             <span className={`text-xs px-2 py-1 rounded font-bold ${SESSION_TYPE_BADGES[sessionType].className}`}>
+               {SESSION_TYPE_BADGES[sessionType].label[uiLanguage]}
              </span>
+             <button onClick={() => handleShareItems(sessionItems)} className="text-xs font-bold text-slate-400 hover:text-blue-600 transition-colors">
+               {t('quizSet.shareSession')}
+             </button>
            </div>
            <div className="flex flex-col items-end">
              <span className="text-2xl font-black text-slate-800 font-mono tracking-tighter">
@@ -711,7 +3468,7 @@ export default function App() {
         <div className="bg-white p-6 md:p-10 rounded-3xl shadow-xl shadow-slate-200/50 mb-8 relative overflow-hidden border border-slate-100">
           {question.is_japan && (
             <div className="absolute top-0 right-0 bg-red-50 text-red-600 px-4 py-1.5 rounded-bl-2xl text-xs font-bold tracking-wider">
-               🇯🇵 国内遺産
+               {t('editor.isJapan')}
             </div>
           )}
           <h2 className="text-xl md:text-2xl font-bold leading-relaxed text-slate-800 mt-2">
@@ -719,9 +3476,12 @@ export default function App() {
           </h2>
         </div>
 
+        {renderReportControl()}
+
         {/* Options */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4 mb-8">
-          {options.map((opt, idx) => {
+          {optionOrders[currentQIndex].map((idx, pos) => {
+            const opt = options[idx];
             let btnClass = "relative p-4 text-left rounded-xl border-2 transition-all font-medium min-h-[64px] flex items-center touch-manipulation ";
             if (showResult) {
               if (idx === question.correct_idx) {
@@ -745,7 +3505,7 @@ export default function App() {
                 <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center mr-3 text-sm font-bold transition-colors
                   ${showResult && idx === question.correct_idx ? 'bg-emerald-500 text-white' : 'bg-slate-100 text-slate-500'}
                 `}>
-                  {idx + 1}
+                  {pos + 1}
                 </div>
                 <span className="text-sm md:text-base">{opt}</span>
               </button>
@@ -762,15 +3522,22 @@ export default function App() {
               </span>
               <div>
                 <div className={`text-lg font-bold ${selectedOption === question.correct_idx ? 'text-emerald-600' : 'text-red-600'}`}>
-                  {selectedOption === question.correct_idx ? '正解！' : '残念...'}
+                  {selectedOption === question.correct_idx ? t('play.correct') : t('play.wrong')}
                 </div>
-                <div className="text-slate-400 text-xs">正解: {options[question.correct_idx]}</div>
+                <div className="text-slate-400 text-xs">{t('common.answer', { answer: options[question.correct_idx] })}</div>
               </div>
             </div>
             
             <div className="space-y-4">
+              {selectedOption !== null && selectedOption !== question.correct_idx && question.option_notes?.[selectedOption] && (
+                <div className="bg-red-50 p-4 rounded-lg text-sm text-red-700">
+                  <span className="text-xs font-bold text-red-500 uppercase tracking-wider block mb-1">{t('play.aboutOption', { option: options[selectedOption] })}</span>
+                  {question.option_notes[selectedOption]}
+                </div>
+              )}
+
               <div>
-                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">解説</span>
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t('editor.explanation')}</span>
                 <p className="text-slate-700 leading-relaxed mt-1 text-sm md:text-base">
                   {question.explanation}
                 </p>
@@ -778,7 +3545,7 @@ export default function App() {
 
               {question.advanced_explanation && (
                 <div className="bg-slate-50 p-4 rounded-lg text-sm text-slate-600">
-                   <span className="text-xs font-bold text-blue-500 uppercase tracking-wider block mb-1">豆知識</span>
+                   <span className="text-xs font-bold text-blue-500 uppercase tracking-wider block mb-1">{t('editor.trivia')}</span>
                    {question.advanced_explanation}
                 </div>
               )}
@@ -794,25 +3561,11 @@ export default function App() {
 
         {/* Footer Actions */}
         <div className="flex justify-between gap-4 pt-4 pb-12 items-center">
-           {!isConfirmingExit ? (
-             <Button 
-               onClick={() => setIsConfirmingExit(true)} 
-               variant="outline" 
-               className="flex-1 md:flex-none py-3 text-sm border-slate-300 text-slate-500 hover:text-red-600 hover:border-red-300"
-             >
-               中断してホームへ
-             </Button>
-           ) : (
-             <div className="flex-1 md:flex-none flex items-center gap-2 animate-fade-in bg-red-50 p-2 rounded-lg border border-red-100">
-                <span className="text-xs text-red-600 font-bold whitespace-nowrap pl-1">本当に中断？</span>
-                <Button onClick={() => setView('home')} variant="danger" className="py-2 px-3 text-xs">はい</Button>
-                <Button onClick={() => setIsConfirmingExit(false)} variant="secondary" className="py-2 px-3 text-xs">いいえ</Button>
-             </div>
-           )}
+           {renderExitControl()}
 
            {showResult && (
              <Button onClick={nextQuestion} className="flex-[2] md:flex-none w-full md:w-48 py-3 text-lg shadow-xl shadow-blue-200/50">
-               {currentQIndex < sessionItems.length - 1 ? '次の問題へ 👉' : '結果を見る 🏆'}
+               {currentQIndex < sessionItems.length - 1 ? t('play.next') : t('play.showResult')}
              </Button>
            )}
         </div>
@@ -829,24 +3582,106 @@ export default function App() {
               <span className="hidden md:inline font-mono tracking-tight">World Heritage Master</span>
            </button>
            <div className="flex items-center gap-3">
-             <button onClick={handleShare} className="bg-slate-200 hover:bg-slate-300 text-slate-600 p-2 rounded-full transition-colors" aria-label="アプリを共有">
+             {installPrompt && (
+               <button onClick={handleInstall} className="bg-blue-100 hover:bg-blue-200 text-blue-700 text-xs font-bold px-3 py-2 rounded-full transition-colors">
+                 {t('header.install')}
+               </button>
+             )}
+             {profiles.length > 1 && activeProfile && (
+               <button
+                 onClick={() => setView('settings')}
+                 className="bg-slate-200 hover:bg-slate-300 text-slate-600 text-xs font-bold px-3 py-2 rounded-full transition-colors max-w-[8rem] truncate"
+                 aria-label={t('header.profile', { name: profileName(activeProfile) })}
+               >
+                 👤 {profileName(activeProfile)}
+               </button>
+             )}
+             <button
+               onClick={() => setUiLanguage(uiLanguage === 'ja' ? 'en' : 'ja')}
+               className="bg-slate-200 hover:bg-slate-300 text-slate-600 text-xs font-bold px-3 py-2 rounded-full transition-colors"
+               aria-label={t('header.switchLanguage')}
+             >
+               {LANGUAGE_LABELS[uiLanguage === 'ja' ? 'en' : 'ja']}
+             </button>
+             <button onClick={handleShare} className="bg-slate-200 hover:bg-slate-300 text-slate-600 p-2 rounded-full transition-colors" aria-label={t('header.share')}>
                 📤
              </button>
-             <button onClick={() => setView('settings')} className={`bg-slate-200 hover:bg-slate-300 text-slate-600 p-2 rounded-full transition-colors ${!apiKey && 'animate-pulse ring-2 ring-blue-400'}`} aria-label="設定">
+             <button onClick={() => setView('settings')} className={`bg-slate-200 hover:bg-slate-300 text-slate-600 p-2 rounded-full transition-colors ${needsApiKey && 'animate-pulse ring-2 ring-blue-400'}`} aria-label={t('settings.title')}>
                 ⚙️
              </button>
              {view !== 'home' && view !== 'settings' && (
                <div className="hidden sm:block text-xs font-bold text-slate-400 uppercase tracking-widest border border-slate-200 px-3 py-1 rounded-full">
-                 {view === 'manage' ? 'Management' : 'Playing'}
+                 {t(view === 'manage' ? 'header.view.manage' : view === 'jobs' ? 'header.view.jobs' : view === 'stats' ? 'header.view.stats' : 'header.view.play')}
                </div>
              )}
            </div>
         </header>
 
+        {!isOnline && (
+          <div className="mb-6 bg-slate-100 border border-slate-200 text-slate-600 text-sm px-4 py-3 rounded-xl">
+            <span className="font-bold">{t('offline.title')}</span>{t('offline.description')}
+          </div>
+        )}
+
+        {undoSnapshot && (
+          <div className="mb-6 bg-slate-800 text-white text-sm px-4 py-3 rounded-xl flex justify-between items-center gap-3 animate-fade-in">
+            <span>{t('undo.saved', { reason: translateMessage(undoSnapshot.reason, t) })}</span>
+            <div className="flex items-center gap-3">
+              <button onClick={() => handleRestoreSnapshot(undoSnapshot)} disabled={isRestoring} className="font-bold text-amber-300 hover:text-amber-200 disabled:opacity-50">{t('undo.button')}</button>
+              <button onClick={() => setUndoSnapshot(null)} className="text-slate-400 hover:text-white" aria-label={t('common.close')}>✕</button>
+            </div>
+          </div>
+        )}
+
+        {sharePanel && (
+          <div className="mb-6 bg-white border border-blue-200 text-sm px-4 py-3 rounded-xl animate-fade-in">
+            <div className="flex justify-between items-center gap-3 mb-1">
+              <span className="font-bold text-slate-700">{t('quizSet.panelTitle', { count: sharePanel.set.items.length })}</span>
+              <button onClick={() => setSharePanel(null)} className="text-slate-400 hover:text-slate-600" aria-label={t('common.close')}>✕</button>
+            </div>
+            <p className="text-xs text-slate-500 mb-3">{sharePanel.url ? t('quizSet.panelHint') : t('quizSet.tooLong')}</p>
+            <div className="flex flex-wrap gap-2">
+              {sharePanel.url && (
+                <Button onClick={() => shareLink(sharePanel.url!, t('quizSet.shareText', { count: sharePanel.set.items.length }))} className="text-sm py-2">{t('quizSet.shareLink')}</Button>
+              )}
+              <Button onClick={handleSaveQuizSetFile} variant="outline" className="text-sm py-2">{t('quizSet.saveFile')}</Button>
+            </div>
+          </div>
+        )}
+
+        {incomingSet && (
+          <div className="mb-6 bg-pink-50 border border-pink-200 text-pink-900 text-sm px-4 py-3 rounded-xl flex flex-wrap justify-between items-center gap-3 animate-fade-in">
+            <span>
+              {t('quizSet.received', { count: incomingSet.items.length })}
+              {incomingSet.skipped > 0 && <span className="text-pink-600"> {t('quizSet.skipped', { count: incomingSet.skipped })}</span>}
+            </span>
+            <div className="flex items-center gap-3">
+              {incomingNewItems.length > 0 ? (
+                <button onClick={handleImportQuizSet} className="font-bold text-pink-700 hover:text-pink-900">{t('quizSet.import', { count: incomingNewItems.length })}</button>
+              ) : (
+                <span className="text-xs text-pink-600">{t('quizSet.allKnown')}</span>
+              )}
+              <button onClick={() => setIncomingSet(null)} className="text-pink-400 hover:text-pink-600" aria-label={t('common.close')}>✕</button>
+            </div>
+          </div>
+        )}
+
+        {storageError && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 text-sm font-bold px-4 py-3 rounded-xl flex justify-between items-center gap-3">
+            <span>⚠️ {t(storageError)}</span>
+            <button onClick={() => setStorageError(null)} className="text-red-400 hover:text-red-600" aria-label={t('common.close')}>✕</button>
+          </div>
+        )}
+
         <main>
-          {view === 'home' && renderHome()}
+          {isDbLoading && (
+            <div className="text-center text-slate-400 text-sm font-bold py-20 animate-pulse">{t('app.loading')}</div>
+          )}
+          {!isDbLoading && view === 'home' && renderHome()}
           {view === 'settings' && renderSettings()}
-          {view === 'manage' && renderManage()}
+          {!isDbLoading && view === 'manage' && renderManage()}
+          {!isDbLoading && view === 'jobs' && renderJobs()}
+          {!isDbLoading && view === 'stats' && renderStats()}
           {view === 'play' && renderPlay()}
         </main>
       </div>
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ApiError, CancelledError, InvalidKeyError, MalformedResponseError, OverloadedError, RateLimitedError, SafetyBlockedError,
+  classifyError, describeError, isRetryable,
+} from './apiErrors';
+
+describe('classifyError', () => {
+  it('keeps errors that are already typed', () => {
+    const error = new CancelledError();
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it('reads rate limits with their scope and retry hint', () => {
+    const minute = classifyError({ status: 429, message: 'Resource has been exhausted. Please retry in 21.48s' });
+    expect(minute).toBeInstanceOf(RateLimitedError);
+    expect(minute).toMatchObject({ scope: 'minute', retryAfterMs: 21480 });
+
+    const daily = classifyError(new Error('429 Quota exceeded for GenerateRequestsPerDayPerProjectPerModel'));
+    expect(daily).toMatchObject({ kind: 'rate_limited', scope: 'daily', retryAfterMs: null });
+
+    expect(classifyError(new Error('{"retryDelay": "30s"} RESOURCE_EXHAUSTED'))).toMatchObject({ retryAfterMs: 30000 });
+  });
+
+  it.each([
+    [{ status: 503, message: 'Service Unavailable' }, OverloadedError],
+    [new Error('The model is overloaded. Please try again later.'), OverloadedError],
+    [{ code: 401, message: 'Unauthorized' }, InvalidKeyError],
+    [new Error('API key not valid. Please pass a valid API key.'), InvalidKeyError],
+    [new Error('Response was blocked due to SAFETY'), SafetyBlockedError],
+    [new SyntaxError('Unexpected token < in JSON at position 0'), MalformedResponseError],
+  ])('classifies %o', (error, type) => {
+    expect(classifyError(error)).toBeInstanceOf(type);
+  });
+
+  it('falls back to unknown and keeps the cause', () => {
+    const cause = new Error('socket hang up');
+    const error = classifyError(cause);
+    expect(error.kind).toBe('unknown');
+    expect(error.cause).toBe(cause);
+    expect(classifyError('plain string').message).toBe('plain string');
+  });
+});
+
+describe('isRetryable', () => {
+  it('retries per-minute limits, overloads and malformed output only', () => {
+    expect(isRetryable(new RateLimitedError('', null, 'minute'))).toBe(true);
+    expect(isRetryable(new OverloadedError(''))).toBe(true);
+    expect(isRetryable(new MalformedResponseError(''))).toBe(true);
+    expect(isRetryable(new RateLimitedError('', null, 'daily'))).toBe(false);
+    expect(isRetryable(new InvalidKeyError(''))).toBe(false);
+    expect(isRetryable(new ApiError('unknown', ''))).toBe(false);
+  });
+});
+
+describe('describeError', () => {
+  it('explains errors in the requested language', () => {
+    expect(describeError(new InvalidKeyError('401'), 'en')).toBe('The API key is invalid or missing.');
+    expect(describeError(new RateLimitedError('', null, 'daily'), 'ja')).toContain('本日');
+    expect(describeError(new Error('socket hang up'), 'en')).toBe('socket hang up');
+  });
+});
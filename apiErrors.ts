@@ -0,0 +1,151 @@
+// Typed failures from the generation providers. Everything thrown out of
+// quizGenerator.ts is one of these, so callers never match on message strings.
+
+import { Language, LocalizedText } from './types';
+
+export type ApiErrorKind = 'rate_limited' | 'overloaded' | 'invalid_key' | 'safety_blocked' | 'malformed_response' | 'cancelled' | 'unknown';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly cause?: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  // ms to wait before the next request, when the server (or our own limiter) says so
+  readonly retryAfterMs: number | null;
+  readonly scope: 'minute' | 'daily';
+
+  constructor(message: string, retryAfterMs: number | null, scope: 'minute' | 'daily' = 'minute', cause?: unknown) {
+    super('rate_limited', message, cause);
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = retryAfterMs;
+    this.scope = scope;
+  }
+}
+
+export class OverloadedError extends ApiError {
+  constructor(message: string, cause?: unknown) {
+    super('overloaded', message, cause);
+    this.name = 'OverloadedError';
+  }
+}
+
+export class InvalidKeyError extends ApiError {
+  constructor(message: string, cause?: unknown) {
+    super('invalid_key', message, cause);
+    this.name = 'InvalidKeyError';
+  }
+}
+
+export class SafetyBlockedError extends ApiError {
+  constructor(message: string, cause?: unknown) {
+    super('safety_blocked', message, cause);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class MalformedResponseError extends ApiError {
+  constructor(message: string, cause?: unknown) {
+    super('malformed_response', message, cause);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+// The user stopped generation while we were waiting for a rate-limit slot
+export class CancelledError extends ApiError {
+  constructor() {
+    super('cancelled', 'Generation was cancelled.');
+    this.name = 'CancelledError';
+  }
+}
+
+// Server hints such as "Please retry in 21.48s" or "retryDelay": "21s"
+const parseRetryAfterMs = (message: string): number | null => {
+  const match = message.match(/retry in ([\d.]+)s/i) || message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+// Map any thrown value (SDK error, fetch failure, our own Error) to a typed ApiError
+export const classifyError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  const e: any = error ?? {};
+  const message: string = typeof e.message === 'string' ? e.message : String(error);
+  const status = Number(e.status ?? e.code);
+
+  if (status === 429 || /\b429\b|quota|RESOURCE_EXHAUSTED|rate limit/i.test(message)) {
+    const daily = /per ?day|PerDay|daily/i.test(message);
+    return new RateLimitedError(message, parseRetryAfterMs(message), daily ? 'daily' : 'minute', error);
+  }
+  if (status === 503 || status === 500 || /\b50[03]\b|overloaded|UNAVAILABLE/i.test(message)) {
+    return new OverloadedError(message, error);
+  }
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|API Key is missing/i.test(message)) {
+    return new InvalidKeyError(message, error);
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) {
+    return new SafetyBlockedError(message, error);
+  }
+  if (/JSON|expected an array|No content generated/i.test(message)) {
+    return new MalformedResponseError(message, error);
+  }
+  return new ApiError('unknown', message, error);
+};
+
+// Errors worth retrying automatically (after waiting)
+export const isRetryable = (error: ApiError) =>
+  (error instanceof RateLimitedError && error.scope === 'minute') ||
+  error instanceof OverloadedError ||
+  error instanceof MalformedResponseError;
+
+// Rate limits are split by scope, since the advice differs
+const ERROR_MESSAGES: Record<Exclude<ApiErrorKind, 'rate_limited' | 'unknown'> | 'rate_limited_daily' | 'rate_limited_minute', LocalizedText> = {
+  rate_limited_daily: {
+    ja: "本日のAPI利用上限に達しました。\n明日以降に再度お試しいただくか、設定でモデルを変更してください。",
+    en: "The daily API quota has been reached.\nTry again tomorrow or switch to another model in the settings.",
+  },
+  rate_limited_minute: {
+    ja: "APIの利用制限（レートリミット）に達しました。\n数分待ってから再度お試しください。",
+    en: "The API rate limit has been reached.\nWait a few minutes and try again.",
+  },
+  overloaded: {
+    ja: "アクセスが集中しており、AIモデルが応答しませんでした。\n時間を置いてから再試行してください。",
+    en: "The AI model is overloaded and did not respond.\nPlease try again later.",
+  },
+  invalid_key: {
+    ja: "APIキーが無効か、設定されていません。",
+    en: "The API key is invalid or missing.",
+  },
+  safety_blocked: {
+    ja: "AIの安全フィルターにより生成がブロックされました。\nテーマを変えて再度お試しください。",
+    en: "Generation was blocked by the AI safety filter.\nTry again with a different theme.",
+  },
+  malformed_response: {
+    ja: "AIデータの解析に失敗しました。もう一度試してみてください。",
+    en: "The AI response could not be read. Please try again.",
+  },
+  cancelled: {
+    ja: "生成を中止しました。",
+    en: "Generation was cancelled.",
+  },
+};
+
+// User-facing explanation for an error
+export const describeError = (error: unknown, language: Language = 'ja'): string => {
+  const apiError = classifyError(error);
+  switch (apiError.kind) {
+    case 'rate_limited':
+      return ERROR_MESSAGES[(apiError as RateLimitedError).scope === 'daily' ? 'rate_limited_daily' : 'rate_limited_minute'][language];
+    case 'unknown':
+      return apiError.message || "Unknown error";
+    default:
+      return ERROR_MESSAGES[apiError.kind][language];
+  }
+};
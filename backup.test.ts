@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { createBackup, createProfileBackup, parseBackup } from './backup';
+import { DEFAULT_PROVIDER_PREFERENCES } from './providers';
+import { ProviderPreferences, StoredData } from './types';
+import { makeItem } from './testFixtures';
+
+const data: StoredData = { profiles: [], items: [makeItem(1)], quarantine: [], answers: [], reviews: [], jobs: [], sessions: [] };
+const prefs: ProviderPreferences = { ...DEFAULT_PROVIDER_PREFERENCES, providerId: 'openai', baseUrl: 'http://localhost:11434/v1', serverApiKey: 'sk-secret-token' };
+
+describe('createBackup', () => {
+  it('leaves the server token out of the file', () => {
+    const json = JSON.stringify(createBackup(data, prefs));
+    expect(json).not.toContain('sk-secret-token');
+    expect(json).not.toContain('serverApiKey');
+    expect(parseBackup(json).settings?.provider).toMatchObject({ providerId: 'openai', baseUrl: 'http://localhost:11434/v1' });
+  });
+
+  it('round-trips the data', () => {
+    expect(parseBackup(JSON.stringify(createBackup(data))).data).toEqual(data);
+  });
+});
+
+describe('createProfileBackup', () => {
+  it('leaves the server token out of the file', () => {
+    const json = JSON.stringify(createProfileBackup(data, 'default', prefs, 'en'));
+    expect(json).not.toContain('sk-secret-token');
+    expect(parseBackup(json).settings).toMatchObject({ provider: { providerId: 'openai' }, uiLanguage: 'en' });
+  });
+});
@@ -0,0 +1,151 @@
+import { BackupArchive, Language, LocalizedText, MessageRef, ProviderPreferences, Snapshot, StoredData } from './types';
+import { generateId } from './utils';
+import { profileData, withProfileId } from './profiles';
+import { localizedMessage } from './i18n';
+
+export const BACKUP_FORMAT = 'world-heritage-backup';
+// Bump when the archive layout changes; parseBackup must keep reading older versions
+// v2: profiles store, and answers/reviews/sessions carry a profileId
+export const BACKUP_VERSION = 2;
+
+// Older snapshots are dropped; each one is a full copy of the database
+export const MAX_SNAPSHOTS = 5;
+
+export const STORE_LABELS: Record<keyof StoredData, LocalizedText> = {
+  profiles: { ja: 'プロフィール', en: 'Profiles' },
+  items: { ja: '問題', en: 'Questions' },
+  quarantine: { ja: '要確認の問題', en: 'Questions to review' },
+  answers: { ja: '解答履歴', en: 'Answer history' },
+  reviews: { ja: '復習スケジュール', en: 'Review schedule' },
+  jobs: { ja: '生成ジョブ', en: 'Generation jobs' },
+  sessions: { ja: '学習セッション', en: 'Study sessions' },
+};
+
+const STORE_KEYS: { [K in keyof StoredData]: (value: StoredData[K][number]) => string } = {
+  profiles: profile => profile.id,
+  items: item => item.id,
+  quarantine: entry => entry.item.id,
+  answers: record => record.id,
+  reviews: state => `${state.profileId}/${state.itemId}`,
+  jobs: job => job.id,
+  sessions: session => session.id,
+};
+
+const STORES = Object.keys(STORE_LABELS) as (keyof StoredData)[];
+
+// Archives get shared, so the server token stays on this device
+const exportedPreferences = ({ serverApiKey, ...provider }: ProviderPreferences): Partial<ProviderPreferences> => provider;
+
+export const createBackup = (data: StoredData, provider?: ProviderPreferences): BackupArchive => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: Date.now(),
+  data,
+  settings: provider ? { provider: exportedPreferences(provider) } : undefined,
+});
+
+// One learner's history and preferences, without the shared question bank
+export const createProfileBackup = (data: StoredData, profileId: string, provider: ProviderPreferences, uiLanguage: Language): BackupArchive => ({
+  ...createBackup(profileData(data, profileId), provider),
+  settings: { provider: exportedPreferences(provider), uiLanguage },
+  profileId,
+});
+
+// Fill in stores and fields added since the data was written (old archives and snapshots)
+export const upgradeStoredData = (raw: any): StoredData => {
+  const data = Object.fromEntries(STORES.map(store => {
+    const values = raw?.[store];
+    return [store, Array.isArray(values) ? values.filter((v: unknown) => v && typeof v === 'object') : []];
+  })) as unknown as StoredData;
+  return {
+    ...data,
+    answers: withProfileId(data.answers),
+    reviews: withProfileId(data.reviews),
+    sessions: withProfileId(data.sessions),
+  };
+};
+
+// Why a backup file cannot be used, in both UI languages
+export class BackupError extends Error {
+  readonly text: LocalizedText;
+
+  constructor(text: LocalizedText) {
+    super(text.en);
+    this.name = 'BackupError';
+    this.text = text;
+  }
+}
+
+// Read a backup file. Throws a BackupError when the file cannot be used.
+export const parseBackup = (text: string): BackupArchive => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (e) {
+    throw new BackupError(localizedMessage('backup.error.invalidJson'));
+  }
+  if (!parsed || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupError(localizedMessage('backup.error.notBackup'));
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new BackupError(localizedMessage('backup.error.newerVersion', { version: parsed.version }));
+  }
+  // Stores added after the archive was written are simply empty
+  return { ...parsed, data: upgradeStoredData(parsed.data) };
+};
+
+export interface StoreDiff {
+  added: number;     // Only in the backup
+  changed: number;   // In both, with different contents
+  removed: number;   // Only in the current data (lost on replace)
+  unchanged: number;
+}
+
+export const diffBackup = (current: StoredData, incoming: StoredData): Record<keyof StoredData, StoreDiff> =>
+  Object.fromEntries(STORES.map(store => {
+    const key = STORE_KEYS[store] as (value: unknown) => string;
+    const existing = new Map((current[store] as unknown[]).map(v => [key(v), JSON.stringify(v)]));
+    const diff: StoreDiff = { added: 0, changed: 0, removed: 0, unchanged: 0 };
+    const seen = new Set<string>();
+    (incoming[store] as unknown[]).forEach(v => {
+      const k = key(v);
+      seen.add(k);
+      const before = existing.get(k);
+      if (before === undefined) diff.added++;
+      else if (before === JSON.stringify(v)) diff.unchanged++;
+      else diff.changed++;
+    });
+    diff.removed = [...existing.keys()].filter(k => !seen.has(k)).length;
+    return [store, diff];
+  })) as Record<keyof StoredData, StoreDiff>;
+
+// Newer of two records, for stores that carry a timestamp
+const NEWER_WINS: Partial<{ [K in keyof StoredData]: (value: StoredData[K][number]) => number }> = {
+  reviews: state => state.lastReviewedAt,
+  jobs: job => job.updatedAt,
+};
+
+// Union of both sides by key. Answer history and sessions are append-only, so the
+// union is exact; reviews and jobs keep the newer record; otherwise the backup wins.
+export const mergeStoredData = (current: StoredData, incoming: StoredData): StoredData =>
+  Object.fromEntries(STORES.map(store => {
+    const key = STORE_KEYS[store] as (value: unknown) => string;
+    const stamp = NEWER_WINS[store] as ((value: unknown) => number) | undefined;
+    const merged = new Map((current[store] as unknown[]).map(v => [key(v), v]));
+    (incoming[store] as unknown[]).forEach(v => {
+      const existing = merged.get(key(v));
+      if (existing && stamp && stamp(existing) > stamp(v)) return;
+      merged.set(key(v), v);
+    });
+    return [store, [...merged.values()]];
+  })) as unknown as StoredData;
+
+export const createSnapshot = (data: StoredData, reason: MessageRef): Snapshot => ({
+  id: generateId(),
+  createdAt: Date.now(),
+  reason,
+  data,
+});
+
+export const countRecords = (data: StoredData): number =>
+  STORES.reduce((sum, store) => sum + data[store].length, 0);
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { correctIdxDistribution, maxShare, rebalanceCorrectIdx } from './balance';
+import { QuizItem, QuizLevel } from './types';
+import { makeItem, optionsOf } from './testFixtures';
+
+const answer = (item: QuizItem) => optionsOf(item)[item.correct_idx];
+
+const withNotes = (n: number, level: QuizLevel, correctIdx: number) =>
+  makeItem(n, { level, correct_idx: correctIdx, option_notes: [`注${n}-1`, `注${n}-2`, `注${n}-3`, `注${n}-4`] });
+
+// 10 questions at level 2, all answered by option1, plus 3 at level 3 already spread out
+const skewed = [
+  ...Array.from({ length: 10 }, (_, n) => withNotes(n, QuizLevel.LEVEL_2, 0)),
+  withNotes(10, QuizLevel.LEVEL_3, 1),
+  withNotes(11, QuizLevel.LEVEL_3, 2),
+  withNotes(12, QuizLevel.LEVEL_3, 3),
+];
+
+describe('rebalanceCorrectIdx', () => {
+  it('spreads each level evenly over the four positions', () => {
+    const { items, changed } = rebalanceCorrectIdx(skewed);
+    const distribution = correctIdxDistribution(items);
+    expect([...distribution[QuizLevel.LEVEL_2]].sort()).toEqual([2, 2, 3, 3]);
+    expect(distribution[QuizLevel.LEVEL_2][0]).toBe(3);
+    expect(distribution[QuizLevel.LEVEL_3]).toEqual([0, 1, 1, 1]);
+    expect(changed).toBe(7);
+  });
+
+  it('keeps every question, its answer text and the notes aligned with the options', () => {
+    const { items } = rebalanceCorrectIdx(skewed);
+    expect(items.map(i => i.id)).toEqual(skewed.map(i => i.id));
+    items.forEach((item, n) => {
+      const original = skewed[n];
+      expect(answer(item)).toBe(answer(original));
+      expect([...optionsOf(item)].sort()).toEqual([...optionsOf(original)].sort());
+      optionsOf(item).forEach((option, pos) => {
+        expect(item.option_notes![pos]).toBe(original.option_notes![optionsOf(original).indexOf(option)]);
+      });
+    });
+  });
+
+  it('leaves balanced levels untouched', () => {
+    const { items, changed } = rebalanceCorrectIdx(skewed.slice(10));
+    expect(changed).toBe(0);
+    items.forEach((item, n) => expect(item).toBe(skewed[10 + n]));
+  });
+});
+
+describe('maxShare', () => {
+  it('is 0.25 for an even spread and 0 for no questions', () => {
+    expect(maxShare([2, 2, 2, 2])).toBe(0.25);
+    expect(maxShare([0, 0, 0, 0])).toBe(0);
+    expect(maxShare([6, 2, 1, 1])).toBe(0.6);
+  });
+});
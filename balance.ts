@@ -0,0 +1,65 @@
+import { QuizItem, QuizLevel } from './types';
+import { shuffleArray } from './utils';
+
+const OPTION_FIELDS = ['option1', 'option2', 'option3', 'option4'] as const;
+
+// How many questions per level have their answer at option1..option4
+export const correctIdxDistribution = (items: QuizItem[]): Record<QuizLevel, number[]> => {
+  const result = Object.fromEntries(Object.values(QuizLevel).map(level => [level, [0, 0, 0, 0]])) as Record<QuizLevel, number[]>;
+  items.forEach(item => {
+    if (item.level in result && item.correct_idx >= 0 && item.correct_idx <= 3) {
+      result[item.level as QuizLevel][item.correct_idx]++;
+    }
+  });
+  return result;
+};
+
+// Largest share of any single position (0.25 = perfectly even)
+export const maxShare = (counts: number[]): number => {
+  const total = counts.reduce((a, b) => a + b, 0);
+  return total > 0 ? Math.max(...counts) / total : 0;
+};
+
+// Move the correct answer of an item to another position by swapping two options
+const moveAnswer = (item: QuizItem, target: number): QuizItem => {
+  const from = OPTION_FIELDS[item.correct_idx];
+  const to = OPTION_FIELDS[target];
+  const moved: QuizItem = { ...item, [from]: item[to], [to]: item[from], correct_idx: target };
+  // Notes travel with their options
+  if (item.option_notes) {
+    const notes = [...item.option_notes];
+    [notes[item.correct_idx], notes[target]] = [notes[target], notes[item.correct_idx]];
+    moved.option_notes = notes;
+  }
+  return moved;
+};
+
+// Even out correct_idx within each level, touching as few questions as possible:
+// surplus items from over-used positions are moved to the under-used ones.
+// Returns the full list with changed items replaced (unchanged items keep their identity).
+export const rebalanceCorrectIdx = (items: QuizItem[]): { items: QuizItem[], changed: number } => {
+  const replacements = new Map<string, QuizItem>();
+
+  for (const level of Object.values(QuizLevel)) {
+    const byPosition: QuizItem[][] = [[], [], [], []];
+    items.filter(i => i.level === level && i.correct_idx >= 0 && i.correct_idx <= 3)
+      .forEach(i => byPosition[i.correct_idx].push(i));
+    const total = byPosition.reduce((sum, list) => sum + list.length, 0);
+    if (total === 0) continue;
+
+    // The remainder goes to the positions that already have the most, so fewer items move
+    const base = Math.floor(total / 4);
+    const ranked = [0, 1, 2, 3].sort((a, b) => byPosition[b].length - byPosition[a].length);
+    const targets = [base, base, base, base];
+    ranked.slice(0, total % 4).forEach(p => targets[p]++);
+
+    const surplus = [0, 1, 2, 3].flatMap(p => shuffleArray(byPosition[p]).slice(0, Math.max(0, byPosition[p].length - targets[p])));
+    const deficits = [0, 1, 2, 3].flatMap(p => Array(Math.max(0, targets[p] - byPosition[p].length)).fill(p));
+    surplus.forEach((item, i) => replacements.set(item.id, moveAnswer(item, deficits[i])));
+  }
+
+  return {
+    items: items.map(item => replacements.get(item.id) ?? item),
+    changed: replacements.size,
+  };
+};
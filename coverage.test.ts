@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { classifyThemes, computeCoverage, planNextFocus } from './coverage';
+import { HERITAGE_SITES, getSite } from './heritageSites';
+import { QuizLevel } from './types';
+import { angkor, horyuji, makeItem } from './testFixtures';
+
+const japaneseSites = HERITAGE_SITES.filter(s => s.countries.includes('JP'));
+
+describe('classifyThemes', () => {
+  it('matches keywords in the question and explanations', () => {
+    expect(classifyThemes(horyuji)).toEqual(['jp_buddhist', 'wooden']);
+    expect(classifyThemes(makeItem(3))).toEqual([]);
+  });
+
+  it('skips themes meant for the other side of Japan/overseas', () => {
+    const gothicInJapan = makeItem(3, { question: 'ゴシック様式の教会は？' });
+    expect(classifyThemes(gothicInJapan)).not.toContain('gothic');
+    expect(classifyThemes({ ...gothicInJapan, is_japan: false })).toContain('gothic');
+  });
+});
+
+describe('computeCoverage', () => {
+  it('counts Japan, themes, sites and overseas regions', () => {
+    const stats = computeCoverage([
+      horyuji,
+      angkor,
+      makeItem(3, { is_japan: false, site_ids: ['angkor', 'acropolis', 'not-a-site'] }),
+    ]);
+    expect(stats.total).toBe(3);
+    expect(stats.japan).toBe(1);
+    expect(stats.themes.jp_buddhist).toBe(1);
+    expect(Object.fromEntries(stats.sites)).toEqual({ horyuji: 1, angkor: 2, acropolis: 1 });
+    // Japanese sites do not count towards a region
+    expect(stats.regions).toMatchObject({ asia_pacific: 2, europe_north_america: 1, africa: 0 });
+  });
+});
+
+describe('planNextFocus', () => {
+  const japanOnly = [1, 2, 3, 4].map(n => makeItem(n, { site_ids: ['himeji'] }));
+
+  it('steers a library heavy on Japan towards overseas sites', () => {
+    const plan = planNextFocus(japanOnly, QuizLevel.LEVEL_2, 'any', 'ja');
+    const site = HERITAGE_SITES.find(s => s.nameJa === plan.label);
+    expect(site).toBeDefined();
+    expect(site!.countries).not.toContain('JP');
+    expect(plan.reason.en).toContain('share 100%');
+  });
+
+  it('keeps to a fixed scope', () => {
+    const plan = planNextFocus(japanOnly, QuizLevel.LEVEL_2, 'japan', 'ja');
+    expect(japaneseSites.map(s => s.nameJa)).toContain(plan.label);
+    expect(plan.label).not.toBe(getSite('himeji')!.nameJa);
+  });
+
+  it('switches to the thinnest theme once every site is covered', () => {
+    const covered = japaneseSites.map((s, n) => makeItem(n, { site_ids: [s.id] }));
+    const plan = planNextFocus(covered, QuizLevel.LEVEL_2, 'japan', 'ja');
+    expect(plan.focusTopic).toMatch(/\(sites in Japan\)$/);
+  });
+
+  it('counts coverage per level and question language', () => {
+    const english = japanOnly.map(i => ({ ...i, language: 'en' as const }));
+    const plan = planNextFocus([...english, ...japanOnly.map(i => ({ ...i, level: QuizLevel.LEVEL_3 }))], QuizLevel.LEVEL_2, 'any', 'ja');
+    expect(plan.reason.en).toContain('share 0%');
+  });
+});
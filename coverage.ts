@@ -0,0 +1,187 @@
+import { QuizItem, QuizLevel, HeritageRegion, HeritageSite, Language, LocalizedText, SiteScope } from './types';
+import { HERITAGE_SITES, REGION_LABELS, getSite, siteName } from './heritageSites';
+import { normalizeText } from './duplicates';
+import { localizedMessage } from './i18n';
+
+export interface CoverageTheme {
+  id: string;
+  label: LocalizedText; // Shown in the heatmap
+  prompt: string;       // Focus text sent to the generator
+  keywords: string[];   // Japanese and English keywords used to classify existing questions
+  japan?: boolean;    // Only counts for Japanese (true) or overseas (false) questions
+}
+
+// Themes replace the old fixed RANDOM_THEMES list. Existing questions are
+// classified by keyword, so a question may count towards several themes.
+export const COVERAGE_THEMES: CoverageTheme[] = [
+  { id: 'convention', label: { ja: '世界遺産条約と制度', en: 'The Convention and its system' }, prompt: 'The World Heritage Convention, criteria and institutions (UNESCO, ICOMOS, IUCN)', keywords: ['世界遺産条約', 'ユネスコ', '登録基準', '顕著な普遍的価値', 'イコモス', 'IUCN', '世界遺産委員会', 'World Heritage Convention', 'UNESCO', 'criteria', 'Outstanding Universal Value', 'ICOMOS', 'World Heritage Committee'] },
+  { id: 'danger', label: { ja: '危機遺産', en: 'World Heritage in Danger' }, prompt: 'World Heritage in Danger and threats to sites', keywords: ['危機遺産', '危機にさらされ', '抹消', 'in Danger', 'endangered', 'delisted'] },
+  { id: 'jp_buddhist', label: { ja: '日本の仏教寺院', en: 'Buddhist temples of Japan' }, prompt: 'Japanese Buddhist Temples', keywords: ['寺', '仏教', '仏像', '伽藍', '浄土', 'temple', 'Buddhist', 'Buddha', 'Pure Land'], japan: true },
+  { id: 'jp_shinto', label: { ja: '日本の神社と信仰', en: 'Shinto shrines and faith in Japan' }, prompt: 'Shinto shrines and sacred places in Japan', keywords: ['神社', '神道', '信仰', '霊場', 'shrine', 'Shinto', 'sacred', 'pilgrim'], japan: true },
+  { id: 'jp_nature', label: { ja: '日本の自然遺産', en: 'Natural sites of Japan' }, prompt: 'Natural World Heritage sites of Japan and their ecosystems', keywords: ['自然遺産', '固有種', '生態系', '原生林', 'natural site', 'endemic', 'ecosystem', 'primeval forest'], japan: true },
+  { id: 'castles', label: { ja: '城と要塞', en: 'Castles and fortifications' }, prompt: 'Fortifications and Castles', keywords: ['城', '要塞', '城壁', '城塞', 'castle', 'fortress', 'fortification', 'city walls'] },
+  { id: 'gothic', label: { ja: 'ゴシック建築', en: 'Gothic architecture' }, prompt: 'European Gothic Architecture', keywords: ['ゴシック', 'ステンドグラス', 'Gothic', 'stained glass'], japan: false },
+  { id: 'renaissance', label: { ja: 'ルネサンスの都市と芸術', en: 'Renaissance cities and art' }, prompt: 'Renaissance Art & Cities', keywords: ['ルネサンス', 'メディチ', 'Renaissance', 'Medici'], japan: false },
+  { id: 'greek', label: { ja: '古代ギリシャ', en: 'Ancient Greece' }, prompt: 'Ancient Greek Sites', keywords: ['古代ギリシャ', 'アクロポリス', 'ポリス', 'ギリシャ神話', 'Ancient Greek', 'Acropolis', 'polis', 'Greek mythology'], japan: false },
+  { id: 'roman', label: { ja: 'ローマ帝国', en: 'Roman Empire' }, prompt: 'Roman Empire Heritage', keywords: ['ローマ帝国', '古代ローマ', '円形闘技場', '水道橋', 'Roman Empire', 'Ancient Rome', 'amphitheatre', 'aqueduct'], japan: false },
+  { id: 'islamic', label: { ja: 'イスラーム建築', en: 'Islamic architecture' }, prompt: 'Islamic Architecture and Cities', keywords: ['イスラム', 'イスラーム', 'モスク', 'ミナレット', 'メディナ', 'Islamic', 'mosque', 'minaret', 'medina'], japan: false },
+  { id: 'silk_road', label: { ja: 'シルクロード', en: 'Silk Roads' }, prompt: 'Silk Road Sites', keywords: ['シルクロード', '隊商', 'キャラバン', 'オアシス', 'Silk Road', 'caravan', 'oasis'] },
+  { id: 'chinese_imperial', label: { ja: '中国の王朝と宮殿', en: 'Chinese dynasties and palaces' }, prompt: 'Chinese Imperial Palaces and Dynasties', keywords: ['皇帝', '王朝', '故宮', '紫禁城', 'emperor', 'dynasty', 'Imperial Palace', 'Forbidden City'], japan: false },
+  { id: 'mesoamerica', label: { ja: 'マヤ・アステカ・インカ', en: 'Maya, Aztec and Inca' }, prompt: 'Maya, Aztec and Inca Civilizations', keywords: ['マヤ', 'アステカ', 'インカ', 'テオティワカン', 'Maya', 'Aztec', 'Inca', 'Teotihuacan'], japan: false },
+  { id: 'ancient_egypt', label: { ja: '古代エジプト', en: 'Ancient Egypt' }, prompt: 'Ancient Egypt and the Nile', keywords: ['ピラミッド', 'ファラオ', 'ナイル', '神殿', '古代エジプト', 'pyramid', 'pharaoh', 'Nile', 'Ancient Egypt'], japan: false },
+  { id: 'prehistoric', label: { ja: '先史時代と洞窟壁画', en: 'Prehistory and cave art' }, prompt: 'Prehistoric Sites and Cave Paintings', keywords: ['洞窟壁画', '旧石器', '岩絵', '先史', '縄文', '古墳', 'cave painting', 'Palaeolithic', 'rock art', 'prehistoric', 'Jomon', 'kofun'] },
+  { id: 'pilgrimage', label: { ja: '巡礼路と聖地', en: 'Pilgrimage routes and sacred places' }, prompt: 'Pilgrimage Routes and Sacred Places', keywords: ['巡礼', '参詣', '聖地', 'pilgrimage', 'holy site'] },
+  { id: 'industrial', label: { ja: '産業遺産', en: 'Industrial heritage' }, prompt: 'Industrial Heritage and Mines', keywords: ['産業', '製鉄', '鉱山', '炭鉱', '工場', '製糸', '銀山', '金山', 'industrial', 'ironworks', 'mine', 'colliery', 'factory', 'silk mill', 'silver mine'] },
+  { id: 'modern', label: { ja: '近代建築', en: 'Modern architecture' }, prompt: 'Modern Architecture (Le Corbusier, Frank Lloyd Wright, Bauhaus)', keywords: ['近代建築', 'モダニズム', 'コルビュジエ', 'バウハウス', 'フランク・ロイド・ライト', 'modern architecture', 'modernism', 'Le Corbusier', 'Bauhaus', 'Frank Lloyd Wright'] },
+  { id: 'wooden', label: { ja: '木造建築', en: 'Wooden architecture' }, prompt: 'Wooden Architecture', keywords: ['木造', 'wooden'] },
+  { id: 'cultural_landscape', label: { ja: '文化的景観', en: 'Cultural landscapes' }, prompt: 'Cultural Landscapes (vineyards, terraces, farming)', keywords: ['文化的景観', 'ブドウ', '葡萄', 'ワイン', '棚田', 'cultural landscape', 'vineyard', 'wine', 'rice terraces'] },
+  { id: 'volcanic', label: { ja: '火山と地形', en: 'Volcanoes and landforms' }, prompt: 'Volcanic Landscapes and Geology', keywords: ['火山', '溶岩', '噴火', 'カルデラ', '氷河', '地形', 'volcano', 'volcanic', 'lava', 'eruption', 'caldera', 'glacier'] },
+  { id: 'marine', label: { ja: '海洋とサンゴ礁', en: 'Oceans and coral reefs' }, prompt: 'Marine World Heritage and Coral Reefs', keywords: ['海洋', 'サンゴ', '珊瑚', '礁', 'marine', 'coral', 'reef'] },
+  { id: 'islands', label: { ja: '島の生態系', en: 'Island ecosystems' }, prompt: 'Island Ecosystems (Galapagos, Ogasawara)', keywords: ['諸島', '固有', '島嶼', 'islands', 'endemic species', 'archipelago'] },
+  { id: 'rainforest', label: { ja: '熱帯雨林と野生生物', en: 'Rainforests and wildlife' }, prompt: 'Tropical Rainforests, Savannas and Wildlife', keywords: ['熱帯雨林', 'アマゾン', '生物多様性', 'サバンナ', '野生動物', 'ゴリラ', 'rainforest', 'Amazon', 'biodiversity', 'savanna', 'wildlife', 'gorilla'] },
+];
+
+// Share of questions about Japanese sites to aim for per level. The lower levels of
+// the exam lean heavily on Japan; the upper levels are mostly about sites abroad.
+export const JAPAN_SHARE_TARGETS: Record<QuizLevel, number> = {
+  [QuizLevel.LEVEL_3]: 0.4,
+  [QuizLevel.LEVEL_2]: 0.3,
+  [QuizLevel.LEVEL_PRE_1]: 0.25,
+  [QuizLevel.LEVEL_1]: 0.25,
+};
+
+// How far the Japan share may drift before the planner corrects it
+const JAPAN_SHARE_TOLERANCE = 0.05;
+
+export const REGIONS = Object.keys(REGION_LABELS) as HeritageRegion[];
+
+const normalizedKeywords = new Map(COVERAGE_THEMES.map(theme => [theme.id, theme.keywords.map(normalizeText)]));
+
+export const classifyThemes = (item: QuizItem): string[] => {
+  const text = normalizeText([item.question, item.explanation, item.advanced_explanation].join('\n'));
+  return COVERAGE_THEMES
+    .filter(theme => theme.japan === undefined || theme.japan === item.is_japan)
+    .filter(theme => normalizedKeywords.get(theme.id)!.some(k => text.includes(k)))
+    .map(theme => theme.id);
+};
+
+export interface CoverageStats {
+  total: number;
+  japan: number;
+  themes: Record<string, number>;
+  regions: Record<HeritageRegion, number>;   // Overseas sites only; Japan has its own share
+  sites: Map<string, number>;
+}
+
+export const computeCoverage = (items: QuizItem[]): CoverageStats => {
+  const stats: CoverageStats = {
+    total: items.length,
+    japan: 0,
+    themes: Object.fromEntries(COVERAGE_THEMES.map(t => [t.id, 0])),
+    regions: Object.fromEntries(REGIONS.map(r => [r, 0])) as Record<HeritageRegion, number>,
+    sites: new Map(),
+  };
+  for (const item of items) {
+    if (item.is_japan) stats.japan++;
+    classifyThemes(item).forEach(id => stats.themes[id]++);
+    const regions = new Set<HeritageRegion>();
+    (item.site_ids ?? []).forEach(id => {
+      const site = getSite(id);
+      if (!site) return;
+      stats.sites.set(id, (stats.sites.get(id) ?? 0) + 1);
+      if (!site.countries.includes('JP')) regions.add(site.region);
+    });
+    regions.forEach(r => stats.regions[r]++);
+  }
+  return stats;
+};
+
+// Each region's share of the catalog, excluding Japan (handled by the Japan target)
+export const REGION_WEIGHTS: Record<HeritageRegion, number> = (() => {
+  const overseas = HERITAGE_SITES.filter(s => !s.countries.includes('JP'));
+  return Object.fromEntries(REGIONS.map(r => [r, overseas.filter(s => s.region === r).length / overseas.length])) as Record<HeritageRegion, number>;
+})();
+
+export interface CoveragePlan {
+  focusTopic: string;
+  label: string;   // Short description for logs, in the question language
+  reason: LocalizedText;
+}
+
+const isJapanese = (site: HeritageSite) => site.countries.includes('JP');
+
+// Random choice among the entries with the highest score, so repeated plans spread out
+const pickTop = <T>(entries: T[], score: (entry: T) => number): T | null => {
+  if (entries.length === 0) return null;
+  const best = Math.max(...entries.map(score));
+  const top = entries.filter(e => score(e) >= best - 1e-9);
+  return top[Math.floor(Math.random() * top.length)];
+};
+
+const sitePlan = (site: HeritageSite, reason: LocalizedText, language: Language): CoveragePlan => ({
+  focusTopic: `The World Heritage site "${site.nameJa}" (${site.nameEn}) and related sites`,
+  label: siteName(site, language),
+  reason,
+});
+
+// Pick the focus of the next batch for a level from what the library already covers:
+// first correct the Japan/overseas balance, then fill the thinnest theme or site
+// (for overseas, within the most under-represented region).
+// A fixed scope skips the balance step and plans within Japan or overseas only.
+// Coverage is counted per question language, since each language is its own library.
+export const planNextFocus = (items: QuizItem[], level: QuizLevel, scope: SiteScope = 'any', language: Language = 'ja'): CoveragePlan => {
+  const levelItems = items.filter(i => i.level === level && i.language === language);
+  const stats = computeCoverage(levelItems);
+  const japanShare = stats.total > 0 ? stats.japan / stats.total : 0;
+  const japanTarget = JAPAN_SHARE_TARGETS[level];
+
+  let wantJapan: boolean;
+  if (scope !== 'any') {
+    wantJapan = scope === 'japan';
+  } else if (stats.total === 0 || Math.abs(japanShare - japanTarget) <= JAPAN_SHARE_TOLERANCE) {
+    wantJapan = Math.random() < japanTarget;
+  } else {
+    wantJapan = japanShare < japanTarget;
+  }
+  const balanceReason = localizedMessage('coverage.reason.balance', { share: Math.round(japanShare * 100), target: Math.round(japanTarget * 100) });
+
+  // Candidate sites: Japan, or the overseas region furthest below its share
+  let sites: HeritageSite[];
+  let regionReason: LocalizedText = { ja: '', en: '' };
+  if (wantJapan) {
+    sites = HERITAGE_SITES.filter(isJapanese);
+  } else {
+    const overseasTotal = Math.max(1, stats.total - stats.japan);
+    const region = pickTop(REGIONS, r => REGION_WEIGHTS[r] - stats.regions[r] / overseasTotal)!;
+    sites = HERITAGE_SITES.filter(s => s.region === region && !isJapanese(s));
+    regionReason = localizedMessage('coverage.reason.region', { region: REGION_LABELS[region] });
+  }
+
+  // Gaps relative to an even spread: 1 = never asked, 0 = at or above its fair share
+  const themes = COVERAGE_THEMES.filter(t => t.japan === undefined || t.japan === wantJapan);
+  const fairTheme = Math.max(1, stats.total / COVERAGE_THEMES.length);
+  const fairSite = Math.max(1, stats.total / HERITAGE_SITES.length);
+  const themeGap = (t: CoverageTheme) => Math.max(0, 1 - stats.themes[t.id] / fairTheme);
+  const siteGap = (s: HeritageSite) => Math.max(0, 1 - (stats.sites.get(s.id) ?? 0) / fairSite);
+
+  const theme = pickTop(themes, themeGap);
+  const site = pickTop(sites, siteGap);
+
+  // Prefer uncovered sites; switch to a theme when it is the bigger gap
+  if (theme && (!site || themeGap(theme) > siteGap(site))) {
+    return {
+      focusTopic: wantJapan ? `${theme.prompt} (sites in Japan)` : `${theme.prompt} (sites outside Japan)`,
+      label: theme.label[language],
+      reason: localizedMessage('coverage.reason.theme', { theme: theme.label, count: stats.themes[theme.id], balance: balanceReason }),
+    };
+  }
+  if (site) {
+    const count = stats.sites.get(site.id) ?? 0;
+    const reason = count === 0
+      ? localizedMessage('coverage.reason.newSite', { region: regionReason, balance: balanceReason })
+      : localizedMessage('coverage.reason.site', { count, region: regionReason, balance: balanceReason });
+    return sitePlan(site, reason, language);
+  }
+  const fallback = COVERAGE_THEMES[Math.floor(Math.random() * COVERAGE_THEMES.length)];
+  return { focusTopic: fallback.prompt, label: fallback.label[language], reason: localizedMessage('coverage.reason.random') };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DUPLICATE_THRESHOLD, findDuplicateClusters, isDuplicate, normalizeText, partitionDuplicates, partitionIncoming, similarity } from './duplicates';
+import { makeItem } from './testFixtures';
+
+const question = (n: number, text: string, answer: string) =>
+  makeItem(n, { question: text, option1: answer, option2: `誤答${n}-2`, option3: `誤答${n}-3`, option4: `誤答${n}-4`, correct_idx: 0 });
+
+const himeji = question(1, '姫路城が世界遺産に登録されたのは何年ですか？', '1993年');
+const himejiReworded = question(2, '姫路城が世界遺産として登録された年はいつ？', '1993年');
+const himejiCopy = question(3, '　姫路城が世界遺産に登録されたのは何年ですか?　', '1993年');
+const machuPicchu = question(4, '次のうち、ペルーにある世界遺産はどれ？', 'マチュ・ピチュの歴史保護区');
+const nazca = question(5, '次のうち、ペルーにある世界遺産はどれ？', 'ナスカとパルパの地上絵');
+const angkor = question(6, 'アンコールの遺跡群がある国はどこですか？', 'カンボジア');
+
+describe('normalizeText', () => {
+  it('ignores width, case, spacing and punctuation', () => {
+    expect(normalizeText('　ＡＢＣ  def？')).toBe(normalizeText('abc def?'));
+  });
+});
+
+describe('similarity', () => {
+  it('treats copies and rewordings with the same answer as duplicates', () => {
+    expect(similarity(himeji, himejiCopy)).toBe(1);
+    expect(similarity(himeji, himejiReworded)).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+  });
+
+  it('keeps a shared stem with a different answer apart', () => {
+    expect(similarity(machuPicchu, nazca)).toBeLessThan(DUPLICATE_THRESHOLD);
+  });
+
+  it('keeps unrelated questions apart', () => {
+    expect(similarity(himeji, angkor)).toBeLessThan(0.3);
+  });
+});
+
+describe('partitionDuplicates', () => {
+  it('checks against the DB and within the incoming batch', () => {
+    const { unique, duplicates } = partitionDuplicates([himejiReworded, nazca, angkor, { ...angkor, id: 'q7' }], [himeji, machuPicchu]);
+    expect(unique.map(i => i.id)).toEqual([nazca.id, angkor.id]);
+    expect(duplicates.map(i => i.id)).toEqual([himejiReworded.id, 'q7']);
+    expect(isDuplicate(himejiCopy, [himeji])).toBe(true);
+  });
+});
+
+describe('partitionIncoming', () => {
+  it('catches an exact copy of a stored question that kept its id', () => {
+    expect(partitionDuplicates([himeji], [himeji]).duplicates).toEqual([]);
+    const { unique, duplicates } = partitionIncoming([himeji, angkor], [himeji]);
+    expect(duplicates).toHaveLength(1);
+    expect(unique.map(i => i.id)).toEqual([angkor.id]);
+  });
+
+  it('gives incoming items a new id only when theirs is taken', () => {
+    const taken = { ...angkor, id: himeji.id };
+    const [renamed] = partitionIncoming([taken], [himeji]).unique;
+    expect(renamed.id).not.toBe(himeji.id);
+    expect(partitionIncoming([angkor], [himeji]).unique[0]).toBe(angkor);
+  });
+});
+
+describe('findDuplicateClusters', () => {
+  it('groups near-duplicates in the DB, largest first', () => {
+    const clusters = findDuplicateClusters([himeji, angkor, machuPicchu, himejiReworded, nazca, himejiCopy, { ...angkor, id: 'q7' }]);
+    expect(clusters.map(c => c.map(i => i.id).sort())).toEqual([
+      [himeji.id, himejiReworded.id, himejiCopy.id].sort(),
+      [angkor.id, 'q7'],
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+import { QuizItem } from './types';
+import { generateId } from './utils';
+
+// Combined score = question similarity * QUESTION_WEIGHT + answer similarity * (1 - QUESTION_WEIGHT).
+// With the same correct answer, questions sharing about half of their content
+// bigrams are duplicates. An unrelated answer (no shared bigrams) caps the score at
+// QUESTION_WEIGHT, below the threshold, so generic stems like "次のうち、ペルーにある
+// 世界遺産はどれ？" can be reused for different questions. Answers that are only
+// partly alike (at least a quarter of their bigrams shared) still match when the
+// question text is near-identical, e.g. a rewording that shortened the answer.
+const QUESTION_WEIGHT = 0.6;
+export const DUPLICATE_THRESHOLD = 0.7;
+
+// Below this many content characters, fall back to the full normalized text
+const MIN_CONTENT_LENGTH = 4;
+
+interface Fingerprint {
+  grams: Set<string>;
+  answer: Set<string>;
+  answerText: string;
+}
+
+// Unify full/half-width forms, case, whitespace and punctuation
+export const normalizeText = (text: string): string =>
+  (text || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]/gu, '');
+
+// Hiragana is mostly particles and verb endings ("〜はどこにありますか" vs "〜が位置する国は"),
+// so the kanji/katakana/latin content carries what the question is about.
+const contentOf = (normalized: string): string => normalized.replace(/[ぁ-ゟ]/g, '');
+
+const bigrams = (text: string): Set<string> => {
+  const grams = new Set<string>();
+  if (text.length === 1) grams.add(text);
+  for (let i = 0; i < text.length - 1; i++) {
+    grams.add(text.slice(i, i + 2));
+  }
+  return grams;
+};
+
+// Sørensen–Dice coefficient on bigram sets
+const dice = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  if (a.size === 0 || b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  small.forEach(g => { if (large.has(g)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+};
+
+const correctAnswer = (item: QuizItem): string =>
+  [item.option1, item.option2, item.option3, item.option4][item.correct_idx] ?? '';
+
+const fingerprint = (item: QuizItem): Fingerprint => {
+  const normalized = normalizeText(item.question);
+  const content = contentOf(normalized);
+  const answerText = normalizeText(correctAnswer(item));
+  return {
+    grams: bigrams(content.length >= MIN_CONTENT_LENGTH ? content : normalized),
+    answer: bigrams(answerText),
+    answerText,
+  };
+};
+
+const scoreFingerprints = (a: Fingerprint, b: Fingerprint): number => {
+  const answerSim = a.answerText === b.answerText ? 1 : dice(a.answer, b.answer);
+  return dice(a.grams, b.grams) * QUESTION_WEIGHT + answerSim * (1 - QUESTION_WEIGHT);
+};
+
+// Cheap upper bound on dice() from set sizes, used to skip hopeless pairs
+const canReachThreshold = (a: Fingerprint, b: Fingerprint): boolean => {
+  const maxQuestion = (2 * Math.min(a.grams.size, b.grams.size)) / (a.grams.size + b.grams.size || 1);
+  return maxQuestion * QUESTION_WEIGHT + (1 - QUESTION_WEIGHT) >= DUPLICATE_THRESHOLD;
+};
+
+// Similarity of two questions (0-1), comparing question text together with the correct answer
+export const similarity = (a: QuizItem, b: QuizItem): number => scoreFingerprints(fingerprint(a), fingerprint(b));
+
+export interface DuplicateIndex {
+  findMatch(item: QuizItem): QuizItem | null;
+  add(item: QuizItem): void;
+}
+
+// Precomputes fingerprints so repeated lookups against a large DB stay fast
+export const createDuplicateIndex = (items: QuizItem[]): DuplicateIndex => {
+  const entries = items.map(item => ({ item, fp: fingerprint(item) }));
+  return {
+    findMatch(item) {
+      const fp = fingerprint(item);
+      for (const entry of entries) {
+        if (entry.item.id === item.id) continue;
+        if (canReachThreshold(fp, entry.fp) && scoreFingerprints(fp, entry.fp) >= DUPLICATE_THRESHOLD) {
+          return entry.item;
+        }
+      }
+      return null;
+    },
+    add(item) {
+      entries.push({ item, fp: fingerprint(item) });
+    },
+  };
+};
+
+// Check if a question (or a rewording of it) already exists in the current items
+export const isDuplicate = (newItem: QuizItem, existingItems: QuizItem[]): boolean =>
+  createDuplicateIndex(existingItems).findMatch(newItem) !== null;
+
+// Split incoming items into unique ones and near-duplicates, also catching
+// duplicates within the incoming batch itself
+export const partitionDuplicates = (incoming: QuizItem[], existingItems: QuizItem[]): { unique: QuizItem[], duplicates: QuizItem[] } => {
+  const index = createDuplicateIndex(existingItems);
+  const unique: QuizItem[] = [];
+  const duplicates: QuizItem[] = [];
+  for (const item of incoming) {
+    if (index.findMatch(item)) {
+      duplicates.push(item);
+    } else {
+      unique.push(item);
+      index.add(item);
+    }
+  }
+  return { unique, duplicates };
+};
+
+// Partition items from outside the DB (imports, shared sets). They keep their ids unless one is
+// already taken here; taken ids are replaced first, since findMatch never compares an item with
+// its own id and an exact copy of a stored question would otherwise pass as unique.
+export const partitionIncoming = (incoming: QuizItem[], existingItems: QuizItem[]): { unique: QuizItem[], duplicates: QuizItem[] } => {
+  const ids = new Set(existingItems.map(i => i.id));
+  return partitionDuplicates(incoming.map(item => ids.has(item.id) ? { ...item, id: generateId() } : item), existingItems);
+};
+
+// Group near-duplicates already in the DB (union-find over all similar pairs).
+// Only clusters with two or more items are returned, largest first.
+export const findDuplicateClusters = (items: QuizItem[]): QuizItem[][] => {
+  const fps = items.map(fingerprint);
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (!canReachThreshold(fps[i], fps[j])) continue;
+      if (scoreFingerprints(fps[i], fps[j]) >= DUPLICATE_THRESHOLD) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, QuizItem[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), item]);
+  });
+  return [...groups.values()].filter(g => g.length > 1).sort((a, b) => b.length - a.length);
+};
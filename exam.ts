@@ -0,0 +1,45 @@
+import { ExamConfig, ExamSession, QuizItem, QuizLevel } from './types';
+
+// Mock exam formats modelled on the 世界遺産検定 (question count, time limit, pass mark).
+// The real exam scores by points; passRatio approximates the published pass line.
+export const EXAM_CONFIGS: Record<QuizLevel, ExamConfig> = {
+  [QuizLevel.LEVEL_3]: { level: QuizLevel.LEVEL_3, questionCount: 60, timeLimitMinutes: 50, passRatio: 0.6 },
+  [QuizLevel.LEVEL_2]: { level: QuizLevel.LEVEL_2, questionCount: 60, timeLimitMinutes: 60, passRatio: 0.6 },
+  [QuizLevel.LEVEL_PRE_1]: { level: QuizLevel.LEVEL_PRE_1, questionCount: 90, timeLimitMinutes: 90, passRatio: 0.6 },
+  [QuizLevel.LEVEL_1]: { level: QuizLevel.LEVEL_1, questionCount: 90, timeLimitMinutes: 90, passRatio: 2 / 3 },
+};
+
+export interface ExamResult {
+  correctCount: number;
+  answeredCount: number;
+  total: number;
+  ratio: number;
+  passed: boolean;
+}
+
+export const createExamSession = (config: ExamConfig, questionCount: number, now: number = Date.now()): ExamSession => ({
+  config,
+  answers: Array(questionCount).fill(null),
+  flagged: Array(questionCount).fill(false),
+  timeSpentMs: Array(questionCount).fill(0),
+  startedAt: now,
+  deadline: now + config.timeLimitMinutes * 60 * 1000,
+  finishedAt: null,
+});
+
+// Unanswered questions count as wrong
+export const gradeExam = (items: QuizItem[], exam: ExamSession): ExamResult => {
+  const total = items.length;
+  const correctCount = items.filter((item, i) => exam.answers[i] === item.correct_idx).length;
+  const answeredCount = exam.answers.filter(a => a !== null).length;
+  const ratio = total > 0 ? correctCount / total : 0;
+  return { correctCount, answeredCount, total, ratio, passed: ratio >= exam.config.passRatio };
+};
+
+// "mm:ss" for the countdown display
+export const formatRemaining = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
@@ -0,0 +1,163 @@
+import { Type, Schema } from "@google/genai";
+import { QuizItem, QuarantinedItem, FactCheckResult, ProviderSettings, ValidationIssue } from './types';
+import { requestJsonArray } from './quizGenerator';
+import { AcquireOptions } from './rateLimiter';
+import { localizedMessage } from './i18n';
+
+// Items whose stored answer is judged less likely than this to be right are held for review
+export const FACT_CHECK_MIN_CONFIDENCE = 0.6;
+
+const answerSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      index: { type: Type.INTEGER, description: "Number of the question as given in the prompt" },
+      answer_idx: { type: Type.INTEGER, description: "Index of the option you believe is correct (0-3)" },
+      confidence: { type: Type.NUMBER, description: "How sure you are, from 0.0 to 1.0" },
+      also_correct: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Indexes of any other options that are also correct" },
+    },
+    required: ["index", "answer_idx", "confidence", "also_correct"],
+  },
+};
+
+const reviewSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      index: { type: Type.INTEGER, description: "Number of the question as given in the prompt" },
+      consistent: { type: Type.BOOLEAN, description: "True if the explanation is accurate and supports the marked answer" },
+      comment: { type: Type.STRING, description: "Short note on any factual problem, in the language of the question; empty if none" },
+    },
+    required: ["index", "consistent", "comment"],
+  },
+};
+
+const optionsOf = (item: QuizItem) => [item.option1, item.option2, item.option3, item.option4];
+
+const formatOptions = (item: QuizItem) => optionsOf(item).map((opt, i) => `    ${i}: ${opt}`).join('\n');
+
+// The verifier never sees correct_idx or the explanations, so it cannot just agree with the generator
+const buildAnswerPrompt = (items: QuizItem[]) => `
+    You are checking questions for the "World Heritage Certification" (世界遺産検定).
+    Answer each multiple-choice question independently, using only your own knowledge.
+
+    For every question return its number, the index of the correct option, your confidence (0.0-1.0)
+    and the indexes of any OTHER options that would also be correct (usually none).
+    Be honest about uncertainty: use a low confidence when you are not sure.
+
+${items.map((item, i) => `  Q${i}. ${item.question}\n${formatOptions(item)}`).join('\n\n')}
+  `;
+
+const buildReviewPrompt = (items: QuizItem[]) => `
+    You are fact-checking explanations for "World Heritage Certification" (世界遺産検定) questions.
+    For each question, check that the explanation is factually accurate and supports the marked answer,
+    and that it does not describe a different option as correct.
+
+${items.map((item, i) => `  Q${i}. ${item.question}
+${formatOptions(item)}
+    Marked answer: ${item.correct_idx}
+    Explanation: ${item.explanation}
+    Advanced explanation: ${item.advanced_explanation}`).join('\n\n')}
+  `;
+
+const toConfidence = (value: unknown): number => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0;
+};
+
+const toOptionIndex = (value: unknown): number | null => {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 && n <= 3 ? n : null;
+};
+
+// Combine both verdicts into one score: the verifier's confidence when it agrees,
+// the remaining probability when it does not, halved for doubtful explanations
+const scoreItem = (item: QuizItem, answer: any, review: any, model: string): FactCheckResult => {
+  const verifierAnswerIdx = toOptionIndex(answer?.answer_idx);
+  const verifierConfidence = answer ? toConfidence(answer.confidence) : 0;
+  const alsoCorrectIdx: number[] = Array.isArray(answer?.also_correct)
+    ? answer.also_correct.map(toOptionIndex).filter((i: number | null): i is number => i !== null && i !== item.correct_idx)
+    : [];
+  const explanationConsistent = review ? review.consistent !== false : true;
+
+  let confidence = verifierAnswerIdx === null ? 0
+    : verifierAnswerIdx === item.correct_idx ? verifierConfidence
+    : 1 - verifierConfidence;
+  if (alsoCorrectIdx.length > 0) confidence = Math.min(confidence, 0.5);
+  if (!explanationConsistent) confidence /= 2;
+
+  return {
+    verifierAnswerIdx,
+    verifierConfidence,
+    alsoCorrectIdx,
+    explanationConsistent,
+    comment: typeof review?.comment === 'string' ? review.comment.trim() : '',
+    confidence: Math.round(confidence * 100) / 100,
+    model,
+    checkedAt: Date.now(),
+  };
+};
+
+const isFlagged = (item: QuizItem, result: FactCheckResult) =>
+  result.verifierAnswerIdx !== item.correct_idx ||
+  result.alsoCorrectIdx.length > 0 ||
+  !result.explanationConsistent ||
+  result.confidence < FACT_CHECK_MIN_CONFIDENCE;
+
+const describeResult = (item: QuizItem, result: FactCheckResult): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const pct = (n: number) => Math.round(n * 100);
+  if (result.verifierAnswerIdx === null) {
+    issues.push({ field: 'correct_idx', message: localizedMessage('factCheck.noAnswer') });
+  } else if (result.verifierAnswerIdx !== item.correct_idx) {
+    issues.push({ field: 'correct_idx', message: localizedMessage('factCheck.otherAnswer', { option: result.verifierAnswerIdx + 1, confidence: pct(result.verifierConfidence) }) });
+  }
+  if (result.alsoCorrectIdx.length > 0) {
+    const options = result.alsoCorrectIdx.map(i => i + 1);
+    issues.push({ field: 'options', message: localizedMessage('factCheck.alsoCorrect', { options: { ja: options.join('・'), en: options.join(', ') } }) });
+  }
+  if (!result.explanationConsistent) {
+    issues.push({ field: 'explanation', message: result.comment
+      ? localizedMessage('factCheck.explanationComment', { comment: result.comment })
+      : localizedMessage('factCheck.explanation') });
+  }
+  if (issues.length === 0) {
+    issues.push({ field: 'correct_idx', message: localizedMessage('factCheck.lowConfidence', { confidence: pct(result.verifierConfidence) }) });
+  }
+  return issues;
+};
+
+// Second, independent pass over a generated batch: one blind answering call and one
+// explanation check. Items the verifier disagrees with are returned as `flagged`
+// for human review instead of going into the question DB.
+export const factCheckBatch = async (items: QuizItem[], settings: ProviderSettings, options: AcquireOptions = {}): Promise<{ passed: QuizItem[], flagged: QuarantinedItem[] }> => {
+  if (items.length === 0) return { passed: [], flagged: [] };
+
+  const answers = await requestJsonArray(
+    { prompt: buildAnswerPrompt(items), schema: answerSchema, temperature: 0, task: { kind: 'answer', items } },
+    settings, options
+  );
+  const reviews = await requestJsonArray(
+    { prompt: buildReviewPrompt(items), schema: reviewSchema, temperature: 0, task: { kind: 'review', items } },
+    settings, options
+  );
+
+  const byIndex = (results: any[]) => new Map(results.filter(r => r && typeof r === 'object').map(r => [Number(r.index), r]));
+  const answerByIndex = byIndex(answers);
+  const reviewByIndex = byIndex(reviews);
+
+  const passed: QuizItem[] = [];
+  const flagged: QuarantinedItem[] = [];
+  const now = Date.now();
+  items.forEach((item, i) => {
+    const result = scoreItem(item, answerByIndex.get(i), reviewByIndex.get(i), settings.model);
+    if (isFlagged(item, result)) {
+      flagged.push({ item, issues: describeResult(item, result), source: 'factcheck', quarantinedAt: now, factCheck: result });
+    } else {
+      passed.push(item);
+    }
+  });
+  return { passed, flagged };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { QUIZ_FORMATS, detectFormat } from './formats';
+import { QuizItem } from './types';
+import { angkor, horyuji } from './testFixtures';
+
+const withoutId = ({ id, ...rest }: QuizItem) => rest;
+
+// What every format keeps: the question itself, its answer and what it is about
+const essentials = (item: QuizItem) => ({
+  level: item.level,
+  language: item.language,
+  question: item.question,
+  options: [item.option1, item.option2, item.option3, item.option4],
+  correct_idx: item.correct_idx,
+  explanation: item.explanation,
+  is_japan: item.is_japan,
+  site_ids: item.site_ids,
+});
+
+describe('QUIZ_FORMATS', () => {
+  it.each(['csv', 'json'] as const)('%s round-trips every field', format => {
+    const { serialize, parse } = QUIZ_FORMATS[format];
+    const result = parse(serialize([horyuji, angkor]));
+    expect(result.errors).toEqual([]);
+    expect(result.quarantined).toEqual([]);
+    expect(result.items.map(withoutId)).toEqual([horyuji, angkor].map(withoutId));
+  });
+
+  it.each(['anki', 'gift'] as const)('%s round-trips the question and its answer', format => {
+    const { serialize, parse } = QUIZ_FORMATS[format];
+    const result = parse(serialize([horyuji, angkor]));
+    expect(result.errors).toEqual([]);
+    expect(result.items.map(essentials)).toEqual([horyuji, angkor].map(essentials));
+  });
+
+  it('parses a CSV file saved by Excel', () => {
+    const text = '\uFEFF' + QUIZ_FORMATS.csv.serialize([horyuji]).replace(/\n/g, '\r\n');
+    expect(QUIZ_FORMATS.csv.parse(text).items.map(withoutId)).toEqual([withoutId(horyuji)]);
+  });
+
+  it('reports rows that fail validation in both languages and quarantines them', () => {
+    const text = QUIZ_FORMATS.csv.serialize([{ ...angkor, option3: '' }]);
+    const result = QUIZ_FORMATS.csv.parse(text);
+    expect(result.items).toEqual([]);
+    expect(result.quarantined).toHaveLength(1);
+    expect(result.errors).toEqual([{ line: 2, message: { ja: 'option3 が空です', en: 'option3 is empty' } }]);
+  });
+
+  it('rejects JSON from a newer schema', () => {
+    const result = QUIZ_FORMATS.json.parse(JSON.stringify({ schemaVersion: 99, items: [horyuji] }));
+    expect(result.items).toEqual([]);
+    expect(result.errors[0].message.en).toContain('schemaVersion 99');
+  });
+});
+
+describe('detectFormat', () => {
+  it.each(['csv', 'json', 'anki', 'gift'] as const)('recognizes %s output', format => {
+    const { serialize, extension } = QUIZ_FORMATS[format];
+    expect(detectFormat(`questions.${extension}`, serialize([horyuji]))).toBe(format);
+  });
+});
@@ -0,0 +1,436 @@
+import { QuizItem, CSVParseResult, CSVRowError, LocalizedText, QuarantinedItem, QuizItemSource } from './types';
+import { parseCSV, toCSV, generateId } from './utils';
+import { validateQuizItem } from './validation';
+import { getSite } from './heritageSites';
+import { findSitesInText } from './siteMatcher';
+import { joinLocalized, localizedMessage } from './i18n';
+
+export type QuizFormatId = 'csv' | 'json' | 'anki' | 'gift' | 'moodle_xml';
+
+export interface QuizFormat {
+  id: QuizFormatId;
+  label: LocalizedText;
+  extension: string;
+  mimeType: string;
+  errorUnit: 'line' | 'question'; // How import errors are located: line 12 or question 3
+  serialize(items: QuizItem[]): string;
+  parse(text: string): CSVParseResult;
+}
+
+// Bump when the JSON layout changes; older files must stay importable
+export const JSON_SCHEMA_VERSION = 1;
+const JSON_FORMAT_NAME = 'world-heritage-quiz';
+
+const OPTION_FIELDS = ['option1', 'option2', 'option3', 'option4'] as const;
+const LEVEL_CATEGORY = '世界遺産検定';
+
+const optionsOf = (item: QuizItem): string[] => OPTION_FIELDS.map(f => item[f]);
+
+// Validate parsed records the way parseCSV does: broken ones are reported and quarantined.
+// `errors` already holds the records that could not be parsed at all.
+const collectItems = (records: { at: number, raw: any }[], errors: CSVRowError[], source: QuizItemSource): CSVParseResult => {
+  const unparsed = errors.length;
+  const items: QuizItem[] = [];
+  const quarantined: QuarantinedItem[] = [];
+  for (const { at, raw } of records) {
+    const { item, issues } = validateQuizItem({ id: generateId(), ...raw });
+    if (issues.length > 0) {
+      errors.push({ line: at, message: joinLocalized(issues.map(i => i.message), ' / ') });
+      quarantined.push({ item, issues, source, quarantinedAt: Date.now() });
+    } else {
+      items.push(item);
+    }
+  }
+  errors.sort((a, b) => a.line - b.line);
+  return { items, errors, quarantined, totalRows: records.length + unparsed };
+};
+
+// Formats without a Japan flag or site list get both from the catalog
+const withInferredSites = (raw: any): any => {
+  const siteIds = raw.site_ids ?? findSitesInText([raw.question, raw.explanation].join('\n'));
+  return {
+    ...raw,
+    site_ids: siteIds,
+    is_japan: raw.is_japan ?? siteIds.some((id: string) => getSite(id)?.countries.includes('JP')),
+  };
+};
+
+const escapeHtml = (text: string): string =>
+  (text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br>');
+
+const htmlToText = (html: string): string =>
+  (html ?? '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>\s*<p>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim();
+
+// --- JSON (lossless) ---
+
+const toJSON = (items: QuizItem[]): string => JSON.stringify({
+  format: JSON_FORMAT_NAME,
+  schemaVersion: JSON_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  items,
+}, null, 2);
+
+const parseJSON = (text: string): CSVParseResult => {
+  const errors: CSVRowError[] = [];
+  let data: any;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (e) {
+    return { items: [], errors: [{ line: 1, message: localizedMessage('import.parse.invalidJson') }], quarantined: [], totalRows: 0 };
+  }
+  // A bare array of questions is accepted as well
+  const list = Array.isArray(data) ? data : data?.items;
+  if (!Array.isArray(list)) {
+    return { items: [], errors: [{ line: 1, message: localizedMessage('import.parse.noItems') }], quarantined: [], totalRows: 0 };
+  }
+  if (!Array.isArray(data) && typeof data.schemaVersion === 'number' && data.schemaVersion > JSON_SCHEMA_VERSION) {
+    return { items: [], errors: [{ line: 1, message: localizedMessage('import.parse.newerSchema', { version: data.schemaVersion }) }], quarantined: [], totalRows: list.length };
+  }
+  return collectItems(list.map((raw, i) => ({ at: i + 1, raw })), errors, 'import');
+};
+
+// --- Anki TSV ---
+// Front: question and numbered options. Back: the answer, explanations and link.
+// Level, language, Japan flag and sites go into tags so our own exports import back losslessly.
+
+const ANKI_LEVEL_TAG = `${LEVEL_CATEGORY}::`;
+const ANKI_SITE_TAG = 'site::';
+const ANKI_LANGUAGE_TAG = 'lang::';
+
+const ankiField = (html: string) => html.replace(/\t/g, ' ');
+
+const toAnkiTSV = (items: QuizItem[]): string => {
+  const rows = items.map(item => {
+    const options = optionsOf(item);
+    const front = `${escapeHtml(item.question)}<br><br>${options.map((o, i) => `${i + 1}. ${escapeHtml(o)}`).join('<br>')}`;
+    const back = [
+      `<b>${item.correct_idx + 1}. ${escapeHtml(options[item.correct_idx])}</b>`,
+      escapeHtml(item.explanation),
+      item.advanced_explanation && `<small>${escapeHtml(item.advanced_explanation)}</small>`,
+      item.wiki_link && `<a href="${escapeHtml(item.wiki_link)}">Wikipedia</a>`,
+    ].filter(Boolean).join('<br><br>');
+    const tags = [
+      `${ANKI_LEVEL_TAG}${item.level}`,
+      `${ANKI_LANGUAGE_TAG}${item.language}`,
+      item.is_japan ? '日本' : '海外',
+      ...(item.site_ids ?? []).map(id => `${ANKI_SITE_TAG}${id}`),
+    ].join(' ');
+    return [front, back, tags].map(ankiField).join('\t');
+  });
+  return ['#separator:tab', '#html:true', '#tags column:3', ...rows].join('\n');
+};
+
+const parseAnkiTSV = (text: string): CSVParseResult => {
+  const errors: CSVRowError[] = [];
+  const records: { at: number, raw: any }[] = [];
+  text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n').forEach((line, i) => {
+    if (line.trim() === '' || line.startsWith('#')) return;
+    const [front = '', back = '', tagField = ''] = line.split('\t');
+    const split = front.lastIndexOf('<br><br>');
+    const questionPart = split >= 0 ? front.slice(0, split) : front;
+    const optionPart = split >= 0 ? front.slice(split + '<br><br>'.length) : '';
+    const options = optionPart.split('<br>').map(o => o.match(/^[1-4]\.\s?(.*)$/)?.[1]);
+    const answer = back.match(/^<b>([1-4])\./);
+    if (options.length !== 4 || options.some(o => o === undefined) || !answer) {
+      errors.push({ line: i + 1, message: localizedMessage('import.parse.notAnki') });
+      return;
+    }
+
+    const sections = back.split(/<br><br>/).slice(1);
+    const explanation = sections.filter(s => !s.startsWith('<small>') && !s.startsWith('<a ')).join('<br><br>');
+    const advanced = sections.find(s => s.startsWith('<small>'));
+    const link = sections.map(s => s.match(/^<a href="([^"]*)"/)?.[1]).find(Boolean);
+    const tags = tagField.split(/\s+/).filter(Boolean);
+    const siteIds = tags.filter(t => t.startsWith(ANKI_SITE_TAG)).map(t => t.slice(ANKI_SITE_TAG.length));
+
+    records.push({
+      at: i + 1,
+      raw: withInferredSites({
+        level: tags.find(t => t.startsWith(ANKI_LEVEL_TAG))?.slice(ANKI_LEVEL_TAG.length) ?? '',
+        language: tags.find(t => t.startsWith(ANKI_LANGUAGE_TAG))?.slice(ANKI_LANGUAGE_TAG.length),
+        question: htmlToText(questionPart),
+        ...Object.fromEntries(OPTION_FIELDS.map((f, j) => [f, htmlToText(options[j]!)])),
+        correct_idx: Number(answer[1]) - 1,
+        explanation: htmlToText(explanation),
+        advanced_explanation: htmlToText(advanced ?? ''),
+        wiki_link: link ? htmlToText(link) : '',
+        is_japan: tags.includes('日本') ? true : tags.includes('海外') ? false : undefined,
+        site_ids: siteIds.length > 0 ? siteIds : undefined,
+      }),
+    });
+  });
+  return collectItems(records, errors, 'import');
+};
+
+// --- Moodle GIFT ---
+
+const escapeGift = (text: string): string =>
+  (text ?? '').replace(/([~=#{}:\\])/g, '\\$1').replace(/\n/g, '\\n');
+
+const unescapeGift = (text: string): string =>
+  text.replace(/\\(.)/g, (_, ch) => ch === 'n' ? '\n' : ch).trim();
+
+const byLevel = (items: QuizItem[]): [string, QuizItem[]][] => {
+  const groups = new Map<string, QuizItem[]>();
+  items.forEach(item => groups.set(String(item.level), [...(groups.get(String(item.level)) ?? []), item]));
+  return [...groups.entries()];
+};
+
+const toGIFT = (items: QuizItem[]): string =>
+  byLevel(items).map(([level, group]) => [
+    `$CATEGORY: ${LEVEL_CATEGORY}/${level}`,
+    ...group.map(item => {
+      const answers = optionsOf(item).map((o, i) => `  ${i === item.correct_idx ? '=' : '~'}${escapeGift(o)}`);
+      const feedback = [item.explanation, item.advanced_explanation].filter(Boolean).join('\n\n');
+      return [
+        `::${escapeGift(item.id)}:: ${escapeGift(item.question)} {`,
+        ...answers,
+        ...(feedback ? [`  ####${escapeGift(feedback)}`] : []),
+        '}',
+      ].join('\n');
+    }),
+  ].join('\n\n')).join('\n\n') + '\n';
+
+// Position of the first unescaped occurrence of ch, or -1
+const findUnescaped = (text: string, ch: string, from: number = 0): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === ch) return i;
+  }
+  return -1;
+};
+
+// Split the answer block into "=right", "~wrong" and "####feedback" parts
+const splitGiftAnswers = (body: string): { correct: boolean | null, text: string }[] => {
+  const parts: { correct: boolean | null, text: string }[] = [];
+  let current: { correct: boolean | null, text: string } | null = null;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '\\') {
+      if (current) current.text += ch + (body[i + 1] ?? '');
+      i++;
+    } else if (body.startsWith('####', i)) {
+      current = { correct: null, text: '' };
+      parts.push(current);
+      i += 3;
+    } else if (ch === '=' || ch === '~') {
+      current = { correct: ch === '=', text: '' };
+      parts.push(current);
+    } else if (current) {
+      current.text += ch;
+    }
+  }
+  // Per-answer feedback ("~wrong#why") is dropped
+  return parts.map(p => {
+    const feedbackAt = p.correct === null ? -1 : findUnescaped(p.text, '#');
+    return feedbackAt >= 0 ? { ...p, text: p.text.slice(0, feedbackAt) } : p;
+  });
+};
+
+const parseGIFT = (text: string): CSVParseResult => {
+  const errors: CSVRowError[] = [];
+  const records: { at: number, raw: any }[] = [];
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  let level = '';
+  let block: string[] = [];
+  let blockLine = 0;
+
+  const flush = () => {
+    const source = block.join('\n').trim();
+    block = [];
+    if (!source) return;
+    let rest = source;
+    let id: string | undefined;
+    const title = rest.match(/^::((?:\\.|[^:])*)::/);
+    if (title) {
+      id = unescapeGift(title[1]) || undefined;
+      rest = rest.slice(title[0].length);
+    }
+    rest = rest.replace(/^\s*\[[a-z]+\]/, '');
+    const open = findUnescaped(rest, '{');
+    const close = open >= 0 ? findUnescaped(rest, '}', open) : -1;
+    if (open < 0 || close < 0) {
+      errors.push({ line: blockLine, message: localizedMessage('import.parse.noAnswerBlock') });
+      return;
+    }
+    const parts = splitGiftAnswers(rest.slice(open + 1, close));
+    const answers = parts.filter(p => p.correct !== null);
+    const feedback = parts.find(p => p.correct === null);
+    if (answers.length !== 4 || answers.filter(a => a.correct).length !== 1) {
+      errors.push({ line: blockLine, message: localizedMessage('import.parse.notSingleAnswer', { count: answers.length }) });
+      return;
+    }
+    const [explanation, ...advanced] = feedback ? unescapeGift(feedback.text).split(/\n\n/) : [''];
+    records.push({
+      at: blockLine,
+      raw: withInferredSites({
+        id,
+        level,
+        question: unescapeGift(rest.slice(0, open) + rest.slice(close + 1)),
+        ...Object.fromEntries(OPTION_FIELDS.map((f, j) => [f, unescapeGift(answers[j].text)])),
+        correct_idx: answers.findIndex(a => a.correct),
+        explanation,
+        advanced_explanation: advanced.join('\n\n'),
+        wiki_link: '',
+      }),
+    });
+  };
+
+  lines.forEach((line, i) => {
+    if (line.trim().startsWith('//')) return;
+    const category = line.match(/^\s*\$CATEGORY:\s*(.*)$/);
+    if (category) {
+      flush();
+      // The last path segment names the level ("$course$/世界遺産検定/2級")
+      level = category[1].split('/').pop()!.trim();
+      return;
+    }
+    if (line.trim() === '') {
+      flush();
+      return;
+    }
+    if (block.length === 0) blockLine = i + 1;
+    block.push(line);
+  });
+  flush();
+  return collectItems(records, errors, 'import');
+};
+
+// --- Moodle XML ---
+
+const escapeXml = (text: string): string =>
+  (text ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Moodle stores HTML; CDATA avoids escaping it twice. escapeHtml already removed any "]]>".
+const cdata = (html: string) => `<text><![CDATA[${html}]]></text>`;
+
+const toMoodleXML = (items: QuizItem[]): string => {
+  const questions = byLevel(items).flatMap(([level, group]) => [
+    `  <question type="category">\n    <category><text>$course$/${escapeXml(LEVEL_CATEGORY)}/${escapeXml(level)}</text></category>\n  </question>`,
+    ...group.map(item => {
+      const feedback = [
+        item.explanation && `<p>${escapeHtml(item.explanation)}</p>`,
+        item.advanced_explanation && `<p>${escapeHtml(item.advanced_explanation)}</p>`,
+        item.wiki_link && `<p><a href="${escapeHtml(item.wiki_link)}">Wikipedia</a></p>`,
+      ].filter(Boolean).join('');
+      const answers = optionsOf(item).map((o, i) =>
+        `    <answer fraction="${i === item.correct_idx ? 100 : 0}" format="html">\n      ${cdata(escapeHtml(o))}\n    </answer>`
+      );
+      const tags = [item.is_japan ? '日本' : '海外', `lang:${item.language}`, ...(item.site_ids ?? []).map(id => `site:${id}`)]
+        .map(t => `<tag><text>${escapeXml(t)}</text></tag>`).join('');
+      return [
+        `  <question type="multichoice">`,
+        `    <name><text>${escapeXml(item.id)}</text></name>`,
+        `    <questiontext format="html">\n      ${cdata(escapeHtml(item.question))}\n    </questiontext>`,
+        `    <generalfeedback format="html">\n      ${cdata(feedback)}\n    </generalfeedback>`,
+        `    <defaultgrade>1</defaultgrade>`,
+        `    <penalty>0.3333333</penalty>`,
+        `    <hidden>0</hidden>`,
+        `    <single>true</single>`,
+        `    <shuffleanswers>true</shuffleanswers>`,
+        `    <answernumbering>123</answernumbering>`,
+        ...answers,
+        `    <tags>${tags}</tags>`,
+        `  </question>`,
+      ].join('\n');
+    }),
+  ]);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${questions.join('\n')}\n</quiz>\n`;
+};
+
+const parseMoodleXML = (text: string): CSVParseResult => {
+  const errors: CSVRowError[] = [];
+  const doc = new DOMParser().parseFromString(text.replace(/^\uFEFF/, ''), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { items: [], errors: [{ line: 1, message: localizedMessage('import.parse.invalidXml') }], quarantined: [], totalRows: 0 };
+  }
+
+  const childText = (el: Element, tag: string) => {
+    const child = Array.from(el.children).find(c => c.tagName === tag);
+    return child?.getElementsByTagName('text')[0]?.textContent ?? '';
+  };
+
+  const records: { at: number, raw: any }[] = [];
+  let level = '';
+  let index = 0;
+  for (const question of Array.from(doc.getElementsByTagName('question'))) {
+    const type = question.getAttribute('type');
+    if (type === 'category') {
+      level = (childText(question, 'category').split('/').pop() ?? '').trim();
+      continue;
+    }
+    index++;
+    if (type !== 'multichoice') {
+      errors.push({ line: index, message: localizedMessage('import.parse.notMultichoice', { type: String(type) }) });
+      continue;
+    }
+    const answers = Array.from(question.getElementsByTagName('answer'));
+    const correct = answers.map(a => parseFloat(a.getAttribute('fraction') ?? '0') >= 100);
+    if (answers.length !== 4 || correct.filter(Boolean).length !== 1) {
+      errors.push({ line: index, message: localizedMessage('import.parse.notSingleAnswer', { count: answers.length }) });
+      continue;
+    }
+
+    const feedbackHtml = childText(question, 'generalfeedback');
+    const paragraphs = feedbackHtml.split(/<\/p>\s*<p>|<\/?p>/).map(p => p.trim()).filter(Boolean);
+    const link = feedbackHtml.match(/<a href="([^"]*)"/)?.[1];
+    const texts = paragraphs.filter(p => !p.startsWith('<a ')).map(htmlToText);
+    const tags = Array.from(question.getElementsByTagName('tag')).map(t => t.textContent?.trim() ?? '');
+    const siteIds = tags.filter(t => t.startsWith('site:')).map(t => t.slice('site:'.length));
+
+    records.push({
+      at: index,
+      raw: withInferredSites({
+        id: childText(question, 'name') || undefined,
+        level,
+        language: tags.find(t => t.startsWith('lang:'))?.slice('lang:'.length),
+        question: htmlToText(childText(question, 'questiontext')),
+        ...Object.fromEntries(OPTION_FIELDS.map((f, j) => [f, htmlToText(answers[j].getElementsByTagName('text')[0]?.textContent ?? '')])),
+        correct_idx: correct.indexOf(true),
+        explanation: texts[0] ?? '',
+        advanced_explanation: texts.slice(1).join('\n\n'),
+        wiki_link: link ? htmlToText(link) : '',
+        is_japan: tags.includes('日本') ? true : tags.includes('海外') ? false : undefined,
+        site_ids: siteIds.length > 0 ? siteIds : undefined,
+      }),
+    });
+  }
+  return collectItems(records, errors, 'import');
+};
+
+export const QUIZ_FORMATS: Record<QuizFormatId, QuizFormat> = {
+  csv: { id: 'csv', label: { ja: 'CSV', en: 'CSV' }, extension: 'csv', mimeType: 'text/csv;charset=utf-8;', errorUnit: 'line', serialize: toCSV, parse: parseCSV },
+  json: { id: 'json', label: { ja: 'JSON（完全）', en: 'JSON (lossless)' }, extension: 'json', mimeType: 'application/json', errorUnit: 'question', serialize: toJSON, parse: parseJSON },
+  anki: { id: 'anki', label: { ja: 'Anki（TSV）', en: 'Anki (TSV)' }, extension: 'txt', mimeType: 'text/tab-separated-values;charset=utf-8;', errorUnit: 'line', serialize: toAnkiTSV, parse: parseAnkiTSV },
+  gift: { id: 'gift', label: { ja: 'Moodle GIFT', en: 'Moodle GIFT' }, extension: 'gift', mimeType: 'text/plain;charset=utf-8;', errorUnit: 'line', serialize: toGIFT, parse: parseGIFT },
+  moodle_xml: { id: 'moodle_xml', label: { ja: 'Moodle XML', en: 'Moodle XML' }, extension: 'xml', mimeType: 'application/xml', errorUnit: 'question', serialize: toMoodleXML, parse: parseMoodleXML },
+};
+
+// Pick the importer from the file extension, falling back to the content
+export const detectFormat = (fileName: string, text: string): QuizFormatId => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const byExtension = Object.values(QUIZ_FORMATS).find(f => f.extension === extension && f.id !== 'anki');
+  if (byExtension) return byExtension.id;
+
+  const head = text.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('{') || head.startsWith('[')) return 'json';
+  if (head.startsWith('<')) return 'moodle_xml';
+  if (head.startsWith('#separator:tab') || head.split('\n')[0].includes('\t')) return 'anki';
+  if (/^(\/\/|\$CATEGORY:|::)/m.test(head)) return 'gift';
+  return 'csv';
+};
@@ -0,0 +1,43 @@
+import { GoogleGenAI } from "@google/genai";
+import { QuizProvider } from './types';
+import { InvalidKeyError, MalformedResponseError, SafetyBlockedError } from './apiErrors';
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+export const geminiProvider: QuizProvider = {
+  id: 'gemini',
+  label: { ja: 'Google Gemini', en: 'Google Gemini' },
+  // Use Flash Lite as a lighter alternative to 2.5 Flash, since 1.5 Flash is deprecated.
+  defaultModel: 'gemini-flash-lite-latest',
+  suggestedModels: ['gemini-flash-lite-latest', 'gemini-flash-latest', 'gemini-2.5-pro'],
+  requiresApiKey: true,
+
+  async generate(request, settings) {
+    if (!settings.apiKey) {
+      throw new InvalidKeyError("API Key is missing.");
+    }
+
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+    const response = await ai.models.generateContent({
+      model: settings.model || this.defaultModel,
+      contents: request.prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: request.schema,
+        temperature: request.temperature,
+      },
+    });
+
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+      throw new SafetyBlockedError(`Response blocked (${blockReason || finishReason}).`);
+    }
+
+    const text = response.text;
+    if (!text) {
+      throw new MalformedResponseError("No content generated.");
+    }
+    return text;
+  },
+};
@@ -0,0 +1,358 @@
+import { HeritageSite, HeritageRegion, HeritageCategory, Language, LocalizedText } from './types';
+
+// Bundled offline catalog of inscribed World Heritage properties.
+// Covers every Japanese property and a selection of frequently examined ones abroad.
+// Coordinates are approximate centre points. Ids are stable: questions store them
+// in QuizItem.site_ids, so never rename an id (add aliases instead).
+
+export const REGION_LABELS: Record<HeritageRegion, LocalizedText> = {
+  asia_pacific: { ja: 'アジア・太平洋', en: 'Asia and the Pacific' },
+  europe_north_america: { ja: 'ヨーロッパ・北米', en: 'Europe and North America' },
+  latin_america_caribbean: { ja: 'ラテンアメリカ・カリブ', en: 'Latin America and the Caribbean' },
+  africa: { ja: 'アフリカ', en: 'Africa' },
+  arab_states: { ja: 'アラブ諸国', en: 'Arab States' },
+};
+
+export const CATEGORY_LABELS: Record<HeritageCategory, LocalizedText> = {
+  cultural: { ja: '文化遺産', en: 'Cultural' },
+  natural: { ja: '自然遺産', en: 'Natural' },
+  mixed: { ja: '複合遺産', en: 'Mixed' },
+};
+
+export const COUNTRIES: Record<string, { ja: string, en: string, region: HeritageRegion }> = {
+  JP: { ja: '日本', en: 'Japan', region: 'asia_pacific' },
+  CN: { ja: '中国', en: 'China', region: 'asia_pacific' },
+  KR: { ja: '韓国', en: 'Republic of Korea', region: 'asia_pacific' },
+  KH: { ja: 'カンボジア', en: 'Cambodia', region: 'asia_pacific' },
+  ID: { ja: 'インドネシア', en: 'Indonesia', region: 'asia_pacific' },
+  TH: { ja: 'タイ', en: 'Thailand', region: 'asia_pacific' },
+  LA: { ja: 'ラオス', en: "Lao People's Democratic Republic", region: 'asia_pacific' },
+  VN: { ja: 'ベトナム', en: 'Viet Nam', region: 'asia_pacific' },
+  MM: { ja: 'ミャンマー', en: 'Myanmar', region: 'asia_pacific' },
+  PH: { ja: 'フィリピン', en: 'Philippines', region: 'asia_pacific' },
+  IN: { ja: 'インド', en: 'India', region: 'asia_pacific' },
+  NP: { ja: 'ネパール', en: 'Nepal', region: 'asia_pacific' },
+  LK: { ja: 'スリランカ', en: 'Sri Lanka', region: 'asia_pacific' },
+  AF: { ja: 'アフガニスタン', en: 'Afghanistan', region: 'asia_pacific' },
+  UZ: { ja: 'ウズベキスタン', en: 'Uzbekistan', region: 'asia_pacific' },
+  IR: { ja: 'イラン', en: 'Iran (Islamic Republic of)', region: 'asia_pacific' },
+  AU: { ja: 'オーストラリア', en: 'Australia', region: 'asia_pacific' },
+  NZ: { ja: 'ニュージーランド', en: 'New Zealand', region: 'asia_pacific' },
+  GR: { ja: 'ギリシャ', en: 'Greece', region: 'europe_north_america' },
+  IT: { ja: 'イタリア', en: 'Italy', region: 'europe_north_america' },
+  VA: { ja: 'バチカン', en: 'Holy See', region: 'europe_north_america' },
+  FR: { ja: 'フランス', en: 'France', region: 'europe_north_america' },
+  DE: { ja: 'ドイツ', en: 'Germany', region: 'europe_north_america' },
+  GB: { ja: 'イギリス', en: 'United Kingdom', region: 'europe_north_america' },
+  ES: { ja: 'スペイン', en: 'Spain', region: 'europe_north_america' },
+  PT: { ja: 'ポルトガル', en: 'Portugal', region: 'europe_north_america' },
+  AT: { ja: 'オーストリア', en: 'Austria', region: 'europe_north_america' },
+  CZ: { ja: 'チェコ', en: 'Czechia', region: 'europe_north_america' },
+  PL: { ja: 'ポーランド', en: 'Poland', region: 'europe_north_america' },
+  RU: { ja: 'ロシア', en: 'Russian Federation', region: 'europe_north_america' },
+  TR: { ja: 'トルコ', en: 'Türkiye', region: 'europe_north_america' },
+  HR: { ja: 'クロアチア', en: 'Croatia', region: 'europe_north_america' },
+  BE: { ja: 'ベルギー', en: 'Belgium', region: 'europe_north_america' },
+  NL: { ja: 'オランダ', en: 'Netherlands', region: 'europe_north_america' },
+  DK: { ja: 'デンマーク', en: 'Denmark', region: 'europe_north_america' },
+  CH: { ja: 'スイス', en: 'Switzerland', region: 'europe_north_america' },
+  BG: { ja: 'ブルガリア', en: 'Bulgaria', region: 'europe_north_america' },
+  US: { ja: 'アメリカ', en: 'United States of America', region: 'europe_north_america' },
+  CA: { ja: 'カナダ', en: 'Canada', region: 'europe_north_america' },
+  PE: { ja: 'ペルー', en: 'Peru', region: 'latin_america_caribbean' },
+  EC: { ja: 'エクアドル', en: 'Ecuador', region: 'latin_america_caribbean' },
+  CL: { ja: 'チリ', en: 'Chile', region: 'latin_america_caribbean' },
+  AR: { ja: 'アルゼンチン', en: 'Argentina', region: 'latin_america_caribbean' },
+  BR: { ja: 'ブラジル', en: 'Brazil', region: 'latin_america_caribbean' },
+  BO: { ja: 'ボリビア', en: 'Bolivia (Plurinational State of)', region: 'latin_america_caribbean' },
+  MX: { ja: 'メキシコ', en: 'Mexico', region: 'latin_america_caribbean' },
+  GT: { ja: 'グアテマラ', en: 'Guatemala', region: 'latin_america_caribbean' },
+  HN: { ja: 'ホンジュラス', en: 'Honduras', region: 'latin_america_caribbean' },
+  CU: { ja: 'キューバ', en: 'Cuba', region: 'latin_america_caribbean' },
+  BZ: { ja: 'ベリーズ', en: 'Belize', region: 'latin_america_caribbean' },
+  TZ: { ja: 'タンザニア', en: 'United Republic of Tanzania', region: 'africa' },
+  ZM: { ja: 'ザンビア', en: 'Zambia', region: 'africa' },
+  ZW: { ja: 'ジンバブエ', en: 'Zimbabwe', region: 'africa' },
+  ZA: { ja: '南アフリカ', en: 'South Africa', region: 'africa' },
+  ML: { ja: 'マリ', en: 'Mali', region: 'africa' },
+  ET: { ja: 'エチオピア', en: 'Ethiopia', region: 'africa' },
+  SN: { ja: 'セネガル', en: 'Senegal', region: 'africa' },
+  MG: { ja: 'マダガスカル', en: 'Madagascar', region: 'africa' },
+  CD: { ja: 'コンゴ民主共和国', en: 'Democratic Republic of the Congo', region: 'africa' },
+  BW: { ja: 'ボツワナ', en: 'Botswana', region: 'africa' },
+  NA: { ja: 'ナミビア', en: 'Namibia', region: 'africa' },
+  EG: { ja: 'エジプト', en: 'Egypt', region: 'arab_states' },
+  JO: { ja: 'ヨルダン', en: 'Jordan', region: 'arab_states' },
+  LB: { ja: 'レバノン', en: 'Lebanon', region: 'arab_states' },
+  SY: { ja: 'シリア', en: 'Syrian Arab Republic', region: 'arab_states' },
+  MA: { ja: 'モロッコ', en: 'Morocco', region: 'arab_states' },
+  TN: { ja: 'チュニジア', en: 'Tunisia', region: 'arab_states' },
+  DZ: { ja: 'アルジェリア', en: 'Algeria', region: 'arab_states' },
+  YE: { ja: 'イエメン', en: 'Yemen', region: 'arab_states' },
+  IQ: { ja: 'イラク', en: 'Iraq', region: 'arab_states' },
+  SA: { ja: 'サウジアラビア', en: 'Saudi Arabia', region: 'arab_states' },
+};
+
+const CATEGORY_CODES: Record<'C' | 'N' | 'M', HeritageCategory> = { C: 'cultural', N: 'natural', M: 'mixed' };
+
+// Compact constructor for the table below. The region follows the first country.
+const site = (
+  id: string,
+  nameJa: string,
+  nameEn: string,
+  countries: string[],
+  year: number,
+  category: 'C' | 'N' | 'M',
+  criteria: string,
+  lat: number,
+  lng: number,
+  extra: { aliases?: string[], endangered?: boolean } = {}
+): HeritageSite => ({
+  id,
+  nameJa,
+  nameEn,
+  aliases: extra.aliases ?? [],
+  countries,
+  region: COUNTRIES[countries[0]].region,
+  year,
+  category: CATEGORY_CODES[category],
+  criteria: criteria.split(','),
+  lat,
+  lng,
+  endangered: extra.endangered ?? false,
+});
+
+export const HERITAGE_SITES: HeritageSite[] = [
+  // --- Japan ---
+  site('horyuji', '法隆寺地域の仏教建造物', 'Buddhist Monuments in the Horyu-ji Area', ['JP'], 1993, 'C', 'i,ii,iv,vi', 34.61, 135.73, { aliases: ['法隆寺', '法起寺'] }),
+  site('himeji', '姫路城', 'Himeji-jo', ['JP'], 1993, 'C', 'i,iv', 34.84, 134.69, { aliases: ['白鷺城'] }),
+  site('yakushima', '屋久島', 'Yakushima', ['JP'], 1993, 'N', 'vii,ix', 30.34, 130.51, { aliases: ['縄文杉'] }),
+  site('shirakami', '白神山地', 'Shirakami-Sanchi', ['JP'], 1993, 'N', 'ix', 40.47, 140.13),
+  site('kyoto', '古都京都の文化財（京都市、宇治市、大津市）', 'Historic Monuments of Ancient Kyoto (Kyoto, Uji and Otsu Cities)', ['JP'], 1994, 'C', 'ii,iv', 35.01, 135.77, {
+    aliases: ['古都京都', '金閣寺', '鹿苑寺', '銀閣寺', '慈照寺', '清水寺', '二条城', '平等院', '延暦寺', '龍安寺', '西芳寺', '苔寺', '東寺', '教王護国寺', '醍醐寺', '仁和寺', '天龍寺', '西本願寺', '上賀茂神社', '下鴨神社', '宇治上神社', '高山寺'],
+  }),
+  site('shirakawago', '白川郷・五箇山の合掌造り集落', 'Historic Villages of Shirakawa-go and Gokayama', ['JP'], 1995, 'C', 'iv,v', 36.26, 136.91, { aliases: ['白川郷', '五箇山', '合掌造り'] }),
+  site('genbaku_dome', '原爆ドーム', 'Hiroshima Peace Memorial (Genbaku Dome)', ['JP'], 1996, 'C', 'vi', 34.40, 132.45, { aliases: ['広島平和記念碑'] }),
+  site('itsukushima', '厳島神社', 'Itsukushima Shinto Shrine', ['JP'], 1996, 'C', 'i,ii,iv,vi', 34.30, 132.32, { aliases: ['宮島', '弥山'] }),
+  site('nara', '古都奈良の文化財', 'Historic Monuments of Ancient Nara', ['JP'], 1998, 'C', 'ii,iii,iv,vi', 34.69, 135.84, {
+    aliases: ['古都奈良', '東大寺', '興福寺', '春日大社', '春日山原始林', '元興寺', '薬師寺', '唐招提寺', '平城宮跡'],
+  }),
+  site('nikko', '日光の社寺', 'Shrines and Temples of Nikko', ['JP'], 1999, 'C', 'i,iv,vi', 36.76, 139.60, { aliases: ['日光東照宮', '東照宮', '二荒山神社', '輪王寺'] }),
+  site('ryukyu', '琉球王国のグスク及び関連遺産群', 'Gusuku Sites and Related Properties of the Kingdom of Ryukyu', ['JP'], 2000, 'C', 'ii,iii,vi', 26.22, 127.72, { aliases: ['琉球王国', '首里城', '斎場御嶽', '今帰仁城', '識名園', 'グスク'] }),
+  site('kii', '紀伊山地の霊場と参詣道', 'Sacred Sites and Pilgrimage Routes in the Kii Mountain Range', ['JP'], 2004, 'C', 'ii,iii,iv,vi', 33.84, 135.77, { aliases: ['紀伊山地', '熊野古道', '熊野三山', '高野山', '吉野・大峯', '大峯奥駈道', '那智'] }),
+  site('shiretoko', '知床', 'Shiretoko', ['JP'], 2005, 'N', 'ix,x', 44.07, 145.12),
+  site('iwami_ginzan', '石見銀山遺跡とその文化的景観', 'Iwami Ginzan Silver Mine and its Cultural Landscape', ['JP'], 2007, 'C', 'ii,iii,v', 35.11, 132.44, { aliases: ['石見銀山'] }),
+  site('hiraizumi', '平泉―仏国土（浄土）を表す建築・庭園及び考古学的遺跡群―', 'Hiraizumi – Temples, Gardens and Archaeological Sites Representing the Buddhist Pure Land', ['JP'], 2011, 'C', 'ii,vi', 38.99, 141.10, { aliases: ['平泉', '中尊寺', '毛越寺', '金色堂'] }),
+  site('ogasawara', '小笠原諸島', 'Ogasawara Islands', ['JP'], 2011, 'N', 'ix', 27.09, 142.19),
+  site('fujisan', '富士山―信仰の対象と芸術の源泉', 'Fujisan, sacred place and source of artistic inspiration', ['JP'], 2013, 'C', 'iii,vi', 35.36, 138.73, { aliases: ['富士山', '三保松原', '富士五湖'] }),
+  site('tomioka', '富岡製糸場と絹産業遺産群', 'Tomioka Silk Mill and Related Sites', ['JP'], 2014, 'C', 'ii,iv', 36.26, 138.89, { aliases: ['富岡製糸場'] }),
+  site('meiji_industrial', '明治日本の産業革命遺産 製鉄・製鋼、造船、石炭産業', "Sites of Japan's Meiji Industrial Revolution: Iron and Steel, Shipbuilding and Coal Mining", ['JP'], 2015, 'C', 'ii,iv', 32.63, 129.74, {
+    aliases: ['明治日本の産業革命遺産', '軍艦島', '端島', '官営八幡製鐵所', '八幡製鐵所', '韮山反射炉', '松下村塾', '三池炭鉱', '旧グラバー住宅', '橋野鉄鉱山'],
+  }),
+  site('le_corbusier', 'ル・コルビュジエの建築作品―近代建築運動への顕著な貢献―', 'The Architectural Work of Le Corbusier, an Outstanding Contribution to the Modern Movement', ['FR', 'CH', 'BE', 'DE', 'AR', 'IN', 'JP'], 2016, 'C', 'i,ii,vi', 47.70, 6.62, {
+    aliases: ['ル・コルビュジエ', 'ル・コルビュジェ', '国立西洋美術館', 'サヴォア邸', 'ロンシャン', 'ユニテ・ダビタシオン', 'チャンディガール'],
+  }),
+  site('okinoshima', '「神宿る島」宗像・沖ノ島と関連遺産群', 'Sacred Island of Okinoshima and Associated Sites in the Munakata Region', ['JP'], 2017, 'C', 'ii,iii', 34.24, 130.11, { aliases: ['沖ノ島', '宗像大社', '神宿る島'] }),
+  site('hidden_christian', '長崎と天草地方の潜伏キリシタン関連遺産', 'Hidden Christian Sites in the Nagasaki Region', ['JP'], 2018, 'C', 'iii', 32.75, 129.87, { aliases: ['潜伏キリシタン', '大浦天主堂', '原城跡', '﨑津集落'] }),
+  site('mozu_furuichi', '百舌鳥・古市古墳群―古代日本の墳墓群―', 'Mozu-Furuichi Kofun Group: Mounded Tombs of Ancient Japan', ['JP'], 2019, 'C', 'iii,iv', 34.56, 135.49, { aliases: ['百舌鳥・古市古墳群', '百舌鳥', '古市古墳群', '仁徳天皇陵', '大仙陵古墳', '誉田御廟山古墳'] }),
+  site('amami_okinawa', '奄美大島、徳之島、沖縄島北部及び西表島', 'Amami-Oshima Island, Tokunoshima Island, Northern part of Okinawa Island, and Iriomote Island', ['JP'], 2021, 'N', 'x', 28.30, 129.40, {
+    aliases: ['奄美大島', '徳之島', '沖縄島北部', '西表島', 'やんばる', 'アマミノクロウサギ', 'イリオモテヤマネコ'],
+  }),
+  site('jomon', '北海道・北東北の縄文遺跡群', 'Jomon Prehistoric Sites in Northern Japan', ['JP'], 2021, 'C', 'iii,v', 40.81, 140.70, { aliases: ['縄文遺跡群', '三内丸山遺跡', '大湯環状列石', '是川石器時代遺跡'] }),
+  site('sado', '佐渡島の金山', 'Sado Island Gold Mines', ['JP'], 2024, 'C', 'iv', 38.04, 138.26, { aliases: ['佐渡金山', '佐渡島の金山', '相川鶴子金銀山', '西三川砂金山'] }),
+
+  // --- Asia and the Pacific ---
+  site('great_wall', '万里の長城', 'The Great Wall', ['CN'], 1987, 'C', 'i,ii,iii,iv,vi', 40.43, 116.57, { aliases: ['八達嶺', '山海関', '嘉峪関'] }),
+  site('beijing_palaces', '北京と瀋陽の明・清王朝の皇宮群', 'Imperial Palaces of the Ming and Qing Dynasties in Beijing and Shenyang', ['CN'], 1987, 'C', 'i,ii,iii,iv', 39.92, 116.39, { aliases: ['故宮', '紫禁城', '瀋陽故宮'] }),
+  site('qin_mausoleum', '秦の始皇陵', 'Mausoleum of the First Qin Emperor', ['CN'], 1987, 'C', 'i,iii,iv,vi', 34.38, 109.27, { aliases: ['始皇帝陵', '兵馬俑'] }),
+  site('mogao', '莫高窟', 'Mogao Caves', ['CN'], 1987, 'C', 'i,ii,iii,iv,v,vi', 40.04, 94.81, { aliases: ['敦煌'] }),
+  site('taishan', '泰山', 'Mount Taishan', ['CN'], 1987, 'M', 'i,ii,iii,iv,v,vi,vii', 36.25, 117.10),
+  site('huangshan', '黄山', 'Mount Huangshan', ['CN'], 1990, 'M', 'ii,vii,x', 30.13, 118.17),
+  site('jiuzhaigou', '九寨溝の渓谷の景観と歴史地域', 'Jiuzhaigou Valley Scenic and Historic Interest Area', ['CN'], 1992, 'N', 'vii', 33.20, 103.90, { aliases: ['九寨溝'] }),
+  site('wulingyuan', '武陵源の自然景観と歴史地域', 'Wulingyuan Scenic and Historic Interest Area', ['CN'], 1992, 'N', 'vii', 29.34, 110.50, { aliases: ['武陵源', '張家界'] }),
+  site('potala', 'ラサのポタラ宮歴史地区', 'Historic Ensemble of the Potala Palace, Lhasa', ['CN'], 1994, 'C', 'i,iv,vi', 29.66, 91.12, { aliases: ['ポタラ宮', 'ジョカン', 'ノルブリンカ'] }),
+  site('lijiang', '麗江旧市街', 'Old Town of Lijiang', ['CN'], 1997, 'C', 'ii,iv,v', 26.87, 100.23, { aliases: ['麗江'] }),
+  site('temple_of_heaven', '北京の皇帝の祭壇：天壇', 'Temple of Heaven: an Imperial Sacrificial Altar in Beijing', ['CN'], 1998, 'C', 'i,ii,iii', 39.88, 116.41, { aliases: ['天壇'] }),
+  site('summer_palace', '頤和園：北京の皇帝の庭園', 'Summer Palace, an Imperial Garden in Beijing', ['CN'], 1998, 'C', 'i,ii,iii', 39.99, 116.27, { aliases: ['頤和園'] }),
+  site('seokguram', '石窟庵と仏国寺', 'Seokguram Grotto and Bulguksa Temple', ['KR'], 1995, 'C', 'i,iv', 35.79, 129.33, { aliases: ['石窟庵', '仏国寺'] }),
+  site('haeinsa', '八萬大蔵経のある伽倻山海印寺', 'Haeinsa Temple Janggyeong Panjeon, the Depositories for the Tripitaka Koreana Woodblocks', ['KR'], 1995, 'C', 'iv,vi', 35.80, 128.10, { aliases: ['海印寺', '八萬大蔵経', '高麗大蔵経'] }),
+  site('changdeokgung', '昌徳宮', 'Changdeokgung Palace Complex', ['KR'], 1997, 'C', 'ii,iii,iv', 37.58, 126.99),
+  site('jeju', '済州火山島と溶岩洞窟群', 'Jeju Volcanic Island and Lava Tubes', ['KR'], 2007, 'N', 'vii,viii', 33.37, 126.53, { aliases: ['済州島', '漢拏山', '城山日出峰'] }),
+  site('angkor', 'アンコール', 'Angkor', ['KH'], 1992, 'C', 'i,ii,iii,iv', 13.41, 103.87, { aliases: ['アンコール・ワット', 'アンコール・トム', 'バイヨン'] }),
+  site('borobudur', 'ボロブドゥル寺院遺跡群', 'Borobudur Temple Compounds', ['ID'], 1991, 'C', 'i,ii,vi', -7.61, 110.20, { aliases: ['ボロブドゥール', 'ボロブドゥル'] }),
+  site('prambanan', 'プランバナン寺院遺跡群', 'Prambanan Temple Compounds', ['ID'], 1991, 'C', 'i,iv', -7.75, 110.49, { aliases: ['プランバナン'] }),
+  site('komodo', 'コモド国立公園', 'Komodo National Park', ['ID'], 1991, 'N', 'vii,x', -8.55, 119.49, { aliases: ['コモドドラゴン', 'コモド島'] }),
+  site('ayutthaya', '古都アユタヤ', 'Historic City of Ayutthaya', ['TH'], 1991, 'C', 'iii', 14.36, 100.57, { aliases: ['アユタヤ'] }),
+  site('sukhothai', '古都スコータイと周辺の古都', 'Historic Town of Sukhothai and Associated Historic Towns', ['TH'], 1991, 'C', 'i,iii', 17.02, 99.70, { aliases: ['スコータイ'] }),
+  site('luang_prabang', 'ルアン・パバンの町', 'Town of Luang Prabang', ['LA'], 1995, 'C', 'ii,iv,v', 19.89, 102.13, { aliases: ['ルアン・パバン', 'ルアンパバーン'] }),
+  site('ha_long', 'ハロン湾－カットバ諸島', 'Ha Long Bay - Cat Ba Archipelago', ['VN'], 1994, 'N', 'vii,viii', 20.90, 107.10, { aliases: ['ハロン湾', 'ハロン・ベイ'] }),
+  site('hue', 'フエの建造物群', 'Complex of Hué Monuments', ['VN'], 1993, 'C', 'iv', 16.47, 107.58, { aliases: ['フエの王宮', 'グエン朝'] }),
+  site('hoi_an', '古都ホイアン', 'Hoi An Ancient Town', ['VN'], 1999, 'C', 'ii,v', 15.88, 108.33, { aliases: ['ホイアン', '来遠橋'] }),
+  site('bagan', 'バガン', 'Bagan', ['MM'], 2019, 'C', 'iii,iv,vi', 21.17, 94.86),
+  site('cordillera_terraces', 'フィリピン・コルディリェーラの棚田群', 'Rice Terraces of the Philippine Cordilleras', ['PH'], 1995, 'C', 'iii,iv,v', 16.93, 121.06, { aliases: ['コルディリェーラの棚田', 'イフガオ', 'バナウエ'] }),
+  site('taj_mahal', 'タージ・マハル', 'Taj Mahal', ['IN'], 1983, 'C', 'i', 27.17, 78.04, { aliases: ['タージ・マハル廟'] }),
+  site('agra_fort', 'アーグラ城塞', 'Agra Fort', ['IN'], 1983, 'C', 'iii', 27.18, 78.02, { aliases: ['アグラ城', 'アーグラ城'] }),
+  site('ajanta', 'アジャンター石窟群', 'Ajanta Caves', ['IN'], 1983, 'C', 'i,ii,iii,vi', 20.55, 75.70, { aliases: ['アジャンター', 'アジャンタ'] }),
+  site('ellora', 'エローラ石窟群', 'Ellora Caves', ['IN'], 1983, 'C', 'i,iii,vi', 20.03, 75.18, { aliases: ['エローラ', 'カイラーサナータ'] }),
+  site('bodh_gaya', 'ブッダガヤの大菩提寺', 'Mahabodhi Temple Complex at Bodh Gaya', ['IN'], 2002, 'C', 'i,ii,iii,iv,vi', 24.70, 84.99, { aliases: ['ブッダガヤ', 'ブッダ・ガヤ', '大菩提寺', 'マハーボーディ'] }),
+  site('kathmandu', 'カトマンズの谷', 'Kathmandu Valley', ['NP'], 1979, 'C', 'iii,iv,vi', 27.70, 85.33, { aliases: ['カトマンズ', 'カトマンズ盆地'] }),
+  site('sagarmatha', 'サガルマータ国立公園', 'Sagarmatha National Park', ['NP'], 1979, 'N', 'vii', 27.97, 86.90, { aliases: ['サガルマータ', 'エベレスト'] }),
+  site('lumbini', '仏陀の生誕地ルンビニ', 'Lumbini, the Birthplace of the Lord Buddha', ['NP'], 1997, 'C', 'iii,vi', 27.47, 83.28, { aliases: ['ルンビニ'] }),
+  site('sigiriya', '古代都市シギリヤ', 'Ancient City of Sigiriya', ['LK'], 1982, 'C', 'ii,iii,iv', 7.96, 80.76, { aliases: ['シギリヤ', 'シーギリヤ'] }),
+  site('bamiyan', 'バーミヤン渓谷の文化的景観と古代遺跡群', 'Cultural Landscape and Archaeological Remains of the Bamiyan Valley', ['AF'], 2003, 'C', 'i,ii,iii,iv,vi', 34.85, 67.83, { aliases: ['バーミヤン', 'バーミヤーン'], endangered: true }),
+  site('samarkand', 'サマルカンド－文化交差路', 'Samarkand – Crossroad of Cultures', ['UZ'], 2001, 'C', 'i,ii,iv', 39.65, 66.96, { aliases: ['サマルカンド', 'レギスタン'] }),
+  site('persepolis', 'ペルセポリス', 'Persepolis', ['IR'], 1979, 'C', 'i,iii,vi', 29.93, 52.89),
+  site('isfahan', 'イスファハーンのイマーム広場', 'Meidan Emam, Esfahan', ['IR'], 1979, 'C', 'i,v,vi', 32.66, 51.68, { aliases: ['イマーム広場', 'イスファハーン', 'イスファハン'] }),
+  site('great_barrier_reef', 'グレート・バリア・リーフ', 'Great Barrier Reef', ['AU'], 1981, 'N', 'vii,viii,ix,x', -18.29, 147.70),
+  site('kakadu', 'カカドゥ国立公園', 'Kakadu National Park', ['AU'], 1981, 'M', 'i,vi,vii,ix,x', -12.50, 132.50, { aliases: ['カカドゥ'] }),
+  site('uluru', 'ウルル－カタ・ジュタ国立公園', 'Uluru-Kata Tjuta National Park', ['AU'], 1987, 'M', 'v,vi,vii,viii', -25.34, 131.04, { aliases: ['ウルル', 'エアーズロック', 'カタ・ジュタ'] }),
+  site('sydney_opera_house', 'シドニー・オペラハウス', 'Sydney Opera House', ['AU'], 2007, 'C', 'i', -33.86, 151.21, { aliases: ['オペラハウス'] }),
+  site('tongariro', 'トンガリロ国立公園', 'Tongariro National Park', ['NZ'], 1990, 'M', 'vi,vii,viii', -39.20, 175.60, { aliases: ['トンガリロ'] }),
+  site('te_wahipounamu', 'テ・ワヒポウナム－南西ニュージーランド', 'Te Wahipounamu – South West New Zealand', ['NZ'], 1990, 'N', 'vii,viii,ix,x', -44.00, 168.50, { aliases: ['テ・ワヒポウナム', 'ミルフォード・サウンド', 'フィヨルドランド'] }),
+
+  // --- Europe and North America ---
+  site('acropolis', 'アテネのアクロポリス', 'Acropolis, Athens', ['GR'], 1987, 'C', 'i,ii,iii,iv,vi', 37.97, 23.73, { aliases: ['アクロポリス', 'パルテノン神殿'] }),
+  site('olympia', 'オリンピアの古代遺跡', 'Archaeological Site of Olympia', ['GR'], 1989, 'C', 'i,ii,iii,iv,vi', 37.64, 21.63, { aliases: ['オリンピア'] }),
+  site('meteora', 'メテオラ', 'Meteora', ['GR'], 1988, 'M', 'i,ii,iv,v,vii', 39.71, 21.63),
+  site('mount_athos', 'アトス山', 'Mount Athos', ['GR'], 1988, 'M', 'i,ii,iv,v,vi,vii', 40.16, 24.33),
+  site('rome', 'ローマ歴史地区、教皇領とサン・パオロ・フォーリ・レ・ムーラ大聖堂', 'Historic Centre of Rome, the Properties of the Holy See in that City Enjoying Extraterritorial Rights and San Paolo Fuori le Mura', ['IT', 'VA'], 1980, 'C', 'i,ii,iii,iv,vi', 41.89, 12.49, {
+    aliases: ['ローマ歴史地区', 'コロッセウム', 'コロッセオ', 'フォロ・ロマーノ'],
+  }),
+  site('vatican', 'バチカン市国', 'Vatican City', ['VA'], 1984, 'C', 'i,ii,iv,vi', 41.90, 12.45, { aliases: ['バチカン', 'サン・ピエトロ大聖堂', 'システィーナ礼拝堂'] }),
+  site('venice', 'ヴェネツィアとその潟', 'Venice and its Lagoon', ['IT'], 1987, 'C', 'i,ii,iii,iv,v,vi', 45.43, 12.33, { aliases: ['ヴェネツィア', 'ベネチア', 'ヴェネチア', 'サン・マルコ'] }),
+  site('florence', 'フィレンツェ歴史地区', 'Historic Centre of Florence', ['IT'], 1982, 'C', 'i,ii,iii,iv,vi', 43.77, 11.25, { aliases: ['フィレンツェ', 'ウフィツィ'] }),
+  site('pisa', 'ピサのドゥオモ広場', 'Piazza del Duomo, Pisa', ['IT'], 1987, 'C', 'i,ii,iv,vi', 43.72, 10.40, { aliases: ['ピサの斜塔'] }),
+  site('pompei', 'ポンペイ、エルコラーノ及びトッレ・アンヌンツィアータの遺跡地域', 'Archaeological Areas of Pompei, Herculaneum and Torre Annunziata', ['IT'], 1997, 'C', 'iii,iv,v', 40.75, 14.49, { aliases: ['ポンペイ', 'エルコラーノ', 'ヴェスヴィオ'] }),
+  site('alberobello', 'アルベロベッロのトゥルッリ', 'The Trulli of Alberobello', ['IT'], 1996, 'C', 'iii,iv,v', 40.78, 17.24, { aliases: ['アルベロベッロ', 'トゥルッリ', 'トゥルッロ'] }),
+  site('paris_seine', 'パリのセーヌ河岸', 'Paris, Banks of the Seine', ['FR'], 1991, 'C', 'i,ii,iv', 48.86, 2.34, { aliases: ['セーヌ河岸', 'エッフェル塔', 'ルーヴル'] }),
+  site('versailles', 'ヴェルサイユの宮殿と庭園', 'Palace and Park of Versailles', ['FR'], 1979, 'C', 'i,ii,vi', 48.80, 2.12, { aliases: ['ヴェルサイユ', 'ベルサイユ'] }),
+  site('mont_saint_michel', 'モン・サン・ミシェルとその湾', 'Mont-Saint-Michel and its Bay', ['FR'], 1979, 'C', 'i,iii,vi', 48.64, -1.51, { aliases: ['モン・サン・ミシェル', 'モンサンミッシェル'] }),
+  site('chartres', 'シャルトル大聖堂', 'Chartres Cathedral', ['FR'], 1979, 'C', 'i,ii,iv', 48.45, 1.49, { aliases: ['シャルトル'] }),
+  site('vezere', 'ヴェゼール渓谷の先史時代史跡群と装飾洞窟群', 'Prehistoric Sites and Decorated Caves of the Vézère Valley', ['FR'], 1979, 'C', 'i,iii', 44.95, 1.17, { aliases: ['ラスコー', 'ヴェゼール渓谷'] }),
+  site('cologne', 'ケルン大聖堂', 'Cologne Cathedral', ['DE'], 1996, 'C', 'i,ii,iv', 50.94, 6.96, { aliases: ['ケルン'] }),
+  site('aachen', 'アーヘン大聖堂', 'Aachen Cathedral', ['DE'], 1978, 'C', 'i,ii,iv,vi', 50.77, 6.08, { aliases: ['アーヘン'] }),
+  site('wurzburg', 'ヴュルツブルクの司教館、その庭園と広場', 'Würzburg Residence with the Court Gardens and Residence Square', ['DE'], 1981, 'C', 'i,iv', 49.79, 9.94, { aliases: ['ヴュルツブルク'] }),
+  site('lubeck', 'ハンザ同盟都市リューベック', 'Hanseatic City of Lübeck', ['DE'], 1987, 'C', 'iv', 53.87, 10.69, { aliases: ['リューベック', 'ホルステン門'] }),
+  site('bauhaus', 'ヴァイマール、デッサウ及びベルナウのバウハウスとその関連遺産群', 'Bauhaus and its Sites in Weimar, Dessau and Bernau', ['DE'], 1996, 'C', 'ii,iv,vi', 51.84, 12.23, { aliases: ['バウハウス'] }),
+  site('volklingen', 'フェルクリンゲン製鉄所', 'Völklingen Ironworks', ['DE'], 1994, 'C', 'ii,iv', 49.25, 6.84, { aliases: ['フェルクリンゲン'] }),
+  site('wadden_sea', 'ワッデン海', 'Wadden Sea', ['NL', 'DE', 'DK'], 2009, 'N', 'viii,ix,x', 53.50, 8.00),
+  site('westminster', 'ウェストミンスター宮殿、ウェストミンスター大寺院及び聖マーガレット教会', "Palace of Westminster and Westminster Abbey including Saint Margaret's Church", ['GB'], 1987, 'C', 'i,ii,iv', 51.50, -0.13, { aliases: ['ウェストミンスター', 'ビッグ・ベン'] }),
+  site('tower_of_london', 'ロンドン塔', 'Tower of London', ['GB'], 1988, 'C', 'ii,iv', 51.51, -0.08),
+  site('kew', 'キュー王立植物園', 'Royal Botanic Gardens, Kew', ['GB'], 2003, 'C', 'ii,iii,iv', 51.48, -0.29, { aliases: ['キュー・ガーデン', 'キューガーデン'] }),
+  site('stonehenge', 'ストーンヘンジ、エーヴベリーと関連する遺跡群', 'Stonehenge, Avebury and Associated Sites', ['GB'], 1986, 'C', 'i,ii,iii', 51.18, -1.83, { aliases: ['ストーンヘンジ', 'エーヴベリー'] }),
+  site('giants_causeway', 'ジャイアンツ・コーズウェーとコーズウェー海岸', "Giant's Causeway and Causeway Coast", ['GB'], 1986, 'N', 'vii,viii', 55.24, -6.51, { aliases: ['ジャイアンツ・コーズウェー'] }),
+  site('alhambra', 'グラナダのアルハンブラ、ヘネラリーフェ、アルバイシン', 'Alhambra, Generalife and Albayzín, Granada', ['ES'], 1984, 'C', 'i,iii,iv', 37.18, -3.59, { aliases: ['アルハンブラ', 'アルハンブラ宮殿', 'ヘネラリーフェ', 'アルバイシン'] }),
+  site('gaudi', 'アントニ・ガウディの作品群', 'Works of Antoni Gaudí', ['ES'], 1984, 'C', 'i,ii,iv', 41.40, 2.17, { aliases: ['ガウディ', 'サグラダ・ファミリア', 'グエル公園', 'カサ・ミラ', 'カサ・バトリョ'] }),
+  site('cordoba', 'コルドバ歴史地区', 'Historic Centre of Cordoba', ['ES'], 1984, 'C', 'i,ii,iii,iv', 37.88, -4.78, { aliases: ['コルドバ', 'メスキータ'] }),
+  site('santiago', 'サンティアゴ・デ・コンポステーラ（旧市街）', 'Santiago de Compostela (Old Town)', ['ES'], 1985, 'C', 'i,ii,vi', 42.88, -8.54, { aliases: ['サンティアゴ・デ・コンポステーラ'] }),
+  site('altamira', 'アルタミラ洞窟と北スペインの旧石器時代洞窟壁画', 'Cave of Altamira and Paleolithic Cave Art of Northern Spain', ['ES'], 1985, 'C', 'i,iii', 43.38, -4.12, { aliases: ['アルタミラ'] }),
+  site('jeronimos', 'リスボンのジェロニモス修道院とベレンの塔', 'Monastery of the Hieronymites and Tower of Belém in Lisbon', ['PT'], 1983, 'C', 'iii,vi', 38.70, -9.21, { aliases: ['ジェロニモス修道院', 'ベレンの塔'] }),
+  site('vienna', 'ウィーン歴史地区', 'Historic Centre of Vienna', ['AT'], 2001, 'C', 'ii,iv,vi', 48.21, 16.37, { aliases: ['ウィーン', 'シュテファン大聖堂'], endangered: true }),
+  site('schonbrunn', 'シェーンブルン宮殿と庭園群', 'Palace and Gardens of Schönbrunn', ['AT'], 1996, 'C', 'i,iv', 48.18, 16.31, { aliases: ['シェーンブルン'] }),
+  site('hallstatt', 'ハルシュタット－ダッハシュタイン・ザルツカンマーグートの文化的景観', 'Hallstatt-Dachstein / Salzkammergut Cultural Landscape', ['AT'], 1997, 'C', 'iii,iv', 47.56, 13.65, { aliases: ['ハルシュタット', 'ザルツカンマーグート'] }),
+  site('prague', 'プラハ歴史地区', 'Historic Centre of Prague', ['CZ'], 1992, 'C', 'ii,iv,vi', 50.09, 14.42, { aliases: ['プラハ', 'カレル橋', 'プラハ城'] }),
+  site('auschwitz', 'アウシュヴィッツ・ビルケナウ ナチスドイツの強制絶滅収容所（1940-1945）', 'Auschwitz Birkenau German Nazi Concentration and Extermination Camp (1940-1945)', ['PL'], 1979, 'C', 'vi', 50.03, 19.18, { aliases: ['アウシュヴィッツ', 'アウシュビッツ', 'ビルケナウ'] }),
+  site('krakow', 'クラクフ歴史地区', 'Historic Centre of Kraków', ['PL'], 1978, 'C', 'iv', 50.06, 19.94, { aliases: ['クラクフ'] }),
+  site('wieliczka', 'ヴィエリチカとボフニャの王立岩塩坑', 'Wieliczka and Bochnia Royal Salt Mines', ['PL'], 1978, 'C', 'iv', 49.98, 20.05, { aliases: ['ヴィエリチカ', '岩塩坑'] }),
+  site('warsaw', 'ワルシャワ歴史地区', 'Historic Centre of Warsaw', ['PL'], 1980, 'C', 'ii,vi', 52.25, 21.01, { aliases: ['ワルシャワ'] }),
+  site('moscow_kremlin', 'モスクワのクレムリンと赤の広場', 'Kremlin and Red Square, Moscow', ['RU'], 1990, 'C', 'i,ii,iv,vi', 55.75, 37.62, { aliases: ['クレムリン', '赤の広場', '聖ワシリー大聖堂'] }),
+  site('saint_petersburg', 'サンクト・ペテルブルク歴史地区と関連建造物群', 'Historic Centre of Saint Petersburg and Related Groups of Monuments', ['RU'], 1990, 'C', 'i,ii,iv,vi', 59.94, 30.31, { aliases: ['サンクト・ペテルブルク', 'エルミタージュ'] }),
+  site('kizhi', 'キジ島の木造教会', 'Kizhi Pogost', ['RU'], 1990, 'C', 'i,iv,v', 62.07, 35.22, { aliases: ['キジ島', 'キジ・ポゴスト'] }),
+  site('baikal', 'バイカル湖', 'Lake Baikal', ['RU'], 1996, 'N', 'vii,viii,ix,x', 53.50, 108.00),
+  site('istanbul', 'イスタンブル歴史地域', 'Historic Areas of Istanbul', ['TR'], 1985, 'C', 'i,ii,iii,iv', 41.01, 28.98, { aliases: ['イスタンブル', 'イスタンブール', 'アヤ・ソフィア', 'トプカプ宮殿', 'ブルー・モスク'] }),
+  site('cappadocia', 'ギョレメ国立公園とカッパドキアの岩窟群', 'Göreme National Park and the Rock Sites of Cappadocia', ['TR'], 1985, 'M', 'i,iii,v,vii', 38.66, 34.85, { aliases: ['カッパドキア', 'ギョレメ'] }),
+  site('pamukkale', 'ヒエラポリス－パムッカレ', 'Hierapolis-Pamukkale', ['TR'], 1988, 'M', 'iii,iv,vii', 37.92, 29.12, { aliases: ['パムッカレ', 'ヒエラポリス'] }),
+  site('dubrovnik', 'ドゥブロヴニク旧市街', 'Old City of Dubrovnik', ['HR'], 1979, 'C', 'i,iii,iv', 42.64, 18.11, { aliases: ['ドゥブロヴニク', 'ドゥブロブニク'] }),
+  site('plitvice', 'プリトヴィッチェ湖群国立公園', 'Plitvice Lakes National Park', ['HR'], 1979, 'N', 'vii,viii,ix', 44.88, 15.62, { aliases: ['プリトヴィッチェ', 'プリトビツェ'] }),
+  site('brugge', 'ブルッヘ歴史地区', 'Historic Centre of Brugge', ['BE'], 2000, 'C', 'ii,iv,vi', 51.21, 3.22, { aliases: ['ブルッヘ', 'ブルージュ'] }),
+  site('grand_place', 'ブリュッセルのグラン・プラス', 'La Grand-Place, Brussels', ['BE'], 1998, 'C', 'ii,iv', 50.85, 4.35, { aliases: ['グラン・プラス', 'グランプラス'] }),
+  site('kinderdijk', 'キンデルダイク－エルスハウトの風車網', 'Mill Network at Kinderdijk-Elshout', ['NL'], 1997, 'C', 'i,ii,iv', 51.88, 4.64, { aliases: ['キンデルダイク'] }),
+  site('jungfrau_aletsch', 'スイス・アルプス ユングフラウ－アレッチ', 'Swiss Alps Jungfrau-Aletsch', ['CH'], 2001, 'N', 'vii,viii,ix', 46.50, 8.03, { aliases: ['ユングフラウ', 'アレッチ氷河'] }),
+  site('rila', 'リラ修道院', 'Rila Monastery', ['BG'], 1983, 'C', 'vi', 42.13, 23.34),
+  site('statue_of_liberty', '自由の女神像', 'Statue of Liberty', ['US'], 1984, 'C', 'i,vi', 40.69, -74.04, { aliases: ['自由の女神'] }),
+  site('independence_hall', '独立記念館', 'Independence Hall', ['US'], 1979, 'C', 'vi', 39.95, -75.15),
+  site('mesa_verde', 'メサ・ヴェルデ国立公園', 'Mesa Verde National Park', ['US'], 1978, 'C', 'iii', 37.26, -108.49, { aliases: ['メサ・ヴェルデ', 'メサ・ベルデ'] }),
+  site('yellowstone', 'イエローストーン国立公園', 'Yellowstone National Park', ['US'], 1978, 'N', 'vii,viii,ix,x', 44.60, -110.50, { aliases: ['イエローストーン'] }),
+  site('grand_canyon', 'グランド・キャニオン国立公園', 'Grand Canyon National Park', ['US'], 1979, 'N', 'vii,viii,ix,x', 36.10, -112.10, { aliases: ['グランド・キャニオン', 'グランドキャニオン'] }),
+  site('everglades', 'エヴァグレーズ国立公園', 'Everglades National Park', ['US'], 1979, 'N', 'viii,ix,x', 25.32, -80.93, { aliases: ['エヴァグレーズ', 'エバーグレーズ'], endangered: true }),
+  site('yosemite', 'ヨセミテ国立公園', 'Yosemite National Park', ['US'], 1984, 'N', 'vii,viii', 37.85, -119.56, { aliases: ['ヨセミテ'] }),
+  site('hawaii_volcanoes', 'ハワイ火山国立公園', 'Hawaii Volcanoes National Park', ['US'], 1987, 'N', 'viii', 19.40, -155.25, { aliases: ['キラウエア', 'マウナ・ロア'] }),
+  site('canadian_rockies', 'カナディアン・ロッキー山脈自然公園群', 'Canadian Rocky Mountain Parks', ['CA'], 1984, 'N', 'vii,viii', 51.50, -116.50, { aliases: ['カナディアン・ロッキー', 'バージェス頁岩', 'バンフ'] }),
+  site('old_quebec', 'ケベック旧市街の歴史地区', 'Historic District of Old Québec', ['CA'], 1985, 'C', 'iv,vi', 46.81, -71.21, { aliases: ['ケベック旧市街', 'ケベック'] }),
+  site('lanse_aux_meadows', 'ランス・オ・メドー国定史跡', "L'Anse aux Meadows National Historic Site", ['CA'], 1978, 'C', 'vi', 51.59, -55.53, { aliases: ['ランス・オ・メドー'] }),
+
+  // --- Latin America and the Caribbean ---
+  site('machu_picchu', 'マチュ・ピチュの歴史保護区', 'Historic Sanctuary of Machu Picchu', ['PE'], 1983, 'M', 'i,iii,vii,ix', -13.16, -72.55, { aliases: ['マチュ・ピチュ', 'マチュピチュ'] }),
+  site('cuzco', 'クスコ市街', 'City of Cuzco', ['PE'], 1983, 'C', 'iii,iv', -13.52, -71.97, { aliases: ['クスコ'] }),
+  site('nasca', 'ナスカとパルパの地上絵', 'Lines and Geoglyphs of Nasca and Palpa', ['PE'], 1994, 'C', 'i,iii,iv', -14.74, -75.13, { aliases: ['ナスカの地上絵', 'ナスカ'] }),
+  site('chan_chan', 'チャン・チャン遺跡地帯', 'Chan Chan Archaeological Zone', ['PE'], 1986, 'C', 'i,iii', -8.11, -79.07, { aliases: ['チャン・チャン'], endangered: true }),
+  site('galapagos', 'ガラパゴス諸島', 'Galápagos Islands', ['EC'], 1978, 'N', 'vii,viii,ix,x', -0.67, -90.55, { aliases: ['ガラパゴス'] }),
+  site('quito', 'キト市街', 'City of Quito', ['EC'], 1978, 'C', 'ii,iv', -0.22, -78.51, { aliases: ['キト旧市街'] }),
+  site('rapa_nui', 'ラパ・ヌイ国立公園', 'Rapa Nui National Park', ['CL'], 1995, 'C', 'i,iii,v', -27.12, -109.35, { aliases: ['ラパ・ヌイ', 'イースター島', 'モアイ'] }),
+  site('iguazu_ar', 'イグアス国立公園（アルゼンチン）', 'Iguazu National Park', ['AR'], 1984, 'N', 'vii,x', -25.68, -54.44, { aliases: ['イグアス'] }),
+  site('iguacu_br', 'イグアス国立公園（ブラジル）', 'Iguaçu National Park', ['BR'], 1986, 'N', 'vii,x', -25.62, -54.36),
+  site('los_glaciares', 'ロス・グラシアレス国立公園', 'Los Glaciares National Park', ['AR'], 1981, 'N', 'vii,viii', -50.00, -73.25, { aliases: ['ロス・グラシアレス', 'ペリト・モレノ'] }),
+  site('brasilia', 'ブラジリア', 'Brasilia', ['BR'], 1987, 'C', 'i,iv', -15.79, -47.88),
+  site('rio_de_janeiro', 'リオ・デ・ジャネイロ：山と海の間のカリオカの景観', 'Rio de Janeiro: Carioca Landscapes between the Mountain and the Sea', ['BR'], 2012, 'C', 'v,vi', -22.95, -43.21, { aliases: ['リオ・デ・ジャネイロ', 'コルコバード', 'コパカバーナ'] }),
+  site('central_amazon', '中央アマゾン保全地域群', 'Central Amazon Conservation Complex', ['BR'], 2000, 'N', 'ix,x', -2.00, -62.00, { aliases: ['中央アマゾン', 'ジャウ国立公園'] }),
+  site('potosi', 'ポトシ市街', 'City of Potosí', ['BO'], 1987, 'C', 'ii,iv,vi', -19.58, -65.75, { aliases: ['ポトシ', 'セロ・リコ'], endangered: true }),
+  site('teotihuacan', '古代都市テオティワカン', 'Pre-Hispanic City of Teotihuacan', ['MX'], 1987, 'C', 'i,ii,iii,iv,vi', 19.69, -98.84, { aliases: ['テオティワカン', '太陽のピラミッド', '月のピラミッド'] }),
+  site('chichen_itza', '古代都市チチェン・イッツァ', 'Pre-Hispanic City of Chichen-Itza', ['MX'], 1988, 'C', 'i,ii,iii', 20.68, -88.57, { aliases: ['チチェン・イッツァ', 'ククルカン'] }),
+  site('mexico_city', 'メキシコシティ歴史地区とソチミルコ', 'Historic Centre of Mexico City and Xochimilco', ['MX'], 1987, 'C', 'ii,iii,iv,v', 19.43, -99.13, { aliases: ['メキシコシティ歴史地区', 'ソチミルコ', 'テノチティトラン'] }),
+  site('tikal', 'ティカル国立公園', 'Tikal National Park', ['GT'], 1979, 'M', 'i,iii,iv,ix,x', 17.22, -89.62, { aliases: ['ティカル'] }),
+  site('copan', 'コパンのマヤ遺跡', 'Maya Site of Copan', ['HN'], 1980, 'C', 'iv,vi', 14.84, -89.14, { aliases: ['コパン'] }),
+  site('old_havana', 'オールド・ハバナとその要塞群', 'Old Havana and its Fortification System', ['CU'], 1982, 'C', 'iv,v', 23.14, -82.35, { aliases: ['ハバナ'] }),
+  site('belize_reef', 'ベリーズ珊瑚礁保護区', 'Belize Barrier Reef Reserve System', ['BZ'], 1996, 'N', 'vii,ix,x', 17.30, -87.80, { aliases: ['ベリーズ珊瑚礁', 'ブルーホール'] }),
+
+  // --- Africa ---
+  site('serengeti', 'セレンゲティ国立公園', 'Serengeti National Park', ['TZ'], 1981, 'N', 'vii,x', -2.33, 34.83, { aliases: ['セレンゲティ'] }),
+  site('kilimanjaro', 'キリマンジャロ国立公園', 'Kilimanjaro National Park', ['TZ'], 1987, 'N', 'vii', -3.07, 37.35, { aliases: ['キリマンジャロ'] }),
+  site('ngorongoro', 'ンゴロンゴロ保全地域', 'Ngorongoro Conservation Area', ['TZ'], 1979, 'M', 'iv,vii,viii,ix,x', -3.20, 35.50, { aliases: ['ンゴロンゴロ', 'オルドヴァイ'] }),
+  site('zanzibar', 'ザンジバル島のストーン・タウン', 'Stone Town of Zanzibar', ['TZ'], 2000, 'C', 'ii,iii,vi', -6.16, 39.19, { aliases: ['ストーン・タウン', 'ザンジバル'] }),
+  site('victoria_falls', 'モシ・オ・トゥニャ／ヴィクトリアの滝', 'Mosi-oa-Tunya / Victoria Falls', ['ZM', 'ZW'], 1989, 'N', 'vii,viii', -17.92, 25.86, { aliases: ['ヴィクトリアの滝', 'ビクトリアの滝', 'モシ・オ・トゥニャ'] }),
+  site('great_zimbabwe', 'グレート・ジンバブエ国立記念物', 'Great Zimbabwe National Monument', ['ZW'], 1986, 'C', 'i,iii,vi', -20.27, 30.93, { aliases: ['グレート・ジンバブエ'] }),
+  site('robben_island', 'ロベン島', 'Robben Island', ['ZA'], 1999, 'C', 'iii,vi', -33.81, 18.37),
+  site('timbuktu', 'トンブクトゥ', 'Timbuktu', ['ML'], 1988, 'C', 'ii,iv,v', 16.77, -3.01, { aliases: ['トンブクトゥ', 'ジンガリーベル・モスク'], endangered: true }),
+  site('djenne', 'ジェンネ旧市街', 'Old Towns of Djenné', ['ML'], 1988, 'C', 'iii,iv', 13.90, -4.55, { aliases: ['ジェンネ', '泥のモスク'], endangered: true }),
+  site('lalibela', 'ラリベラの岩窟教会群', 'Rock-Hewn Churches, Lalibela', ['ET'], 1978, 'C', 'i,ii,iii', 12.03, 39.04, { aliases: ['ラリベラ'] }),
+  site('simien', 'シミエン国立公園', 'Simien National Park', ['ET'], 1978, 'N', 'vii,x', 13.18, 38.07, { aliases: ['シミエン'] }),
+  site('aksum', 'アクスム', 'Aksum', ['ET'], 1980, 'C', 'i,iv', 14.13, 38.72, { aliases: ['アクスムのオベリスク'] }),
+  site('goree', 'ゴレ島', 'Island of Gorée', ['SN'], 1978, 'C', 'vi', 14.67, -17.40, { aliases: ['ゴレ島', '奴隷の家'] }),
+  site('tsingy', 'ツィンギ・デ・ベマラ厳正自然保護区', 'Tsingy de Bemaraha Strict Nature Reserve', ['MG'], 1990, 'N', 'vii,x', -18.70, 44.70, { aliases: ['ツィンギ'] }),
+  site('atsinanana', 'アツィナナナの雨林', 'Rainforests of the Atsinanana', ['MG'], 2007, 'N', 'ix,x', -21.00, 47.50, { aliases: ['アツィナナナ'], endangered: true }),
+  site('virunga', 'ヴィルンガ国立公園', 'Virunga National Park', ['CD'], 1979, 'N', 'vii,viii,x', -0.92, 29.17, { aliases: ['ヴィルンガ', 'ビルンガ', 'マウンテンゴリラ'], endangered: true }),
+  site('okavango', 'オカヴァンゴ・デルタ', 'Okavango Delta', ['BW'], 2014, 'N', 'vii,ix,x', -19.30, 22.90, { aliases: ['オカヴァンゴ', 'オカバンゴ'] }),
+  site('namib', 'ナミブ砂海', 'Namib Sand Sea', ['NA'], 2013, 'N', 'vii,viii,ix,x', -24.80, 15.30, { aliases: ['ナミブ砂漠', 'ナミブ砂海'] }),
+
+  // --- Arab States ---
+  site('memphis_giza', 'メンフィスとその墓地遺跡－ギザからダハシュールまでのピラミッド地帯', 'Memphis and its Necropolis – the Pyramid Fields from Giza to Dahshur', ['EG'], 1979, 'C', 'i,iii,vi', 29.98, 31.13, {
+    aliases: ['ギザの三大ピラミッド', 'ギザのピラミッド', 'スフィンクス', 'クフ王', 'ダハシュール', 'サッカラ', '階段ピラミッド'],
+  }),
+  site('thebes', '古代都市テーベとその墓地遺跡', 'Ancient Thebes with its Necropolis', ['EG'], 1979, 'C', 'i,iii,vi', 25.72, 32.60, { aliases: ['テーベ', 'ルクソール', 'カルナック', '王家の谷', 'ツタンカーメン'] }),
+  site('nubian', 'アブ・シンベルからフィラエまでのヌビア遺跡群', 'Nubian Monuments from Abu Simbel to Philae', ['EG'], 1979, 'C', 'i,iii,vi', 22.34, 31.63, { aliases: ['アブ・シンベル', 'アブシンベル', 'フィラエ', 'ヌビア遺跡'] }),
+  site('historic_cairo', 'カイロ歴史地区', 'Historic Cairo', ['EG'], 1979, 'C', 'i,v,vi', 30.05, 31.26, { aliases: ['イスラーム都市カイロ', 'カイロ歴史地区'] }),
+  site('petra', 'ペトラ', 'Petra', ['JO'], 1985, 'C', 'i,iii,iv', 30.33, 35.44, { aliases: ['エル・カズネ', 'ナバテア'] }),
+  site('wadi_rum', 'ワディ・ラム保護区', 'Wadi Rum Protected Area', ['JO'], 2011, 'M', 'iii,v,vii', 29.58, 35.42, { aliases: ['ワディ・ラム'] }),
+  site('baalbek', 'バールベック', 'Baalbek', ['LB'], 1984, 'C', 'i,iv', 34.01, 36.20),
+  site('palmyra', 'パルミラの遺跡', 'Site of Palmyra', ['SY'], 1980, 'C', 'i,ii,iv', 34.55, 38.27, { aliases: ['パルミラ'], endangered: true }),
+  site('damascus', '古代都市ダマスカス', 'Ancient City of Damascus', ['SY'], 1979, 'C', 'i,ii,iii,iv,vi', 33.51, 36.31, { aliases: ['ダマスカス', 'ウマイヤ・モスク'], endangered: true }),
+  site('fez', 'フェス旧市街', 'Medina of Fez', ['MA'], 1981, 'C', 'ii,v', 34.06, -4.97, { aliases: ['フェズ', 'フェス・エル・バリ'] }),
+  site('marrakesh', 'マラケシ旧市街', 'Medina of Marrakesh', ['MA'], 1985, 'C', 'i,ii,iii,iv,v', 31.63, -7.99, { aliases: ['マラケシュ', 'マラケシ', 'ジャマ・エル・フナ'] }),
+  site('carthage', 'カルタゴ遺跡', 'Archaeological Site of Carthage', ['TN'], 1979, 'C', 'ii,iii,vi', 36.85, 10.32, { aliases: ['カルタゴ'] }),
+  site('el_jem', 'エル・ジェムの円形闘技場', 'Amphitheatre of El Jem', ['TN'], 1979, 'C', 'iv,vi', 35.30, 10.71, { aliases: ['エル・ジェム'] }),
+  site('tassili', 'タッシリ・ナジェール', "Tassili n'Ajjer", ['DZ'], 1982, 'M', 'i,iii,vii,viii', 25.50, 9.00, { aliases: ['タッシリ'] }),
+  site('shibam', 'シバームの旧城壁都市', 'Old Walled City of Shibam', ['YE'], 1982, 'C', 'iii,iv,v', 15.93, 48.63, { aliases: ['シバーム', '砂漠の摩天楼'], endangered: true }),
+  site('sanaa', 'サナア旧市街', "Old City of Sana'a", ['YE'], 1986, 'C', 'iv,v,vi', 15.35, 44.21, { aliases: ['サナア'], endangered: true }),
+  site('ashur', 'アッシュール（カラット・シェルカット）', "Ashur (Qal'at Sherqat)", ['IQ'], 2003, 'C', 'iii,iv', 35.46, 43.26, { aliases: ['アッシュール'], endangered: true }),
+  site('babylon', 'バビロン', 'Babylon', ['IQ'], 2019, 'C', 'iii,vi', 32.54, 44.42, { aliases: ['イシュタル門'] }),
+  site('hegra', 'ヘグラ古代遺跡（アル・ヒジュル／マダイン・サーレハ）', 'Hegra Archaeological Site (al-Hijr / Madāʾin Ṣāliḥ)', ['SA'], 2008, 'C', 'ii,iii', 26.79, 37.95, { aliases: ['ヘグラ', 'マダイン・サーレハ', 'アル・ヒジュル'] }),
+];
+
+const SITES_BY_ID = new Map(HERITAGE_SITES.map(s => [s.id, s]));
+
+export const getSite = (id: string): HeritageSite | undefined => SITES_BY_ID.get(id);
+
+export const countryNames = (site: HeritageSite, language: Language = 'ja'): string =>
+  site.countries.map(c => COUNTRIES[c]?.[language] ?? c).join(language === 'ja' ? '・' : ', ');
+
+export const siteName = (site: HeritageSite, language: Language = 'ja'): string => language === 'ja' ? site.nameJa : site.nameEn;
@@ -0,0 +1,973 @@
+import { Language, LocalizedText, MessageRef, QuizLevel } from './types';
+
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  ja: '日本語',
+  en: 'English',
+};
+
+// Locale used for dates and times
+export const LOCALES: Record<Language, string> = {
+  ja: 'ja-JP',
+  en: 'en-US',
+};
+
+// QuizLevel values are the Japanese names stored with every question
+export const LEVEL_LABELS: Record<QuizLevel, LocalizedText> = {
+  [QuizLevel.LEVEL_3]: { ja: '3級', en: 'Grade 3' },
+  [QuizLevel.LEVEL_2]: { ja: '2級', en: 'Grade 2' },
+  [QuizLevel.LEVEL_PRE_1]: { ja: '準1級', en: 'Pre-Grade 1' },
+  [QuizLevel.LEVEL_1]: { ja: '1級', en: 'Grade 1' },
+};
+
+// Unknown levels (e.g. from an imported file) are shown as they are
+export const levelLabel = (level: string, language: Language): string =>
+  LEVEL_LABELS[level as QuizLevel]?.[language] ?? level;
+
+// UI strings, grouped by view. {name} placeholders are filled in by the translator.
+const ja = {
+  'app.title': '世界遺産検定',
+  'app.loading': 'データを読み込んでいます...',
+
+  'common.details': '詳細',
+  'common.resume': '再開する',
+  'common.stop': '停止する',
+  'common.questionsUnit': '問',
+  'common.questionCount': '{count}問',
+  'common.answer': '正解: {answer}',
+  'common.level': '級',
+  'common.delete': '削除',
+  'common.backHome': 'ホームに戻る',
+  'common.cancel': 'キャンセル',
+  'common.save': '保存する',
+  'common.close': '閉じる',
+  'common.edit': '編集',
+  'common.yes': 'はい',
+  'common.no': 'いいえ',
+
+  'nav.manage': 'データの管理・書き出し',
+  'nav.jobs': '生成キュー',
+  'nav.stats': '学習の記録',
+
+  'header.install': '📲 インストール',
+  'header.switchLanguage': '表示言語を切り替え',
+  'header.share': 'アプリを共有',
+  'header.profile': 'プロフィール: {name}',
+  'header.view.manage': '管理',
+  'header.view.jobs': '生成キュー',
+  'header.view.stats': '学習の記録',
+  'header.view.play': 'プレイ中',
+
+  'storage.loadFailed': 'データベースを読み込めませんでした。変更は保存されません。',
+  'storage.itemsFailed': '問題データの保存に失敗しました。ストレージの空き容量を確認してください。',
+  'storage.quarantineFailed': '要確認リストの保存に失敗しました。',
+  'storage.sessionFailed': '学習記録の保存に失敗しました。',
+  'storage.jobFailed': '生成ジョブの保存に失敗しました。',
+  'storage.answersFailed': '解答履歴の保存に失敗しました。',
+  'storage.snapshotFailed': '元に戻すためのスナップショットを保存できませんでした。',
+  'storage.profileFailed': 'プロフィールの保存に失敗しました。',
+
+  'settings.apiKeyRequired': 'APIキーを入力してください。',
+  'settings.serverUrlRequired': 'サーバーURLを入力してください。',
+  'settings.saved': '設定を保存しました！',
+  'settings.apiKeyPrompt': '問題を作成するにはGemini APIキーが必要です。\n設定画面でキーを入力しますか？',
+  'settings.title': '設定',
+  'settings.provider': '問題生成AI',
+  'settings.model': 'モデル',
+  'settings.modelDefault': '空欄の場合は {model} を使用します。',
+  'settings.uiLanguage': '表示言語',
+  'settings.uiLanguageHint': '問題の言語はホーム画面の生成設定で選びます。',
+  'settings.geminiKey': 'Gemini API キー',
+  'settings.getKey': 'Google AI Studioで取得',
+  'settings.serverUrl': 'サーバーURL',
+  'settings.serverUrlHint': '/chat/completions に対応したOpenAI互換API（Ollama、llama.cpp、vLLMなど）',
+  'settings.serverKey': 'APIキー（任意）',
+  'settings.mockHint': 'ネットワークを使わず、組み込みのサンプル問題を返します。生成や重複チェックの動作確認用です。',
+  'settings.factCheck': 'AIファクトチェック',
+  'settings.factCheckHint': '生成した問題を別のAI呼び出しで解き直し、解説も検証します。疑わしい問題は「要確認の問題」に回されます。1回の生成でAPIリクエストが3倍になります。',
+  'settings.factCheckModel': '検証用モデル（空欄なら生成と同じモデル）',
+
+  'profiles.title': 'プロフィール',
+  'profiles.description': '問題は全員で共有し、解答履歴・復習スケジュール・成績・設定はプロフィールごとに保存します。',
+  'profiles.defaultName': 'メイン',
+  'profiles.active': '使用中',
+  'profiles.switch': '切り替え',
+  'profiles.export': 'エクスポート',
+  'profiles.delete': '削除',
+  'profiles.newPlaceholder': '新しいプロフィールの名前',
+  'profiles.create': '追加',
+  'profiles.answers': '解答{count}件',
+  'profiles.confirm.delete': 'プロフィール「{name}」と、その解答履歴・復習スケジュール・設定を削除しますか？\n問題は削除されません。',
+  'profiles.alert.busy': '問題の生成中はプロフィールを切り替えられません。',
+
+  'error.occurred': 'エラーが発生しました:\n{message}',
+
+  'validation.trimmed': '{field}: 前後の空白を削除',
+  'validation.empty': '{field} が空です',
+  'validation.duplicateOption': '選択肢{first}と選択肢{second}が重複しています',
+  'validation.unknownLevel': '不明な級です: "{level}"',
+  'validation.levelNormalized': 'level: "{from}" → "{to}"',
+  'validation.correctIdxConverted': 'correct_idx: 文字列を数値に変換',
+  'validation.correctIdxRange': 'correct_idx は0〜3の整数である必要があります（値: {value}）',
+  'validation.emptyValue': '空',
+  'validation.wikiNormalized': 'wiki_link: URLを正規化',
+  'validation.notWikipedia': 'Wikipediaのリンクではありません: {url}',
+  'validation.isJapanInvalid': 'is_japan を真偽値として解釈できません（値: {value}）',
+  'validation.isJapanConverted': 'is_japan: 真偽値に変換',
+  'validation.siteIdsNormalized': 'site_ids: 未知のIDを除去・形式を統一',
+  'validation.languageNormalized': 'language: "{from}" → "{to}"',
+  'validation.languageDetected': 'language: 問題文から"{language}"と判定',
+  'validation.optionNotesNormalized': 'option_notes: 選択肢の数に合わせて形式を統一',
+
+  'factCheck.failed': 'ファクトチェックを実行できませんでした（{kind}）',
+  'factCheck.noAnswer': '検証AIから回答が得られませんでした',
+  'factCheck.otherAnswer': '検証AIは選択肢{option}を正解と判断しました（確信度 {confidence}%）',
+  'factCheck.alsoCorrect': '選択肢{options}も正解の可能性があります',
+  'factCheck.explanation': '解説が正解と矛盾している可能性があります',
+  'factCheck.explanationComment': '解説が正解と矛盾している可能性があります: {comment}',
+  'factCheck.lowConfidence': '検証AIの確信度が低いため確認が必要です（{confidence}%）',
+
+  'generate.allQuarantined': '生成された{count}問はすべて検証またはファクトチェックで問題が見つかったため「要確認」に移動しました。',
+  'generate.scopeJapan': '日本のみの指定に対して海外の問題が生成されました',
+  'generate.scopeOverseas': '海外のみの指定に対して日本の問題が生成されました',
+
+  'jobs.progress.preparing': '準備中...',
+  'jobs.progress.writing': 'AIが執筆中 ({count}問・{focus})...',
+  'jobs.progress.waiting': '制限回避のため待機中 ({seconds}秒)...',
+  'jobs.progress.saving': '保存中...',
+  'jobs.progress.batchDone': '完了！次のバッチへ...',
+  'jobs.alert.halted': '自動生成を中断しました:\n{message}\n\n生成キューから再開できます。',
+  'jobs.alert.stopped': '自動生成を停止しました。\n生成キューから再開できます。',
+  'jobs.alert.offline': 'オフラインになったため自動生成を中断しました。\nオンラインに戻ると自動で再開します。',
+  'jobs.alert.someFailed': '自動生成が終了しました。{count}件のジョブが失敗しました。\n生成キューのログを確認してください。',
+  'jobs.alert.stalled': '{count}件のジョブは新しい問題が増えなくなったため一時停止しました。\n重複が多い場合はテーマを変えてください。',
+  'jobs.alert.allDone': '🎉 キューの自動生成がすべて完了しました！',
+  'jobs.alert.targetReached': 'すでに目標の{target}問に達しています！',
+  'jobs.alert.deferredOffline': 'オフラインのため、オンラインに戻ってから生成を開始します。',
+  'jobs.alert.levelFull': '{level}はこれ以上問題を追加できません（上限{max}問）。',
+  'jobs.alert.queuedOffline': '{level}の{count}問の作成を予約しました。\nオンラインに戻ると自動で作成します（生成キューで確認できます）。',
+  'jobs.alert.alreadyQueued': '{level}の自動生成ジョブはすでにキューにあります。',
+  'jobs.confirm.auto': '{level}の目標は{target}問です。\n現在{current}問あります。\n\nAIが目標に達するまで連続で生成を開始しますか？\n（途中で「停止」ボタンを押せます。リロード後も再開できます）',
+  'jobs.progress.stopping': '停止処理中...',
+  'jobs.add': 'ジョブを追加',
+  'jobs.targetCount': '目標問題数',
+  'jobs.topic': 'テーマ（任意）',
+  'jobs.topicPlaceholder': '空欄なら不足分を自動で選択',
+  'jobs.enqueue': 'キューに追加',
+  'jobs.current': '現在 {count}問。ジョブは順番に実行され、リロード後も再開できます。',
+  'jobs.run': '▶ キューを実行',
+  'jobs.runWhenOnline': '📶 オンライン時に実行',
+  'jobs.clearFinished': '完了済みを削除',
+  'jobs.usage': 'API使用量 ({provider}): 今日 {day}/{rpd}回・直近1分 {minute}/{rpm}回',
+  'jobs.empty': 'ジョブはありません',
+  'jobs.theme': 'テーマ: {topic}',
+  'jobs.autoTopic': '自動（カバレッジ）',
+  'jobs.summary': '追加 {added} ・ 重複 {duplicates} ・ 要確認 {quarantined} ・ エラー {errors}',
+  'jobs.resumeOne': '再開',
+  'jobs.closeLog': 'ログを閉じる',
+  'jobs.log': 'ログ ({count})',
+  'jobs.log.time': '時刻',
+  'jobs.log.requested': '依頼',
+  'jobs.log.added': '追加',
+  'jobs.log.duplicates': '重複',
+  'jobs.log.quarantined': '要確認',
+  'jobs.log.focus': 'テーマ / エラー',
+  'jobs.log.noProgress': '{count}回続けて新しい問題が追加されなかったため一時停止しました',
+  'jobs.running': '実行中: {level} {current}/{target} — {status}',
+  'jobs.waiting': '待機・一時停止中のジョブ: {count}件',
+
+  'play.alert.noItems': 'まだ保存された問題がありません。',
+  'play.alert.nothingDue': 'いま復習が必要な問題はありません。\nしばらくしてから再度お試しください。',
+  'play.alert.finished': 'お疲れ様でした！\n今回のスコア: {score} / {total}',
+  'play.quit': '中断してホームへ',
+  'play.confirmQuit': '本当に中断？',
+  'play.correct': '正解！',
+  'play.wrong': '残念...',
+  'play.aboutOption': '「{option}」について',
+  'play.next': '次の問題へ 👉',
+  'play.showResult': '結果を見る 🏆',
+
+  'exam.confirm.short': '{level}の模擬試験は{full}問ですが、保存済みは{saved}問です。\n{count}問・{minutes}分で開始しますか？',
+  'exam.confirm.start': '{level} 模擬試験\n{count}問・制限時間{minutes}分・合格ライン{pass}%\n\n開始しますか？',
+  'exam.unanswered': '未解答: {count}問',
+  'exam.flaggedCount': 'フラグ付き: {count}問',
+  'exam.confirm.submit': '解答を提出して採点しますか？',
+  'exam.answered': '解答済み {count}/{total}',
+  'exam.questionNumber': '第{n}問',
+  'exam.prev': '← 前へ',
+  'exam.unflag': 'フラグ解除',
+  'exam.flag': '見直す',
+  'exam.next': '次へ →',
+  'exam.paletteLegend': '青: 解答済み ／ 黄枠: 見直しフラグ',
+  'exam.submit': '提出して採点 🏁',
+  'exam.resultTitle': '{level} 模擬試験 結果',
+  'exam.passed': '合格 🎉',
+  'exam.failed': '不合格',
+  'exam.passMark': '合格ライン {percent}%',
+  'exam.answeredResult': '解答 {count}/{total}問',
+  'exam.timeUsed': '所要時間 {time}',
+  'exam.yourAnswer': 'あなたの解答:',
+  'exam.noAnswer': '未解答',
+  'exam.correctAnswer': '正解:',
+
+  'reports.alert.regeneratedQuarantined': '作り直した問題に問題が見つかったため「要確認」に移動しました。元の問題は報告済みのまま残しています。',
+  'reports.confirm.replace': '次の問題に置き換えますか？\n\n{question}\n正解: {answer}',
+  'reports.title': '報告された問題 ({count})',
+  'reports.description': 'プレイ中に報告された問題です。修正・作り直し・削除するか、問題がなければ報告を取り消してください。',
+  'reports.includeReported': '報告された問題も出題する',
+  'reports.regenerating': '作成中...',
+  'reports.regenerate': '作り直す',
+  'reports.dismiss': '問題なし',
+
+  'snapshot.regenerate': '報告された問題の作り直し',
+  'snapshot.bulkDelete': '{count}問の一括削除',
+  'snapshot.deleteItem': '問題の削除',
+  'snapshot.rebalance': '正解位置の補正',
+  'snapshot.mergeDuplicates': '重複の統合',
+  'snapshot.confirm.restore': '「{reason}」の前（{at}）の状態に戻しますか？\n現在の状態もスナップショットとして保存されます。',
+  'snapshot.restore': 'スナップショットの復元',
+  'snapshot.backupReplace': 'バックアップで置き換え',
+  'snapshot.backupMerge': 'バックアップの統合',
+  'snapshot.importOverwrite': 'インポートによる上書き',
+  'snapshot.title': '自動スナップショット（直近{count}件）',
+  'snapshot.entry': '「{reason}」の前 ・ 問題{count}問',
+  'snapshot.restoreButton': 'この状態に戻す',
+  'snapshot.discardQuarantine': '要確認の問題の破棄',
+  'snapshot.deleteAll': '全データ削除',
+  'snapshot.profileDelete': 'プロフィール「{name}」の削除',
+
+  'manage.confirm.similarExists': 'よく似た問題が既に登録されています。それでも追加しますか？',
+  'manage.confirm.deleteItem': 'この問題を削除しますか？',
+  'manage.confirm.relink': '全ての問題について、世界遺産カタログとの紐付けをやり直しますか？',
+  'manage.alert.relinked': '{count}問の紐付けを更新しました。',
+  'manage.title': 'データ管理',
+  'manage.library': 'ライブラリ状況',
+  'manage.relink': '世界遺産の紐付けを更新',
+  'manage.linked': '世界遺産と紐付いた問題: {linked} / {total}問（{sites}件の遺産、カタログ収録 {catalog}件）',
+  'manage.confirm.deleteAll': '全てのデータを削除しますか？',
+  'manage.deleteAll': '全データ削除',
+
+  'browser.confirm.bulkDelete': '選択した{count}問を削除しますか？',
+  'browser.confirm.bulkLevel': '選択した{count}問の級を「{level}」に変更しますか？',
+  'browser.title': '問題一覧',
+  'browser.searchPlaceholder': '問題文・選択肢・解説を検索',
+  'browser.selectPage': 'このページを選択（{count}件中）',
+  'browser.selected': '{count}問選択中',
+  'browser.changeLevel': '級を変更',
+  'browser.clearSelection': '選択解除',
+  'browser.reported': '🚩 報告あり',
+  'browser.empty': '該当する問題がありません',
+  'browser.prev': '← 前',
+  'browser.next': '次 →',
+
+  'balance.alert.alreadyEven': '正解の位置はすでに均等です。',
+  'balance.confirm.rebalance': '{count}問の選択肢を入れ替えて、正解の位置を均等にしますか？',
+  'balance.title': '正解位置の偏り',
+  'balance.rebalance': '偏りを補正',
+  'balance.description': '出題時は選択肢をシャッフルしますが、書き出した問題集で位置が偏らないよう、保存された選択肢の順番も均等にできます。',
+  'balance.option': '選択肢{n}',
+  'balance.share': '（{percent}%）',
+
+  'duplicates.confirm.merge': '選択した問題を残し、他の{count}問を削除して統合しますか？',
+  'duplicates.title': '重複チェック',
+  'duplicates.scanning': 'スキャン中...',
+  'duplicates.rescan': '再スキャン',
+  'duplicates.scan': 'スキャン',
+  'duplicates.description': '言い換えられた問題も含め、正解が同じで問題文がよく似たものをまとめて表示します。',
+  'duplicates.none': '重複の候補は見つかりませんでした 🎉',
+  'duplicates.cluster': '候補 {n}（{count}問）',
+  'duplicates.keep': 'この問題を残す',
+  'duplicates.dismiss': '重複ではない',
+  'duplicates.merge': '選択を残して統合',
+
+  'backup.alert.busy': '自動生成の実行中は復元できません。停止してから再度お試しください。',
+  'backup.alert.failed': '復元に失敗しました。データは変更されていません。',
+  'backup.confirm.replace': '現在のデータをすべてバックアップの内容で置き換えます。よろしいですか？\n（直前の状態はスナップショットから戻せます）',
+  'backup.alert.restored': 'バックアップを復元しました。',
+  'backup.title': 'バックアップと復元',
+  'backup.description': '問題・要確認リスト・解答履歴・復習スケジュール・生成ジョブ・学習記録と生成設定をまとめて保存します（APIキーは含まれません）。',
+  'backup.save': '💾 バックアップを保存',
+  'backup.restore': '📂 バックアップから復元',
+  'backup.fileInfo': '{name}（{at} 作成・{count}件）',
+  'backup.diff.store': 'データ',
+  'backup.diff.added': '追加',
+  'backup.diff.changed': '変更',
+  'backup.diff.unchanged': '同一',
+  'backup.diff.removed': '置き換え時に削除',
+  'backup.modeHint': '「統合」は現在のデータを残して追加・更新します。「置き換え」は現在のデータと生成設定をバックアップの内容にします。',
+  'backup.replace': '置き換え',
+  'backup.merge': '統合',
+  'backup.profileHint': 'プロフィール「{name}」のエクスポートです。解答履歴と設定を追加します（同じプロフィールがあれば統合）。問題は含まれません。',
+  'backup.importProfile': 'プロフィールを取り込む',
+  'backup.error.invalidJson': 'バックアップファイルをJSONとして読み込めません。',
+  'backup.error.notBackup': 'このアプリのバックアップファイルではありません。問題だけのファイルは「インポート」から読み込んでください。',
+  'backup.error.newerVersion': '新しいバージョンのバックアップです（version {version}）。アプリを更新してください。',
+
+  'import.confirm.overwrite': '既存の{current}問を削除し、{count}問で上書きします。よろしいですか？',
+  'import.title': '読み込み結果の確認',
+  'import.file': '{name}（{format}）',
+  'import.readable': '読み込み可能',
+  'import.errors': 'エラー',
+  'import.duplicates': '重複（追加時スキップ）',
+  'import.errorLine': '{n}行目',
+  'import.errorQuestion': '{n}問目',
+  'import.quarantined': '検証エラーの{count}問は「要確認の問題」に移動されます。',
+  'import.overwrite': '上書き',
+  'import.append': '既存リストに追加',
+  'import.heading': 'インポート',
+  'import.chooseFile': 'ファイルを選択',
+  'import.formats': '{formats} に対応（形式は自動判定）',
+  'import.parse.invalidJson': 'JSONとして読み込めません。',
+  'import.parse.noItems': '問題の一覧（items）が見つかりません。',
+  'import.parse.newerSchema': '新しいバージョンのファイルです（schemaVersion {version}）。アプリを更新してください。',
+  'import.parse.invalidXml': 'XMLとして読み込めません。',
+  'import.parse.missingColumns': '必須の列がありません: {columns}',
+  'import.parse.columnCount': '列数が一致しません（{expected}列必要、{actual}列）',
+  'import.parse.unterminatedQuote': '引用符（"）が閉じられていません。この行以降は読み込まれませんでした。',
+  'import.parse.notAnki': 'このアプリで書き出したAnki形式（表面に4つの選択肢、裏面に正解）ではありません',
+  'import.parse.noAnswerBlock': '解答ブロック { } が見つかりません',
+  'import.parse.notSingleAnswer': '4択（正解1つ）の問題ではありません（選択肢{count}個）',
+  'import.parse.notMultichoice': '多肢選択問題ではありません（{type}）',
+
+  'export.alert.empty': '条件に合う問題がありません。',
+  'export.title': 'エクスポート',
+  'export.download': '{count}問をダウンロード',
+
+  'worksheet.title': '印刷用ワークシート',
+  'worksheet.description': 'エクスポートと同じ絞り込み条件の{count}問から、番号付きの問題用紙と解答を作ります。印刷画面で「PDFに保存」を選ぶとPDFになります。',
+  'worksheet.questionCount': '問題数',
+  'worksheet.copies': '版の数',
+  'worksheet.copiesHint': '版ごとに問題と選択肢の順番が変わります（同じシードなら何度でも同じ内容）。',
+  'worksheet.seed': 'シード',
+  'worksheet.newSeed': '🎲 新しいシード',
+  'worksheet.answerKey': '解答ページを付ける',
+  'worksheet.explanations': '解答に解説を含める',
+  'worksheet.print': '🖨 印刷 / PDF',
+  'worksheet.saveHtml': 'HTMLを保存',
+  'worksheet.popupBlocked': '印刷用のウィンドウを開けませんでした。ポップアップを許可してください。',
+
+  'share.copied': 'URLをコピーしました！',
+  'share.copyFailed': 'URLのコピーに失敗しました',
+
+  'quizSet.shareSession': '🔗 このセットを共有',
+  'quizSet.shareFiltered': '🔗 絞り込み結果を共有',
+  'quizSet.shareSelected': '共有',
+  'quizSet.panelTitle': 'クイズセットを共有（{count}問）',
+  'quizSet.panelHint': '受け取った人はリンクやファイルを開くとすぐにこの問題を解けます。自分の問題集に追加することもできます。',
+  'quizSet.shareLink': '🔗 リンクを共有',
+  'quizSet.saveFile': '💾 .whquiz ファイルを保存',
+  'quizSet.tooLong': '問題が多いためリンクにできません。ファイルで送ってください。',
+  'quizSet.shareText': '世界遺産クイズ {count}問に挑戦！',
+  'quizSet.empty': '共有する問題がありません。',
+  'quizSet.invalid': 'クイズセットを開けませんでした。ファイルが壊れているか、新しいバージョンのアプリで作られています。',
+  'quizSet.noPlayable': 'このクイズセットには解ける問題がありません。',
+  'quizSet.received': '共有されたクイズセット（{count}問）を開きました。',
+  'quizSet.skipped': '内容に不備のある{count}問は除外しました。',
+  'quizSet.import': '問題集に追加（新規{count}問）',
+  'quizSet.allKnown': 'すべて問題集にある問題です。',
+  'quizSet.imported': '{count}問を問題集に追加しました（重複{duplicates}問はスキップ）。',
+
+  'home.lead1': 'AIで問題集を作成し、CSVで出力・管理できます。',
+  'home.lead2': '目標の問題数まで自動生成する機能を追加しました。',
+  'home.pausedJobs': '⏸ 中断された自動生成ジョブが{count}件あります',
+  'home.manualCount': '手動生成数:',
+  'home.topicPlaceholder': 'テーマ（任意・空欄なら不足分を自動で選択）',
+  'home.autoRunning': '自動生成中',
+  'home.waitingForBatch': '完了待ち...',
+  'home.generating': '{count}問を作成しています...',
+  'home.generatingHint': '（約5〜10秒かかります）',
+  'home.target': '目標: {count}問',
+  'home.saved': '保存済み',
+  'home.generate': '⚡️ {count}問 作成',
+  'home.queueCount': '📶 {count}問',
+  'home.queueWhenOnline': 'オンライン時に作成',
+  'home.review': '📚 過去問',
+  'home.spaced': '🧠 復習',
+  'home.due': '{count}問 期限',
+  'home.exam': '📝 模擬試験 ({count}問・{minutes}分)',
+  'home.autoGenerate': '🤖 目標({target}問)まで自動生成',
+
+  'stats.empty': 'まだ解答履歴がありません。問題を解くとここに記録されます。',
+  'stats.answered': '解答数',
+  'stats.accuracy': '正答率',
+  'stats.streak': '連続学習',
+  'stats.longestStreak': '最長記録',
+  'stats.days': '{count}日',
+  'stats.byLevel': '級別の正答率',
+  'stats.trend': 'セッションごとの推移（直近{count}回）',
+  'stats.trendLabel': '級別の正答率の推移',
+  'stats.trendLegend': '{level}（{count}回）',
+  'stats.japanOverseas': '日本と海外',
+  'stats.japan': '🇯🇵 日本',
+  'stats.overseas': '🌍 海外',
+  'stats.daily': '日別の解答数（30日間）',
+  'stats.dailyLegend': '緑が正解、灰色が不正解です。',
+  'stats.dailyLabel': '日別の解答数',
+  'stats.dailyTooltip': '{day}: {answered}問（正解 {correct}）',
+  'stats.weakThemes': '苦手なテーマ',
+  'stats.weakThemesEmpty': '各テーマ5問以上解くと表示されます。',
+  'stats.weakSites': '苦手な遺産',
+  'stats.weakSitesEmpty': '各遺産5問以上解くと表示されます。',
+  'stats.mostMissed': 'よく間違える問題',
+  'stats.mostMissedEmpty': '間違えた問題はまだありません。',
+  'stats.missed': '{missed}/{answered}回ミス',
+  'stats.sessions': '記録済みのセッション: {count}回',
+
+  'options.anyStyle': '形式おまかせ',
+  'options.temperatureValue': '温度 {value}',
+  'options.language': '問題の言語',
+  'options.scope': '範囲',
+  'options.styles': '形式',
+  'options.stylesHint': '未選択ならおまかせ',
+  'options.temperature': '温度',
+
+  'filter.allLanguages': '全ての言語',
+  'filter.allRegions': '国内・海外',
+  'filter.japan': '国内のみ',
+  'filter.overseas': '海外のみ',
+  'filter.allHeritageRegions': '全ての地域',
+  'filter.keyword': 'キーワードで絞り込み',
+  'filter.allLevels': '全ての級',
+  'filter.allSites': '全ての遺産',
+  'filter.siteOption': '{name}（{count}）',
+
+  'editor.unset': '（未設定）',
+  'editor.language': '言語',
+  'editor.isJapan': '🇯🇵 国内遺産',
+  'editor.question': '問題文',
+  'editor.options': '選択肢（◉ = 正解）',
+  'editor.markCorrect': '選択肢{n}を正解にする',
+  'editor.notePlaceholder': '誤答の補足（任意）例: それはボリビアではなくペルーにあります',
+  'editor.explanation': '解説',
+  'editor.trivia': '豆知識',
+  'editor.fixAndAdd': '修正して追加',
+  'editor.save': '保存',
+
+  'site.info': '{countries}・{year}年登録',
+  'site.infoEndangered': '{countries}・{year}年登録・危機遺産',
+
+  'quarantine.title': '要確認の問題 ({count})',
+  'quarantine.confirm.discardAll': '要確認の問題をすべて破棄しますか？',
+  'quarantine.discardAll': 'すべて破棄',
+  'quarantine.description': '自動修正できなかった問題や、ファクトチェックで疑義が出た問題です。問題集には追加されていません。',
+  'quarantine.noLevel': '級なし',
+  'quarantine.confidence': '正答の信頼度 {percent}%',
+  'quarantine.noQuestion': '（問題文なし）',
+  'quarantine.approve': '承認',
+  'quarantine.discard': '破棄',
+
+  'coverage.expected': '目安 {value}',
+  'coverage.title': 'カバレッジ（{language}の問題）',
+  'coverage.description': '級ごとに、テーマ・地域・日本の割合の偏りを表示します。自動生成は赤い（不足している）部分を優先して出題します。',
+  'coverage.item': '項目',
+  'coverage.japanShare': '日本の割合',
+  'coverage.sites': '出題済みの遺産',
+  'coverage.excludingJapan': '（日本以外）',
+  'coverage.reason.balance': '日本の割合 {share}%（目標 {target}%）',
+  'coverage.reason.region': '・{region}が不足',
+  'coverage.reason.theme': 'テーマ「{theme}」が{count}問のみ・{balance}',
+  'coverage.reason.newSite': '未出題の遺産{region}・{balance}',
+  'coverage.reason.site': '{count}問のみの遺産{region}・{balance}',
+  'coverage.reason.random': 'ランダム',
+
+  'report.done': '🚩 報告済み（{reason}）',
+  'report.open': '🚩 この問題を報告',
+  'report.notePlaceholder': '詳しい内容（任意）例: 2021年に登録抹消されています',
+  'report.hiddenUntilFixed': '報告した問題は修正するまで出題されません。',
+  'report.submit': '報告する',
+
+  'offline.title': '📴 オフラインです。',
+  'offline.description': '過去問・復習・模擬試験はこのまま使えます。問題の作成はオンラインに戻ってから行います。',
+
+  'undo.saved': '↩ 「{reason}」の前の状態を保存しました',
+  'undo.button': '元に戻す',
+};
+
+export type MessageKey = keyof typeof ja;
+
+const en: Record<MessageKey, string> = {
+  'app.title': 'World Heritage Quiz',
+  'app.loading': 'Loading data...',
+
+  'common.details': 'Details',
+  'common.resume': 'Resume',
+  'common.stop': 'Stop',
+  'common.questionsUnit': 'questions',
+  'common.questionCount': '{count} Qs',
+  'common.answer': 'Answer: {answer}',
+  'common.level': 'Level',
+  'common.delete': 'Delete',
+  'common.backHome': 'Back to home',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.close': 'Close',
+  'common.edit': 'Edit',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+
+  'nav.manage': 'Manage & export data',
+  'nav.jobs': 'Generation queue',
+  'nav.stats': 'Study record',
+
+  'header.install': '📲 Install',
+  'header.switchLanguage': 'Switch display language',
+  'header.share': 'Share the app',
+  'header.profile': 'Profile: {name}',
+  'header.view.manage': 'Management',
+  'header.view.jobs': 'Generation Queue',
+  'header.view.stats': 'Statistics',
+  'header.view.play': 'Playing',
+
+  'storage.loadFailed': 'Could not load the database. Changes will not be saved.',
+  'storage.itemsFailed': 'Failed to save the questions. Check the available storage space.',
+  'storage.quarantineFailed': 'Failed to save the review list.',
+  'storage.sessionFailed': 'Failed to save the study record.',
+  'storage.jobFailed': 'Failed to save the generation job.',
+  'storage.answersFailed': 'Failed to save the answer history.',
+  'storage.snapshotFailed': 'Could not save the snapshot used for undo.',
+  'storage.profileFailed': 'Failed to save the profile.',
+
+  'settings.apiKeyRequired': 'Please enter an API key.',
+  'settings.serverUrlRequired': 'Please enter the server URL.',
+  'settings.saved': 'Settings saved!',
+  'settings.apiKeyPrompt': 'A Gemini API key is needed to create questions.\nOpen the settings to enter one?',
+  'settings.title': 'Settings',
+  'settings.provider': 'Question generator',
+  'settings.model': 'Model',
+  'settings.modelDefault': 'Uses {model} when empty.',
+  'settings.uiLanguage': 'Display language',
+  'settings.uiLanguageHint': 'The language of the questions is chosen in the generation options on the home screen.',
+  'settings.geminiKey': 'Gemini API key',
+  'settings.getKey': 'Get one from Google AI Studio',
+  'settings.serverUrl': 'Server URL',
+  'settings.serverUrlHint': 'An OpenAI-compatible API with /chat/completions (Ollama, llama.cpp, vLLM, ...)',
+  'settings.serverKey': 'API key (optional)',
+  'settings.mockHint': 'Returns built-in sample questions without using the network. Useful for trying out generation and duplicate checks.',
+  'settings.factCheck': 'AI fact check',
+  'settings.factCheckHint': 'Each generated question is solved again by a separate AI call and its explanation is checked. Doubtful questions go to "Questions to review". This triples the API requests per batch.',
+  'settings.factCheckModel': 'Model for checking (empty: same as generation)',
+
+  'profiles.title': 'Profiles',
+  'profiles.description': 'Questions are shared by everyone. Answer history, review schedule, stats and settings are kept per profile.',
+  'profiles.defaultName': 'Main',
+  'profiles.active': 'In use',
+  'profiles.switch': 'Switch',
+  'profiles.export': 'Export',
+  'profiles.delete': 'Delete',
+  'profiles.newPlaceholder': 'Name of the new profile',
+  'profiles.create': 'Add',
+  'profiles.answers': '{count} answers',
+  'profiles.confirm.delete': 'Delete the profile "{name}" with its answer history, review schedule and settings?\nThe questions are kept.',
+  'profiles.alert.busy': 'Profiles cannot be switched while questions are being generated.',
+
+  'error.occurred': 'An error occurred:\n{message}',
+
+  'validation.trimmed': '{field}: removed surrounding spaces',
+  'validation.empty': '{field} is empty',
+  'validation.duplicateOption': 'Choices {first} and {second} are the same',
+  'validation.unknownLevel': 'Unknown level: "{level}"',
+  'validation.levelNormalized': 'level: "{from}" → "{to}"',
+  'validation.correctIdxConverted': 'correct_idx: converted text to a number',
+  'validation.correctIdxRange': 'correct_idx must be a whole number from 0 to 3 (value: {value})',
+  'validation.emptyValue': 'empty',
+  'validation.wikiNormalized': 'wiki_link: normalized the URL',
+  'validation.notWikipedia': 'Not a Wikipedia link: {url}',
+  'validation.isJapanInvalid': 'is_japan is not a true/false value (value: {value})',
+  'validation.isJapanConverted': 'is_japan: converted to true/false',
+  'validation.siteIdsNormalized': 'site_ids: removed unknown ids and normalized the format',
+  'validation.languageNormalized': 'language: "{from}" → "{to}"',
+  'validation.languageDetected': 'language: detected "{language}" from the question',
+  'validation.optionNotesNormalized': 'option_notes: matched the format to the four choices',
+
+  'factCheck.failed': 'The fact check could not be run ({kind})',
+  'factCheck.noAnswer': 'The verifier gave no answer',
+  'factCheck.otherAnswer': 'The verifier chose choice {option} as correct (confidence {confidence}%)',
+  'factCheck.alsoCorrect': 'Choices {options} may also be correct',
+  'factCheck.explanation': 'The explanation may contradict the answer',
+  'factCheck.explanationComment': 'The explanation may contradict the answer: {comment}',
+  'factCheck.lowConfidence': 'Needs a check because the verifier is unsure ({confidence}%)',
+
+  'generate.allQuarantined': 'All {count} generated questions failed validation or the fact check and were moved to "Needs review".',
+  'generate.scopeJapan': 'An overseas question was generated although Japan only was selected',
+  'generate.scopeOverseas': 'A question about Japan was generated although overseas only was selected',
+
+  'jobs.progress.preparing': 'Preparing...',
+  'jobs.progress.writing': 'AI is writing ({count} questions, {focus})...',
+  'jobs.progress.waiting': 'Waiting for the rate limit ({seconds}s)...',
+  'jobs.progress.saving': 'Saving...',
+  'jobs.progress.batchDone': 'Done! Next batch...',
+  'jobs.alert.halted': 'Auto generation was interrupted:\n{message}\n\nYou can resume it from the generation queue.',
+  'jobs.alert.stopped': 'Auto generation stopped.\nYou can resume it from the generation queue.',
+  'jobs.alert.offline': 'Auto generation paused because you went offline.\nIt resumes automatically once you are back online.',
+  'jobs.alert.someFailed': 'Auto generation finished. {count} job(s) failed.\nCheck the log in the generation queue.',
+  'jobs.alert.stalled': '{count} job(s) were paused because no new questions were being added.\nIf most were duplicates, try another theme.',
+  'jobs.alert.allDone': '🎉 Every job in the queue is complete!',
+  'jobs.alert.targetReached': 'The target of {target} questions has already been reached!',
+  'jobs.alert.deferredOffline': 'You are offline. Generation will start once you are back online.',
+  'jobs.alert.levelFull': 'No more questions can be added to {level} (limit {max}).',
+  'jobs.alert.queuedOffline': 'Queued {count} questions for {level}.\nThey will be created once you are back online (see the generation queue).',
+  'jobs.alert.alreadyQueued': 'An auto generation job for {level} is already in the queue.',
+  'jobs.confirm.auto': 'The target for {level} is {target} questions.\nThere are {current} now.\n\nStart generating continuously until the target is reached?\n(You can press "Stop" at any time. The job resumes after a reload.)',
+  'jobs.progress.stopping': 'Stopping...',
+  'jobs.add': 'Add a job',
+  'jobs.targetCount': 'Target count',
+  'jobs.topic': 'Theme (optional)',
+  'jobs.topicPlaceholder': 'Empty: fill coverage gaps',
+  'jobs.enqueue': 'Add to queue',
+  'jobs.current': '{count} questions now. Jobs run in order and resume after a reload.',
+  'jobs.run': '▶ Run queue',
+  'jobs.runWhenOnline': '📶 Runs when online',
+  'jobs.clearFinished': 'Clear finished',
+  'jobs.usage': 'API usage ({provider}): today {day}/{rpd}, last minute {minute}/{rpm}',
+  'jobs.empty': 'No jobs',
+  'jobs.theme': 'Theme: {topic}',
+  'jobs.autoTopic': 'Automatic (coverage)',
+  'jobs.summary': 'Added {added} ・ Duplicates {duplicates} ・ To review {quarantined} ・ Errors {errors}',
+  'jobs.resumeOne': 'Resume',
+  'jobs.closeLog': 'Hide log',
+  'jobs.log': 'Log ({count})',
+  'jobs.log.time': 'Time',
+  'jobs.log.requested': 'Asked',
+  'jobs.log.added': 'Added',
+  'jobs.log.duplicates': 'Dupes',
+  'jobs.log.quarantined': 'Review',
+  'jobs.log.focus': 'Theme / error',
+  'jobs.log.noProgress': 'Paused: no new questions were added in {count} batches in a row',
+  'jobs.running': 'Running: {level} {current}/{target} — {status}',
+  'jobs.waiting': 'Queued or paused jobs: {count}',
+
+  'play.alert.noItems': 'There are no saved questions yet.',
+  'play.alert.nothingDue': 'Nothing is due for review right now.\nPlease come back later.',
+  'play.alert.finished': 'Well done!\nYour score: {score} / {total}',
+  'play.quit': 'Quit to home',
+  'play.confirmQuit': 'Really quit?',
+  'play.correct': 'Correct!',
+  'play.wrong': 'Not quite...',
+  'play.aboutOption': 'About "{option}"',
+  'play.next': 'Next question 👉',
+  'play.showResult': 'See results 🏆',
+
+  'exam.confirm.short': 'The {level} mock exam has {full} questions, but only {saved} are saved.\nStart with {count} questions and {minutes} minutes?',
+  'exam.confirm.start': '{level} mock exam\n{count} questions, {minutes} minutes, pass mark {pass}%\n\nStart now?',
+  'exam.unanswered': 'Unanswered: {count}',
+  'exam.flaggedCount': 'Flagged: {count}',
+  'exam.confirm.submit': 'Submit your answers for grading?',
+  'exam.answered': 'Answered {count}/{total}',
+  'exam.questionNumber': 'Question {n}',
+  'exam.prev': '← Previous',
+  'exam.unflag': 'Unflag',
+  'exam.flag': 'Flag for review',
+  'exam.next': 'Next →',
+  'exam.paletteLegend': 'Blue: answered / Yellow ring: flagged',
+  'exam.submit': 'Submit and grade 🏁',
+  'exam.resultTitle': '{level} mock exam result',
+  'exam.passed': 'Passed 🎉',
+  'exam.failed': 'Not passed',
+  'exam.passMark': 'Pass mark {percent}%',
+  'exam.answeredResult': 'Answered {count}/{total}',
+  'exam.timeUsed': 'Time used {time}',
+  'exam.yourAnswer': 'Your answer:',
+  'exam.noAnswer': 'Not answered',
+  'exam.correctAnswer': 'Correct answer:',
+
+  'reports.alert.regeneratedQuarantined': 'The regenerated question had problems and was moved to "Needs review". The original stays reported.',
+  'reports.confirm.replace': 'Replace it with this question?\n\n{question}\nAnswer: {answer}',
+  'reports.title': 'Reported questions ({count})',
+  'reports.description': 'Questions reported during play. Fix, regenerate or delete them, or dismiss the report if nothing is wrong.',
+  'reports.includeReported': 'Keep asking reported questions',
+  'reports.regenerating': 'Creating...',
+  'reports.regenerate': 'Regenerate',
+  'reports.dismiss': 'Looks fine',
+
+  'snapshot.regenerate': 'Regenerating a reported question',
+  'snapshot.bulkDelete': 'Deleting {count} questions',
+  'snapshot.deleteItem': 'Deleting a question',
+  'snapshot.rebalance': 'Rebalancing answer positions',
+  'snapshot.mergeDuplicates': 'Merging duplicates',
+  'snapshot.confirm.restore': 'Go back to the state before "{reason}" ({at})?\nThe current state is saved as a snapshot as well.',
+  'snapshot.restore': 'Restoring a snapshot',
+  'snapshot.backupReplace': 'Replacing with a backup',
+  'snapshot.backupMerge': 'Merging a backup',
+  'snapshot.importOverwrite': 'Overwriting by import',
+  'snapshot.title': 'Automatic snapshots (last {count})',
+  'snapshot.entry': 'Before "{reason}" ・ {count} questions',
+  'snapshot.restoreButton': 'Restore this state',
+  'snapshot.discardQuarantine': 'Discarding questions to review',
+  'snapshot.deleteAll': 'Deleting all data',
+  'snapshot.profileDelete': 'Deleting the profile "{name}"',
+
+  'manage.confirm.similarExists': 'A very similar question already exists. Add it anyway?',
+  'manage.confirm.deleteItem': 'Delete this question?',
+  'manage.confirm.relink': 'Re-link every question to the World Heritage catalog?',
+  'manage.alert.relinked': 'Updated the links of {count} questions.',
+  'manage.title': 'Data management',
+  'manage.library': 'Library',
+  'manage.relink': 'Update heritage links',
+  'manage.linked': 'Questions linked to a site: {linked} / {total} ({sites} sites, {catalog} in the catalog)',
+  'manage.confirm.deleteAll': 'Delete all data?',
+  'manage.deleteAll': 'Delete all data',
+
+  'browser.confirm.bulkDelete': 'Delete the {count} selected questions?',
+  'browser.confirm.bulkLevel': 'Change the level of the {count} selected questions to "{level}"?',
+  'browser.title': 'Questions',
+  'browser.searchPlaceholder': 'Search questions, options and explanations',
+  'browser.selectPage': 'Select this page (of {count})',
+  'browser.selected': '{count} selected',
+  'browser.changeLevel': 'Change level',
+  'browser.clearSelection': 'Clear selection',
+  'browser.reported': '🚩 Reported',
+  'browser.empty': 'No matching questions',
+  'browser.prev': '← Prev',
+  'browser.next': 'Next →',
+
+  'balance.alert.alreadyEven': 'The answer positions are already even.',
+  'balance.confirm.rebalance': 'Swap the options of {count} questions to even out the answer positions?',
+  'balance.title': 'Answer position balance',
+  'balance.rebalance': 'Rebalance',
+  'balance.description': 'Options are shuffled during play. To keep exported sets from favouring one position, the stored option order can be evened out too.',
+  'balance.option': 'Option {n}',
+  'balance.share': ' ({percent}%)',
+
+  'duplicates.confirm.merge': 'Keep the selected question and merge by deleting the other {count}?',
+  'duplicates.title': 'Duplicate check',
+  'duplicates.scanning': 'Scanning...',
+  'duplicates.rescan': 'Rescan',
+  'duplicates.scan': 'Scan',
+  'duplicates.description': 'Groups questions with the same answer and very similar wording, including paraphrases.',
+  'duplicates.none': 'No duplicate candidates found 🎉',
+  'duplicates.cluster': 'Candidate {n} ({count} questions)',
+  'duplicates.keep': 'Keep this question',
+  'duplicates.dismiss': 'Not duplicates',
+  'duplicates.merge': 'Keep selected and merge',
+
+  'backup.alert.busy': 'Cannot restore while auto generation is running. Stop it and try again.',
+  'backup.alert.failed': 'The restore failed. Your data was not changed.',
+  'backup.confirm.replace': 'All current data will be replaced by the backup. Continue?\n(The previous state can be restored from a snapshot.)',
+  'backup.alert.restored': 'The backup was restored.',
+  'backup.title': 'Backup and restore',
+  'backup.description': 'Saves questions, the review list, answer history, review schedule, generation jobs, study records and generator settings in one file (API keys are not included).',
+  'backup.save': '💾 Save backup',
+  'backup.restore': '📂 Restore from backup',
+  'backup.fileInfo': '{name} (created {at}, {count} records)',
+  'backup.diff.store': 'Data',
+  'backup.diff.added': 'Added',
+  'backup.diff.changed': 'Changed',
+  'backup.diff.unchanged': 'Same',
+  'backup.diff.removed': 'Removed on replace',
+  'backup.modeHint': '"Merge" keeps the current data and adds or updates records. "Replace" swaps the current data and generator settings for the backup.',
+  'backup.replace': 'Replace',
+  'backup.merge': 'Merge',
+  'backup.profileHint': 'This is an export of the profile "{name}". Its answer history and settings are added (merged into the same profile if it exists). It contains no questions.',
+  'backup.importProfile': 'Import profile',
+  'backup.error.invalidJson': 'The backup file is not valid JSON.',
+  'backup.error.notBackup': 'This is not a backup from this app. Files with questions only are read with "Import".',
+  'backup.error.newerVersion': 'This backup is from a newer version (version {version}). Please update the app.',
+
+  'import.confirm.overwrite': 'This deletes the {current} existing questions and replaces them with {count}. Continue?',
+  'import.title': 'Review the import',
+  'import.file': '{name} ({format})',
+  'import.readable': 'Readable',
+  'import.errors': 'Errors',
+  'import.duplicates': 'Duplicates (skipped on add)',
+  'import.errorLine': 'Line {n}',
+  'import.errorQuestion': 'Question {n}',
+  'import.quarantined': '{count} questions that failed validation will be moved to "Questions to review".',
+  'import.overwrite': 'Overwrite',
+  'import.append': 'Add to existing',
+  'import.heading': 'Import',
+  'import.chooseFile': 'Choose a file',
+  'import.formats': 'Supports {formats} (detected automatically)',
+  'import.parse.invalidJson': 'The file is not valid JSON.',
+  'import.parse.noItems': 'No question list (items) was found.',
+  'import.parse.newerSchema': 'This file is from a newer version (schemaVersion {version}). Please update the app.',
+  'import.parse.invalidXml': 'The file is not valid XML.',
+  'import.parse.missingColumns': 'Required columns are missing: {columns}',
+  'import.parse.columnCount': 'Wrong number of columns ({expected} expected, {actual} found)',
+  'import.parse.unterminatedQuote': 'A quotation mark (") is not closed. Nothing from this line on was read.',
+  'import.parse.notAnki': 'Not in the Anki layout this app exports (four choices on the front, the answer on the back)',
+  'import.parse.noAnswerBlock': 'No answer block { } was found',
+  'import.parse.notSingleAnswer': 'Not a four-choice question with one answer ({count} choices)',
+  'import.parse.notMultichoice': 'Not a multiple-choice question ({type})',
+
+  'export.alert.empty': 'No questions match the conditions.',
+  'export.title': 'Export',
+  'export.download': 'Download {count} questions',
+
+  'worksheet.title': 'Printable worksheets',
+  'worksheet.description': 'Numbered question sheets and answer keys from the {count} questions matching the export conditions. Choose "Save as PDF" in the print dialog to get a PDF.',
+  'worksheet.questionCount': 'Questions',
+  'worksheet.copies': 'Versions',
+  'worksheet.copiesHint': 'Each version has its own question and option order (the same seed always gives the same sheets).',
+  'worksheet.seed': 'Seed',
+  'worksheet.newSeed': '🎲 New seed',
+  'worksheet.answerKey': 'Add answer key pages',
+  'worksheet.explanations': 'Include explanations in the answer key',
+  'worksheet.print': '🖨 Print / PDF',
+  'worksheet.saveHtml': 'Save HTML',
+  'worksheet.popupBlocked': 'Could not open the print window. Please allow pop-ups.',
+
+  'share.copied': 'URL copied!',
+  'share.copyFailed': 'Failed to copy the URL',
+
+  'quizSet.shareSession': '🔗 Share this set',
+  'quizSet.shareFiltered': '🔗 Share the filtered questions',
+  'quizSet.shareSelected': 'Share',
+  'quizSet.panelTitle': 'Share a quiz set ({count} questions)',
+  'quizSet.panelHint': 'Opening the link or file lets the recipient play these questions right away and add them to their own question bank.',
+  'quizSet.shareLink': '🔗 Share link',
+  'quizSet.saveFile': '💾 Save .whquiz file',
+  'quizSet.tooLong': 'Too many questions for a link. Send the file instead.',
+  'quizSet.shareText': 'Try these {count} World Heritage quiz questions!',
+  'quizSet.empty': 'There are no questions to share.',
+  'quizSet.invalid': 'Could not open the quiz set. The file is damaged or was made by a newer version of the app.',
+  'quizSet.noPlayable': 'This quiz set has no playable questions.',
+  'quizSet.received': 'Opened a shared quiz set ({count} questions).',
+  'quizSet.skipped': '{count} questions with broken content were left out.',
+  'quizSet.import': 'Add to my questions ({count} new)',
+  'quizSet.allKnown': 'All of these questions are already in your bank.',
+  'quizSet.imported': 'Added {count} questions ({duplicates} duplicates skipped).',
+
+  'home.lead1': 'Build question sets with AI, then manage and export them as CSV.',
+  'home.lead2': 'Auto generation can now fill each level up to a target count.',
+  'home.pausedJobs': '⏸ {count} interrupted auto generation job(s)',
+  'home.manualCount': 'Questions per batch:',
+  'home.topicPlaceholder': 'Theme (optional; leave empty to fill coverage gaps)',
+  'home.autoRunning': 'Auto generating',
+  'home.waitingForBatch': 'Finishing batch...',
+  'home.generating': 'Creating {count} questions...',
+  'home.generatingHint': '(takes about 5-10 seconds)',
+  'home.target': 'Target: {count}',
+  'home.saved': 'Saved',
+  'home.generate': '⚡️ Create {count}',
+  'home.queueCount': '📶 {count} questions',
+  'home.queueWhenOnline': 'Create when online',
+  'home.review': '📚 Practice',
+  'home.spaced': '🧠 Review',
+  'home.due': '{count} due',
+  'home.exam': '📝 Mock exam ({count} questions, {minutes} min)',
+  'home.autoGenerate': '🤖 Auto generate up to {target}',
+
+  'stats.empty': 'No answers yet. Your answers will be recorded here as you play.',
+  'stats.answered': 'Answered',
+  'stats.accuracy': 'Accuracy',
+  'stats.streak': 'Current streak',
+  'stats.longestStreak': 'Longest streak',
+  'stats.days': '{count} days',
+  'stats.byLevel': 'Accuracy by level',
+  'stats.trend': 'Per-session trend (last {count})',
+  'stats.trendLabel': 'Accuracy trend by level',
+  'stats.trendLegend': '{level} ({count})',
+  'stats.japanOverseas': 'Japan and overseas',
+  'stats.japan': '🇯🇵 Japan',
+  'stats.overseas': '🌍 Overseas',
+  'stats.daily': 'Answers per day (30 days)',
+  'stats.dailyLegend': 'Green is correct, grey is wrong.',
+  'stats.dailyLabel': 'Answers per day',
+  'stats.dailyTooltip': '{day}: {answered} answered ({correct} correct)',
+  'stats.weakThemes': 'Weakest themes',
+  'stats.weakThemesEmpty': 'Shown once you answer 5 or more questions per theme.',
+  'stats.weakSites': 'Weakest sites',
+  'stats.weakSitesEmpty': 'Shown once you answer 5 or more questions per site.',
+  'stats.mostMissed': 'Most missed questions',
+  'stats.mostMissedEmpty': 'No missed questions yet.',
+  'stats.missed': 'missed {missed}/{answered}',
+  'stats.sessions': 'Recorded sessions: {count}',
+
+  'options.anyStyle': 'Any style',
+  'options.temperatureValue': 'Temperature {value}',
+  'options.language': 'Question language',
+  'options.scope': 'Scope',
+  'options.styles': 'Style',
+  'options.stylesHint': 'None selected: any',
+  'options.temperature': 'Temperature',
+
+  'filter.allLanguages': 'All languages',
+  'filter.allRegions': 'Japan & overseas',
+  'filter.japan': 'Japan only',
+  'filter.overseas': 'Overseas only',
+  'filter.allHeritageRegions': 'All regions',
+  'filter.keyword': 'Filter by keyword',
+  'filter.allLevels': 'All levels',
+  'filter.allSites': 'All sites',
+  'filter.siteOption': '{name} ({count})',
+
+  'editor.unset': '(not set)',
+  'editor.language': 'Language',
+  'editor.isJapan': '🇯🇵 Site in Japan',
+  'editor.question': 'Question',
+  'editor.options': 'Options (◉ = correct)',
+  'editor.markCorrect': 'Mark option {n} as correct',
+  'editor.notePlaceholder': 'Note for this wrong answer (optional), e.g. That is in Peru, not Bolivia',
+  'editor.explanation': 'Explanation',
+  'editor.trivia': 'Trivia',
+  'editor.fixAndAdd': 'Fix and add',
+  'editor.save': 'Save',
+
+  'site.info': '{countries} ・ inscribed {year}',
+  'site.infoEndangered': '{countries} ・ inscribed {year} ・ in danger',
+
+  'quarantine.title': 'Questions to review ({count})',
+  'quarantine.confirm.discardAll': 'Discard all questions awaiting review?',
+  'quarantine.discardAll': 'Discard all',
+  'quarantine.description': 'Questions that could not be repaired automatically or were doubted by the fact check. They are not in the question bank.',
+  'quarantine.noLevel': 'No level',
+  'quarantine.confidence': 'Answer confidence {percent}%',
+  'quarantine.noQuestion': '(no question text)',
+  'quarantine.approve': 'Approve',
+  'quarantine.discard': 'Discard',
+
+  'coverage.expected': 'Expected {value}',
+  'coverage.title': 'Coverage ({language} questions)',
+  'coverage.description': 'Shows how each level covers themes, regions and the Japan share. Auto generation targets the red (missing) cells first.',
+  'coverage.item': 'Item',
+  'coverage.japanShare': 'Japan share',
+  'coverage.sites': 'Sites covered',
+  'coverage.excludingJapan': ' (excluding Japan)',
+  'coverage.reason.balance': 'Japan share {share}% (target {target}%)',
+  'coverage.reason.region': '; {region} is under-represented',
+  'coverage.reason.theme': 'Only {count} questions on the theme "{theme}"; {balance}',
+  'coverage.reason.newSite': 'A site not asked yet{region}; {balance}',
+  'coverage.reason.site': 'A site with only {count} questions{region}; {balance}',
+  'coverage.reason.random': 'Random',
+
+  'report.done': '🚩 Reported ({reason})',
+  'report.open': '🚩 Report this question',
+  'report.notePlaceholder': 'Details (optional), e.g. It was delisted in 2021',
+  'report.hiddenUntilFixed': 'Reported questions are not asked until they are fixed.',
+  'report.submit': 'Report',
+
+  'offline.title': '📴 You are offline. ',
+  'offline.description': 'Practice, review and mock exams keep working. New questions are created once you are back online.',
+
+  'undo.saved': '↩ Saved the state before "{reason}"',
+  'undo.button': 'Undo',
+};
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { ja, en };
+
+export type Translator = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const createTranslator = (language: Language): Translator => (key, params) => {
+  const text = CATALOGS[language][key];
+  return params ? text.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : text;
+};
+
+// Messages built outside the UI (validation, file parsers) carry both languages, so stored
+// records follow a later language switch. LocalizedText params are filled in per language.
+export const localizedMessage = (key: MessageKey, params?: Record<string, string | number | LocalizedText>): LocalizedText => {
+  const translate = (language: Language) => createTranslator(language)(key, params && Object.fromEntries(
+    Object.entries(params).map(([name, value]) => [name, typeof value === 'object' ? value[language] : value])
+  ));
+  return { ja: translate('ja'), en: translate('en') };
+};
+
+export const joinLocalized = (texts: LocalizedText[], separator: string): LocalizedText => ({
+  ja: texts.map(text => text.ja).join(separator),
+  en: texts.map(text => text.en).join(separator),
+});
+
+// Records saved before messages were localized hold a plain string
+export const localized = (text: LocalizedText | string, language: Language): string =>
+  typeof text === 'string' ? text : text[language];
+
+export const translateMessage = (message: MessageRef | string, t: Translator): string =>
+  typeof message === 'string' ? message : t(message.key, message.params);
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { appendLog, consecutiveEmptyBatches, consecutiveFailures, createJob } from './jobs';
+import { BatchLogEntry, QuizLevel } from './types';
+
+const batch = (added: number, extra: Partial<BatchLogEntry> = {}): BatchLogEntry =>
+  ({ at: 0, requested: 10, added, duplicates: 10 - added, quarantined: 0, ...extra });
+
+const jobWith = (entries: BatchLogEntry[]) => entries.reduce(appendLog, createJob(QuizLevel.LEVEL_2, 100));
+
+describe('consecutiveEmptyBatches', () => {
+  it('counts the trailing batches that added nothing, failed ones included', () => {
+    expect(consecutiveEmptyBatches(jobWith([]))).toBe(0);
+    expect(consecutiveEmptyBatches(jobWith([batch(0), batch(3), batch(0), batch(0, { error: '[unknown] x' }), batch(0)]))).toBe(3);
+  });
+
+  it('starts over after the job was paused for lack of progress', () => {
+    const note = { ja: '一時停止', en: 'Paused' };
+    expect(consecutiveEmptyBatches(jobWith([batch(0), batch(0), batch(0, { requested: 0, note }), batch(0)]))).toBe(1);
+  });
+});
+
+describe('consecutiveFailures', () => {
+  it('counts only the trailing failed batches', () => {
+    expect(consecutiveFailures(jobWith([batch(0, { error: 'a' }), batch(2), batch(0, { error: 'b' }), batch(0, { error: 'c' })]))).toBe(2);
+  });
+});
@@ -0,0 +1,73 @@
+import { BatchLogEntry, GenerationJob, GeneratorOptions, LocalizedText, QuizLevel } from './types';
+import { generateId } from './utils';
+
+// Keep the log bounded; a 1,000 question job runs about 100 batches
+const MAX_LOG_ENTRIES = 300;
+
+// Give up on a job after this many failed batches in a row
+export const MAX_CONSECUTIVE_FAILURES = 5;
+
+// Pause a job after this many batches in a row that added nothing (all duplicates,
+// quarantined or off-target), e.g. once a small provider has nothing new to offer
+export const MAX_EMPTY_BATCHES = 5;
+
+export const JOB_STATUS_LABELS: Record<GenerationJob['status'], LocalizedText> = {
+  queued: { ja: '待機中', en: 'Queued' },
+  running: { ja: '実行中', en: 'Running' },
+  paused: { ja: '一時停止', en: 'Paused' },
+  done: { ja: '完了', en: 'Done' },
+  failed: { ja: '失敗', en: 'Failed' },
+};
+
+export const createJob = (level: QuizLevel, target: number, topic: string = '', options?: GeneratorOptions): GenerationJob => {
+  const now = Date.now();
+  return {
+    id: generateId(),
+    level,
+    target,
+    topic: topic.trim(),
+    options,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    log: [],
+  };
+};
+
+export const appendLog = (job: GenerationJob, entry: BatchLogEntry): GenerationJob => ({
+  ...job,
+  log: [...job.log, entry].slice(-MAX_LOG_ENTRIES),
+  updatedAt: entry.at,
+});
+
+// Trailing run of failed batches, used to decide when to give up
+export const consecutiveFailures = (job: GenerationJob): number => {
+  let count = 0;
+  for (let i = job.log.length - 1; i >= 0 && job.log[i].error; i--) count++;
+  return count;
+};
+
+// Trailing run of batches that added no question, since the job last stopped for that reason
+export const consecutiveEmptyBatches = (job: GenerationJob): number => {
+  let count = 0;
+  for (let i = job.log.length - 1; i >= 0 && job.log[i].added === 0 && !job.log[i].note; i--) count++;
+  return count;
+};
+
+export const summarizeLog = (job: GenerationJob) => job.log.reduce(
+  (sum, e) => ({
+    added: sum.added + e.added,
+    duplicates: sum.duplicates + e.duplicates,
+    quarantined: sum.quarantined + e.quarantined,
+    errors: sum.errors + (e.error ? 1 : 0),
+  }),
+  { added: 0, duplicates: 0, quarantined: 0, errors: 0 }
+);
+
+// A job left 'running' means the tab was closed mid-run; it resumes as paused
+export const restoreJobs = (jobs: GenerationJob[]): GenerationJob[] =>
+  jobs
+    .map(job => job.status === 'running' ? { ...job, status: 'paused' as const } : job)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+export const isJobActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running' || job.status === 'paused';
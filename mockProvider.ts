@@ -0,0 +1,199 @@
+import { Language, QuizProvider } from './types';
+
+type Fixture = {
+  question: string;
+  options: [string, string, string, string];
+  correct_idx: number;
+  explanation: string;
+  advanced_explanation: string;
+  wiki_link: string;
+  is_japan: boolean;
+  option_notes?: string[];
+  language?: Language; // Default 'ja'
+};
+
+const FIXTURES: Fixture[] = [
+  {
+    question: "樹齢数千年といわれる縄文杉で知られ、1993年に日本初の世界自然遺産の一つとして登録されたのはどれ？",
+    options: ["屋久島", "知床", "小笠原諸島", "奄美大島、徳之島、沖縄島北部及び西表島"],
+    correct_idx: 0,
+    explanation: "屋久島は白神山地とともに1993年、日本で最初に世界自然遺産に登録されました。",
+    advanced_explanation: "標高による植生の垂直分布が顕著で、亜熱帯から亜寒帯までの植物が見られます。",
+    wiki_link: "https://ja.wikipedia.org/wiki/屋久島",
+    is_japan: true,
+    option_notes: ["", "知床は2005年に登録された北海道の自然遺産です。", "小笠原諸島の登録は2011年です。", "奄美・沖縄の4地域は2021年に登録されました。"],
+  },
+  {
+    question: "現存する世界最古の木造建築群を含む、奈良県斑鳩町の世界遺産はどれ？",
+    options: ["古都奈良の文化財", "法隆寺地域の仏教建造物", "古都京都の文化財", "紀伊山地の霊場と参詣道"],
+    correct_idx: 1,
+    explanation: "法隆寺地域の仏教建造物は1993年に日本初の世界文化遺産として登録されました。",
+    advanced_explanation: "法隆寺と法起寺の建造物で構成され、飛鳥時代の様式を今に伝えています。",
+    wiki_link: "https://ja.wikipedia.org/wiki/法隆寺地域の仏教建造物",
+    is_japan: true,
+  },
+  {
+    question: "インカ帝国の遺跡「マチュ・ピチュの歴史保護区」がある国はどこ？",
+    options: ["ボリビア", "エクアドル", "ペルー", "チリ"],
+    correct_idx: 2,
+    explanation: "マチュ・ピチュはペルーのアンデス山中にあるインカの都市遺跡で、複合遺産に登録されています。",
+    advanced_explanation: "1911年にアメリカの探検家ハイラム・ビンガムによって世界に紹介されました。",
+    wiki_link: "https://ja.wikipedia.org/wiki/マチュ・ピチュ",
+    is_japan: false,
+    option_notes: ["ボリビアにはティワナクなどの遺跡がありますが、マチュ・ピチュはありません。", "エクアドルはガラパゴス諸島やキトで知られます。", "", "チリの世界遺産にはラパ・ヌイ国立公園（イースター島）があります。"],
+  },
+  {
+    question: "1978年に世界遺産リストへ最初に登録された物件の一つで、独自の進化を遂げた生物が見られる諸島はどれ？",
+    options: ["ガラパゴス諸島", "ハワイ火山国立公園", "グレート・バリア・リーフ", "ソコトラ諸島"],
+    correct_idx: 0,
+    explanation: "エクアドルのガラパゴス諸島は1978年の第1回登録で世界遺産となりました。",
+    advanced_explanation: "ダーウィンが進化論の着想を得た地として知られ、2007年から2010年まで危機遺産リストに記載されていました。",
+    wiki_link: "https://ja.wikipedia.org/wiki/ガラパゴス諸島",
+    is_japan: false,
+  },
+  {
+    question: "カンボジアのアンコール・ワットを建立したとされる王は誰？",
+    options: ["ジャヤヴァルマン7世", "アショーカ王", "ラーマ1世", "スールヤヴァルマン2世"],
+    correct_idx: 3,
+    explanation: "アンコール・ワットは12世紀前半、スールヤヴァルマン2世によってヒンドゥー寺院として建立されました。",
+    advanced_explanation: "ジャヤヴァルマン7世は後にアンコール・トムを整備した王です。",
+    wiki_link: "https://ja.wikipedia.org/wiki/アンコール・ワット",
+    is_japan: false,
+  },
+  {
+    question: "白漆喰の美しい外観から「白鷺城」とも呼ばれる世界遺産はどれ？",
+    options: ["松本城", "姫路城", "首里城跡", "二条城"],
+    correct_idx: 1,
+    explanation: "姫路城は1993年に世界文化遺産に登録され、白鷺城の別名で親しまれています。",
+    advanced_explanation: "大天守と小天守を渡櫓でつなぐ連立式天守の代表例です。",
+    wiki_link: "https://ja.wikipedia.org/wiki/姫路城",
+    is_japan: true,
+  },
+  {
+    question: "世界遺産条約がユネスコ総会で採択されたのは何年？",
+    options: ["1965年", "1978年", "1972年", "1992年"],
+    correct_idx: 2,
+    explanation: "世界遺産条約は1972年の第17回ユネスコ総会で採択されました。",
+    advanced_explanation: "日本が条約を締結したのは1992年で、125番目の締約国となりました。",
+    wiki_link: "https://ja.wikipedia.org/wiki/世界遺産",
+    is_japan: false,
+  },
+  {
+    question: "周辺の高層ビル計画により2004年に危機遺産リストに記載され、2006年に解除されたドイツの大聖堂はどれ？",
+    options: ["アーヘン大聖堂", "シュパイアー大聖堂", "ヒルデスハイムの大聖堂", "ケルン大聖堂"],
+    correct_idx: 3,
+    explanation: "ケルン大聖堂は景観への影響が問題となり危機遺産に記載されましたが、建築計画の見直しで解除されました。",
+    advanced_explanation: "着工から完成まで600年以上を要したゴシック様式の大聖堂です。",
+    wiki_link: "https://ja.wikipedia.org/wiki/ケルン大聖堂",
+    is_japan: false,
+  },
+  {
+    question: "「富士山－信仰の対象と芸術の源泉」は、どの種類の世界遺産として登録された？",
+    options: ["自然遺産", "文化遺産", "複合遺産", "無形文化遺産"],
+    correct_idx: 1,
+    explanation: "富士山は2013年、信仰や芸術との関わりが評価され文化遺産として登録されました。",
+    advanced_explanation: "構成資産には三保松原など、山体から離れた場所も含まれています。",
+    wiki_link: "https://ja.wikipedia.org/wiki/富士山",
+    is_japan: true,
+  },
+  {
+    question: "コロラド川の浸食によって形成された、アメリカ合衆国アリゾナ州の大峡谷を含む世界遺産はどれ？",
+    options: ["ヨセミテ国立公園", "イエローストーン国立公園", "グランド・キャニオン国立公園", "カールズバッド洞窟群国立公園"],
+    correct_idx: 2,
+    explanation: "グランド・キャニオン国立公園は1979年に自然遺産として登録されました。",
+    advanced_explanation: "露出した地層から約20億年分の地球の歴史を読み取ることができます。",
+    wiki_link: "https://ja.wikipedia.org/wiki/グランド・キャニオン",
+    is_japan: false,
+  },
+  {
+    question: "Which island, famous for its ancient Jomon sugi cedar, became one of Japan's first natural World Heritage sites in 1993?",
+    options: ["Yakushima", "Shiretoko", "Ogasawara Islands", "Amami-Oshima Island"],
+    correct_idx: 0,
+    explanation: "Yakushima was inscribed in 1993 together with Shirakami-Sanchi as Japan's first natural World Heritage sites.",
+    advanced_explanation: "Its vegetation changes with altitude from subtropical to subarctic.",
+    wiki_link: "https://en.wikipedia.org/wiki/Yakushima",
+    is_japan: true,
+    option_notes: ["", "Shiretoko in Hokkaido was inscribed in 2005.", "The Ogasawara Islands were inscribed in 2011.", "Amami-Oshima and the other islands were inscribed in 2021."],
+    language: 'en',
+  },
+  {
+    question: "In which country is the Historic Sanctuary of Machu Picchu?",
+    options: ["Bolivia", "Ecuador", "Peru", "Chile"],
+    correct_idx: 2,
+    explanation: "Machu Picchu is an Inca citadel in the Peruvian Andes, inscribed as a mixed site in 1983.",
+    advanced_explanation: "Hiram Bingham brought it to international attention in 1911.",
+    wiki_link: "https://en.wikipedia.org/wiki/Machu_Picchu",
+    is_japan: false,
+    option_notes: ["Bolivia has Tiwanaku, but not Machu Picchu.", "Ecuador is known for the Galápagos Islands and Quito.", "", "Chile's sites include Rapa Nui National Park (Easter Island)."],
+    language: 'en',
+  },
+  {
+    question: "Which US national park exposes nearly two billion years of geological history in its canyon walls?",
+    options: ["Yellowstone National Park", "Grand Canyon National Park", "Yosemite National Park", "Everglades National Park"],
+    correct_idx: 1,
+    explanation: "Grand Canyon National Park was inscribed as a natural site in 1979.",
+    advanced_explanation: "The Colorado River carved the canyon over millions of years.",
+    wiki_link: "https://en.wikipedia.org/wiki/Grand_Canyon_National_Park",
+    is_japan: false,
+    language: 'en',
+  },
+];
+
+// Each call continues where the previous one stopped, so repeated batches walk
+// through the fixtures and then start producing duplicates, like a real model.
+let cursor = 0;
+
+export const resetMockProvider = () => {
+  cursor = 0;
+};
+
+// Offline provider for trying out generation flows without network access
+export const mockProvider: QuizProvider = {
+  id: 'mock',
+  label: { ja: 'モック（オフライン・テスト用）', en: 'Mock (offline, for testing)' },
+  defaultModel: 'fixtures',
+  suggestedModels: ['fixtures'],
+  requiresApiKey: false,
+
+  async generate(request) {
+    // Simulate a short network round trip
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const { task } = request;
+
+    // Fact check: the fixtures know their own answers; anything else is accepted with moderate confidence
+    if (task.kind === 'answer') {
+      return JSON.stringify(task.items.map((item, index) => {
+        const fixture = FIXTURES.find(f => f.question === item.question);
+        return fixture
+          ? { index, answer_idx: fixture.correct_idx, confidence: 0.95, also_correct: [] }
+          : { index, answer_idx: item.correct_idx, confidence: 0.7, also_correct: [] };
+      }));
+    }
+    if (task.kind === 'review') {
+      return JSON.stringify(task.items.map((_, index) => ({ index, consistent: true, comment: '' })));
+    }
+
+    const { level, count, scope = 'any', styles = [], language = 'ja' } = task.config;
+    const pool = FIXTURES.filter(f => (f.language ?? 'ja') === language && (scope === 'any' || f.is_japan === (scope === 'japan')));
+    const items = Array.from({ length: count }, (_, i) => {
+      const fixture = pool[(cursor + i) % pool.length];
+      return {
+        level,
+        question: fixture.question,
+        option1: fixture.options[0],
+        option2: fixture.options[1],
+        option3: fixture.options[2],
+        option4: fixture.options[3],
+        correct_idx: fixture.correct_idx,
+        explanation: fixture.explanation,
+        advanced_explanation: fixture.advanced_explanation,
+        wiki_link: fixture.wiki_link,
+        is_japan: fixture.is_japan,
+        option_notes: fixture.option_notes ?? ['', '', '', ''],
+        question_style: styles.length > 0 ? styles[i % styles.length] : 'which_site',
+      };
+    });
+    cursor += count;
+    return JSON.stringify(items);
+  },
+};
@@ -0,0 +1,84 @@
+import { Schema } from "@google/genai";
+import { QuizProvider } from './types';
+import { MalformedResponseError, RateLimitedError, SafetyBlockedError } from './apiErrors';
+
+// Convert the Gemini schema notation (Type.STRING etc.) to standard JSON Schema
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = String(schema.type).toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    result.additionalProperties = false;
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+// Chat Completions API as served by llama.cpp, vLLM, Ollama, LM Studio, etc.
+export const openaiCompatibleProvider: QuizProvider = {
+  id: 'openai',
+  label: { ja: 'OpenAI互換サーバー', en: 'OpenAI-compatible server' },
+  defaultModel: 'llama3.1',
+  suggestedModels: ['llama3.1', 'qwen2.5', 'gpt-4o-mini'],
+  requiresApiKey: false,
+
+  async generate(request, settings) {
+    const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new Error("Server URL is missing.");
+    }
+
+    // Structured output requires an object at the root, so the question array is wrapped
+    const schema = {
+      type: 'object',
+      properties: { questions: toJsonSchema(request.schema) },
+      required: ['questions'],
+      additionalProperties: false,
+    };
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: settings.model || this.defaultModel,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'quiz_batch', strict: true, schema },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      if (response.status === 429) {
+        // Retry-After is given in seconds
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        throw new RateLimitedError(`HTTP 429: ${body.slice(0, 300)}`, retryAfter > 0 ? retryAfter * 1000 : null);
+      }
+      const error: any = new Error(`HTTP ${response.status}: ${body.slice(0, 300)}`);
+      error.status = response.status;
+      throw error;
+    }
+
+    const data = await response.json().catch(() => null);
+    const choice = data?.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new SafetyBlockedError("Response blocked by the server's content filter.");
+    }
+    const text = choice?.message?.content;
+    if (!text) {
+      throw new MalformedResponseError("No content generated.");
+    }
+    return text;
+  },
+};
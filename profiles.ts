@@ -0,0 +1,43 @@
+import { Profile, StoredData } from './types';
+import { generateId } from './utils';
+
+// Records saved before profiles existed belong to this profile. It cannot be deleted.
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Device-wide: which profile was last used
+export const ACTIVE_PROFILE_KEY = 'wh_active_profile';
+
+// localStorage preferences that belong to a profile rather than to the device
+export const PROFILE_PREFERENCE_KEYS = ['gemini_user_api_key', 'wh_provider_settings', 'wh_include_reported', 'wh_ui_language'] as const;
+export type ProfilePreferenceKey = typeof PROFILE_PREFERENCE_KEYS[number];
+
+// The default profile keeps the original keys, so settings saved before profiles existed stay with it
+export const profileKey = (key: ProfilePreferenceKey, profileId: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+
+export const createProfile = (name: string): Profile => ({
+  id: generateId(),
+  name: name.trim(),
+  createdAt: Date.now(),
+});
+
+export const createDefaultProfile = (): Profile => ({ id: DEFAULT_PROFILE_ID, name: '', createdAt: Date.now() });
+
+// Archives and databases written before profiles existed have untagged records
+export const withProfileId = <T extends { profileId?: string }>(records: T[]): (T & { profileId: string })[] =>
+  records.map(r => typeof r.profileId === 'string' && r.profileId ? r as T & { profileId: string } : { ...r, profileId: DEFAULT_PROFILE_ID });
+
+// Only one learner's records, for a single-profile export. The shared question bank is left out.
+export const profileData = (data: StoredData, profileId: string): StoredData => ({
+  profiles: data.profiles.filter(p => p.id === profileId),
+  items: [],
+  quarantine: [],
+  answers: data.answers.filter(a => a.profileId === profileId),
+  reviews: data.reviews.filter(r => r.profileId === profileId),
+  jobs: [],
+  sessions: data.sessions.filter(s => s.profileId === profileId),
+});
+
+export const clearProfilePreferences = (profileId: string) => {
+  PROFILE_PREFERENCE_KEYS.forEach(key => localStorage.removeItem(profileKey(key, profileId)));
+};
@@ -0,0 +1,38 @@
+import { ProviderId, ProviderPreferences, ProviderSettings, QuizProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { openaiCompatibleProvider } from './openaiCompatibleProvider';
+import { mockProvider } from './mockProvider';
+
+export const PROVIDERS: Record<ProviderId, QuizProvider> = {
+  gemini: geminiProvider,
+  openai: openaiCompatibleProvider,
+  mock: mockProvider,
+};
+
+export const DEFAULT_PROVIDER_PREFERENCES: ProviderPreferences = {
+  providerId: 'gemini',
+  models: {},
+  baseUrl: 'http://localhost:11434/v1',
+  serverApiKey: '',
+  factCheck: false,
+  factCheckModel: '',
+};
+
+export const getProvider = (id: ProviderId): QuizProvider => PROVIDERS[id] ?? geminiProvider;
+
+// Combine saved preferences with the Gemini key into settings for one request
+export const resolveProviderSettings = (prefs: ProviderPreferences, geminiApiKey: string): ProviderSettings => {
+  const provider = getProvider(prefs.providerId);
+  return {
+    providerId: provider.id,
+    model: prefs.models[provider.id] || provider.defaultModel,
+    apiKey: provider.id === 'gemini' ? geminiApiKey : provider.id === 'openai' ? prefs.serverApiKey : '',
+    baseUrl: prefs.baseUrl,
+  };
+};
+
+// Settings for the fact-check pass: same provider and credentials, optionally another model
+export const resolveFactCheckSettings = (prefs: ProviderPreferences, geminiApiKey: string): ProviderSettings => {
+  const settings = resolveProviderSettings(prefs, geminiApiKey);
+  return { ...settings, model: prefs.factCheckModel.trim() || settings.model };
+};
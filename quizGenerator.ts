@@ -0,0 +1,269 @@
+import { Type, Schema } from "@google/genai";
+import { GeneratorConfig, GeneratorOptions, GenerationResult, ItemReport, Language, LocalizedText, ProviderRequest, ProviderSettings, QuestionStyle, QuizItem, SiteScope, ValidationIssue } from './types';
+import { generateId } from './utils';
+import { validateQuizItems } from './validation';
+import { getProvider } from './providers';
+import { ApiError, RateLimitedError, InvalidKeyError, MalformedResponseError, classifyError, isRetryable } from './apiErrors';
+import { rateLimiter, AcquireOptions } from './rateLimiter';
+import { findSitesInText, matchSites } from './siteMatcher';
+import { planNextFocus } from './coverage';
+import { REPORT_REASONS } from './reports';
+import { localizedMessage } from './i18n';
+
+export const DEFAULT_GENERATOR_OPTIONS: GeneratorOptions = {
+  scope: 'any',
+  styles: [],
+  temperature: 0.7,
+  language: 'ja',
+};
+
+export const SCOPE_LABELS: Record<SiteScope, LocalizedText> = {
+  any: { ja: '日本・海外', en: 'Japan & overseas' },
+  japan: { ja: '日本のみ', en: 'Japan only' },
+  overseas: { ja: '海外のみ', en: 'Overseas only' },
+};
+
+export const QUESTION_STYLES: Record<QuestionStyle, { label: LocalizedText, prompt: string }> = {
+  which_site: {
+    label: { ja: '遺産名', en: 'Site name' },
+    prompt: 'Describe a site (features, history, location) and ask which World Heritage site it is; the options are site names.',
+  },
+  which_country: {
+    label: { ja: '国名', en: 'Country' },
+    prompt: 'Name a site and ask which country it is in; the options are country names.',
+  },
+  criteria: {
+    label: { ja: '登録基準', en: 'Criteria' },
+    prompt: 'Ask about the registration criteria (i)-(x) a site was inscribed under, or which site matches a criterion.',
+  },
+  year: {
+    label: { ja: '年代', en: 'Year' },
+    prompt: 'Ask about the year of inscription, construction or a key historical event; the options are years or periods.',
+  },
+  true_statement: {
+    label: { ja: '正しい文', en: 'True statement' },
+    prompt: 'Give four statements about a site or theme and ask which one is correct; exactly one statement is true.',
+  },
+};
+
+const SCOPE_PROMPTS: Record<SiteScope, string> = {
+  any: 'Sites in Japan and overseas may both appear.',
+  japan: 'Every question MUST be about World Heritage sites in Japan.',
+  overseas: 'Every question MUST be about World Heritage sites outside Japan.',
+};
+
+const IS_JAPAN_DESCRIPTIONS: Record<SiteScope, string> = {
+  any: "True if the heritage site is in Japan.",
+  japan: "True if the heritage site is in Japan. Must be true for every question.",
+  overseas: "True if the heritage site is in Japan. Must be false for every question.",
+};
+
+// How each question language is asked for: audience, Wikipedia edition and site names
+const LANGUAGE_PROMPTS: Record<Language, { audience: string, wikipedia: string, siteNames: string, notes: string, noteExample: string }> = {
+  ja: {
+    audience: 'Japanese speakers studying for the exam. Write all text in Japanese.',
+    wikipedia: 'Japanese Wikipedia (ja.wikipedia.org)',
+    siteNames: 'official Japanese name',
+    notes: 'Japanese',
+    noteExample: 'ウユニ塩湖はボリビアにありますが、世界遺産ではありません。',
+  },
+  en: {
+    audience: 'Learners preparing for the English edition of the exam. Write all text (question, choices, explanations, notes) in natural English.',
+    wikipedia: 'English Wikipedia (en.wikipedia.org)',
+    siteNames: 'official English name as inscribed on the UNESCO World Heritage List',
+    notes: 'English',
+    noteExample: 'The Salar de Uyuni is in Bolivia, but it is not a World Heritage site.',
+  },
+};
+
+const buildQuizSchema = (scope: SiteScope, styles: QuestionStyle[], language: Language): Schema => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      level: { type: Type.STRING, description: "The certification level (e.g., 3級, 2級, 準1級, 1級)" },
+      question: { type: Type.STRING, description: "The quiz question text." },
+      option1: { type: Type.STRING, description: "Choice 1" },
+      option2: { type: Type.STRING, description: "Choice 2" },
+      option3: { type: Type.STRING, description: "Choice 3" },
+      option4: { type: Type.STRING, description: "Choice 4" },
+      correct_idx: { type: Type.INTEGER, description: "Index of the correct answer (0-3)" },
+      explanation: { type: Type.STRING, description: "Basic explanation of the answer." },
+      advanced_explanation: { type: Type.STRING, description: "Detailed advanced trivia or historical context." },
+      wiki_link: { type: Type.STRING, description: `A relevant ${LANGUAGE_PROMPTS[language].wikipedia} URL.` },
+      is_japan: { type: Type.BOOLEAN, description: IS_JAPAN_DESCRIPTIONS[scope] },
+      site_names: { type: Type.ARRAY, items: { type: Type.STRING }, description: `The ${LANGUAGE_PROMPTS[language].siteNames} of each World Heritage site the question is about.` },
+      option_notes: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: `Exactly 4 short notes in ${LANGUAGE_PROMPTS[language].notes}, one per choice in order. For each wrong choice, why it is wrong (e.g. where that site actually is). Empty string for the correct choice.`,
+      },
+      question_style: {
+        type: Type.STRING,
+        enum: styles.length > 0 ? styles : Object.keys(QUESTION_STYLES),
+        description: "The question style used (see the prompt).",
+      },
+    },
+    required: ["level", "question", "option1", "option2", "option3", "option4", "correct_idx", "explanation", "advanced_explanation", "wiki_link", "is_japan", "site_names", "option_notes", "question_style"],
+  },
+});
+
+// Items that ignored a Japan-only/overseas-only scope are held for review
+const scopeIssue = (item: QuizItem, scope: SiteScope): ValidationIssue | null => {
+  if (scope === 'japan' && !item.is_japan) return { field: 'is_japan', message: localizedMessage('generate.scopeJapan') };
+  if (scope === 'overseas' && item.is_japan) return { field: 'is_japan', message: localizedMessage('generate.scopeOverseas') };
+  return null;
+};
+
+// Send one request through the shared rate limiter and parse the JSON array it returns,
+// retrying on rate limits, overload and malformed output.
+// Failures are thrown as typed ApiErrors (see apiErrors.ts); `options` lets the caller show the wait and cancel it.
+export const requestJsonArray = async (request: ProviderRequest, settings: ProviderSettings, options: AcquireOptions = {}): Promise<any[]> => {
+  const provider = getProvider(settings.providerId);
+  if (provider.requiresApiKey && !settings.apiKey) {
+    throw new InvalidKeyError("API Key is missing.");
+  }
+
+  let lastError: ApiError | null = null;
+  // Enough retries to ride out a per-minute limit or a short overload
+  const maxRetries = 5;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (attempt > 0) {
+      // Default backoff: 2s, 4s, 8s, 16s, 32s. A server hint ("retry in 21s") takes precedence
+      // and is applied to the shared limiter, so other callers wait for it too.
+      const hint = lastError instanceof RateLimitedError ? lastError.retryAfterMs : null;
+      const waitTime = hint !== null ? hint + 1000 : Math.pow(2, attempt) * 1000 + Math.random() * 1000;
+      console.log(`Retry attempt ${attempt}. Waiting ${Math.round(waitTime)}ms`);
+      rateLimiter.backOff(settings, waitTime);
+    }
+
+    // Throws RateLimitedError (daily quota) or CancelledError, which are not retried
+    await rateLimiter.acquire(settings, options);
+
+    try {
+      const text = await provider.generate(request, settings);
+
+      const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+      
+      let rawData;
+      try {
+        rawData = JSON.parse(cleanText);
+      } catch (parseError) {
+        console.error("JSON Parse Error:", parseError, "Text:", text);
+        throw new MalformedResponseError("AI response was not valid JSON.", parseError);
+      }
+      
+      // OpenAI-compatible servers wrap the array in { questions: [...] }
+      if (rawData && !Array.isArray(rawData) && Array.isArray(rawData.questions)) {
+        rawData = rawData.questions;
+      }
+
+      if (!Array.isArray(rawData)) {
+        throw new MalformedResponseError("AI response format error: expected an array.");
+      }
+      return rawData;
+
+    } catch (error) {
+      console.warn(`${provider.label.en} request attempt ${attempt + 1} failed:`, error);
+      lastError = classifyError(error);
+      if (!isRetryable(lastError)) break;
+    }
+  }
+
+  throw lastError || new ApiError('unknown', "Request failed after multiple attempts.");
+};
+
+// Link catalog sites from the model's site names and the question text.
+// Repair what we can; anything still broken goes to the review queue.
+const validateGenerated = (rawData: any[], level: GeneratorConfig['level'], language: Language) =>
+  validateQuizItems(
+    rawData.map(({ site_names, question_style, ...item }: any) => {
+      const names = Array.isArray(site_names) ? site_names.join('\n') : '';
+      const siteIds = [...new Set([...findSitesInText(names), ...matchSites(item)])];
+      return { level, ...item, language, site_ids: siteIds, id: generateId() };
+    }),
+    'generator'
+  );
+
+export const generateQuizBatch = async (config: GeneratorConfig, settings: ProviderSettings, options: AcquireOptions = {}): Promise<GenerationResult> => {
+  const { scope, styles, temperature, language } = { ...DEFAULT_GENERATOR_OPTIONS, ...config };
+  const lang = LANGUAGE_PROMPTS[language];
+  // Callers normally pass a focus from the coverage planner; without one, plan as for an empty library
+  const autoTopic = config.focusTopic ? config.focusTopic : planNextFocus([], config.level, scope).focusTopic;
+  const allowedStyles = styles.length > 0 ? styles : Object.keys(QUESTION_STYLES) as QuestionStyle[];
+  const styleLines = allowedStyles.map(s => `    - "${s}": ${QUESTION_STYLES[s].prompt}`).join('\n');
+  
+  const prompt = `
+    Create ${config.count} multiple-choice questions for the "World Heritage Certification" (世界遺産検定) at level ${config.level}.
+    
+    Context:
+    - Target audience: ${lang.audience}
+    - **CRITICAL REQUIREMENT**: The questions MUST focus on the specific theme: "${autoTopic}".
+    - Scope: ${SCOPE_PROMPTS[scope]}
+    - Mix of content: Use a balance of basic facts (official name, location, criteria) and specific details (history, architecture, nature).
+    - Style: Similar to actual past exam questions but with original phrasing.
+    
+    Question styles (${styles.length > 0 ? 'use ONLY these, spread evenly' : 'mix these freely'}):
+${styleLines}
+    
+    Requirements:
+    - Output strictly in JSON format matching the schema.
+    - valid Wikipedia links (${lang.wikipedia}).
+    - "correct_idx" must be 0, 1, 2, or 3.
+    - "site_names" lists the ${lang.siteNames} of each World Heritage site the question is about.
+    - "question_style" names the style used for the question.
+    - "option_notes" gives, for each wrong choice, one short factual sentence on what that choice actually is (e.g. "${lang.noteExample}"). Use an empty string for the correct choice.
+    - Ensure questions are unique and not generic "What is a World Heritage site?" questions.
+  `;
+
+  const rawData = await requestJsonArray({ prompt, schema: buildQuizSchema(scope, styles, language), temperature, task: { kind: 'generate', config } }, settings, options);
+  const { valid, quarantined } = validateGenerated(rawData, config.level, language);
+
+  const items: QuizItem[] = [];
+  for (const item of valid) {
+    const issue = scopeIssue(item, scope);
+    if (issue) {
+      quarantined.push({ item, issues: [issue], source: 'generator', quarantinedAt: Date.now() });
+    } else {
+      items.push(item);
+    }
+  }
+  return { items, quarantined };
+};
+
+// Ask for a corrected version of a question a player reported. The replacement gets a new id,
+// since answer history for the old wording no longer applies.
+export const regenerateQuizItem = async (item: QuizItem, report: ItemReport, settings: ProviderSettings, options: AcquireOptions = {}): Promise<GenerationResult> => {
+  const level = item.level as GeneratorConfig['level'];
+  const choices = [item.option1, item.option2, item.option3, item.option4];
+  const lang = LANGUAGE_PROMPTS[item.language];
+  const prompt = `
+    A learner reported a problem with this "World Heritage Certification" (世界遺産検定) question at level ${item.level}.
+
+    Question: ${item.question}
+    ${choices.map((opt, i) => `${i}: ${opt}`).join('\n    ')}
+    Marked answer: ${item.correct_idx}
+    Explanation: ${item.explanation}
+
+    Reported problem: ${REPORT_REASONS[report.reason].prompt.replace('{language}', lang.notes)}
+    ${report.note ? `Learner's note: ${report.note}` : ''}
+
+    Requirements:
+    - Return a JSON array with exactly one corrected question on the same topic, fixing the reported problem.
+    - Audience: ${lang.audience}
+    - If the original cannot be fixed reliably, write a new question about the same World Heritage site instead.
+    - Exactly one choice must be correct, and "correct_idx" must be 0, 1, 2, or 3.
+    - Keep the facts current and verifiable; valid Wikipedia links (${lang.wikipedia}).
+    - "site_names" lists the ${lang.siteNames} of each World Heritage site the question is about.
+    - "option_notes" gives, for each wrong choice, one short factual sentence on what that choice actually is (e.g. "${lang.noteExample}"). Use an empty string for the correct choice.
+  `;
+
+  const rawData = await requestJsonArray(
+    { prompt, schema: buildQuizSchema('any', [], item.language), temperature: DEFAULT_GENERATOR_OPTIONS.temperature, task: { kind: 'generate', config: { level, count: 1, language: item.language } } },
+    settings,
+    options
+  );
+  const { valid, quarantined } = validateGenerated(rawData.slice(0, 1), level, item.language);
+  return { items: valid, quarantined };
+};
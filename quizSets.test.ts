@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createQuizSet, decodeQuizSet, decodeQuizSetFragment, encodeQuizSet, playableSetItems, quizSetUrl, readQuizSetFragment } from './quizSets';
+import { QuizLevel } from './types';
+import { makeItem } from './testFixtures';
+
+const fujisan = (n: number) => makeItem(n, {
+  level: QuizLevel.LEVEL_3,
+  question: `問題${n}：富士山が登録された年は？`,
+  correct_idx: 1,
+  wiki_link: 'https://ja.wikipedia.org/wiki/%E5%AF%8C%E5%A3%AB%E5%B1%B1',
+  site_ids: ['fujisan'],
+});
+
+const items = [1, 2, 3].map(fujisan);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createQuizSet', () => {
+  it('leaves local reports out of the shared set', () => {
+    const reported = { ...items[0], report: { reason: 'typo' as const, note: '', reportedAt: 1 } };
+    expect(createQuizSet([reported]).items[0]).toEqual(items[0]);
+  });
+});
+
+describe('encodeQuizSet / decodeQuizSet', () => {
+  it('round-trips a set through a file', async () => {
+    const set = createQuizSet(items);
+    expect(await decodeQuizSet(await encodeQuizSet(set))).toEqual(set);
+  });
+
+  it('reads an uncompressed file', async () => {
+    const set = createQuizSet(items);
+    expect(await decodeQuizSet(new Blob([JSON.stringify(set)]))).toEqual(set);
+  });
+
+  it('returns null for files that are not quiz sets', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await decodeQuizSet(new Blob(['not a quiz set']))).toBeNull();
+    expect(await decodeQuizSet(new Blob([JSON.stringify({ format: 'other', version: 1, items: [] })]))).toBeNull();
+    expect(await decodeQuizSet(new Blob([JSON.stringify({ ...createQuizSet(items), version: 99 })]))).toBeNull();
+  });
+});
+
+describe('quizSetUrl', () => {
+  it('round-trips a set through a link', async () => {
+    const set = createQuizSet(items);
+    const url = await quizSetUrl(set, 'https://example.com/quiz/#old');
+    expect(url.startsWith('https://example.com/quiz/#quiz=')).toBe(true);
+    const payload = readQuizSetFragment(new URL(url).hash);
+    expect(payload).not.toBeNull();
+    expect(await decodeQuizSetFragment(payload!)).toEqual(set);
+  });
+
+  it('ignores other fragments and broken payloads', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(readQuizSetFragment('#settings')).toBeNull();
+    expect(await decodeQuizSetFragment('z!!!')).toBeNull();
+  });
+});
+
+describe('playableSetItems', () => {
+  it('keeps the sender ids and skips questions that fail validation', () => {
+    const set = createQuizSet([...items, makeItem(4, { option2: '' })]);
+    const { items: playable, skipped } = playableSetItems(set);
+    expect(playable.map(i => i.id)).toEqual(['q1', 'q2', 'q3']);
+    expect(skipped).toBe(1);
+  });
+});
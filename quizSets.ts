@@ -0,0 +1,101 @@
+import { QuizItem, QuizSet } from './types';
+import { validateQuizItems } from './validation';
+
+export const QUIZ_SET_FORMAT = 'world-heritage-quizset';
+// Bump when the layout changes; decodeQuizSet must keep reading older versions
+export const QUIZ_SET_VERSION = 1;
+export const QUIZ_SET_EXTENSION = 'whquiz';
+
+// URL fragment holding an encoded set: #quiz=<payload>. The fragment never reaches a server.
+const FRAGMENT_KEY = 'quiz';
+// Longer links are cut off by some messengers and mail clients; such sets go out as a file
+export const MAX_SHARE_URL_LENGTH = 16000;
+
+// Payload prefixes: deflate-compressed JSON, or plain JSON where CompressionStream is missing
+const COMPRESSED = 'z';
+const PLAIN = 'j';
+
+const canCompress = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const pipe = (blob: Blob, stream: CompressionStream | DecompressionStream): Promise<Blob> =>
+  new Response(blob.stream().pipeThrough(stream)).blob();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Blob => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return new Blob([Uint8Array.from(binary, c => c.charCodeAt(0))]);
+};
+
+// Reports are local triage notes and stay on this device
+export const createQuizSet = (items: QuizItem[]): QuizSet => ({
+  format: QUIZ_SET_FORMAT,
+  version: QUIZ_SET_VERSION,
+  createdAt: Date.now(),
+  items: items.map(({ report, ...item }) => item),
+});
+
+// Contents of a .whquiz file: compressed JSON when the browser supports it
+export const encodeQuizSet = async (set: QuizSet): Promise<Blob> => {
+  const json = new Blob([JSON.stringify(set)], { type: 'application/json' });
+  return canCompress() ? pipe(json, new CompressionStream('deflate-raw')) : json;
+};
+
+const parseQuizSet = (json: string): QuizSet | null => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json.replace(/^\uFEFF/, ''));
+  } catch (e) {
+    return null;
+  }
+  if (!parsed || parsed.format !== QUIZ_SET_FORMAT || !Array.isArray(parsed.items)) return null;
+  if (typeof parsed.version !== 'number' || parsed.version > QUIZ_SET_VERSION) return null;
+  return { ...parsed, createdAt: Number(parsed.createdAt) || 0 };
+};
+
+// Read a .whquiz file. Returns null for anything that is not a readable quiz set.
+export const decodeQuizSet = async (file: Blob): Promise<QuizSet | null> => {
+  const plain = parseQuizSet(await file.text());
+  if (plain || !canCompress()) return plain;
+  try {
+    return parseQuizSet(await (await pipe(file, new DecompressionStream('deflate-raw'))).text());
+  } catch (e) {
+    console.error('Failed to decompress quiz set', e);
+    return null;
+  }
+};
+
+// Link that opens the set in this app
+export const quizSetUrl = async (set: QuizSet, baseUrl: string): Promise<string> => {
+  const bytes = new Uint8Array(await (await encodeQuizSet(set)).arrayBuffer());
+  const payload = (canCompress() ? COMPRESSED : PLAIN) + toBase64Url(bytes);
+  return `${baseUrl.split('#')[0]}#${FRAGMENT_KEY}=${payload}`;
+};
+
+// The encoded set in a location hash, or null when the hash holds none
+export const readQuizSetFragment = (hash: string): string | null => {
+  const match = hash.match(new RegExp(`^#${FRAGMENT_KEY}=(.+)$`));
+  return match ? match[1] : null;
+};
+
+export const decodeQuizSetFragment = async (payload: string): Promise<QuizSet | null> => {
+  try {
+    const blob = fromBase64Url(payload.slice(1));
+    if (payload.startsWith(PLAIN)) return parseQuizSet(await blob.text());
+    if (payload.startsWith(COMPRESSED)) return decodeQuizSet(blob);
+  } catch (e) {
+    console.error('Failed to decode quiz set link', e);
+  }
+  return null;
+};
+
+// Questions of a received set that pass validation. The sender's ids are kept so that
+// answers given before an import stay linked to the imported questions.
+export const playableSetItems = (set: QuizSet): { items: QuizItem[], skipped: number } => {
+  const { valid } = validateQuizItems(set.items, 'import');
+  return { items: valid, skipped: set.items.length - valid.length };
+};
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getModelLimits, rateLimiter } from './rateLimiter';
+import { CancelledError, RateLimitedError } from './apiErrors';
+import { ProviderSettings } from './types';
+
+// The limiter keeps its window per model, so every test uses a model of its own.
+// Unknown Gemini models get the default limits of 10 per minute and 250 per day.
+const gemini = (model: string): ProviderSettings => ({ providerId: 'gemini', model, apiKey: 'key', baseUrl: '' });
+
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2026, 0, 1, 12, 0, 0));
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  storage.clear();
+});
+
+const acquireAll = (settings: ProviderSettings, count: number) =>
+  Array.from({ length: count }).reduce<Promise<void>>(p => p.then(() => rateLimiter.acquire(settings)), Promise.resolve());
+
+describe('getModelLimits', () => {
+  it('limits Gemini models only', () => {
+    expect(getModelLimits(gemini('gemini-2.5-pro'))).toEqual({ rpm: 5, rpd: 100 });
+    expect(getModelLimits(gemini('some-new-model'))).toEqual({ rpm: 10, rpd: 250 });
+    expect(getModelLimits({ providerId: 'openai', model: 'llama3', apiKey: '', baseUrl: '' }).rpm).toBe(Infinity);
+  });
+});
+
+describe('rateLimiter', () => {
+  it('lets a minute of requests through, then waits for the oldest to leave the window', async () => {
+    const settings = gemini('window-test');
+    await acquireAll(settings, 10);
+    expect(rateLimiter.usage(settings)).toMatchObject({ minuteUsed: 10, dayUsed: 10 });
+
+    const waits: number[] = [];
+    let done = false;
+    const next = rateLimiter.acquire(settings, { onWait: ms => waits.push(ms) }).then(() => { done = true; });
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(done).toBe(false);
+    expect(waits[0]).toBe(60_000);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await next;
+    expect(waits[waits.length - 1]).toBe(0);
+    expect(rateLimiter.usage(settings)).toMatchObject({ minuteUsed: 1, dayUsed: 11 });
+  });
+
+  it('stops waiting when cancelled', async () => {
+    const settings = gemini('cancel-test');
+    await acquireAll(settings, 10);
+    let cancelled = false;
+    const next = rateLimiter.acquire(settings, { shouldCancel: () => cancelled });
+    const rejection = expect(next).rejects.toBeInstanceOf(CancelledError);
+    cancelled = true;
+    await vi.advanceTimersByTimeAsync(1_000);
+    await rejection;
+  });
+
+  it('refuses requests once the daily quota is used, until the next day', async () => {
+    const settings = gemini('daily-test');
+    storage.set('wh_rate_usage', JSON.stringify({ day: '2026-01-01', counts: { 'gemini:daily-test': 250 } }));
+    await expect(rateLimiter.acquire(settings)).rejects.toMatchObject({ kind: 'rate_limited', scope: 'daily' });
+    await expect(rateLimiter.acquire(settings)).rejects.toBeInstanceOf(RateLimitedError);
+
+    vi.setSystemTime(new Date(2026, 0, 2, 0, 0, 1));
+    await expect(rateLimiter.acquire(settings)).resolves.toBeUndefined();
+    expect(rateLimiter.usage(settings).dayUsed).toBe(1);
+  });
+
+  it('holds requests back after backOff', async () => {
+    const settings = gemini('backoff-test');
+    rateLimiter.backOff(settings, 5_000);
+    let done = false;
+    const next = rateLimiter.acquire(settings).then(() => { done = true; });
+    await vi.advanceTimersByTimeAsync(4_000);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await next;
+    expect(done).toBe(true);
+  });
+});
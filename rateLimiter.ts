@@ -0,0 +1,135 @@
+import { ProviderSettings } from './types';
+import { RateLimitedError, CancelledError } from './apiErrors';
+
+export interface ModelLimits {
+  rpm: number; // Requests per minute
+  rpd: number; // Requests per day
+}
+
+// Gemini free-tier limits (approximate; see the rate limit page in Google AI Studio).
+// Self-hosted and mock providers are not limited.
+const GEMINI_LIMITS: Record<string, ModelLimits> = {
+  'gemini-flash-lite-latest': { rpm: 15, rpd: 1000 },
+  'gemini-flash-latest': { rpm: 10, rpd: 250 },
+  'gemini-2.5-pro': { rpm: 5, rpd: 100 },
+};
+const DEFAULT_GEMINI_LIMITS: ModelLimits = { rpm: 10, rpd: 250 };
+const UNLIMITED: ModelLimits = { rpm: Infinity, rpd: Infinity };
+
+const MINUTE_MS = 60 * 1000;
+const STORAGE_KEY = 'wh_rate_usage';
+
+export const getModelLimits = (settings: ProviderSettings): ModelLimits => {
+  if (settings.providerId !== 'gemini') return UNLIMITED;
+  return GEMINI_LIMITS[settings.model] ?? DEFAULT_GEMINI_LIMITS;
+};
+
+const modelKey = (settings: ProviderSettings) => `${settings.providerId}:${settings.model}`;
+
+// Daily quotas reset at local midnight
+const today = () => new Date().toLocaleDateString('sv-SE');
+const msUntilMidnight = () => {
+  const midnight = new Date();
+  midnight.setHours(24, 0, 0, 0);
+  return midnight.getTime() - Date.now();
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface RateUsage {
+  minuteUsed: number;
+  dayUsed: number;
+  limits: ModelLimits;
+}
+
+export interface AcquireOptions {
+  // Called about once a second while waiting, then with 0 when the request goes out
+  onWait?: (waitMs: number) => void;
+  shouldCancel?: () => boolean;
+}
+
+// Tracks requests per model: a sliding one-minute window in memory and a daily
+// counter in localStorage (so reloading the tab does not reset the quota).
+const createRateLimiter = () => {
+  const recent = new Map<string, number[]>();
+  const cooldownUntil = new Map<string, number>();
+
+  const loadDaily = (): { day: string, counts: Record<string, number> } => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+      if (saved && saved.day === today()) return saved;
+    } catch (e) {
+      console.error("Failed to read rate limit usage", e);
+    }
+    return { day: today(), counts: {} };
+  };
+
+  const saveDaily = (daily: { day: string, counts: Record<string, number> }) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(daily));
+    } catch (e) {
+      console.error("Failed to save rate limit usage", e);
+    }
+  };
+
+  const windowFor = (key: string, now: number) => {
+    const times = (recent.get(key) ?? []).filter(t => now - t < MINUTE_MS);
+    recent.set(key, times);
+    return times;
+  };
+
+  // ms until a request may be sent (0 = now)
+  const delayFor = (settings: ProviderSettings, now: number): number => {
+    const key = modelKey(settings);
+    const limits = getModelLimits(settings);
+    const cooldown = Math.max(0, (cooldownUntil.get(key) ?? 0) - now);
+    const times = windowFor(key, now);
+    const windowDelay = times.length >= limits.rpm ? times[0] + MINUTE_MS - now : 0;
+    return Math.max(cooldown, windowDelay);
+  };
+
+  return {
+    usage(settings: ProviderSettings): RateUsage {
+      const key = modelKey(settings);
+      return {
+        minuteUsed: windowFor(key, Date.now()).length,
+        dayUsed: loadDaily().counts[key] ?? 0,
+        limits: getModelLimits(settings),
+      };
+    },
+
+    // Wait for a free slot, then count the request. Throws RateLimitedError when
+    // the daily quota is used up and CancelledError if shouldCancel() turns true.
+    async acquire(settings: ProviderSettings, options: AcquireOptions = {}): Promise<void> {
+      const key = modelKey(settings);
+      const limits = getModelLimits(settings);
+
+      let waited = false;
+      for (;;) {
+        if ((loadDaily().counts[key] ?? 0) >= limits.rpd) {
+          throw new RateLimitedError(`Daily quota of ${limits.rpd} requests reached for ${settings.model}.`, msUntilMidnight(), 'daily');
+        }
+        const wait = delayFor(settings, Date.now());
+        if (wait <= 0) break;
+        if (options.shouldCancel?.()) throw new CancelledError();
+        options.onWait?.(wait);
+        waited = true;
+        await sleep(Math.min(wait, 1000));
+      }
+      if (waited) options.onWait?.(0);
+
+      windowFor(key, Date.now()).push(Date.now());
+      const daily = loadDaily();
+      daily.counts[key] = (daily.counts[key] ?? 0) + 1;
+      saveDaily(daily);
+    },
+
+    // Hold back every request for this model, e.g. after a 429 with a retry hint
+    backOff(settings: ProviderSettings, ms: number) {
+      const key = modelKey(settings);
+      cooldownUntil.set(key, Math.max(cooldownUntil.get(key) ?? 0, Date.now() + ms));
+    },
+  };
+};
+
+export const rateLimiter = createRateLimiter();
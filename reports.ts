@@ -0,0 +1,25 @@
+import { LocalizedText, QuizItem, ReportReason } from './types';
+
+// `prompt` describes the problem to the model when a reported question is regenerated;
+// {language} stands for the language of the question
+export const REPORT_REASONS: Record<ReportReason, { label: LocalizedText, prompt: string }> = {
+  wrong_answer: { label: { ja: '正解が間違っている', en: 'Wrong answer' }, prompt: 'The marked answer is wrong.' },
+  multiple_correct: { label: { ja: '正解が複数ある', en: 'More than one correct' }, prompt: 'More than one choice can be considered correct.' },
+  outdated: { label: { ja: '情報が古い', en: 'Outdated' }, prompt: 'The facts are outdated (e.g. names, inscriptions or danger-list status have changed).' },
+  typo: { label: { ja: '誤字・脱字', en: 'Typo' }, prompt: 'The text contains typos or unnatural {language}.' },
+};
+
+export const isReported = (item: QuizItem): boolean => !!item.report;
+
+// Reported questions stay out of sessions until they are fixed, unless the player opts in
+export const playableItems = (items: QuizItem[], includeReported: boolean): QuizItem[] =>
+  includeReported ? items : items.filter(item => !isReported(item));
+
+// Oldest report first, so the triage list works through them in order
+export const reportedItems = (items: QuizItem[]): QuizItem[] =>
+  items.filter(isReported).sort((a, b) => a.report!.reportedAt - b.report!.reportedAt);
+
+export const withoutReport = (item: QuizItem): QuizItem => {
+  const { report, ...rest } = item;
+  return rest;
+};
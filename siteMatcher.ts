@@ -0,0 +1,45 @@
+import { QuizItem } from './types';
+import { HERITAGE_SITES } from './heritageSites';
+import { normalizeText } from './duplicates';
+
+// Names shorter than this (after normalization) are too ambiguous to match on
+const MIN_NAME_LENGTH = 2;
+
+// Every official name and alias, longest first so that "アンコール・ワット" wins over "アンコール"
+const NAME_INDEX: { name: string, siteId: string }[] = HERITAGE_SITES
+  .flatMap(site => [site.nameJa, site.nameEn, ...site.aliases].map(name => ({ name: normalizeText(name), siteId: site.id })))
+  .filter(entry => entry.name.length >= MIN_NAME_LENGTH)
+  .sort((a, b) => b.name.length - a.name.length);
+
+// Find catalog sites mentioned in free text. A match inside a longer, already
+// matched name is ignored, so 「古都奈良の文化財」 does not also count as 「奈良」-something.
+export const findSitesInText = (text: string): string[] => {
+  const normalized = normalizeText(text);
+  const covered = new Array<boolean>(normalized.length).fill(false);
+  const found = new Map<string, number>(); // siteId -> first position
+
+  for (const { name, siteId } of NAME_INDEX) {
+    let from = 0;
+    for (;;) {
+      const at = normalized.indexOf(name, from);
+      if (at < 0) break;
+      from = at + 1;
+      if (covered.slice(at, at + name.length).some(Boolean)) continue;
+      covered.fill(true, at, at + name.length);
+      found.set(siteId, Math.min(found.get(siteId) ?? at, at));
+    }
+  }
+  // In order of first mention
+  return [...found.entries()].sort((a, b) => a[1] - b[1]).map(([siteId]) => siteId);
+};
+
+// Sites a question is about: the question, its correct answer and the basic
+// explanation. Wrong options are skipped since they usually name other sites.
+export const matchSites = (item: QuizItem): string[] => {
+  const answer = [item.option1, item.option2, item.option3, item.option4][item.correct_idx] ?? '';
+  return findSitesInText([item.question, answer, item.explanation].join('\n'));
+};
+
+// Fill in site_ids for items that have never been linked
+export const linkMissingSites = (items: QuizItem[]): QuizItem[] =>
+  items.map(item => item.site_ids ? item : { ...item, site_ids: matchSites(item) });
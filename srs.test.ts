@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { answerQuality, countDue, scheduleReview, selectReviewItems } from './srs';
+import { ReviewState } from './types';
+import { makeItem } from './testFixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+// Answer the same question several times, each time on its due date
+const review = (answers: { correct: boolean, timeMs?: number }[]): ReviewState => {
+  let state: ReviewState | undefined;
+  let now = NOW;
+  for (const { correct, timeMs = 5000 } of answers) {
+    state = scheduleReview(state, 'default', 'q1', correct, timeMs, now);
+    now = state.dueAt;
+  }
+  return state!;
+};
+
+describe('answerQuality', () => {
+  it('grades by correctness and response time', () => {
+    expect(answerQuality(false, 1000)).toBe(1);
+    expect(answerQuality(true, 5000)).toBe(5);
+    expect(answerQuality(true, 20_000)).toBe(4);
+    expect(answerQuality(true, 60_000)).toBe(3);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('follows the SM-2 intervals of 1 day, 6 days, then interval times easiness', () => {
+    const first = review([{ correct: true }]);
+    expect(first).toMatchObject({ profileId: 'default', itemId: 'q1', repetitions: 1, intervalDays: 1, dueAt: NOW + DAY_MS, lapses: 0 });
+    expect(first.easiness).toBeCloseTo(2.6);
+
+    expect(review([{ correct: true }, { correct: true }]).intervalDays).toBe(6);
+    // Easiness 2.8 after three fast answers: round(6 * 2.8)
+    expect(review([{ correct: true }, { correct: true }, { correct: true }]).intervalDays).toBe(17);
+  });
+
+  it('grows the interval more slowly for slow answers', () => {
+    const fast = review([{ correct: true }, { correct: true }, { correct: true }]);
+    const slow = review([{ correct: true, timeMs: 60_000 }, { correct: true, timeMs: 60_000 }, { correct: true, timeMs: 60_000 }]);
+    expect(slow.easiness).toBeLessThan(fast.easiness);
+    expect(slow.intervalDays).toBeLessThan(fast.intervalDays);
+  });
+
+  it('brings a wrong answer back within ten minutes and counts a lapse once learned', () => {
+    const neverLearned = review([{ correct: false }]);
+    expect(neverLearned).toMatchObject({ repetitions: 0, intervalDays: 0, lapses: 0, dueAt: NOW + 10 * 60 * 1000 });
+
+    const lapsed = review([{ correct: true }, { correct: true }, { correct: false }]);
+    expect(lapsed).toMatchObject({ repetitions: 0, intervalDays: 0, lapses: 1 });
+  });
+
+  it('never lets easiness drop below 1.3', () => {
+    expect(review(Array(10).fill({ correct: false })).easiness).toBe(1.3);
+  });
+});
+
+describe('selectReviewItems / countDue', () => {
+  const items = [1, 2, 3, 4].map(n => makeItem(n));
+  const state = (itemId: string, dueAt: number, easiness = 2.5): ReviewState =>
+    ({ profileId: 'default', itemId, easiness, repetitions: 1, intervalDays: 1, dueAt, lastReviewedAt: NOW - DAY_MS, lapses: 0 });
+  const reviews = {
+    q1: state('q1', NOW + DAY_MS),        // not due yet
+    q2: state('q2', NOW - DAY_MS, 2.5),
+    q3: state('q3', NOW - DAY_MS, 1.5),   // same due date, weaker
+  };
+
+  it('picks overdue questions first, weakest first, then unseen ones', () => {
+    expect(selectReviewItems(items, reviews, 10, NOW).map(i => i.id)).toEqual(['q3', 'q2', 'q4']);
+    expect(selectReviewItems(items, reviews, 1, NOW).map(i => i.id)).toEqual(['q3']);
+  });
+
+  it('counts only answered questions that are due', () => {
+    expect(countDue(items, reviews, NOW)).toBe(2);
+  });
+});
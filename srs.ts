@@ -0,0 +1,104 @@
+import { QuizItem, ReviewState } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASINESS = 1.3;
+const INITIAL_EASINESS = 2.5;
+
+// Wrong answers come back within the same study day
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// Map an answer to an SM-2 quality grade (0-5). A multiple-choice answer has no
+// self-rating, so response time stands in for how confidently it was recalled.
+export const answerQuality = (correct: boolean, timeMs: number): number => {
+  if (!correct) return 1;
+  if (timeMs < 10_000) return 5;
+  if (timeMs < 30_000) return 4;
+  return 3;
+};
+
+// SM-2: update easiness and interval after one review
+export const scheduleReview = (
+  prev: ReviewState | undefined,
+  profileId: string,
+  itemId: string,
+  correct: boolean,
+  timeMs: number,
+  now: number = Date.now()
+): ReviewState => {
+  const quality = answerQuality(correct, timeMs);
+  const state: ReviewState = prev ?? {
+    profileId,
+    itemId,
+    easiness: INITIAL_EASINESS,
+    repetitions: 0,
+    intervalDays: 0,
+    dueAt: now,
+    lastReviewedAt: now,
+    lapses: 0,
+  };
+
+  const easiness = Math.max(
+    MIN_EASINESS,
+    state.easiness + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return {
+      ...state,
+      easiness,
+      repetitions: 0,
+      intervalDays: 0,
+      dueAt: now + RELEARN_DELAY_MS,
+      lastReviewedAt: now,
+      lapses: state.repetitions > 0 ? state.lapses + 1 : state.lapses,
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(state.intervalDays * easiness);
+  }
+
+  return {
+    ...state,
+    easiness,
+    repetitions,
+    intervalDays,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  };
+};
+
+export const isDue = (state: ReviewState, now: number = Date.now()) => state.dueAt <= now;
+
+// Questions answered at least once that are due now
+export const countDue = (items: QuizItem[], reviews: Record<string, ReviewState>, now: number = Date.now()) =>
+  items.filter(item => reviews[item.id] && isDue(reviews[item.id], now)).length;
+
+// Pick a review session: overdue questions first (weakest first on ties),
+// then questions that have never been answered. Mastered questions that are
+// not yet due are left out.
+export const selectReviewItems = (
+  items: QuizItem[],
+  reviews: Record<string, ReviewState>,
+  limit: number,
+  now: number = Date.now()
+): QuizItem[] => {
+  const due = items
+    .filter(item => reviews[item.id] && isDue(reviews[item.id], now))
+    .sort((a, b) => {
+      const ra = reviews[a.id];
+      const rb = reviews[b.id];
+      return ra.dueAt - rb.dueAt || ra.easiness - rb.easiness;
+    });
+
+  if (due.length >= limit) return due.slice(0, limit);
+
+  const unseen = items.filter(item => !reviews[item.id]);
+  return [...due, ...unseen.slice(0, limit - due.length)];
+};
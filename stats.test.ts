@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { accuracy, computeStats, dayKey } from './stats';
+import { AnswerRecord, QuizLevel, SessionRecord } from './types';
+import { angkor, horyuji, makeItem } from './testFixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 2, 15, 20, 0).getTime();
+
+let nextId = 0;
+const answer = (itemId: string, correct: boolean, daysAgo = 0): AnswerRecord =>
+  ({ id: `a${nextId++}`, itemId, answeredAt: NOW - daysAgo * DAY_MS, chosenIdx: 0, correct, timeMs: 5000, profileId: 'default' });
+
+const session = (level: QuizLevel | null, finishedAt: number, answered: number, correct: number): SessionRecord =>
+  ({ id: `s${finishedAt}`, profileId: 'default', type: 'new', level, startedAt: finishedAt - 60_000, finishedAt, total: answered, answered, correct });
+
+describe('accuracy', () => {
+  it('is zero before any answers', () => {
+    expect(accuracy({ answered: 0, correct: 0 })).toBe(0);
+    expect(accuracy({ answered: 4, correct: 3 })).toBe(0.75);
+  });
+});
+
+describe('computeStats', () => {
+  const items = [horyuji, angkor];
+
+  it('tallies answers overall, per level and Japan/overseas', () => {
+    const stats = computeStats([answer('q1', true), answer('q1', false), answer('q2', true), answer('deleted', false)], [], items, { now: NOW });
+    expect(stats.overall).toEqual({ answered: 4, correct: 2 });
+    expect(stats.byLevel[QuizLevel.LEVEL_2]).toEqual({ answered: 2, correct: 1 });
+    expect(stats.byLevel[QuizLevel.LEVEL_3]).toEqual({ answered: 1, correct: 1 });
+    expect(stats.japan).toEqual({ answered: 2, correct: 1 });
+    expect(stats.overseas).toEqual({ answered: 1, correct: 1 });
+  });
+
+  it('fills the daily chart, counting deleted questions too', () => {
+    const stats = computeStats([answer('q1', true), answer('deleted', false), answer('q2', true, 2)], [], items, { days: 3, now: NOW });
+    expect(stats.daily).toEqual([
+      { day: dayKey(NOW - 2 * DAY_MS), answered: 1, correct: 1 },
+      { day: dayKey(NOW - DAY_MS), answered: 0, correct: 0 },
+      { day: dayKey(NOW), answered: 2, correct: 1 },
+    ]);
+  });
+
+  it('keeps the current streak until a whole day is missed', () => {
+    const history = [5, 4, 1, 2, 3].map(daysAgo => answer('q1', true, daysAgo));
+    expect(computeStats(history, [], items, { now: NOW })).toMatchObject({ currentStreak: 5, longestStreak: 5 });
+    const broken = [10, 9, 8, 2, 1].map(daysAgo => answer('q1', true, daysAgo));
+    expect(computeStats(broken, [], items, { now: NOW })).toMatchObject({ currentStreak: 2, longestStreak: 3 });
+    expect(computeStats([answer('q1', true, 2)], [], items, { now: NOW }).currentStreak).toBe(0);
+  });
+
+  it('orders the level trend by session end and skips mixed or empty sessions', () => {
+    const stats = computeStats([], [
+      session(QuizLevel.LEVEL_2, NOW, 10, 9),
+      session(QuizLevel.LEVEL_2, NOW - DAY_MS, 10, 5),
+      session(null, NOW, 10, 10),
+      session(QuizLevel.LEVEL_3, NOW, 0, 0),
+    ], items, { now: NOW });
+    expect(stats.levelTrend[QuizLevel.LEVEL_2]).toEqual([{ at: NOW - DAY_MS, accuracy: 0.5 }, { at: NOW, accuracy: 0.9 }]);
+    expect(stats.levelTrend[QuizLevel.LEVEL_3]).toEqual([]);
+  });
+
+  it('ranks the weakest themes and sites once they have enough answers', () => {
+    const castle = makeItem(3, { question: '姫路城の別名は？', site_ids: ['himeji'] });
+    const answers = [
+      ...[true, false, false, false, false].map(correct => answer(castle.id, correct)),
+      ...[true, true, true, true, false].map(correct => answer(horyuji.id, correct)),
+      ...[false, false].map(correct => answer(angkor.id, correct)),
+    ];
+    const stats = computeStats(answers, [], [...items, castle], { now: NOW });
+    expect(stats.weakestSites.map(s => s.site.id)).toEqual(['himeji', 'horyuji']);
+    expect(stats.weakestThemes[0]).toMatchObject({ id: 'castles', tally: { answered: 5, correct: 1 } });
+  });
+
+  it('lists the most missed questions, fewest answers first on a tie', () => {
+    const answers = [answer('q1', false), answer('q1', true), answer('q2', false), answer('q3', true)];
+    const stats = computeStats(answers, [], [...items, makeItem(3)], { now: NOW, limit: 5 });
+    expect(stats.mostMissed.map(m => [m.item.id, m.missed, m.answered])).toEqual([['q2', 1, 1], ['q1', 1, 2]]);
+  });
+});
@@ -0,0 +1,167 @@
+import { AnswerRecord, HeritageSite, LocalizedText, QuizItem, QuizLevel, SessionRecord } from './types';
+import { COVERAGE_THEMES, classifyThemes } from './coverage';
+import { getSite } from './heritageSites';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Themes and sites need this many answers before they can rank as "weakest"
+const MIN_ANSWERS_FOR_RANKING = 5;
+
+export interface Tally {
+  answered: number;
+  correct: number;
+}
+
+export interface DailyCount extends Tally {
+  day: string; // Local date, YYYY-MM-DD
+}
+
+export interface LearningStats {
+  overall: Tally;
+  byLevel: Record<QuizLevel, Tally>;
+  japan: Tally;
+  overseas: Tally;
+  // Session accuracy (0-1) per level, oldest first
+  levelTrend: Record<QuizLevel, { at: number, accuracy: number }[]>;
+  weakestThemes: { id: string, label: LocalizedText, tally: Tally }[];
+  weakestSites: { site: HeritageSite, tally: Tally }[];
+  daily: DailyCount[];
+  currentStreak: number; // Consecutive days with answers, ending today or yesterday
+  longestStreak: number;
+  mostMissed: { item: QuizItem, missed: number, answered: number }[];
+}
+
+export const accuracy = (tally: Tally): number => tally.answered > 0 ? tally.correct / tally.answered : 0;
+
+const emptyTally = (): Tally => ({ answered: 0, correct: 0 });
+
+const add = (tally: Tally, correct: boolean) => {
+  tally.answered++;
+  if (correct) tally.correct++;
+};
+
+const byLevel = <T>(make: () => T): Record<QuizLevel, T> =>
+  Object.fromEntries(Object.values(QuizLevel).map(level => [level, make()])) as Record<QuizLevel, T>;
+
+// Local calendar day, so a streak follows the player's own midnight
+export const dayKey = (at: number): string => {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const streaks = (days: Set<string>, now: number): { current: number, longest: number } => {
+  const sorted = [...days].sort();
+  let longest = 0;
+  let run = 0;
+  let prev: number | null = null;
+  for (const day of sorted) {
+    const at = new Date(`${day}T00:00:00`).getTime();
+    // Rounding absorbs the 23/25 hour days around daylight saving changes
+    run = prev !== null && Math.round((at - prev) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    prev = at;
+  }
+
+  // Today without answers yet does not break the streak
+  let current = 0;
+  let cursor = days.has(dayKey(now)) ? now : now - DAY_MS;
+  while (days.has(dayKey(cursor))) {
+    current++;
+    cursor -= DAY_MS;
+  }
+  return { current, longest };
+};
+
+const rankWeakest = <T extends { tally: Tally }>(entries: T[], limit: number): T[] =>
+  entries
+    .filter(e => e.tally.answered >= MIN_ANSWERS_FOR_RANKING)
+    .sort((a, b) => accuracy(a.tally) - accuracy(b.tally) || b.tally.answered - a.tally.answered)
+    .slice(0, limit);
+
+// Aggregate the answer history for the stats view. Answers to questions that
+// have since been deleted still count towards totals and the daily chart.
+export const computeStats = (
+  answers: AnswerRecord[],
+  sessions: SessionRecord[],
+  items: QuizItem[],
+  { days = 30, limit = 10, now = Date.now() }: { days?: number, limit?: number, now?: number } = {}
+): LearningStats => {
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const themeLabels = new Map(COVERAGE_THEMES.map(theme => [theme.id, theme.label]));
+  const themesById = new Map<string, string[]>();
+
+  const overall = emptyTally();
+  const levels = byLevel(emptyTally);
+  const japan = emptyTally();
+  const overseas = emptyTally();
+  const themes = new Map<string, Tally>();
+  const sites = new Map<string, Tally>();
+  const perItem = new Map<string, Tally>();
+  const perDay = new Map<string, Tally>();
+
+  for (const answer of answers) {
+    add(overall, answer.correct);
+    const day = dayKey(answer.answeredAt);
+    if (!perDay.has(day)) perDay.set(day, emptyTally());
+    add(perDay.get(day)!, answer.correct);
+
+    const item = itemsById.get(answer.itemId);
+    if (!item) continue;
+    if (item.level in levels) add(levels[item.level as QuizLevel], answer.correct);
+    add(item.is_japan ? japan : overseas, answer.correct);
+
+    if (!perItem.has(item.id)) perItem.set(item.id, emptyTally());
+    add(perItem.get(item.id)!, answer.correct);
+
+    if (!themesById.has(item.id)) themesById.set(item.id, classifyThemes(item));
+    for (const id of themesById.get(item.id)!) {
+      if (!themes.has(id)) themes.set(id, emptyTally());
+      add(themes.get(id)!, answer.correct);
+    }
+    for (const id of item.site_ids ?? []) {
+      if (!sites.has(id)) sites.set(id, emptyTally());
+      add(sites.get(id)!, answer.correct);
+    }
+  }
+
+  const levelTrend = byLevel<{ at: number, accuracy: number }[]>(() => []);
+  [...sessions]
+    .sort((a, b) => a.finishedAt - b.finishedAt)
+    .forEach(s => {
+      if (s.level && s.answered > 0) levelTrend[s.level].push({ at: s.finishedAt, accuracy: s.correct / s.answered });
+    });
+
+  const daily: DailyCount[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const day = dayKey(now - i * DAY_MS);
+    daily.push({ day, ...(perDay.get(day) ?? emptyTally()) });
+  }
+
+  const { current, longest } = streaks(new Set(perDay.keys()), now);
+
+  const mostMissed = [...perItem.entries()]
+    .map(([id, tally]) => ({ item: itemsById.get(id)!, missed: tally.answered - tally.correct, answered: tally.answered }))
+    .filter(e => e.missed > 0)
+    .sort((a, b) => b.missed - a.missed || a.answered - b.answered)
+    .slice(0, limit);
+
+  return {
+    overall,
+    byLevel: levels,
+    japan,
+    overseas,
+    levelTrend,
+    weakestThemes: rankWeakest([...themes.entries()].map(([id, tally]) => ({ id, label: themeLabels.get(id) ?? { ja: id, en: id }, tally })), limit),
+    weakestSites: rankWeakest(
+      [...sites.entries()].flatMap(([id, tally]) => {
+        const site = getSite(id);
+        return site ? [{ site, tally }] : [];
+      }),
+      limit
+    ),
+    daily,
+    currentStreak: current,
+    longestStreak: longest,
+    mostMissed,
+  };
+};
@@ -0,0 +1,231 @@
+import { QuizItem, QuarantinedItem, AnswerRecord, ReviewState, GenerationJob, SessionRecord, Snapshot, StoredData, Profile } from './types';
+import { generateId } from './utils';
+import { DEFAULT_PROFILE_ID } from './profiles';
+
+const DB_NAME = 'wh_quiz_db';
+const DB_VERSION = 6;
+
+// Keys used before the database moved to IndexedDB. Migrated once, then removed.
+const LEGACY_KEYS = {
+  items: 'wh_quiz_data',
+  quarantine: 'wh_quiz_quarantine',
+};
+
+// Schema migrations, keyed by the version they upgrade to.
+// Never edit a released migration; add a new version instead.
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    const items = db.createObjectStore('items', { keyPath: 'id' });
+    items.createIndex('level', 'level');
+    db.createObjectStore('quarantine', { keyPath: 'item.id' });
+  },
+  2: (db) => {
+    const answers = db.createObjectStore('answers', { keyPath: 'id' });
+    answers.createIndex('itemId', 'itemId');
+    const reviews = db.createObjectStore('reviews', { keyPath: 'itemId' });
+    reviews.createIndex('dueAt', 'dueAt');
+  },
+  3: (db) => {
+    db.createObjectStore('jobs', { keyPath: 'id' });
+  },
+  4: (db) => {
+    const sessions = db.createObjectStore('sessions', { keyPath: 'id' });
+    sessions.createIndex('finishedAt', 'finishedAt');
+  },
+  5: (db) => {
+    db.createObjectStore('snapshots', { keyPath: 'id' });
+  },
+  6: (db, tx) => {
+    db.createObjectStore('profiles', { keyPath: 'id' });
+    // Existing history belongs to the default profile
+    ['answers', 'sessions'].forEach(name => {
+      const request = tx.objectStore(name).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.update({ ...cursor.value, profileId: DEFAULT_PROFILE_ID });
+        cursor.continue();
+      };
+    });
+    // Reviews were keyed by itemId alone; rebuild the store with a per-profile key
+    const request = tx.objectStore('reviews').getAll();
+    request.onsuccess = () => {
+      db.deleteObjectStore('reviews');
+      const reviews = db.createObjectStore('reviews', { keyPath: ['profileId', 'itemId'] });
+      reviews.createIndex('dueAt', 'dueAt');
+      request.result.forEach(state => reviews.put({ ...state, profileId: DEFAULT_PROFILE_ID }));
+    };
+  },
+};
+
+// Wrap an IDBRequest in a Promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolve when a transaction commits (writes are durable only after this)
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+const readLegacyArray = (key: string): any[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error(`Failed to read legacy data from localStorage (${key})`, e);
+    return [];
+  }
+};
+
+// One-time copy of the old localStorage database into IndexedDB.
+// localStorage is only cleared after the IndexedDB transaction has committed.
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const hasLegacy = Object.values(LEGACY_KEYS).some(key => localStorage.getItem(key) !== null);
+  if (!hasLegacy) return;
+
+  const items = readLegacyArray(LEGACY_KEYS.items)
+    .filter(item => item && typeof item === 'object')
+    .map(item => ({ ...item, id: item.id || generateId() }));
+  const quarantine = readLegacyArray(LEGACY_KEYS.quarantine)
+    .filter(entry => entry && entry.item && typeof entry.item === 'object')
+    .map(entry => ({ ...entry, item: { ...entry.item, id: entry.item.id || generateId() } }));
+
+  const tx = db.transaction(['items', 'quarantine'], 'readwrite');
+  const itemStore = tx.objectStore('items');
+  const quarantineStore = tx.objectStore('quarantine');
+  items.forEach(item => itemStore.put(item));
+  quarantine.forEach(entry => quarantineStore.put(entry));
+  await transactionDone(tx);
+
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+  console.log(`Migrated ${items.length} questions from localStorage to IndexedDB.`);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) {
+        MIGRATIONS[v]?.(db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab.'));
+  }).then(async (db) => {
+    await migrateFromLocalStorage(db);
+    return db;
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export interface Repository<T, K extends IDBValidKey = string> {
+  getAll(): Promise<T[]>;
+  putMany(values: T[]): Promise<void>;
+  deleteMany(keys: K[]): Promise<void>;
+  clear(): Promise<void>;
+  // Persist only what changed between two snapshots of the same collection
+  sync(prev: T[], next: T[]): Promise<void>;
+}
+
+const createRepository = <T, K extends IDBValidKey = string>(storeName: string, getKey: (value: T) => K): Repository<T, K> => {
+  // Compound keys are arrays, so compare keys by their serialized form
+  const keyId = (value: T) => JSON.stringify(getKey(value));
+
+  const write = async (fn: (store: IDBObjectStore) => void) => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, 'readwrite');
+    fn(tx.objectStore(storeName));
+    await transactionDone(tx);
+  };
+
+  return {
+    async getAll() {
+      const db = await openDatabase();
+      const tx = db.transaction(storeName, 'readonly');
+      return requestToPromise<T[]>(tx.objectStore(storeName).getAll());
+    },
+
+    putMany(values) {
+      if (values.length === 0) return Promise.resolve();
+      return write(store => values.forEach(value => store.put(value)));
+    },
+
+    deleteMany(keys) {
+      if (keys.length === 0) return Promise.resolve();
+      return write(store => keys.forEach(key => store.delete(key)));
+    },
+
+    clear() {
+      return write(store => store.clear());
+    },
+
+    sync(prev, next) {
+      // State updates are immutable, so an unchanged item keeps its object identity
+      const prevByKey = new Map(prev.map(value => [keyId(value), value]));
+      const nextKeys = new Set(next.map(keyId));
+      const changed = next.filter(value => prevByKey.get(keyId(value)) !== value);
+      const removed = prev.filter(value => !nextKeys.has(keyId(value))).map(getKey);
+      if (changed.length === 0 && removed.length === 0) return Promise.resolve();
+
+      return write(store => {
+        removed.forEach(key => store.delete(key));
+        changed.forEach(value => store.put(value));
+      });
+    },
+  };
+};
+
+export const itemRepository = createRepository<QuizItem>('items', item => item.id);
+export const quarantineRepository = createRepository<QuarantinedItem>('quarantine', entry => entry.item.id);
+export const answerRepository = createRepository<AnswerRecord>('answers', record => record.id);
+export const reviewRepository = createRepository<ReviewState, [string, string]>('reviews', state => [state.profileId, state.itemId]);
+export const jobRepository = createRepository<GenerationJob>('jobs', job => job.id);
+export const sessionRepository = createRepository<SessionRecord>('sessions', session => session.id);
+export const snapshotRepository = createRepository<Snapshot>('snapshots', snapshot => snapshot.id);
+export const profileRepository = createRepository<Profile>('profiles', profile => profile.id);
+
+// Object store behind each StoredData field
+const DATA_STORES: Record<keyof StoredData, string> = {
+  profiles: 'profiles',
+  items: 'items',
+  quarantine: 'quarantine',
+  answers: 'answers',
+  reviews: 'reviews',
+  jobs: 'jobs',
+  sessions: 'sessions',
+};
+
+// Replace every data store in a single transaction, so a failed restore leaves the old data intact
+export const replaceAllData = async (data: StoredData): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(Object.values(DATA_STORES), 'readwrite');
+  (Object.keys(DATA_STORES) as (keyof StoredData)[]).forEach(key => {
+    const store = tx.objectStore(DATA_STORES[key]);
+    store.clear();
+    (data[key] as unknown[]).forEach(value => store.put(value));
+  });
+  await transactionDone(tx);
+};
@@ -0,0 +1,64 @@
+// Service worker: precaches the built app so play and review work without a connection.
+// vite.config.ts fills in the placeholders at build time; this file is not used in dev.
+
+const BUILD_ID = __BUILD_ID__;
+const PRECACHE_FILES = __PRECACHE_FILES__;
+
+const PRECACHE = `wh-precache-${BUILD_ID}`;
+// Tailwind and fonts come from CDNs; keep the last good copy for offline starts
+const RUNTIME = 'wh-runtime';
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(PRECACHE)
+      .then(cache => cache.addAll(PRECACHE_FILES.map(file => new URL(file, self.registration.scope))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== PRECACHE && key !== RUNTIME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Page loads: network first so a new deploy shows up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match(new URL('./', self.registration.scope), { cacheName: PRECACHE }))
+    );
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    // Built assets have hashed names, so a cached copy is always current
+    event.respondWith(caches.match(request, { cacheName: PRECACHE }).then(cached => cached || fetch(request)));
+    return;
+  }
+
+  // CDN styles and fonts: serve the cached copy and refresh it in the background.
+  // Everything else cross-origin (AI providers, Wikipedia) goes straight to the network.
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(
+      caches.open(RUNTIME).then(cache => cache.match(request).then(cached => {
+        const refresh = fetch(request).then(response => {
+          if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+          return response;
+        });
+        if (cached) {
+          refresh.catch(() => {});
+          return cached;
+        }
+        return refresh;
+      }))
+    );
+  }
+});
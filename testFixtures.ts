@@ -0,0 +1,49 @@
+import { QuizItem, QuizLevel } from './types';
+
+// A valid question numbered `n` with distinct text per item; tests override what they check
+export const makeItem = (n: number, overrides: Partial<QuizItem> = {}): QuizItem => ({
+  id: `q${n}`,
+  level: QuizLevel.LEVEL_2,
+  language: 'ja',
+  question: `問題${n}`,
+  option1: `選択肢${n}-1`,
+  option2: `選択肢${n}-2`,
+  option3: `選択肢${n}-3`,
+  option4: `選択肢${n}-4`,
+  correct_idx: 0,
+  explanation: `解説${n}`,
+  advanced_explanation: '',
+  wiki_link: '',
+  is_japan: true,
+  ...overrides,
+});
+
+// Two fully filled-in questions, one per language
+export const horyuji = makeItem(1, {
+  question: '「法隆寺地域の仏教建造物」がある県は？ "引用符" {波括弧}',
+  option1: '奈良県',
+  option2: '京都府',
+  option3: '大阪府',
+  option4: '兵庫県',
+  explanation: '法隆寺は奈良県斑鳩町にあります。\n1993年に登録されました。',
+  advanced_explanation: '現存する世界最古の木造建築群です。',
+  wiki_link: 'https://ja.wikipedia.org/wiki/%E6%B3%95%E9%9A%86%E5%AF%BA',
+  site_ids: ['horyuji'],
+  option_notes: ['', '京都府には古都京都の文化財があります。', '大阪府には百舌鳥・古市古墳群があります。', '兵庫県には姫路城があります。'],
+});
+
+export const angkor = makeItem(2, {
+  level: QuizLevel.LEVEL_3,
+  language: 'en',
+  question: 'In which country is Angkor?',
+  option1: 'Thailand',
+  option2: 'Cambodia',
+  option3: 'Laos',
+  option4: 'Vietnam',
+  correct_idx: 1,
+  explanation: 'Angkor, in Siem Reap, Cambodia.',
+  is_japan: false,
+  site_ids: ['angkor'],
+});
+
+export const optionsOf = (item: QuizItem): string[] => [item.option1, item.option2, item.option3, item.option4];
@@ -1,3 +1,6 @@
+import type { Schema } from '@google/genai';
+import type { MessageKey } from './i18n';
+
 export enum QuizLevel {
   LEVEL_3 = '3級',
   LEVEL_2 = '2級',
@@ -5,9 +8,16 @@ export enum QuizLevel {
   LEVEL_1 = '1級',
 }
 
+// Language of the UI and of question text. The exam has a Japanese and an English edition.
+export type Language = 'ja' | 'en';
+
+// A label in both UI languages
+export type LocalizedText = Record<Language, string>;
+
 export interface QuizItem {
   id: string; // Internal ID for React keys
   level: QuizLevel | string;
+  language: Language; // Language the question is written in
   question: string;
   option1: string;
   option2: string;
@@ -18,10 +28,303 @@ export interface QuizItem {
   advanced_explanation: string;
   wiki_link: string;
   is_japan: boolean;
+  site_ids?: string[]; // HeritageSite ids the question is about (see heritageSites.ts)
+  option_notes?: string[]; // Why each option is (not) the answer, aligned with option1-4; '' when missing
+  report?: ItemReport;     // Set when a player flagged the question; cleared once it is triaged
+}
+
+export type ReportReason = 'wrong_answer' | 'multiple_correct' | 'outdated' | 'typo';
+
+// A problem reported from the play screen
+export interface ItemReport {
+  reason: ReportReason;
+  note: string;
+  reportedAt: number;
+}
+
+// UNESCO's regional grouping of World Heritage properties
+export type HeritageRegion = 'africa' | 'arab_states' | 'asia_pacific' | 'europe_north_america' | 'latin_america_caribbean';
+
+export type HeritageCategory = 'cultural' | 'natural' | 'mixed';
+
+// One inscribed property in the bundled offline catalog
+export interface HeritageSite {
+  id: string;
+  nameJa: string;
+  nameEn: string;
+  aliases: string[];     // Short Japanese names used in questions, for matching
+  countries: string[];   // ISO 3166-1 alpha-2
+  region: HeritageRegion;
+  year: number;          // Year of inscription
+  category: HeritageCategory;
+  criteria: string[];    // 'i' to 'x'
+  lat: number;
+  lng: number;
+  endangered: boolean;   // Currently on the List of World Heritage in Danger
+}
+
+export type SessionType = 'new' | 'review' | 'spaced' | 'exam' | 'shared';
+
+// Shared filter for browsing, exporting and selecting subsets of dbItems
+export interface QuizFilter {
+  level: QuizLevel | 'all';
+  region: 'all' | 'japan' | 'overseas';
+  heritageRegion: HeritageRegion | 'all';
+  siteId: string; // HeritageSite id, or 'all'
+  language: Language | 'all';
+  text: string;
+}
+
+// One answer given during play. Append-only history keyed by QuizItem.id.
+export interface AnswerRecord {
+  id: string;
+  itemId: string;
+  answeredAt: number;  // epoch ms
+  chosenIdx: number;   // 0-3, index into option1..option4
+  correct: boolean;
+  timeMs: number;      // Time from question shown to answer
+  sessionId?: string;  // SessionRecord.id; missing on answers saved before sessions were kept
+  profileId: string;   // Profile.id of the learner who answered
+}
+
+// A learner sharing the device. The question bank is shared; answer history,
+// review schedule, sessions and preferences belong to one profile.
+export interface Profile {
+  id: string;
+  name: string; // Empty for the built-in default profile, which is shown with a localized name
+  createdAt: number;
+}
+
+// Summary of one play session, saved when the player leaves it (finished or not)
+export interface SessionRecord {
+  id: string;
+  profileId: string;
+  type: SessionType;
+  level: QuizLevel | null; // null when the session mixed levels
+  startedAt: number;
+  finishedAt: number;
+  total: number;       // Questions in the session
+  answered: number;
+  correct: number;
+}
+
+// SM-2 scheduling state for a single question
+// Kept per learner: the store key is [profileId, itemId]
+export interface ReviewState {
+  profileId: string;
+  itemId: string;
+  easiness: number;    // SM-2 E-Factor, >= 1.3
+  repetitions: number; // Consecutive successful reviews
+  intervalDays: number;
+  dueAt: number;       // epoch ms
+  lastReviewedAt: number;
+  lapses: number;      // Times the question was answered wrong after being learned
+}
+
+// Format of a mock exam for one level
+export interface ExamConfig {
+  level: QuizLevel;
+  questionCount: number;
+  timeLimitMinutes: number;
+  passRatio: number; // Fraction of correct answers needed to pass (0-1)
+}
+
+// A running or finished mock exam. Arrays are indexed like sessionItems.
+export interface ExamSession {
+  config: ExamConfig;
+  answers: (number | null)[];
+  flagged: boolean[];
+  timeSpentMs: number[];
+  startedAt: number;
+  deadline: number;
+  finishedAt: number | null;
+}
+
+export type SiteScope = 'any' | 'japan' | 'overseas';
+
+export type QuestionStyle = 'which_site' | 'which_country' | 'criteria' | 'year' | 'true_statement';
+
+// Generator panel controls, shared by single batches and queued jobs
+export interface GeneratorOptions {
+  scope: SiteScope;
+  styles: QuestionStyle[]; // Empty = any style
+  temperature: number;
+  language: Language;
 }
 
-export interface GeneratorConfig {
+export interface GeneratorConfig extends Partial<GeneratorOptions> {
   level: QuizLevel;
   count: number;
   focusTopic?: string; // Optional: e.g., "European Cathedrals"
-}
\ No newline at end of file
+}
+
+// Where an item entered the app; recorded on quarantined items for review
+export type QuizItemSource = 'generator' | 'csv' | 'import' | 'storage' | 'factcheck';
+
+export interface ValidationIssue {
+  field: string;
+  message: LocalizedText;
+}
+
+// Verdict of the independent verification pass over a generated question
+export interface FactCheckResult {
+  verifierAnswerIdx: number | null; // Answer chosen blind (without correct_idx / explanations)
+  verifierConfidence: number;       // Verifier's own confidence in that answer (0-1)
+  alsoCorrectIdx: number[];         // Other options the verifier considers correct too
+  explanationConsistent: boolean;
+  comment: string;
+  confidence: number;               // Estimated probability that the stored answer is right (0-1)
+  model: string;
+  checkedAt: number;
+}
+
+// An item that failed validation (or fact checking) and is kept out of dbItems until reviewed
+export interface QuarantinedItem {
+  item: QuizItem;
+  issues: ValidationIssue[];
+  source: QuizItemSource;
+  quarantinedAt: number;
+  factCheck?: FactCheckResult;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// Generation backend choices saved in settings. The Gemini API key is kept
+// separately so it is never sent to a self-hosted server.
+export interface ProviderPreferences {
+  providerId: ProviderId;
+  models: Partial<Record<ProviderId, string>>;
+  baseUrl: string;       // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  serverApiKey: string;  // Optional bearer token for the OpenAI-compatible server
+  factCheck: boolean;      // Verify generated questions with a second model call before saving
+  factCheckModel: string;  // Verifier model for the same provider; empty = generation model
+}
+
+// Resolved settings for a single generation request
+export interface ProviderSettings {
+  providerId: ProviderId;
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+}
+
+// What a request is for. Real providers only need the prompt; the mock provider
+// builds its answer from the task.
+export type ProviderTask =
+  | { kind: 'generate', config: GeneratorConfig }
+  | { kind: 'answer', items: QuizItem[] }   // Fact check: answer blind
+  | { kind: 'review', items: QuizItem[] };  // Fact check: explanation vs. options
+
+export interface ProviderRequest {
+  prompt: string;
+  schema: Schema;   // Response schema in Gemini notation; providers convert as needed
+  temperature: number;
+  task: ProviderTask;
+}
+
+// A backend that turns a prompt into raw JSON text. Parsing, retries and
+// validation are shared in quizGenerator.ts.
+export interface QuizProvider {
+  id: ProviderId;
+  label: LocalizedText;
+  defaultModel: string;
+  suggestedModels: string[];
+  requiresApiKey: boolean;
+  generate(request: ProviderRequest, settings: ProviderSettings): Promise<string>;
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'paused' | 'done' | 'failed';
+
+// Outcome of one generation batch inside a job
+export interface BatchLogEntry {
+  at: number;
+  requested: number;
+  added: number;
+  duplicates: number;
+  quarantined: number;
+  focus?: string; // What the batch targeted (user topic or coverage planner choice)
+  error?: string;
+  note?: LocalizedText; // Why the job stopped on its own, on an entry of its own
+}
+
+// Persisted auto-generation job: fill `level` up to `target` questions
+export interface GenerationJob {
+  id: string;
+  level: QuizLevel;
+  target: number;
+  topic: string;       // Optional focus topic; empty = coverage planner picks per batch
+  options?: GeneratorOptions; // Missing on jobs saved before the generator controls existed
+  status: GenerationJobStatus;
+  createdAt: number;
+  updatedAt: number;
+  log: BatchLogEntry[];
+}
+
+// Everything kept in IndexedDB; loaded at startup and written as a whole by backup restore
+export interface StoredData {
+  profiles: Profile[];
+  items: QuizItem[];
+  quarantine: QuarantinedItem[];
+  answers: AnswerRecord[];
+  reviews: ReviewState[];
+  jobs: GenerationJob[];
+  sessions: SessionRecord[];
+}
+
+export interface BackupArchive {
+  format: 'world-heritage-backup';
+  version: number;
+  createdAt: number;
+  data: StoredData;
+  settings?: { provider?: Partial<ProviderPreferences>, uiLanguage?: Language }; // The API key is never included
+  profileId?: string; // Set on single-profile exports, which only hold that learner's records
+}
+
+// A UI message kept by key, so it is shown in the language selected when it is read
+export interface MessageRef {
+  key: MessageKey;
+  params?: Record<string, string | number>;
+}
+
+// Automatic copy of the stored data taken before a destructive operation
+export interface Snapshot {
+  id: string;
+  createdAt: number;
+  reason: MessageRef | string; // Snapshots taken by older versions hold the translated text
+  data: StoredData;
+}
+
+// Questions passed between players as a link or a .whquiz file (see quizSets.ts)
+export interface QuizSet {
+  format: 'world-heritage-quizset';
+  version: number;
+  createdAt: number;
+  items: QuizItem[];
+}
+
+// Printable drill sheets (see worksheet.ts)
+export interface WorksheetOptions {
+  questionCount: number; // Questions per sheet, drawn from the selection
+  copies: number;        // Versions A, B, ... with their own question and option order
+  seed: string;          // The same seed and selection always give the same sheets
+  answerKey: boolean;    // Add an answer key page per version
+  explanations: boolean; // Include the explanations in the answer key
+}
+
+export interface GenerationResult {
+  items: QuizItem[];
+  quarantined: QuarantinedItem[];
+}
+
+export interface CSVRowError {
+  line: number; // 1-based line in the source file
+  message: LocalizedText;
+}
+
+// Also returned by the JSON, Anki and Moodle importers in formats.ts
+export interface CSVParseResult {
+  items: QuizItem[];
+  errors: CSVRowError[];
+  quarantined: QuarantinedItem[]; // Rows that parsed but failed validation
+  totalRows: number; // Data rows found, excluding the header
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { CSV_HEADER, parseCSV, toCSV } from './utils';
+import { QuizItem, QuizLevel } from './types';
+import { angkor, horyuji, makeItem } from './testFixtures';
+
+const withoutId = ({ id, ...rest }: QuizItem) => rest;
+
+describe('toCSV / parseCSV', () => {
+  it('round-trips commas, quotes and line breaks inside fields', () => {
+    const tricky = makeItem(3, {
+      question: 'カンマ, "引用符" と\n改行を含む問題',
+      option1: 'a,b',
+      option2: '"quoted"',
+      option3: 'line\nbreak',
+      explanation: '',
+    });
+    const result = parseCSV(toCSV([horyuji, angkor, tricky]));
+    expect(result.errors).toEqual([]);
+    expect(result.totalRows).toBe(3);
+    expect(result.items.map(withoutId)).toEqual([horyuji, angkor, tricky].map(withoutId));
+  });
+
+  it('gives every imported question a new id', () => {
+    const [item] = parseCSV(toCSV([horyuji])).items;
+    expect(item.id).toBeTruthy();
+    expect(item.id).not.toBe(horyuji.id);
+  });
+
+  it('reads CRLF line endings and a UTF-8 BOM', () => {
+    const text = '\uFEFF' + toCSV([horyuji, angkor]).replace(/\n/g, '\r\n');
+    expect(parseCSV(text).items.map(withoutId)).toEqual([horyuji, angkor].map(withoutId));
+  });
+
+  it('maps columns by header name, in any order', () => {
+    const text = 'correct_idx,question,option4,option3,option2,option1,is_japan,level\n2,Q?,d,c,b,a,FALSE,3級';
+    const [item] = parseCSV(text).items;
+    expect(item).toMatchObject({ question: 'Q?', option1: 'a', option4: 'd', correct_idx: 2, level: QuizLevel.LEVEL_3 });
+  });
+
+  it('reads headerless files from before the newer columns were added', () => {
+    const [item] = parseCSV('3級,"Q?","a","b","c","d",3,"","","",TRUE').items;
+    expect(item).toMatchObject({ question: 'Q?', option4: 'd', correct_idx: 3, is_japan: true, language: 'en' });
+  });
+
+  it('keeps "|" inside option notes', () => {
+    const piped = { ...angkor, option_notes: ['Thailand | Sukhothai', '', 'Laos | Luang Prabang', ''] };
+    expect(parseCSV(toCSV([piped])).items[0].option_notes).toEqual(piped.option_notes);
+  });
+
+  it('reads option notes from the single column of older files', () => {
+    const header = 'level,question,option1,option2,option3,option4,correct_idx,is_japan,option_notes';
+    const [item] = parseCSV(`${header}\n3級,Q?,a,b,c,d,1,FALSE,x|y|z|`).items;
+    expect(item.option_notes).toEqual(['x', 'y', 'z', '']);
+    const [headerless] = parseCSV('3級,"Q?","a","b","c","d",1,"","","",FALSE,"angkor","x|y||","en"').items;
+    expect(headerless).toMatchObject({ site_ids: ['angkor'], option_notes: ['x', 'y', '', ''], language: 'en' });
+  });
+
+  it('skips blank lines', () => {
+    expect(parseCSV(`${toCSV([angkor])}\n\n\n`).items).toHaveLength(1);
+    expect(parseCSV('').totalRows).toBe(0);
+  });
+
+  it('reports missing required columns', () => {
+    const result = parseCSV('question,option1\nQ?,a');
+    expect(result.items).toEqual([]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].message.en).toContain('option2, option3, option4');
+  });
+
+  it('reports rows with the wrong number of columns by their line', () => {
+    const result = parseCSV(`${toCSV([angkor])}\nonly,three,fields`);
+    expect(result.items).toHaveLength(1);
+    expect(result.errors.map(e => e.line)).toEqual([3]);
+  });
+
+  it('reports an unterminated quote and keeps the rows before it', () => {
+    const result = parseCSV(`${toCSV([angkor])}\n3級,"never closed`);
+    expect(result.items).toHaveLength(1);
+    expect(result.errors.map(e => e.line)).toEqual([3]);
+    expect(result.totalRows).toBe(2);
+  });
+
+  it('quarantines rows that fail validation', () => {
+    const result = parseCSV(toCSV([{ ...angkor, correct_idx: 7 }]));
+    expect(result.items).toEqual([]);
+    expect(result.quarantined).toHaveLength(1);
+    expect(result.quarantined[0].source).toBe('csv');
+  });
+
+  it('writes the header first', () => {
+    expect(toCSV([]).split('\n')[0]).toBe(CSV_HEADER);
+  });
+});
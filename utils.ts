@@ -1,16 +1,36 @@
-import { QuizItem } from './types';
+import { QuizItem, QuizFilter, CSVParseResult, CSVRowError, QuarantinedItem } from './types';
+import { validateQuizItem } from './validation';
+import { getSite } from './heritageSites';
+import { joinLocalized, localizedMessage } from './i18n';
 
-export const CSV_HEADER = "level,question,option1,option2,option3,option4,correct_idx,explanation,advanced_explanation,wiki_link,is_japan";
+export const CSV_HEADER = "level,question,option1,option2,option3,option4,correct_idx,explanation,advanced_explanation,wiki_link,is_japan,site_ids,option_note1,option_note2,option_note3,option_note4,language";
+
+// Older versions wrote the option notes into one "note|note|note|note" column, which
+// broke on notes containing "|". Headerless files all come from those versions, and
+// the ones from before site_ids / option_notes / language were added end early.
+const LEGACY_CSV_COLUMNS = "level,question,option1,option2,option3,option4,correct_idx,explanation,advanced_explanation,wiki_link,is_japan,site_ids,option_notes,language".split(',');
+const LEGACY_CSV_COLUMN_COUNTS = [11, 12, 13, 14];
 
 export const generateId = (): string => {
   return Math.random().toString(36).substring(2, 9);
 };
 
-// Check if a question text already exists in the current items
-export const isDuplicate = (newQuestion: string, existingItems: QuizItem[]): boolean => {
-  // Normalize string for comparison (trim spaces)
-  const normalizedNew = newQuestion.trim();
-  return existingItems.some(item => item.question.trim() === normalizedNew);
+export const EMPTY_FILTER: QuizFilter = { level: 'all', region: 'all', heritageRegion: 'all', siteId: 'all', language: 'all', text: '' };
+
+// Text search covers the question, options and explanations (case-insensitive)
+export const filterQuizItems = (items: QuizItem[], filter: QuizFilter): QuizItem[] => {
+  const query = filter.text.trim().toLowerCase();
+  return items.filter(item => {
+    if (filter.level !== 'all' && item.level !== filter.level) return false;
+    if (filter.language !== 'all' && item.language !== filter.language) return false;
+    if (filter.region === 'japan' && !item.is_japan) return false;
+    if (filter.region === 'overseas' && item.is_japan) return false;
+    if (filter.siteId !== 'all' && !item.site_ids?.includes(filter.siteId)) return false;
+    if (filter.heritageRegion !== 'all' && !item.site_ids?.some(id => getSite(id)?.region === filter.heritageRegion)) return false;
+    if (!query) return true;
+    return [item.question, item.option1, item.option2, item.option3, item.option4, item.explanation, item.advanced_explanation]
+      .some(text => (text || '').toLowerCase().includes(query));
+  });
 };
 
 // Fisher-Yates shuffle algorithm
@@ -23,43 +43,149 @@ export const shuffleArray = <T>(array: T[]): T[] => {
   return newArray;
 };
 
-export const parseCSV = (csvText: string): QuizItem[] => {
-  const lines = csvText.trim().split('\n');
+// Column names written by toCSV. Import maps columns by these names, so extra
+// or reordered columns in hand-edited files are fine.
+const CSV_COLUMNS = CSV_HEADER.split(',');
+const OPTION_NOTE_COLUMNS = ['option_note1', 'option_note2', 'option_note3', 'option_note4'];
+const REQUIRED_CSV_COLUMNS = ['level', 'question', 'option1', 'option2', 'option3', 'option4', 'correct_idx'];
+
+interface CSVRecord {
+  line: number; // 1-based physical line where the record starts
+  fields: string[];
+}
+
+// RFC 4180 tokenizer: quoted fields may contain commas, escaped quotes ("")
+// and line breaks. Expects line endings already normalized to LF.
+const tokenizeCSV = (text: string): { records: CSVRecord[]; unterminatedLine: number | null } => {
+  const records: CSVRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    return { records, unterminatedLine: recordLine };
+  }
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+  return { records, unterminatedLine: null };
+};
+
+const isBlankRecord = (fields: string[]) => fields.every(f => f.trim() === '');
+
+export const parseCSV = (csvText: string): CSVParseResult => {
+  // Excel prepends a UTF-8 BOM and writes CRLF line endings
+  const text = csvText.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const { records, unterminatedLine } = tokenizeCSV(text);
   const items: QuizItem[] = [];
-  
-  // Skip header if present
-  const startIndex = lines[0].startsWith('level,question') ? 1 : 0;
+  const errors: CSVRowError[] = [];
+  const quarantined: QuarantinedItem[] = [];
 
-  for (let i = startIndex; i < lines.length; i++) {
-    // Simple CSV parser handling standard comma separation. 
-    // Note: This basic parser assumes no commas inside the fields for simplicity. 
-    
-    const row = lines[i].split(','); 
-    
-    if (row.length >= 11) {
-      items.push({
-        id: generateId(),
-        level: row[0],
-        question: row[1],
-        option1: row[2],
-        option2: row[3],
-        option3: row[4],
-        option4: row[5],
-        correct_idx: parseInt(row[6], 10),
-        explanation: row[7],
-        advanced_explanation: row[8],
-        wiki_link: row[9],
-        is_japan: row[10].toUpperCase() === 'TRUE',
-      });
+  const rows = records.filter(r => !isBlankRecord(r.fields));
+  if (rows.length === 0) {
+    return { items, errors, quarantined, totalRows: 0 };
+  }
+
+  // Map columns by header name. Files without a header row are read in the old toCSV order.
+  const headerCells = rows[0].fields.map(f => f.trim().toLowerCase());
+  const hasHeader = headerCells.includes('question');
+  const columns = hasHeader ? headerCells
+    : LEGACY_CSV_COLUMN_COUNTS.includes(rows[0].fields.length) ? LEGACY_CSV_COLUMNS.slice(0, rows[0].fields.length)
+    : CSV_COLUMNS;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  if (hasHeader) {
+    const missing = REQUIRED_CSV_COLUMNS.filter(c => !columns.includes(c));
+    if (missing.length > 0) {
+      errors.push({ line: rows[0].line, message: localizedMessage('import.parse.missingColumns', { columns: missing.join(', ') }) });
+      return { items, errors, quarantined, totalRows: dataRows.length };
+    }
+  }
+
+  const indexOf = (name: string) => columns.indexOf(name);
+
+  for (const row of dataRows) {
+    if (row.fields.length !== columns.length) {
+      errors.push({ line: row.line, message: localizedMessage('import.parse.columnCount', { expected: columns.length, actual: row.fields.length }) });
+      continue;
     }
+
+    const get = (name: string) => {
+      const idx = indexOf(name);
+      return idx >= 0 ? row.fields[idx] : '';
+    };
+
+    const raw: Record<string, string | string[]> = {};
+    CSV_COLUMNS.forEach(name => {
+      if (indexOf(name) >= 0 && !OPTION_NOTE_COLUMNS.includes(name)) raw[name] = get(name);
+    });
+    if (OPTION_NOTE_COLUMNS.some(name => indexOf(name) >= 0)) {
+      raw.option_notes = OPTION_NOTE_COLUMNS.map(get);
+    } else if (indexOf('option_notes') >= 0) {
+      raw.option_notes = get('option_notes');
+    }
+
+    const { item, issues } = validateQuizItem({ ...raw, id: generateId() });
+    if (issues.length > 0) {
+      errors.push({ line: row.line, message: joinLocalized(issues.map(i => i.message), ' / ') });
+      quarantined.push({ item, issues, source: 'csv', quarantinedAt: Date.now() });
+      continue;
+    }
+    items.push(item);
   }
-  return items;
+
+  if (unterminatedLine !== null) {
+    errors.push({ line: unterminatedLine, message: localizedMessage('import.parse.unterminatedQuote') });
+  }
+
+  return { items, errors, quarantined, totalRows: dataRows.length + (unterminatedLine !== null ? 1 : 0) };
 };
 
 export const toCSV = (items: QuizItem[]): string => {
   const rows = items.map(item => {
-    // Escape commas in text fields if necessary (simplified)
-    const clean = (str: string) => `"${str.replace(/"/g, '""')}"`;
+    // Quote every text field; embedded quotes are doubled per RFC 4180
+    const clean = (str: string) => `"${(str ?? '').replace(/"/g, '""')}"`;
     
     return [
       item.level,
@@ -71,16 +197,19 @@ export const toCSV = (items: QuizItem[]): string => {
       item.correct_idx,
       clean(item.explanation),
       clean(item.advanced_explanation),
-      item.wiki_link,
-      item.is_japan ? 'TRUE' : 'FALSE'
+      clean(item.wiki_link),
+      item.is_japan ? 'TRUE' : 'FALSE',
+      clean((item.site_ids ?? []).join(';')),
+      ...OPTION_NOTE_COLUMNS.map((_, i) => clean(item.option_notes?.[i] ?? '')),
+      item.language
     ].join(',');
   });
 
   return [CSV_HEADER, ...rows].join('\n');
 };
 
-export const downloadCSV = (content: string, filename: string) => {
-  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
   const link = document.createElement('a');
   if (link.download !== undefined) {
     const url = URL.createObjectURL(blob);
@@ -91,4 +220,4 @@ export const downloadCSV = (content: string, filename: string) => {
     link.click();
     document.body.removeChild(link);
   }
-};
\ No newline at end of file
+};
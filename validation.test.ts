@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, normalizeLanguage, normalizeLevel, validateQuizItem, validateQuizItems } from './validation';
+import { QuizLevel } from './types';
+import { angkor, horyuji } from './testFixtures';
+
+const fields = (issues: { field: string }[]) => issues.map(i => i.field);
+
+describe('normalizeLevel', () => {
+  it.each([
+    ['3級', QuizLevel.LEVEL_3],
+    ['３級', QuizLevel.LEVEL_3],
+    [2, QuizLevel.LEVEL_2],
+    ['準一級', QuizLevel.LEVEL_PRE_1],
+    ['準１級', QuizLevel.LEVEL_PRE_1],
+    ['pre-1', QuizLevel.LEVEL_PRE_1],
+    ['Level 1', QuizLevel.LEVEL_1],
+  ])('reads %s', (value, level) => {
+    expect(normalizeLevel(value)).toBe(level);
+  });
+
+  it.each(['準2級', '4級', '', null])('rejects %s', value => {
+    expect(normalizeLevel(value)).toBeNull();
+  });
+});
+
+describe('normalizeLanguage / detectLanguage', () => {
+  it('reads common spellings', () => {
+    expect(normalizeLanguage('JA')).toBe('ja');
+    expect(normalizeLanguage('日本語')).toBe('ja');
+    expect(normalizeLanguage('English')).toBe('en');
+    expect(normalizeLanguage('fr')).toBeNull();
+  });
+
+  it('judges untagged questions by their text', () => {
+    expect(detectLanguage('富士山はどこ？')).toBe('ja');
+    expect(detectLanguage('Where is Mount Fuji?')).toBe('en');
+  });
+});
+
+describe('validateQuizItem', () => {
+  it('accepts a valid item unchanged', () => {
+    const { item, issues, repairs } = validateQuizItem(horyuji);
+    expect(issues).toEqual([]);
+    expect(repairs).toEqual([]);
+    expect(item).toEqual(horyuji);
+  });
+
+  it('repairs what it safely can', () => {
+    const { item, issues, repairs } = validateQuizItem({
+      ...angkor,
+      question: `  ${angkor.question}  `,
+      level: '３級',
+      correct_idx: '1',
+      is_japan: 'no',
+      wiki_link: 'http://en.m.wikipedia.org/wiki/Angkor',
+      site_ids: 'angkor;not-a-site',
+      language: undefined,
+    });
+    expect(issues).toEqual([]);
+    expect(repairs).toHaveLength(7);
+    expect(item).toMatchObject({
+      question: angkor.question,
+      level: QuizLevel.LEVEL_3,
+      correct_idx: 1,
+      is_japan: false,
+      wiki_link: 'https://en.wikipedia.org/wiki/Angkor',
+      site_ids: ['angkor'],
+      language: 'en',
+    });
+  });
+
+  it('gives items without an id a new one', () => {
+    expect(validateQuizItem({ ...angkor, id: '' }).item.id).toBeTruthy();
+  });
+
+  it('reports problems it cannot fix, in both languages', () => {
+    const { issues } = validateQuizItem({
+      ...angkor,
+      question: '',
+      option2: 'thailand ',
+      level: '準2級',
+      correct_idx: 4,
+      wiki_link: 'https://example.com/angkor',
+      is_japan: 'maybe',
+    });
+    expect(fields(issues)).toEqual(['question', 'option2', 'level', 'correct_idx', 'wiki_link', 'is_japan']);
+    expect(issues[1].message).toEqual({ ja: '選択肢1と選択肢2が重複しています', en: 'Choices 1 and 2 are the same' });
+  });
+
+  it('pads option notes to the four options and drops empty ones', () => {
+    expect(validateQuizItem({ ...angkor, option_notes: 'a|b' }).item.option_notes).toEqual(['a', 'b', '', '']);
+    expect(validateQuizItem({ ...angkor, option_notes: ['', '', '', ''] }).item.option_notes).toBeUndefined();
+  });
+
+  it('survives input that is not an object', () => {
+    expect(fields(validateQuizItem(null).issues)).toContain('question');
+  });
+});
+
+describe('validateQuizItems', () => {
+  it('splits valid, repaired and quarantined items', () => {
+    const repairedInput = { ...angkor, id: 'r', level: '3' };
+    const { valid, repaired, quarantined } = validateQuizItems([horyuji, repairedInput, { ...angkor, id: 'x', option1: '' }], 'import');
+    expect(valid.map(i => i.id)).toEqual([horyuji.id, 'r']);
+    expect(repaired.map(i => i.id)).toEqual(['r']);
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0]).toMatchObject({ source: 'import', item: { id: 'x' } });
+  });
+});
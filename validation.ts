@@ -0,0 +1,236 @@
+import { Language, LocalizedText, QuizItem, QuizLevel, ValidationIssue, QuarantinedItem, QuizItemSource } from './types';
+import { generateId } from './utils';
+import { localizedMessage } from './i18n';
+import { getSite } from './heritageSites';
+
+const OPTION_FIELDS = ['option1', 'option2', 'option3', 'option4'] as const;
+
+// Only Wikipedia articles are accepted as reference links (any language, mobile or desktop)
+const WIKIPEDIA_URL = /^https:\/\/[a-z-]+\.wikipedia\.org\/wiki\/\S+$/;
+
+export interface ValidationResult {
+  item: QuizItem;       // Repaired item (still contains problems if issues is non-empty)
+  issues: ValidationIssue[];
+  repairs: LocalizedText[]; // Human readable list of automatic fixes that were applied
+}
+
+// Normalize level notations such as "準一級", "準１級", "pre-1", "3" to QuizLevel
+export const normalizeLevel = (value: unknown): QuizLevel | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = String(value)
+    .normalize('NFKC')
+    .replace(/\s+/g, '')
+    .replace(/一/g, '1')
+    .replace(/二/g, '2')
+    .replace(/三/g, '3')
+    .toLowerCase();
+
+  const match = text.match(/^(準|pre-?)?(?:level)?([123])(級|kyu)?$/);
+  if (!match) return null;
+  const isPre = !!match[1];
+  switch (match[2]) {
+    case '1': return isPre ? QuizLevel.LEVEL_PRE_1 : QuizLevel.LEVEL_1;
+    case '2': return isPre ? null : QuizLevel.LEVEL_2;
+    case '3': return isPre ? null : QuizLevel.LEVEL_3;
+    default: return null;
+  }
+};
+
+// Coerce common boolean spellings from CSV / JSON ("TRUE", "1", "yes", "はい")
+const coerceBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : null;
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'y', 'はい'].includes(text)) return true;
+  if (['false', '0', 'no', 'n', 'いいえ', ''].includes(text)) return false;
+  return null;
+};
+
+const toText = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value === null || value === undefined) return '';
+  return String(value);
+};
+
+const normalizeForCompare = (text: string) => text.normalize('NFKC').trim().toLowerCase();
+
+// Japanese kana or kanji anywhere in the text
+const JAPANESE_TEXT = /[\u3040-\u30ff\u4e00-\u9fff]/;
+
+// Normalize language notations ("JA", "english", "日本語") to Language
+export const normalizeLanguage = (value: unknown): Language | null => {
+  const text = toText(value).trim().toLowerCase();
+  if (['ja', 'jp', 'jpn', 'japanese', '日本語'].includes(text)) return 'ja';
+  if (['en', 'eng', 'english', '英語'].includes(text)) return 'en';
+  return null;
+};
+
+// Questions without a language (older data, foreign formats) are judged by their text
+export const detectLanguage = (text: string): Language => JAPANESE_TEXT.test(text) ? 'ja' : 'en';
+
+// Check a single item against the schema rules and apply safe repairs
+export const validateQuizItem = (raw: any): ValidationResult => {
+  const source = raw && typeof raw === 'object' ? raw : {};
+  const issues: ValidationIssue[] = [];
+  const repairs: LocalizedText[] = [];
+
+  const text = (field: string, required: boolean): string => {
+    const original = source[field];
+    const value = toText(original).trim();
+    if (typeof original === 'string' && original !== value) {
+      repairs.push(localizedMessage('validation.trimmed', { field }));
+    }
+    if (required && value === '') {
+      issues.push({ field, message: localizedMessage('validation.empty', { field }) });
+    }
+    return value;
+  };
+
+  // id
+  let id = toText(source.id).trim();
+  if (!id) {
+    id = generateId();
+  }
+
+  // Text fields
+  const question = text('question', true);
+  const options = OPTION_FIELDS.map(f => text(f, true));
+  const explanation = text('explanation', false);
+  const advancedExplanation = text('advanced_explanation', false);
+
+  const seen = new Map<string, number>();
+  options.forEach((opt, i) => {
+    if (!opt) return;
+    const key = normalizeForCompare(opt);
+    const first = seen.get(key);
+    if (first !== undefined) {
+      issues.push({ field: OPTION_FIELDS[i], message: localizedMessage('validation.duplicateOption', { first: first + 1, second: i + 1 }) });
+    } else {
+      seen.set(key, i);
+    }
+  });
+
+  // Level
+  let level: QuizLevel | string = toText(source.level).trim();
+  const normalizedLevel = normalizeLevel(source.level);
+  if (normalizedLevel) {
+    if (normalizedLevel !== source.level) {
+      repairs.push(localizedMessage('validation.levelNormalized', { from: toText(source.level), to: normalizedLevel }));
+    }
+    level = normalizedLevel;
+  } else {
+    issues.push({ field: 'level', message: localizedMessage('validation.unknownLevel', { level }) });
+  }
+
+  // Correct answer index
+  let correctIdx = source.correct_idx;
+  if (typeof correctIdx === 'string' && /^\s*\d+\s*$/.test(correctIdx)) {
+    correctIdx = parseInt(correctIdx, 10);
+    repairs.push(localizedMessage('validation.correctIdxConverted'));
+  }
+  if (typeof correctIdx !== 'number' || !Number.isInteger(correctIdx) || correctIdx < 0 || correctIdx > 3) {
+    issues.push({ field: 'correct_idx', message: localizedMessage('validation.correctIdxRange', { value: toText(source.correct_idx) || localizedMessage('validation.emptyValue') }) });
+    correctIdx = Number.isFinite(correctIdx) ? correctIdx : -1;
+  }
+
+  // Wikipedia link (optional, but must point to Wikipedia when present)
+  let wikiLink = toText(source.wiki_link).trim();
+  if (wikiLink) {
+    const repaired = wikiLink
+      .replace(/^http:\/\//, 'https://')
+      .replace(/^https:\/\/([a-z-]+)\.m\.wikipedia\.org\//, 'https://$1.wikipedia.org/');
+    if (repaired !== wikiLink) {
+      repairs.push(localizedMessage('validation.wikiNormalized'));
+      wikiLink = repaired;
+    }
+    if (!WIKIPEDIA_URL.test(wikiLink)) {
+      issues.push({ field: 'wiki_link', message: localizedMessage('validation.notWikipedia', { url: wikiLink }) });
+    }
+  }
+
+  // Japan flag
+  let isJapan = coerceBoolean(source.is_japan);
+  if (isJapan === null) {
+    issues.push({ field: 'is_japan', message: localizedMessage('validation.isJapanInvalid', { value: toText(source.is_japan) }) });
+    isJapan = false;
+  } else if (typeof source.is_japan !== 'boolean') {
+    repairs.push(localizedMessage('validation.isJapanConverted'));
+  }
+
+  // Heritage site links (optional). CSV stores them as "id;id".
+  let siteIds: string[] | undefined;
+  if (source.site_ids !== undefined && source.site_ids !== null && source.site_ids !== '') {
+    const rawIds: unknown[] = Array.isArray(source.site_ids) ? source.site_ids : toText(source.site_ids).split(/[;,\s]+/);
+    const ids = rawIds.map(id => toText(id).trim()).filter(Boolean);
+    siteIds = [...new Set(ids.filter(id => getSite(id)))];
+    if (!Array.isArray(source.site_ids) || siteIds.length !== source.site_ids.length) {
+      repairs.push(localizedMessage('validation.siteIdsNormalized'));
+    }
+  }
+
+  // Language: explicit value, else judged from the question text
+  let language = normalizeLanguage(source.language);
+  if (!language) {
+    language = detectLanguage(question);
+    repairs.push(source.language
+      ? localizedMessage('validation.languageNormalized', { from: toText(source.language), to: language })
+      : localizedMessage('validation.languageDetected', { language }));
+  } else if (language !== source.language) {
+    repairs.push(localizedMessage('validation.languageNormalized', { from: toText(source.language), to: language }));
+  }
+
+  // Per-option notes (optional). CSV files from older versions store them as "note|note|note|note".
+  let optionNotes: string[] | undefined;
+  if (source.option_notes !== undefined && source.option_notes !== null && source.option_notes !== '') {
+    const rawNotes: unknown[] = Array.isArray(source.option_notes) ? source.option_notes : toText(source.option_notes).split('|');
+    optionNotes = OPTION_FIELDS.map((_, i) => toText(rawNotes[i]).trim());
+    if (!Array.isArray(source.option_notes) || rawNotes.length !== OPTION_FIELDS.length) {
+      repairs.push(localizedMessage('validation.optionNotesNormalized'));
+    }
+    if (optionNotes.every(note => !note)) optionNotes = undefined;
+  }
+
+  const item: QuizItem = {
+    ...source,
+    id,
+    level,
+    language,
+    question,
+    option1: options[0],
+    option2: options[1],
+    option3: options[2],
+    option4: options[3],
+    correct_idx: correctIdx,
+    explanation,
+    advanced_explanation: advancedExplanation,
+    wiki_link: wikiLink,
+    is_japan: isJapan,
+    site_ids: siteIds,
+    option_notes: optionNotes,
+  };
+  if (!siteIds) delete item.site_ids;
+  if (!optionNotes) delete item.option_notes;
+
+  return { item, issues, repairs };
+};
+
+// Split a list into valid (repaired) items and quarantined items that need human review.
+// `repaired` is the subset of `valid` that was changed by an automatic fix.
+export const validateQuizItems = (raws: any[], source: QuizItemSource): { valid: QuizItem[], repaired: QuizItem[], quarantined: QuarantinedItem[] } => {
+  const valid: QuizItem[] = [];
+  const repaired: QuizItem[] = [];
+  const quarantined: QuarantinedItem[] = [];
+  const now = Date.now();
+
+  for (const raw of raws) {
+    const result = validateQuizItem(raw);
+    if (result.issues.length === 0) {
+      valid.push(result.item);
+      if (result.repairs.length > 0) repaired.push(result.item);
+    } else {
+      quarantined.push({ item: result.item, issues: result.issues, source, quarantinedAt: now });
+    }
+  }
+  return { valid, repaired, quarantined };
+};
@@ -1,7 +1,27 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { readFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+
+// Files copied from public/ that the offline shell needs
+const PUBLIC_PRECACHE = ['manifest.webmanifest', 'icon.svg'];
+
+// Emit sw.js with the list of built files to precache. The build id is derived from
+// the hashed file names, so every deploy with changed assets installs a new worker.
+const serviceWorker = (): Plugin => ({
+  name: 'precache-service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const files = ['./', ...Object.keys(bundle).filter(file => !file.endsWith('.map')), ...PUBLIC_PRECACHE];
+    const buildId = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const source = readFileSync(new URL('./sw.js', import.meta.url), 'utf-8')
+      .replace('__BUILD_ID__', JSON.stringify(buildId))
+      .replace('__PRECACHE_FILES__', JSON.stringify(files));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
-});
\ No newline at end of file
+  plugins: [react(), serviceWorker()],
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { buildWorksheets, MAX_WORKSHEET_COPIES, renderWorksheetHtml, seededRandom } from './worksheet';
+import { QuizItem, WorksheetOptions } from './types';
+import { makeItem, optionsOf } from './testFixtures';
+
+const items = Array.from({ length: 30 }, (_, n) => makeItem(n, { correct_idx: n % 4 }));
+const options: WorksheetOptions = { questionCount: 10, copies: 3, answerKey: true, explanations: true, seed: 'ABC123' };
+
+const optionText = (item: QuizItem, idx: number) => optionsOf(item)[idx];
+
+describe('seededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = seededRandom('seed');
+    const b = seededRandom('seed');
+    const c = seededRandom('other');
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+    first.forEach(n => expect(n >= 0 && n < 1).toBe(true));
+  });
+});
+
+describe('buildWorksheets', () => {
+  it('builds the same sheets from the same seed', () => {
+    expect(buildWorksheets(items, options)).toEqual(buildWorksheets(items, options));
+    expect(buildWorksheets(items, { ...options, seed: 'XYZ789' })).not.toEqual(buildWorksheets(items, options));
+  });
+
+  it('asks the same questions in every version, each in its own order', () => {
+    const sheets = buildWorksheets(items, options);
+    expect(sheets.map(s => s.version)).toEqual(['A', 'B', 'C']);
+    const ids = (i: number) => sheets[i].questions.map(q => q.item.id);
+    expect(ids(0)).toHaveLength(10);
+    expect(new Set(ids(0)).size).toBe(10);
+    expect([...ids(1)].sort()).toEqual([...ids(0)].sort());
+    expect([...ids(2)].sort()).toEqual([...ids(0)].sort());
+    expect(ids(1)).not.toEqual(ids(0));
+  });
+
+  it('points the answer key at the correct option after shuffling', () => {
+    for (const sheet of buildWorksheets(items, options)) {
+      for (const { item, optionOrder, answerPos } of sheet.questions) {
+        expect([...optionOrder].sort()).toEqual([0, 1, 2, 3]);
+        expect(optionText(item, optionOrder[answerPos])).toBe(optionText(item, item.correct_idx));
+      }
+    }
+  });
+
+  it('keeps the number of versions within A-Z', () => {
+    expect(buildWorksheets(items, { ...options, copies: 0 })).toHaveLength(1);
+    expect(buildWorksheets(items, { ...options, copies: 100 })).toHaveLength(MAX_WORKSHEET_COPIES);
+  });
+});
+
+describe('renderWorksheetHtml', () => {
+  it('renders the same document from the same seed and date', () => {
+    const render = () => renderWorksheetHtml(buildWorksheets(items, options), options, 'ja', { now: 0 });
+    expect(render()).toBe(render());
+  });
+
+  it('leaves the answer key out when it is turned off', () => {
+    const sheets = buildWorksheets(items, options);
+    expect(renderWorksheetHtml(sheets, options, 'en', { now: 0 })).toContain('Answer key');
+    expect(renderWorksheetHtml(sheets, { ...options, answerKey: false }, 'en', { now: 0 })).not.toContain('Answer key');
+  });
+});
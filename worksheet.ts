@@ -0,0 +1,187 @@
+import { Language, LocalizedText, QuizItem, QuizLevel, WorksheetOptions } from './types';
+import { levelLabel, LOCALES } from './i18n';
+
+export const DEFAULT_WORKSHEET_OPTIONS: Omit<WorksheetOptions, 'seed'> = {
+  questionCount: 20,
+  copies: 1,
+  answerKey: true,
+  explanations: true,
+};
+
+// Versions are lettered A-Z
+export const MAX_WORKSHEET_COPIES = 26;
+
+type WorksheetLabel = 'title' | 'answerKey' | 'answers' | 'version' | 'name' | 'score' | 'trivia' | 'seed';
+
+const LABELS: Record<WorksheetLabel, LocalizedText> = {
+  title: { ja: '世界遺産検定 練習問題', en: 'World Heritage Exam Practice' },
+  answerKey: { ja: '解答・解説', en: 'Answer key' },
+  answers: { ja: '解答', en: 'Answers' },
+  version: { ja: '版', en: 'Version' },
+  name: { ja: '氏名', en: 'Name' },
+  score: { ja: '得点', en: 'Score' },
+  trivia: { ja: '豆知識', en: 'Trivia' },
+  seed: { ja: 'シード', en: 'Seed' },
+};
+
+const OPTION_MARKS = ['①', '②', '③', '④'];
+
+export interface WorksheetQuestion {
+  item: QuizItem;
+  optionOrder: number[]; // Indexes into option1..option4, in printed order
+  answerPos: number;     // Printed position of the correct option
+}
+
+export interface Worksheet {
+  version: string;
+  questions: WorksheetQuestion[];
+}
+
+// FNV-1a, so any text can serve as a seed
+const hashSeed = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and identical in every browser
+export const seededRandom = (seed: string): () => number => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const seededShuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const randomSeed = (): string => Math.random().toString(36).slice(2, 8).toUpperCase();
+
+// Every version asks the same questions, each in its own question and option order
+export const buildWorksheets = (items: QuizItem[], options: WorksheetOptions): Worksheet[] => {
+  const picked = seededShuffle(items, seededRandom(options.seed)).slice(0, options.questionCount);
+  const copies = Math.min(Math.max(1, options.copies), MAX_WORKSHEET_COPIES);
+  return Array.from({ length: copies }, (_, i) => {
+    const version = String.fromCharCode(65 + i);
+    const random = seededRandom(`${options.seed}/${version}`);
+    return {
+      version,
+      questions: seededShuffle(picked, random).map(item => {
+        const optionOrder = seededShuffle([0, 1, 2, 3], random);
+        return { item, optionOrder, answerPos: optionOrder.indexOf(item.correct_idx) };
+      }),
+    };
+  });
+};
+
+const escapeHtml = (text: string): string =>
+  (text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br>');
+
+const optionText = (item: QuizItem, idx: number): string => [item.option1, item.option2, item.option3, item.option4][idx];
+
+const STYLE = `
+@page { size: A4; margin: 15mm; }
+* { box-sizing: border-box; }
+body { font-family: "Hiragino Sans", "Noto Sans JP", "Yu Gothic", sans-serif; color: #111; font-size: 10.5pt; line-height: 1.5; margin: 0; }
+.sheet { break-after: page; }
+.sheet:last-of-type { break-after: auto; }
+header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid #111; padding-bottom: 4mm; margin-bottom: 5mm; }
+h1 { font-size: 15pt; margin: 0; }
+.meta { font-size: 9pt; color: #444; }
+.fields { display: flex; gap: 8mm; font-size: 10pt; }
+.field { border-bottom: 1px solid #111; min-width: 35mm; padding-right: 2mm; }
+ol.questions { padding-left: 8mm; margin: 0; }
+ol.questions > li { break-inside: avoid; margin-bottom: 4mm; }
+.options { list-style: none; padding: 0; margin: 1mm 0 0; display: grid; grid-template-columns: 1fr 1fr; gap: 0.5mm 6mm; }
+table.key { width: 100%; border-collapse: collapse; }
+table.key td { border-top: 1px solid #ccc; padding: 1.5mm 2mm; vertical-align: top; }
+table.key td.num { width: 10mm; font-weight: bold; }
+table.key td.answer { width: 45mm; font-weight: bold; }
+.trivia { color: #444; font-size: 9pt; margin-top: 1mm; }
+@media screen { body { background: #eee; } .sheet { background: #fff; max-width: 210mm; margin: 10mm auto; padding: 15mm; box-shadow: 0 1px 4px rgba(0,0,0,.2); } }
+`;
+
+// Printable HTML: one question sheet per version, then the answer keys on separate pages.
+// With `autoPrint` the print dialog opens on load, where "Save as PDF" gives a PDF.
+export const renderWorksheetHtml = (
+  sheets: Worksheet[],
+  options: WorksheetOptions,
+  language: Language,
+  { autoPrint = false, now = Date.now() }: { autoPrint?: boolean, now?: number } = {}
+): string => {
+  const label = (key: WorksheetLabel) => LABELS[key][language];
+  const items = sheets[0]?.questions.map(q => q.item) ?? [];
+  const levels = [...new Set(items.map(item => item.level))]
+    .sort((a, b) => Object.values(QuizLevel).indexOf(a as QuizLevel) - Object.values(QuizLevel).indexOf(b as QuizLevel))
+    .map(level => levelLabel(level, language))
+    .join(' / ');
+  const date = new Date(now).toLocaleDateString(LOCALES[language]);
+  const multiple = sheets.length > 1;
+
+  const header = (title: string, version: string, withFields: boolean) => `
+<header>
+  <div>
+    <h1>${escapeHtml(title)}</h1>
+    <div class="meta">${escapeHtml(levels)} ・ ${escapeHtml(date)}${multiple ? ` ・ ${label('version')} ${version}` : ''} ・ ${label('seed')} ${escapeHtml(options.seed)}</div>
+  </div>
+  ${withFields ? `<div class="fields"><span class="field">${label('name')}:</span><span class="field">${label('score')}: &nbsp; / ${items.length}</span></div>` : ''}
+</header>`;
+
+  const questionSheet = (sheet: Worksheet) => `
+<section class="sheet">
+  ${header(label('title'), sheet.version, true)}
+  <ol class="questions">
+    ${sheet.questions.map(({ item, optionOrder }) => `
+    <li>
+      <div>${escapeHtml(item.question)}</div>
+      <ul class="options">
+        ${optionOrder.map((idx, pos) => `<li>${OPTION_MARKS[pos]} ${escapeHtml(optionText(item, idx))}</li>`).join('')}
+      </ul>
+    </li>`).join('')}
+  </ol>
+</section>`;
+
+  const answerSheet = (sheet: Worksheet) => `
+<section class="sheet">
+  ${header(`${label('title')} ${options.explanations ? label('answerKey') : label('answers')}`, sheet.version, false)}
+  <table class="key">
+    ${sheet.questions.map(({ item, answerPos }, i) => `
+    <tr>
+      <td class="num">${i + 1}</td>
+      <td class="answer">${OPTION_MARKS[answerPos]} ${escapeHtml(optionText(item, item.correct_idx))}</td>
+      ${options.explanations ? `<td>${escapeHtml(item.explanation)}${item.advanced_explanation ? `<div class="trivia">${label('trivia')}: ${escapeHtml(item.advanced_explanation)}</div>` : ''}</td>` : ''}
+    </tr>`).join('')}
+  </table>
+</section>`;
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(label('title'))} ${escapeHtml(date)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${sheets.map(questionSheet).join('\n')}
+${options.answerKey ? sheets.map(answerSheet).join('\n') : ''}
+${autoPrint ? '<script>window.addEventListener("load", function () { window.print(); });</script>' : ''}
+</body>
+</html>`;
+};